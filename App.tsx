@@ -1,16 +1,30 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { editImage as geminiEditImage } from './services/geminiService.js';
-import { TRANSFORMATIONS } from './constants';
-import type { GeneratedContent, Transformation, User } from './types';
+import type { GeneratedContent, Job, OutputSettings, Transformation, User, UserPreset } from './types';
 import TransformationSelector from './components/TransformationSelector';
+import PresetEditorModal from './components/PresetEditorModal';
+import BatchModal from './components/BatchModal';
+import TemplateParameterForm, { getDefaultParameterValues } from './components/TemplateParameterForm';
+import type { TemplateParameterValues } from './components/TemplateParameterForm';
+import type { PresetFormValues } from './components/PresetEditorModal';
 import ResultDisplay from './components/ResultDisplay';
+import type { ContactSheetItem } from './components/ResultDisplay';
 import LoadingSpinner from './components/LoadingSpinner';
 import ErrorMessage from './components/ErrorMessage';
 import ImageEditorCanvas from './components/ImageEditorCanvas';
-import { dataUrlToFile, embedWatermark, loadImage, resizeImageToMatch, downloadImage } from './utils/fileUtils';
+import { alignMaskToImage, dataUrlToFile, getImageFilename, loadImage, resizeImageToMatch, downloadImage } from './utils/fileUtils';
+import { uploadDataUrls } from './utils/assetUtils';
+import { postWithIdempotencyKey } from './utils/requestUtils';
 import ImagePreviewModal from './components/ImagePreviewModal';
 import MultiImageUploader from './components/MultiImageUploader';
 import HistoryPanel from './components/HistoryPanel';
+import LineageModal from './components/LineageModal';
+import SessionTimeline from './components/SessionTimeline';
+import AspectRatioSelector from './components/AspectRatioSelector';
+import OutpaintControls, { DEFAULT_OUTPAINT_SETTINGS, toOutpaintRequest } from './components/OutpaintControls';
+import type { OutpaintSettings } from './components/OutpaintControls';
+import OutputSizeSelector from './components/OutputSizeSelector';
+import { useSessionTimeline } from './utils/sessionTimeline';
 import { useTranslation } from './i18n/context';
 import LanguageSwitcher from './components/LanguageSwitcher';
 import ThemeSwitcher from './components/ThemeSwitcher';
@@ -21,6 +35,223 @@ import UserProfile from './auth/UserProfile';
 
 type ActiveTool = 'mask' | 'none';
 
+// 任务状态轮询间隔（毫秒）
+const JOB_POLL_INTERVAL_MS = 1000;
+
+/**
+ * 轮询服务器任务状态，直到任务成功或失败
+ */
+const waitForJob = async (
+  jobId: string,
+  token: string | null,
+  onProgress: (progressMessage: string | null) => void
+): Promise<Job<unknown, GeneratedContent>> => {
+  while (true) {
+    const response = await fetch(`http://localhost:3000/api/services/jobs/${jobId}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`
+      }
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('401');
+      }
+      throw new Error(`Failed to fetch job status. Status: ${response.statusText}`);
+    }
+
+    const job = await response.json();
+    if (job.status === 'succeeded') {
+      return job;
+    }
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Image generation failed');
+    }
+
+    onProgress(job.status === 'running' ? job.progressMessage : null);
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+};
+
+/**
+ * 从服务器获取转换效果目录（不含提示词）
+ */
+const fetchTransformations = async (): Promise<Transformation[]> => {
+  const response = await fetch('http://localhost:3000/api/transformations');
+  if (!response.ok) {
+    throw new Error(`Failed to fetch transformations. Status: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+// 单次编辑最多生成的候选结果数量（与服务端一致）
+const MAX_VARIANTS = 4;
+
+// 文生图可选的宽高比（服务端支持列表中的常用项）
+const TEXT_TO_IMAGE_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+// 用户预设的 transformationKey 前缀（与服务端一致）
+const PRESET_KEY_PREFIX = 'preset:';
+
+const EMPTY_PRESET_FORM: PresetFormValues = {
+  title: '',
+  emoji: '⭐',
+  prompt: '',
+  stepTwoPrompt: '',
+  isMultiImage: false,
+  isSecondaryOptional: false
+};
+
+/**
+ * 将用户预设转换为转换效果，和内置效果一起显示
+ */
+const presetToTransformation = (preset: UserPreset & { credits?: number }): Transformation => ({
+  key: `${PRESET_KEY_PREFIX}${preset.id}`,
+  titleKey: preset.title,
+  emoji: preset.emoji,
+  descriptionKey: preset.prompt,
+  isMultiImage: preset.isMultiImage,
+  isSecondaryOptional: preset.isSecondaryOptional,
+  credits: preset.credits,
+  presetId: preset.id
+});
+
+/**
+ * 请求预设接口，失败时抛出服务器返回的错误信息
+ */
+const requestPresets = async (path: string, method: string, body?: unknown): Promise<any> => {
+  const token = localStorage.getItem('token');
+  const response = await fetch(`http://localhost:3000/api/presets${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Preset request failed. Status: ${response.statusText}`);
+  }
+  return data;
+};
+
+// 生成历史每页加载的数量
+const GENERATIONS_PAGE_SIZE = 20;
+
+/**
+ * 分页获取服务器保存的生成记录
+ */
+const fetchGenerations = async (offset: number): Promise<{ items: GeneratedContent[]; total: number }> => {
+  const token = localStorage.getItem('token');
+  const response = await fetch(`http://localhost:3000/api/generations?limit=${GENERATIONS_PAGE_SIZE}&offset=${offset}`, {
+    headers: { 'Authorization': `Bearer ${token}` }
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch generations. Status: ${response.statusText}`);
+  }
+  const { generations, total } = await response.json();
+  return { items: generations.map((generation: { result: GeneratedContent }) => generation.result), total };
+};
+
+/**
+ * 将图片地址（data URL 或服务器图片地址）转换为 data URL
+ */
+const toDataUrl = async (imageUrl: string): Promise<string> => {
+  if (imageUrl.startsWith('data:')) return imageUrl;
+  const blob = await (await fetch(imageUrl)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * 保存转换效果顺序，当前未显示的效果（如未登录时的用户预设）保留在原有顺序之后
+ */
+const saveTransformationOrder = (transformations: Transformation[]) => {
+  try {
+    const orderToSave = transformations.map(t => t.key);
+    const currentKeys = new Set(orderToSave);
+    const savedOrder = JSON.parse(localStorage.getItem('transformationOrder') || '[]') as string[];
+    const hiddenKeys = savedOrder.filter(key => !currentKeys.has(key));
+    localStorage.setItem('transformationOrder', JSON.stringify([...orderToSave, ...hiddenKeys]));
+  } catch (e) {
+    console.error("Failed to save transformation order to localStorage", e);
+  }
+};
+
+/**
+ * 按 localStorage 中保存的顺序排列转换效果，新增的效果排在最后
+ */
+const applySavedOrder = (catalog: Transformation[]): Transformation[] => {
+  try {
+    const savedOrder = localStorage.getItem('transformationOrder');
+    if (savedOrder) {
+      const orderedKeys = JSON.parse(savedOrder) as string[];
+      const transformationMap = new Map(catalog.map(t => [t.key, t]));
+      
+      const orderedTransformations = orderedKeys
+        .map(key => transformationMap.get(key))
+        .filter((t): t is Transformation => !!t);
+
+      const savedKeysSet = new Set(orderedKeys);
+      const newTransformations = catalog.filter(t => !savedKeysSet.has(t.key));
+      
+      return [...orderedTransformations, ...newTransformations];
+    }
+  } catch (e) {
+    console.error("Failed to load or parse transformation order from localStorage", e);
+  }
+  return catalog;
+};
+
+/**
+ * 从服务器价格表查询服务价格，转换效果有单独定价时返回单独定价
+ */
+const fetchServicePrice = async (serviceKey: string, transformationKey?: string): Promise<number> => {
+  const query = transformationKey ? `?transformationKey=${encodeURIComponent(transformationKey)}` : '';
+  const response = await fetch(`http://localhost:3000/api/services/prices/${serviceKey}${query}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch service price. Status: ${response.statusText}`);
+  }
+  const { credits } = await response.json();
+  return credits;
+};
+
+/**
+ * 会话时间线记录的编辑状态
+ */
+interface EditorSnapshot {
+  primaryImageUrl: string | null;
+  primaryParentGenerationId: string | null;
+  secondaryImageUrl: string | null;
+  maskDataUrl: string | null;
+  selectedTransformation: Transformation | null;
+  customPrompt: string;
+  parameterValues: TemplateParameterValues;
+  generatedContent: GeneratedContent | null;
+}
+
+const isEmptySnapshot = (snapshot: EditorSnapshot): boolean =>
+  !snapshot.primaryImageUrl && !snapshot.secondaryImageUrl && !snapshot.selectedTransformation && !snapshot.generatedContent && !snapshot.customPrompt;
+
+/**
+ * 比较两个编辑状态，返回时间线记录的变更类型
+ * 生成开始时清空结果不单独记录，等结果返回后记为一次生成
+ */
+const describeEditorChange = (previous: EditorSnapshot, next: EditorSnapshot): string | null => {
+  if (isEmptySnapshot(next)) return isEmptySnapshot(previous) ? null : 'reset';
+  if (next.generatedContent && next.generatedContent !== previous.generatedContent) return 'result';
+  if (next.primaryImageUrl !== previous.primaryImageUrl || next.secondaryImageUrl !== previous.secondaryImageUrl) return 'image';
+  if (next.selectedTransformation?.key !== previous.selectedTransformation?.key) return 'transformation';
+  if (next.maskDataUrl !== previous.maskDataUrl) return 'mask';
+  if (next.customPrompt !== previous.customPrompt || next.parameterValues !== previous.parameterValues) return 'prompt';
+  return null;
+};
+
 const App: React.FC = () => {
   const { t } = useTranslation();
   const { user, isAuthenticated, getBalance } = useAuth();
@@ -28,31 +259,16 @@ const App: React.FC = () => {
   // 用于强制重新渲染组件，确保AuthContext的状态更新能被正确捕获
   const [forceUpdate, setForceUpdate] = useState(false);
   
-  const [transformations, setTransformations] = useState<Transformation[]>(() => {
-    try {
-      const savedOrder = localStorage.getItem('transformationOrder');
-      if (savedOrder) {
-        const orderedKeys = JSON.parse(savedOrder) as string[];
-        const transformationMap = new Map(TRANSFORMATIONS.map(t => [t.key, t]));
-        
-        const orderedTransformations = orderedKeys
-          .map(key => transformationMap.get(key))
-          .filter((t): t is Transformation => !!t);
-
-        const savedKeysSet = new Set(orderedKeys);
-        const newTransformations = TRANSFORMATIONS.filter(t => !savedKeysSet.has(t.key));
-        
-        return [...orderedTransformations, ...newTransformations];
-      }
-    } catch (e) {
-      console.error("Failed to load or parse transformation order from localStorage", e);
-    }
-    return TRANSFORMATIONS;
-  });
+  const [catalog, setCatalog] = useState<Transformation[]>([]);
+  const [presets, setPresets] = useState<UserPreset[]>([]);
+  const [transformations, setTransformations] = useState<Transformation[]>([]);
+  const [presetEditor, setPresetEditor] = useState<{ presetId: string | null; values: PresetFormValues } | null>(null);
 
   const [selectedTransformation, setSelectedTransformation] = useState<Transformation | null>(null);
   const [primaryImageUrl, setPrimaryImageUrl] = useState<string | null>(null);
   const [primaryFile, setPrimaryFile] = useState<File | null>(null);
+  // 主图来自之前的生成结果时对应的生成记录，提交编辑时作为父记录
+  const [primaryParentGenerationId, setPrimaryParentGenerationId] = useState<string | null>(null);
   const [secondaryImageUrl, setSecondaryImageUrl] = useState<string | null>(null);
   const [secondaryFile, setSecondaryFile] = useState<File | null>(null);
   const [generatedContent, setGeneratedContent] = useState<GeneratedContent | null>(null);
@@ -62,10 +278,26 @@ const App: React.FC = () => {
   const [maskDataUrl, setMaskDataUrl] = useState<string | null>(null);
   const [previewImageUrl, setPreviewImageUrl] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState<string>('');
+  const [parameterValues, setParameterValues] = useState<TemplateParameterValues>({});
+  const [variants, setVariants] = useState<number>(1);
+  const [outpaintSettings, setOutpaintSettings] = useState<OutpaintSettings>(DEFAULT_OUTPAINT_SETTINGS);
+  const [outputSettings, setOutputSettings] = useState<OutputSettings>({});
   const [activeTool, setActiveTool] = useState<ActiveTool>('none');
   const [history, setHistory] = useState<GeneratedContent[]>([]);
+  const [historyTotal, setHistoryTotal] = useState<number>(0);
   const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState<boolean>(false);
+  const [lineageGenerationId, setLineageGenerationId] = useState<string | null>(null);
+  const [isBatchModalOpen, setIsBatchModalOpen] = useState<boolean>(false);
   const [activeCategory, setActiveCategory] = useState<Transformation | null>(null);
+  // 风格对比：已选效果、是否进入上传确认页、各效果的结果
+  const [sweepSelection, setSweepSelection] = useState<Transformation[] | null>(null);
+  const [isSweepViewOpen, setIsSweepViewOpen] = useState<boolean>(false);
+  const [sweepResults, setSweepResults] = useState<ContactSheetItem[] | null>(null);
+  // 文生图：只需要提示词和宽高比
+  const [isTextToImageOpen, setIsTextToImageOpen] = useState<boolean>(false);
+  const [textToImagePrompt, setTextToImagePrompt] = useState<string>('');
+  const [aspectRatio, setAspectRatio] = useState<string>(TEXT_TO_IMAGE_ASPECT_RATIOS[0]);
+  const [textToImageCredits, setTextToImageCredits] = useState<number | null>(null);
   
   // Auth modal states
   const [isLoginModalOpen, setIsLoginModalOpen] = useState<boolean>(false);
@@ -74,25 +306,160 @@ const App: React.FC = () => {
   const [hasPendingGenerationRequest, setHasPendingGenerationRequest] = useState<boolean>(false);
   const [pendingGenerationType, setPendingGenerationType] = useState<'image' | null>(null);
 
+  // 从服务器加载转换效果目录
+  useEffect(() => {
+    const loadTransformations = async () => {
+      try {
+        setCatalog(await fetchTransformations());
+      } catch (e) {
+        console.error("Failed to load transformations", e);
+        setError(t('app.error.unknown'));
+      }
+    };
+    loadTransformations();
+  }, []);
+
+  // 打开文生图页面时查询当前价格
   useEffect(() => {
+    if (!isTextToImageOpen) return;
+    fetchServicePrice('ai-image-generate')
+      .then(setTextToImageCredits)
+      .catch(e => console.error("Failed to load image generation price", e));
+  }, [isTextToImageOpen]);
+
+  // 打开历史面板时从服务器加载第一页生成记录
+  useEffect(() => {
+    if (!isHistoryPanelOpen || !isAuthenticated) return;
+    fetchGenerations(0)
+      .then(({ items, total }) => {
+        setHistory(items);
+        setHistoryTotal(total);
+      })
+      .catch(e => console.error("Failed to load generations", e));
+  }, [isHistoryPanelOpen, isAuthenticated]);
+
+  // 退出登录后清空历史
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setHistory([]);
+      setHistoryTotal(0);
+    }
+  }, [isAuthenticated]);
+
+  const handleLoadMoreHistory = async () => {
     try {
-      const orderToSave = transformations.map(t => t.key);
-      localStorage.setItem('transformationOrder', JSON.stringify(orderToSave));
+      const { items, total } = await fetchGenerations(history.length);
+      setHistory(prev => [...prev, ...items]);
+      setHistoryTotal(total);
     } catch (e) {
-      console.error("Failed to save transformation order to localStorage", e);
+      console.error("Failed to load generations", e);
+    }
+  };
+
+  // 登录后加载用户预设
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setPresets([]);
+      return;
     }
-  }, [transformations]);
+    requestPresets('', 'GET')
+      .then(setPresets)
+      .catch(e => console.error("Failed to load presets", e));
+  }, [isAuthenticated]);
+
+  // 内置效果和用户预设按用户保存的顺序排列
+  useEffect(() => {
+    setTransformations(applySavedOrder([...catalog, ...presets.map(presetToTransformation)]));
+  }, [catalog, presets]);
 
+  const handleOrderChange = (newOrder: Transformation[]) => {
+    setTransformations(newOrder);
+    saveTransformationOrder(newOrder);
+  };
 
+  const handleOpenPresetEditor = (presetId: string | null, values: PresetFormValues) => {
+    if (!isAuthenticated) {
+      setError(t('presets.loginRequired'));
+      setIsLoginModalOpen(true);
+      return;
+    }
+    setPresetEditor({ presetId, values });
+  };
+
+  const handleEditPreset = (transformation: Transformation) => {
+    const preset = presets.find(p => p.id === transformation.presetId);
+    if (!preset) return;
+    handleOpenPresetEditor(preset.id, {
+      title: preset.title,
+      emoji: preset.emoji,
+      prompt: preset.prompt,
+      stepTwoPrompt: preset.stepTwoPrompt || '',
+      isMultiImage: preset.isMultiImage,
+      isSecondaryOptional: preset.isSecondaryOptional
+    });
+  };
+
+  const handleSavePreset = async (values: PresetFormValues) => {
+    const presetId = presetEditor?.presetId;
+    const saved: UserPreset = presetId
+      ? await requestPresets(`/${presetId}`, 'PUT', values)
+      : await requestPresets('', 'POST', values);
+
+    setPresets(prev => presetId ? prev.map(p => (p.id === saved.id ? saved : p)) : [...prev, saved]);
+    if (selectedTransformation?.presetId === saved.id) {
+      setSelectedTransformation(presetToTransformation(saved));
+    }
+  };
+
+  const handleDeletePreset = async (transformation: Transformation) => {
+    if (!transformation.presetId || !window.confirm(t('presets.deleteConfirm'))) return;
+    try {
+      await requestPresets(`/${transformation.presetId}`, 'DELETE');
+      setPresets(prev => prev.filter(p => p.id !== transformation.presetId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t('app.error.unknown'));
+    }
+  };
 
+  // 会话时间线：记录编辑状态的变化，支持撤销/重做
+  const editorSnapshot = useMemo<EditorSnapshot>(() => ({
+    primaryImageUrl,
+    primaryParentGenerationId,
+    secondaryImageUrl,
+    maskDataUrl,
+    selectedTransformation,
+    customPrompt,
+    parameterValues,
+    generatedContent
+  }), [primaryImageUrl, primaryParentGenerationId, secondaryImageUrl, maskDataUrl, selectedTransformation, customPrompt, parameterValues, generatedContent]);
 
+  const restoreEditorSnapshot = useCallback((snapshot: EditorSnapshot) => {
+    setPrimaryImageUrl(snapshot.primaryImageUrl);
+    setPrimaryFile(null);
+    setPrimaryParentGenerationId(snapshot.primaryParentGenerationId);
+    setSecondaryImageUrl(snapshot.secondaryImageUrl);
+    setSecondaryFile(null);
+    setMaskDataUrl(snapshot.maskDataUrl);
+    setSelectedTransformation(snapshot.selectedTransformation);
+    setCustomPrompt(snapshot.customPrompt);
+    setParameterValues(snapshot.parameterValues);
+    setGeneratedContent(snapshot.generatedContent);
+    setActiveCategory(null);
+    setError(null);
+  }, []);
 
+  const sessionTimeline = useSessionTimeline(editorSnapshot, restoreEditorSnapshot, {
+    describeChange: describeEditorChange,
+    // 生成过程中以及风格对比、文生图页面不记录也不允许撤销
+    disabled: isLoading || isSweepViewOpen || isTextToImageOpen
+  });
 
   const handleSelectTransformation = (transformation: Transformation) => {
     setSelectedTransformation(transformation);
+    setParameterValues(getDefaultParameterValues(transformation.parameters));
     setGeneratedContent(null);
     setError(null);
-    if (transformation.prompt !== 'CUSTOM') {
+    if (!transformation.isCustomPrompt) {
       setCustomPrompt('');
     }
   };
@@ -100,6 +467,7 @@ const App: React.FC = () => {
   const handlePrimaryImageSelect = useCallback((file: File, dataUrl: string) => {
     setPrimaryFile(file);
     setPrimaryImageUrl(dataUrl);
+    setPrimaryParentGenerationId(null);
     setGeneratedContent(null);
     setError(null);
     setMaskDataUrl(null);
@@ -116,6 +484,7 @@ const App: React.FC = () => {
   const handleClearPrimaryImage = () => {
     setPrimaryImageUrl(null);
     setPrimaryFile(null);
+    setPrimaryParentGenerationId(null);
     setGeneratedContent(null);
     setError(null);
     setMaskDataUrl(null);
@@ -137,8 +506,8 @@ const App: React.FC = () => {
         return;
     }
     
-    const promptToUse = selectedTransformation.prompt === 'CUSTOM' ? customPrompt : selectedTransformation.prompt;
-    if (!promptToUse.trim()) {
+    // 预设效果的提示词由服务器根据 transformationKey 确定，只有自定义效果需要提交提示词
+    if (selectedTransformation.isCustomPrompt && !customPrompt.trim()) {
         setError(t('app.error.enterPrompt'));
         return;
     }
@@ -151,9 +520,12 @@ const App: React.FC = () => {
       return;
     }
 
-    // Check if user has enough credits (at least 3)
-    const balance = await getBalance();
-    if (balance < 3) {
+    // Check if user has enough credits for all requested candidates
+    const [balance, price] = await Promise.all([
+      getBalance(),
+      selectedTransformation.credits ?? fetchServicePrice('ai-image-edit', selectedTransformation.key)
+    ]);
+    if (balance < price * variants) {
       setError(t('auth.insufficientCredits'));
       return;
     }
@@ -164,41 +536,50 @@ const App: React.FC = () => {
     setLoadingMessage('');
 
     try {
-        const primaryMimeType = primaryImageUrl!.split(';')[0].split(':')[1] ?? 'image/png';
-        const primaryBase64 = primaryImageUrl!.split(',')[1];
-        const maskBase64 = maskDataUrl ? maskDataUrl.split(',')[1] : null;
-
-        let secondaryImagePayload = null;
-        if (selectedTransformation.isMultiImage && secondaryImageUrl) {
-            const secondaryMimeType = secondaryImageUrl.split(';')[0].split(':')[1] ?? 'image/png';
-            const secondaryBase64 = secondaryImageUrl.split(',')[1];
-            secondaryImagePayload = { base64: secondaryBase64, mimeType: secondaryMimeType };
+        // 先上传输入图片（主图、第二张图片、蒙版），编辑请求只提交资源ID
+        const useSecondaryImage = !!(selectedTransformation.isMultiImage && secondaryImageUrl);
+        setLoadingMessage(t('app.loading.uploading'));
+        // 扩图的蒙版由服务端根据扩展区域生成
+        const useMask = !!maskDataUrl && !selectedTransformation.isOutpaint;
+        // 蒙版按原图分辨率导出，提交前再确认尺寸与主图一致
+        const alignedMask = useMask ? await alignMaskToImage(maskDataUrl!, primaryImageUrl) : null;
+        let outpaint;
+        if (selectedTransformation.isOutpaint) {
+            const image = await loadImage(primaryImageUrl);
+            outpaint = toOutpaintRequest(outpaintSettings, image.naturalWidth, image.naturalHeight);
         }
+        const [primaryAsset, ...extraAssets] = await uploadDataUrls([
+            primaryImageUrl,
+            ...(useSecondaryImage ? [secondaryImageUrl!] : []),
+            ...(alignedMask ? [alignedMask] : [])
+        ]);
+        const secondaryAsset = useSecondaryImage ? extraAssets.shift() : undefined;
+        const maskAsset = alignedMask ? extraAssets.shift() : undefined;
         
-        // 对于两步转换，我们需要使用不同的处理方式
-        const isTwoStep = selectedTransformation.isTwoStep || false;
-        const stepTwoPrompt = selectedTransformation.stepTwoPrompt || '';
-        
-        setLoadingMessage(selectedTransformation.isTwoStep ? t('app.loading.step1') : t('app.loading.default'));
+        setLoadingMessage(t('app.loading.queued'));
         
         // 通过服务器API调用，以确保credit被正确扣减
         const token = localStorage.getItem('token');
-        const response = await fetch('http://localhost:3000/api/services/edit-image', {
-            method: 'POST',
-            headers: {
+        // 同一次生成请求重试时使用相同的幂等键，服务器不会重复扣费
+        const response = await postWithIdempotencyKey(
+            'http://localhost:3000/api/services/edit-image',
+            {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${token}`
             },
-            body: JSON.stringify({
-                base64ImageData: primaryBase64,
-                mimeType: primaryMimeType,
-                prompt: promptToUse,
-                maskBase64: maskBase64,
-                secondaryImage: secondaryImagePayload,
-                isTwoStep: isTwoStep,
-                stepTwoPrompt: stepTwoPrompt
+            JSON.stringify({
+                imageAssetId: primaryAsset.id,
+                transformationKey: selectedTransformation.key,
+                prompt: selectedTransformation.isCustomPrompt ? customPrompt : undefined,
+                parameters: selectedTransformation.parameters?.length ? parameterValues : undefined,
+                maskAssetId: maskAsset?.id,
+                secondaryImageAssetId: secondaryAsset?.id,
+                outpaint,
+                output: Object.keys(outputSettings).length ? outputSettings : undefined,
+                parentGenerationIds: primaryParentGenerationId ? [primaryParentGenerationId] : undefined,
+                variants
             })
-        });
+        );
 
         if (!response.ok) {
             if (response.status === 401) {
@@ -206,21 +587,38 @@ const App: React.FC = () => {
                 throw new Error('401');
             } else if (response.status === 402) {
                 throw new Error('402');
+            } else if (response.status === 400) {
+                // 参数校验失败等请求错误，显示服务器返回的原因
+                const { error: message } = await response.json();
+                throw new Error(message);
             }
             throw new Error(`Failed to generate image. Status: ${response.statusText}`);
         }
 
-        const data = await response.json();
-        let result = data.result;
+        // 服务器返回任务ID，轮询任务状态直到完成
+        const { jobId } = await response.json();
+        const job = await waitForJob(jobId, token, (progressMessage) => {
+            // 多步流水线的进度格式为 step:<当前步骤>/<总步骤数>
+            const stepMatch = progressMessage?.match(/^step:(\d+)\/(\d+)$/);
+            // 多个候选结果的进度格式为 candidate:<当前候选>/<候选总数>
+            const candidateMatch = progressMessage?.match(/^candidate:(\d+)\/(\d+)$/);
+            if (candidateMatch) {
+                setLoadingMessage(t('app.loading.candidate').replace('{current}', candidateMatch[1]).replace('{total}', candidateMatch[2]));
+            } else if (stepMatch) {
+                setLoadingMessage(t('app.loading.pipelineStep').replace('{current}', stepMatch[1]).replace('{total}', stepMatch[2]));
+            } else if (progressMessage) {
+                setLoadingMessage(t('app.loading.default'));
+            }
+        });
+        let result = job.result as GeneratedContent;
 
-        // Apply watermark if needed
+        // 服务端已在结果中嵌入签名水印，这里只转换为 data URL 以便下载
         if (result.imageUrl) {
-            result.imageUrl = await embedWatermark(result.imageUrl, "Nano Bananary｜ZHO");
+            result.imageUrl = await toDataUrl(result.imageUrl);
         }
 
         // Update state with the generated result
         setGeneratedContent(result);
-        setHistory(prev => [result, ...prev]);
     } catch (err) {
       console.error(err);
       if (err instanceof Error && err.message === '401') {
@@ -238,7 +636,7 @@ const App: React.FC = () => {
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, [primaryImageUrl, secondaryImageUrl, selectedTransformation, maskDataUrl, customPrompt, t, isAuthenticated, setIsLoginModalOpen, getBalance, embedWatermark]);
+  }, [primaryImageUrl, primaryParentGenerationId, secondaryImageUrl, selectedTransformation, maskDataUrl, outpaintSettings, outputSettings, customPrompt, parameterValues, variants, t, isAuthenticated, setIsLoginModalOpen, getBalance]);
   
   // When user logs in and there's a pending generation request, execute it
   useEffect(() => {
@@ -254,13 +652,16 @@ const App: React.FC = () => {
   }, [handleGenerateImage]);
 
 
-  const handleUseImageAsInput = useCallback(async (imageUrl: string) => {
+  const handleUseImageAsInput = useCallback(async (imageUrl: string, generationId?: string) => {
     if (!imageUrl) return;
 
     try {
-      const newFile = await dataUrlToFile(imageUrl, `edited-${Date.now()}.png`);
+      // 历史记录中的图片是服务器地址，编辑请求需要 data URL
+      const dataUrl = await toDataUrl(imageUrl);
+      const newFile = await dataUrlToFile(dataUrl, `edited-${Date.now()}.png`);
       setPrimaryFile(newFile);
-      setPrimaryImageUrl(imageUrl);
+      setPrimaryImageUrl(dataUrl);
+      setPrimaryParentGenerationId(generationId ?? null);
       setGeneratedContent(null);
       setError(null);
       setMaskDataUrl(null);
@@ -269,6 +670,10 @@ const App: React.FC = () => {
       setSecondaryImageUrl(null);
       setSelectedTransformation(null); 
       setActiveCategory(null);
+      setSweepSelection(null);
+      setIsSweepViewOpen(false);
+      setSweepResults(null);
+      setIsTextToImageOpen(false);
     } catch (err) {
       console.error("Failed to use image as input:", err);
       setError(t('app.error.useAsInputFailed'));
@@ -277,15 +682,27 @@ const App: React.FC = () => {
   
   const toggleHistoryPanel = () => setIsHistoryPanelOpen(prev => !prev);
   
-  const handleUseHistoryImageAsInput = (imageUrl: string) => {
-      handleUseImageAsInput(imageUrl);
+  const handleUseHistoryImageAsInput = (imageUrl: string, generationId?: string) => {
+      handleUseImageAsInput(imageUrl, generationId);
+      setIsHistoryPanelOpen(false);
+  };
+
+  // 从编辑树中的任一节点继续编辑：分支使用该节点的结果，重新运行使用该节点的输入
+  const handleUseLineageImageAsInput = (imageUrl: string, generationId?: string) => {
+      handleUseImageAsInput(imageUrl, generationId);
+      setLineageGenerationId(null);
       setIsHistoryPanelOpen(false);
   };
   
-  const handleDownloadFromHistory = (url: string, type: string) => {
-      const fileExtension = type.includes('video') ? 'mp4' : (url.split(';')[0].split('/')[1] || 'png');
-      const filename = `${type}-${Date.now()}.${fileExtension}`;
-      downloadImage(url, filename);
+  const handleDownloadFromHistory = async (url: string, type: string) => {
+      try {
+        // 跨域地址不支持 download 属性，先转换为 data URL
+        const dataUrl = type.includes('video') ? url : await toDataUrl(url);
+        const filename = type.includes('video') ? `${type}-${Date.now()}.mp4` : await getImageFilename(dataUrl, type);
+        downloadImage(dataUrl, filename);
+      } catch (err) {
+        console.error("Failed to download image:", err);
+      }
   };
 
   const handleBackToSelection = () => {
@@ -296,6 +713,7 @@ const App: React.FC = () => {
     setSelectedTransformation(null);
     setPrimaryImageUrl(null);
     setPrimaryFile(null);
+    setPrimaryParentGenerationId(null);
     setSecondaryImageUrl(null);
     setSecondaryFile(null);
     setGeneratedContent(null);
@@ -305,6 +723,10 @@ const App: React.FC = () => {
     setCustomPrompt('');
     setActiveTool('none');
     setActiveCategory(null);
+    setSweepSelection(null);
+    setIsSweepViewOpen(false);
+    setSweepResults(null);
+    setIsTextToImageOpen(false);
   };
 
   const handleOpenPreview = (url: string) => setPreviewImageUrl(url);
@@ -314,7 +736,7 @@ const App: React.FC = () => {
     setActiveTool(current => (current === 'mask' ? 'none' : 'mask'));
   };
   
-  const isCustomPromptEmpty = selectedTransformation?.prompt === 'CUSTOM' && !customPrompt.trim();
+  const isCustomPromptEmpty = selectedTransformation?.isCustomPrompt && !customPrompt.trim();
   
   let isGenerateDisabled = true;
   if (selectedTransformation) {
@@ -330,6 +752,369 @@ const App: React.FC = () => {
     }
     isGenerateDisabled = isLoading || isCustomPromptEmpty || !imagesReady;
   }
+  // 批量处理的输入图片在弹窗中选择，这里只需要第二张图片（如果必需）
+  // 扩图的画布按单张图片生成，不支持批量处理
+  const isBatchDisabled = !selectedTransformation || isLoading || isCustomPromptEmpty || !!selectedTransformation.isOutpaint ||
+    (!!selectedTransformation.isMultiImage && !selectedTransformation.isSecondaryOptional && !secondaryImageUrl);
+
+  const handleOpenBatch = () => {
+    if (!isAuthenticated) {
+      setIsLoginModalOpen(true);
+      return;
+    }
+    setIsBatchModalOpen(true);
+  };
+
+  const sweepCredits = (sweepSelection || []).reduce((sum, item) => sum + (item.credits ?? 0), 0);
+
+  const handleOpenSweepView = () => {
+    setIsSweepViewOpen(true);
+    setSweepResults(null);
+    setError(null);
+  };
+
+  const handleRunSweep = async () => {
+    if (!primaryImageUrl || !sweepSelection?.length) return;
+
+    if (!isAuthenticated) {
+      setIsLoginModalOpen(true);
+      return;
+    }
+
+    if (await getBalance() < sweepCredits) {
+      setError(t('auth.insufficientCredits'));
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setSweepResults(null);
+
+    try {
+      const [imageAsset] = await uploadDataUrls([primaryImageUrl]);
+      const token = localStorage.getItem('token');
+      const response = await postWithIdempotencyKey(
+        'http://localhost:3000/api/services/sweep',
+        {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        JSON.stringify({
+          imageAssetId: imageAsset.id,
+          parentGenerationIds: primaryParentGenerationId ? [primaryParentGenerationId] : undefined,
+          transformationKeys: sweepSelection.map(item => item.key)
+        })
+      );
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          throw new Error('401');
+        } else if (response.status === 402) {
+          throw new Error('402');
+        } else if (response.status === 400) {
+          const { error: message } = await response.json();
+          throw new Error(message);
+        }
+        throw new Error(`Failed to start style sweep. Status: ${response.statusText}`);
+      }
+
+      const { jobs } = await response.json() as { jobs: Array<{ transformationKey: string; jobId: string }> };
+      setSweepResults(sweepSelection.map(item => ({
+        key: item.key,
+        title: t(item.titleKey),
+        emoji: item.emoji,
+        status: 'pending'
+      })));
+
+      const updateSweepItem = (key: string, update: Partial<ContactSheetItem>) => {
+        setSweepResults(prev => prev && prev.map(item => item.key === key ? { ...item, ...update } : item));
+      };
+
+      // 各效果的任务相互独立，结果到达后立即显示
+      await Promise.all(jobs.map(async ({ transformationKey, jobId }) => {
+        try {
+          const job = await waitForJob(jobId, token, () => {});
+          const result = job.result as GeneratedContent;
+          if (result.imageUrl) {
+            result.imageUrl = await toDataUrl(result.imageUrl);
+          }
+          updateSweepItem(transformationKey, { status: 'succeeded', imageUrl: result.imageUrl, generationId: result.generationId });
+        } catch (err) {
+          updateSweepItem(transformationKey, {
+            status: 'failed',
+            error: err instanceof Error ? err.message : t('app.error.unknown')
+          });
+        }
+      }));
+    } catch (err) {
+      console.error(err);
+      if (err instanceof Error && err.message === '401') {
+        localStorage.removeItem('token');
+        setError(t('auth.tokenExpired'));
+        setIsLoginModalOpen(true);
+      } else if (err instanceof Error && err.message === '402') {
+        setError(t('auth.insufficientCredits'));
+      } else {
+        setError(err instanceof Error ? err.message : t('app.error.unknown'));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenTextToImage = () => {
+    setIsTextToImageOpen(true);
+    setGeneratedContent(null);
+    setError(null);
+  };
+
+  const handleGenerateFromText = async () => {
+    if (!textToImagePrompt.trim()) {
+      setError(t('app.error.enterPrompt'));
+      return;
+    }
+
+    if (!isAuthenticated) {
+      setIsLoginModalOpen(true);
+      return;
+    }
+
+    const [balance, price] = await Promise.all([
+      getBalance(),
+      textToImageCredits ?? fetchServicePrice('ai-image-generate')
+    ]);
+    if (balance < price) {
+      setError(t('auth.insufficientCredits'));
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setGeneratedContent(null);
+    setLoadingMessage(t('app.loading.queued'));
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await postWithIdempotencyKey(
+        'http://localhost:3000/api/services/generate-image',
+        {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        JSON.stringify({
+          prompt: textToImagePrompt,
+          aspectRatio
+        })
+      );
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          throw new Error('401');
+        } else if (response.status === 402) {
+          throw new Error('402');
+        } else if (response.status === 400) {
+          const { error: message } = await response.json();
+          throw new Error(message);
+        }
+        throw new Error(`Failed to generate image. Status: ${response.statusText}`);
+      }
+
+      const { jobId } = await response.json();
+      const job = await waitForJob(jobId, token, (progressMessage) => {
+        if (progressMessage) {
+          setLoadingMessage(t('app.loading.default'));
+        }
+      });
+      const result = job.result as GeneratedContent;
+
+      if (result.imageUrl) {
+        result.imageUrl = await toDataUrl(result.imageUrl);
+      }
+
+      setGeneratedContent(result);
+    } catch (err) {
+      console.error(err);
+      if (err instanceof Error && err.message === '401') {
+        localStorage.removeItem('token');
+        setError(t('auth.tokenExpired'));
+        setIsLoginModalOpen(true);
+      } else if (err instanceof Error && err.message === '402') {
+        setError(t('auth.insufficientCredits'));
+      } else {
+        setError(err instanceof Error ? err.message : t('app.error.unknown'));
+      }
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
+  const renderTextToImageView = () => (
+    <div className="container mx-auto p-4 md:p-8 animate-fade-in">
+      <div className="mb-8">
+        <button
+          onClick={() => setIsTextToImageOpen(false)}
+          disabled={isLoading}
+          className="flex items-center gap-2 text-[var(--accent-primary)] hover:text-[var(--accent-primary-hover)] disabled:text-[var(--text-disabled)] transition-colors duration-200 py-2 px-4 rounded-lg hover:bg-[rgba(107,114,128,0.1)]"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" />
+          </svg>
+          {t('app.chooseAnotherEffect')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {/* Input Column */}
+        <div className="flex flex-col gap-6 p-6 bg-[var(--bg-card-alpha)] backdrop-blur-lg rounded-xl border border-[var(--border-primary)] shadow-2xl shadow-black/20">
+          <div>
+            <h2 className="text-xl font-semibold mb-1 text-[var(--accent-primary)]">{t('textToImage.title')}</h2>
+            <p className="text-[var(--text-secondary)] mb-4">{t('textToImage.description')}</p>
+            <textarea
+              value={textToImagePrompt}
+              onChange={(e) => setTextToImagePrompt(e.target.value)}
+              placeholder={t('textToImage.placeholder')}
+              rows={4}
+              className="w-full mb-4 p-3 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg focus:ring-2 focus:ring-[var(--accent-primary)] focus:border-[var(--accent-primary)] transition-colors placeholder-[var(--text-tertiary)]"
+            />
+            <p className="text-sm font-semibold text-[var(--text-secondary)] mb-2">{t('textToImage.aspectRatio')}</p>
+            <AspectRatioSelector
+              options={TEXT_TO_IMAGE_ASPECT_RATIOS}
+              value={aspectRatio}
+              onChange={setAspectRatio}
+              disabled={isLoading}
+            />
+            <button
+              onClick={handleGenerateFromText}
+              disabled={isLoading || !textToImagePrompt.trim()}
+              className="w-full mt-6 py-3 px-4 bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)] font-semibold rounded-lg shadow-lg shadow-[var(--accent-shadow)] hover:from-[var(--accent-primary-hover)] hover:to-[var(--accent-secondary-hover)] disabled:bg-[var(--bg-disabled)] disabled:from-[var(--bg-disabled)] disabled:to-[var(--bg-disabled)] disabled:text-[var(--text-disabled)] disabled:shadow-none disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center gap-2"
+            >
+              {isLoading ? (
+                <>
+                  <LoadingSpinner size="small" />
+                  <span>{t('app.generating')}</span>
+                </>
+              ) : (
+                <span>
+                  {textToImageCredits !== null
+                    ? t('textToImage.generate').replace('{credits}', String(textToImageCredits))
+                    : t('app.generateImage')}
+                </span>
+              )}
+            </button>
+          </div>
+        </div>
+
+        {/* Output Column */}
+        <div className="flex flex-col p-6 bg-[var(--bg-card-alpha)] backdrop-blur-lg rounded-xl border border-[var(--border-primary)] shadow-2xl shadow-black/20">
+          <h2 className="text-xl font-semibold mb-4 text-[var(--accent-primary)] self-start">{t('app.result')}</h2>
+          {isLoading && <div className="flex-grow flex items-center justify-center"><LoadingSpinner message={loadingMessage} /></div>}
+          {error && <div className="flex-grow flex items-center justify-center w-full"><ErrorMessage message={error} /></div>}
+          {!isLoading && !error && generatedContent && (
+            <ResultDisplay
+              content={generatedContent}
+              onUseImageAsInput={handleUseImageAsInput}
+              onImageClick={handleOpenPreview}
+              originalImageUrl={null}
+            />
+          )}
+          {!isLoading && !error && !generatedContent && (
+            <div className="flex-grow flex flex-col items-center justify-center text-center text-[var(--text-tertiary)]">
+              <svg xmlns="http://www.w3.org/2000/svg" className="mx-auto h-12 w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              <p className="mt-2">{t('app.yourImageWillAppear')}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderSweepView = () => (
+    <div className="container mx-auto p-4 md:p-8 animate-fade-in">
+      <div className="mb-8">
+        <button
+          onClick={() => setIsSweepViewOpen(false)}
+          disabled={isLoading}
+          className="flex items-center gap-2 text-[var(--accent-primary)] hover:text-[var(--accent-primary-hover)] disabled:text-[var(--text-disabled)] transition-colors duration-200 py-2 px-4 rounded-lg hover:bg-[rgba(107,114,128,0.1)]"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" />
+          </svg>
+          {t('sweep.edit')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {/* Input Column */}
+        <div className="flex flex-col gap-6 p-6 bg-[var(--bg-card-alpha)] backdrop-blur-lg rounded-xl border border-[var(--border-primary)] shadow-2xl shadow-black/20">
+          <div>
+            <h2 className="text-xl font-semibold mb-1 text-[var(--accent-primary)]">{t('sweep.title')}</h2>
+            <p className="text-[var(--text-secondary)] mb-4">
+              {t('sweep.description').replace('{count}', String(sweepSelection?.length ?? 0))}
+            </p>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {sweepSelection?.map(item => (
+                <span key={item.key} className="text-xs py-1 px-2 rounded-full bg-[rgba(107,114,128,0.2)] text-[var(--text-primary)]">
+                  {item.emoji} {t(item.titleKey)}
+                </span>
+              ))}
+            </div>
+            <ImageEditorCanvas
+              onImageSelect={handlePrimaryImageSelect}
+              initialImageUrl={primaryImageUrl}
+              onMaskChange={() => {}}
+              onClearImage={handleClearPrimaryImage}
+              isMaskToolActive={false}
+            />
+            <button
+              onClick={handleRunSweep}
+              disabled={isLoading || !primaryImageUrl || !sweepSelection?.length}
+              className="w-full mt-6 py-3 px-4 bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)] font-semibold rounded-lg shadow-lg shadow-[var(--accent-shadow)] hover:from-[var(--accent-primary-hover)] hover:to-[var(--accent-secondary-hover)] disabled:bg-[var(--bg-disabled)] disabled:from-[var(--bg-disabled)] disabled:to-[var(--bg-disabled)] disabled:text-[var(--text-disabled)] disabled:shadow-none disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center gap-2"
+            >
+              {isLoading ? (
+                <>
+                  <LoadingSpinner size="small" />
+                  <span>{t('app.generating')}</span>
+                </>
+              ) : (
+                <span>
+                  {t('sweep.confirm').replace('{count}', String(sweepSelection?.length ?? 0)).replace('{credits}', String(sweepCredits))}
+                </span>
+              )}
+            </button>
+          </div>
+        </div>
+
+        {/* Output Column */}
+        <div className="flex flex-col p-6 bg-[var(--bg-card-alpha)] backdrop-blur-lg rounded-xl border border-[var(--border-primary)] shadow-2xl shadow-black/20">
+          <h2 className="text-xl font-semibold mb-4 text-[var(--accent-primary)] self-start">{t('app.result')}</h2>
+          {error && <div className="flex-grow flex items-center justify-center w-full"><ErrorMessage message={error} /></div>}
+          {!error && sweepResults && (
+            <ResultDisplay
+              content={{ imageUrl: null, text: null }}
+              onUseImageAsInput={handleUseImageAsInput}
+              onImageClick={handleOpenPreview}
+              originalImageUrl={primaryImageUrl}
+              contactSheet={sweepResults}
+            />
+          )}
+          {!error && !sweepResults && isLoading && (
+            <div className="flex-grow flex items-center justify-center"><LoadingSpinner message={t('sweep.submitting')} /></div>
+          )}
+          {!error && !sweepResults && !isLoading && (
+            <div className="flex-grow flex flex-col items-center justify-center text-center text-[var(--text-tertiary)]">
+              <svg xmlns="http://www.w3.org/2000/svg" className="mx-auto h-12 w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              <p className="mt-2">{t('app.yourImageWillAppear')}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
 
   const renderInputUI = () => {
     if (!selectedTransformation) return null;
@@ -357,10 +1142,19 @@ const App: React.FC = () => {
           onImageSelect={handlePrimaryImageSelect}
           initialImageUrl={primaryImageUrl}
           onMaskChange={setMaskDataUrl}
+          maskDataUrl={maskDataUrl}
           onClearImage={handleClearPrimaryImage}
           isMaskToolActive={activeTool === 'mask'}
         />
-        {primaryImageUrl && (
+        {primaryImageUrl && selectedTransformation.isOutpaint && (
+          <OutpaintControls
+            imageUrl={primaryImageUrl}
+            settings={outpaintSettings}
+            onChange={setOutpaintSettings}
+            disabled={isLoading}
+          />
+        )}
+        {primaryImageUrl && !selectedTransformation.isOutpaint && (
           <div className="mt-4">
             <button
               onClick={toggleMaskTool}
@@ -437,14 +1231,37 @@ const App: React.FC = () => {
       </header>
 
       <main>
-        {!selectedTransformation ? (
+        {!isTextToImageOpen && !isSweepViewOpen && sessionTimeline.entries.length > 1 && (
+          <SessionTimeline
+            items={sessionTimeline.entries.map(({ id, label, snapshot }) => ({
+              id,
+              label,
+              thumbnailUrl: snapshot.generatedContent?.imageUrl ?? snapshot.primaryImageUrl,
+              emoji: snapshot.selectedTransformation?.emoji
+            }))}
+            currentIndex={sessionTimeline.index}
+            canUndo={sessionTimeline.canUndo}
+            canRedo={sessionTimeline.canRedo}
+            onUndo={sessionTimeline.undo}
+            onRedo={sessionTimeline.redo}
+            onJump={sessionTimeline.jumpTo}
+          />
+        )}
+        {isTextToImageOpen ? renderTextToImageView() : isSweepViewOpen ? renderSweepView() : !selectedTransformation ? (
           <TransformationSelector 
             transformations={transformations} 
             onSelect={handleSelectTransformation} 
             hasPreviousResult={!!primaryImageUrl}
-            onOrderChange={setTransformations}
+            onOrderChange={handleOrderChange}
             activeCategory={activeCategory}
             setActiveCategory={setActiveCategory}
+            onCreatePreset={() => handleOpenPresetEditor(null, EMPTY_PRESET_FORM)}
+            onEditPreset={handleEditPreset}
+            onDeletePreset={handleDeletePreset}
+            sweepSelection={sweepSelection}
+            onSweepSelectionChange={setSweepSelection}
+            onStartSweep={handleOpenSweepView}
+            onOpenTextToImage={handleOpenTextToImage}
           />
         ) : (
           <div className="container mx-auto p-4 md:p-8 animate-fade-in">
@@ -469,14 +1286,14 @@ const App: React.FC = () => {
                       <span className="text-3xl">{selectedTransformation.emoji}</span>
                       {t(selectedTransformation.titleKey)}
                     </h2>
-                    {selectedTransformation.prompt !== 'CUSTOM' ? (
+                    {!selectedTransformation.isCustomPrompt ? (
                      <p className="text-[var(--text-secondary)]">{t(selectedTransformation.descriptionKey)}</p>
                   ) : (
                     <p className="text-[var(--text-secondary)]">{t(selectedTransformation.descriptionKey)}</p>
                   )}
                   </div>
                   
-                  {selectedTransformation.prompt === 'CUSTOM' && (
+                  {selectedTransformation.isCustomPrompt && (
                     <textarea
                         value={customPrompt}
                         onChange={(e) => setCustomPrompt(e.target.value)}
@@ -485,9 +1302,53 @@ const App: React.FC = () => {
                         className="w-full -mt-2 mb-4 p-3 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg focus:ring-2 focus:ring-[var(--accent-primary)] focus:border-[var(--accent-primary)] transition-colors placeholder-[var(--text-tertiary)]"
                     />
                   )}
+                  {selectedTransformation.isCustomPrompt && customPrompt.trim() && (
+                    <button
+                      onClick={() => handleOpenPresetEditor(null, {
+                        ...EMPTY_PRESET_FORM,
+                        prompt: customPrompt,
+                        isMultiImage: !!secondaryImageUrl,
+                        isSecondaryOptional: !!secondaryImageUrl
+                      })}
+                      className="-mt-2 mb-4 text-sm text-[var(--accent-primary)] hover:text-[var(--accent-primary-hover)] transition-colors"
+                    >
+                      {t('presets.saveAsPreset')}
+                    </button>
+                  )}
+                  
+                  {selectedTransformation.parameters?.length ? (
+                    <TemplateParameterForm
+                      parameters={selectedTransformation.parameters}
+                      values={parameterValues}
+                      onChange={setParameterValues}
+                      disabled={isLoading}
+                    />
+                  ) : null}
                   
                   {renderInputUI()}
                   
+                  <div className="mt-6 flex items-center justify-between gap-4">
+                    <span className="text-sm font-semibold text-[var(--text-secondary)]">{t('app.variants')}</span>
+                    <div className="p-1 bg-[var(--bg-secondary)] rounded-lg flex items-center gap-1">
+                      {Array.from({ length: MAX_VARIANTS }, (_, index) => index + 1).map(count => (
+                        <button
+                          key={count}
+                          onClick={() => setVariants(count)}
+                          disabled={isLoading}
+                          className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 ${
+                            variants === count
+                              ? 'bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)]'
+                              : 'text-[var(--text-primary)] hover:bg-[rgba(107,114,128,0.2)]'
+                          }`}
+                        >
+                          {count}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  
+                  <OutputSizeSelector value={outputSettings} onChange={setOutputSettings} disabled={isLoading} />
+                  
                    <button
                     onClick={handleGenerate}
                     disabled={isGenerateDisabled}
@@ -510,6 +1371,13 @@ const App: React.FC = () => {
                       </>
                     )}
                   </button>
+                  <button
+                    onClick={handleOpenBatch}
+                    disabled={isBatchDisabled}
+                    className="w-full mt-3 py-2 px-4 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-lg hover:bg-[rgba(107,114,128,0.4)] disabled:text-[var(--text-disabled)] disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    {t('batch.open')}
+                  </button>
                 </div>
               </div>
 
@@ -539,13 +1407,45 @@ const App: React.FC = () => {
           </div>
         )}
       </main>
+      {/* 编辑树中点击图片会打开预览，需要显示在预览之下 */}
+      <LineageModal
+        generationId={lineageGenerationId}
+        transformations={transformations}
+        onClose={() => setLineageGenerationId(null)}
+        onBranch={handleUseLineageImageAsInput}
+        onRerun={handleUseLineageImageAsInput}
+        onImageClick={handleOpenPreview}
+      />
       <ImagePreviewModal imageUrl={previewImageUrl} onClose={handleClosePreview} />
       <HistoryPanel
         isOpen={isHistoryPanelOpen}
         onClose={toggleHistoryPanel}
         history={history}
+        hasMore={history.length < historyTotal}
+        onLoadMore={handleLoadMoreHistory}
         onUseImage={handleUseHistoryImageAsInput}
         onDownload={handleDownloadFromHistory}
+        onShowLineage={setLineageGenerationId}
+      />
+      
+      {selectedTransformation && (
+        <BatchModal
+          isOpen={isBatchModalOpen}
+          transformation={selectedTransformation}
+          customPrompt={customPrompt}
+          parameterValues={parameterValues}
+          secondaryImageUrl={secondaryImageUrl}
+          onClose={() => setIsBatchModalOpen(false)}
+          onImageClick={handleOpenPreview}
+        />
+      )}
+      
+      <PresetEditorModal
+        isOpen={!!presetEditor}
+        initialValues={presetEditor?.values ?? EMPTY_PRESET_FORM}
+        isEditing={!!presetEditor?.presetId}
+        onClose={() => setPresetEditor(null)}
+        onSave={handleSavePreset}
       />
       
       {/* Auth modals */}
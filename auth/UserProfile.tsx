@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from './authContext';
 import { useTranslation } from '../i18n/context';
+import type { WatermarkMode } from '../types';
 
 interface UserProfileProps {
   isOpen: boolean;
@@ -8,11 +9,13 @@ interface UserProfileProps {
 }
 
 const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose }) => {
-  const { user, logout, getBalance, addCredit } = useAuth();
+  const { user, logout, getBalance, addCredit, getWatermarkMode, updateWatermarkMode } = useAuth();
   const { t } = useTranslation();
   const [balance, setBalance] = useState<number>(0);
   const [loadingBalance, setLoadingBalance] = useState<boolean>(true);
   const [creditAmount, setCreditAmount] = useState<number>(100);
+  const [watermarkMode, setWatermarkMode] = useState<WatermarkMode>('standard');
+  const [savingWatermarkMode, setSavingWatermarkMode] = useState<boolean>(false);
 
   // Fetch user balance when component mounts or user changes
   useEffect(() => {
@@ -33,6 +36,12 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose }) => {
     }
   }, [user, getBalance]);
 
+  useEffect(() => {
+    if (user) {
+      getWatermarkMode().then(setWatermarkMode);
+    }
+  }, [user, getWatermarkMode]);
+
   const handleLogout = () => {
     if (window.confirm(t('auth.confirmLogout'))) {
       logout();
@@ -87,6 +96,20 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose }) => {
     }
   };
 
+  const handleWatermarkModeChange = async (robust: boolean) => {
+    const mode: WatermarkMode = robust ? 'robust' : 'standard';
+    setSavingWatermarkMode(true);
+    try {
+      if (await updateWatermarkMode(mode)) {
+        setWatermarkMode(mode);
+      } else {
+        alert(t('auth.watermarkModeFailed'));
+      }
+    } finally {
+      setSavingWatermarkMode(false);
+    }
+  };
+
   // If not open or no user, don't render
   if (!isOpen || !user) return null;
 
@@ -148,6 +171,20 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose }) => {
             </div>
           </div>
 
+          <label className="flex items-start gap-3 bg-[var(--bg-secondary)] p-4 rounded-lg cursor-pointer">
+            <input
+              type="checkbox"
+              checked={watermarkMode === 'robust'}
+              onChange={e => handleWatermarkModeChange(e.target.checked)}
+              disabled={savingWatermarkMode}
+              className="mt-1 accent-[var(--accent-primary)]"
+            />
+            <span>
+              <span className="block text-sm font-medium text-[var(--text-primary)]">{t('auth.robustWatermark')}</span>
+              <span className="block text-xs text-[var(--text-secondary)]">{t('auth.robustWatermarkHint')}</span>
+            </span>
+          </label>
+
           <div className="space-y-3">
             <div>
               <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">
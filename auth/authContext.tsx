@@ -1,5 +1,6 @@
 import React, { createContext, useState, useContext, ReactNode, useEffect } from 'react';
-import type { User } from '../types';
+import type { User, WatermarkMode } from '../types';
+import { postWithIdempotencyKey } from '../utils/requestUtils';
 
 interface AuthContextType {
   user: User | null;
@@ -9,6 +10,8 @@ interface AuthContextType {
   logout: () => void;
   getBalance: () => Promise<number>;
   addCredit: (amount: number) => Promise<boolean>;
+  getWatermarkMode: () => Promise<WatermarkMode>;
+  updateWatermarkMode: (mode: WatermarkMode) => Promise<boolean>;
   isLoading: boolean;
   error: string | null;
 }
@@ -148,7 +151,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       if (response.ok) {
         const account = await response.json();
-        return account.balance || 0;
+        // 返回可用余额（已扣除进行中任务预留的积分）
+        return account.availableBalance ?? account.balance ?? 0;
       }
       return 0;
     } catch (err) {
@@ -157,6 +161,52 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const getWatermarkMode = async (): Promise<WatermarkMode> => {
+    try {
+      const token = localStorage.getItem('token');
+      if (!token || !user) {
+        return 'standard';
+      }
+
+      const response = await fetch('http://localhost:3000/api/accounts', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (response.ok) {
+        const account = await response.json();
+        return account.watermarkMode === 'robust' ? 'robust' : 'standard';
+      }
+      return 'standard';
+    } catch (err) {
+      console.error('Error getting watermark mode:', err);
+      return 'standard';
+    }
+  };
+
+  const updateWatermarkMode = async (mode: WatermarkMode): Promise<boolean> => {
+    try {
+      const token = localStorage.getItem('token');
+      if (!token || !user) {
+        return false;
+      }
+
+      const response = await fetch('http://localhost:3000/api/accounts/watermark-mode', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ mode })
+      });
+      return response.ok;
+    } catch (err) {
+      console.error('Error updating watermark mode:', err);
+      return false;
+    }
+  };
+
   const addCredit = async (amount: number): Promise<boolean> => {
     try {
       const token = localStorage.getItem('token');
@@ -166,17 +216,18 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // 根据后端API设计，通过创建支付订单来充值
       // 按照要求使用微信支付方式，1元=10积分
-      const response = await fetch('http://localhost:3000/api/payments/create', {
-        method: 'POST',
-        headers: {
+      // 重试时使用相同的幂等键，防止重复创建支付订单
+      const response = await postWithIdempotencyKey(
+        'http://localhost:3000/api/payments/create',
+        {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`
         },
-        body: JSON.stringify({
+        JSON.stringify({
           amount: amount / 10, // 1元=10积分，所以需要将积分数量转换为金额
           method: 'wechat' // 使用微信支付方式
         })
-      });
+      );
 
       if (response.ok) {
         const data = await response.json();
@@ -214,6 +265,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         logout,
         getBalance,
         addCredit,
+        getWatermarkMode,
+        updateWatermarkMode,
         isLoading,
         error
       }}
@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface AspectRatioSelectorProps {
+  options: string[];
+  value: string;
+  onChange: (aspectRatio: string) => void;
+  disabled?: boolean;
+}
+
+const AspectRatioSelector: React.FC<AspectRatioSelectorProps> = ({ options, value, onChange, disabled }) => (
+  <div className="flex flex-wrap gap-2">
+    {options.map(ratio => (
+      <button
+        key={ratio}
+        onClick={() => onChange(ratio)}
+        disabled={disabled}
+        className={`py-1 px-3 text-sm font-semibold rounded-md transition-colors duration-200 ${
+          value === ratio ? 'bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)]' : 'bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)]'
+        }`}
+      >
+        {ratio}
+      </button>
+    ))}
+  </div>
+);
+
+export default AspectRatioSelector;
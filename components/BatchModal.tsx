@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from 'react';
+import type { BatchItemStatus, GeneratedContent, Transformation } from '../types';
+import { useTranslation } from '../i18n/context';
+import { downloadImage } from '../utils/fileUtils';
+import { uploadAssets, uploadDataUrls } from '../utils/assetUtils';
+import { postWithIdempotencyKey } from '../utils/requestUtils';
+import ErrorMessage from './ErrorMessage';
+import LoadingSpinner from './LoadingSpinner';
+import type { TemplateParameterValues } from './TemplateParameterForm';
+
+interface BatchModalProps {
+  isOpen: boolean;
+  transformation: Transformation;
+  customPrompt: string;
+  parameterValues: TemplateParameterValues;
+  secondaryImageUrl: string | null;
+  onClose: () => void;
+  onImageClick: (imageUrl: string) => void;
+}
+
+interface BatchResponse {
+  id: string;
+  status: 'queued' | 'running' | 'completed';
+  itemCount: number;
+  creditsPerItem: number;
+  succeededCount: number;
+  failedCount: number;
+  items: Array<{ id: string; index: number; status: BatchItemStatus; result: GeneratedContent | null; error: string | null }>;
+}
+
+// 与服务端的单批次上限一致
+const MAX_BATCH_ITEMS = 20;
+// 批次状态轮询间隔（毫秒）
+const BATCH_POLL_INTERVAL_MS = 1000;
+
+const fetchBatch = async (batchId: string): Promise<BatchResponse> => {
+  const token = localStorage.getItem('token');
+  const response = await fetch(`http://localhost:3000/api/services/batch/${batchId}`, {
+    headers: { 'Authorization': `Bearer ${token}` }
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch batch status. Status: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const BatchModal: React.FC<BatchModalProps> = ({
+  isOpen,
+  transformation,
+  customPrompt,
+  parameterValues,
+  secondaryImageUrl,
+  onClose,
+  onImageClick
+}) => {
+  const { t } = useTranslation();
+  const [files, setFiles] = useState<File[]>([]);
+  const [previews, setPreviews] = useState<string[]>([]);
+  const [batch, setBatch] = useState<BatchResponse | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 每次打开时重置
+  useEffect(() => {
+    if (isOpen) {
+      setFiles([]);
+      setBatch(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    const urls = files.map(file => URL.createObjectURL(file));
+    setPreviews(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [files]);
+
+  // 批次未完成时轮询状态
+  useEffect(() => {
+    if (!batch || batch.status === 'completed') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        setBatch(await fetchBatch(batch.id));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : t('app.error.unknown'));
+      }
+    }, BATCH_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [batch, t]);
+
+  if (!isOpen) return null;
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from<File>(e.target.files ?? []).filter(file => file.type.startsWith('image/'));
+    if (selected.length > MAX_BATCH_ITEMS) {
+      setError(t('batch.tooManyImages').replace('{max}', String(MAX_BATCH_ITEMS)));
+    } else {
+      setError(null);
+    }
+    setFiles(selected.slice(0, MAX_BATCH_ITEMS));
+  };
+
+  const handleSubmit = async () => {
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      // 先上传所有图片，批量请求只提交资源ID
+      const assets = await uploadAssets(files);
+      const secondaryAsset = transformation.isMultiImage && secondaryImageUrl
+        ? (await uploadDataUrls([secondaryImageUrl]))[0]
+        : null;
+
+      const token = localStorage.getItem('token');
+      const response = await postWithIdempotencyKey(
+        'http://localhost:3000/api/services/batch',
+        {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        JSON.stringify({
+          images: assets.map(asset => ({ imageAssetId: asset.id })),
+          transformationKey: transformation.key,
+          prompt: transformation.isCustomPrompt ? customPrompt : undefined,
+          parameters: transformation.parameters?.length ? parameterValues : undefined,
+          secondaryImageAssetId: secondaryAsset?.id
+        })
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(response.status === 402 ? t('auth.insufficientCredits') : data.error);
+      }
+
+      setBatch(await fetchBatch(data.batchId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('app.error.unknown'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    if (!batch) return;
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`http://localhost:3000/api/services/batch/${batch.id}/zip`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to download batch results. Status: ${response.statusText}`);
+      }
+      const url = URL.createObjectURL(await response.blob());
+      downloadImage(url, `batch-${Date.now()}.zip`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('app.error.unknown'));
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const statusClassName: Record<BatchItemStatus, string> = {
+    pending: 'bg-black/50',
+    running: 'bg-[var(--accent-primary)]',
+    succeeded: 'bg-green-600',
+    failed: 'bg-red-600'
+  };
+
+  const finishedCount = batch ? batch.succeededCount + batch.failedCount : 0;
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center z-50 bg-black/50 backdrop-blur-sm"
+      onClick={handleBackdropClick}
+    >
+      <div
+        className="bg-[var(--bg-card-alpha)] backdrop-blur-lg rounded-xl border border-[var(--border-primary)] shadow-2xl shadow-black/20 w-full max-w-4xl p-6 sm:p-8 animate-fade-in max-h-[90vh] overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-[var(--accent-primary)] flex items-center gap-3">
+            <span>{transformation.emoji}</span>
+            {t('batch.title')}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && <ErrorMessage message={error} className="mb-4" />}
+
+        {!batch ? (
+          <div className="space-y-4">
+            <p className="text-[var(--text-secondary)]">{t('batch.description').replace('{max}', String(MAX_BATCH_ITEMS))}</p>
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleFilesSelected}
+              disabled={isSubmitting}
+              className="block w-full text-sm text-[var(--text-secondary)] file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:font-semibold file:bg-[rgba(107,114,128,0.2)] file:text-[var(--text-primary)] hover:file:bg-[rgba(107,114,128,0.4)]"
+            />
+            {previews.length > 0 && (
+              <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+                {previews.map((url, index) => (
+                  <img key={url} src={url} alt={`${index + 1}`} className="rounded-md aspect-square object-cover bg-[var(--bg-primary)]" />
+                ))}
+              </div>
+            )}
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting || files.length === 0}
+              className="w-full py-3 px-4 bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)] font-semibold rounded-lg shadow-lg shadow-[var(--accent-shadow)] hover:from-[var(--accent-primary-hover)] hover:to-[var(--accent-secondary-hover)] disabled:bg-[var(--bg-disabled)] disabled:from-[var(--bg-disabled)] disabled:to-[var(--bg-disabled)] disabled:text-[var(--text-disabled)] disabled:shadow-none disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center gap-2"
+            >
+              {isSubmitting ? (
+                <>
+                  <LoadingSpinner size="small" />
+                  <span>{t('batch.submitting')}</span>
+                </>
+              ) : (
+                <span>{t('batch.start').replace('{count}', String(files.length))}</span>
+              )}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-between items-center text-sm text-[var(--text-secondary)]">
+              <span>{t('batch.progress').replace('{finished}', String(finishedCount)).replace('{total}', String(batch.itemCount))}</span>
+              {batch.failedCount > 0 && <span className="text-red-500">{t('batch.failedCount').replace('{count}', String(batch.failedCount))}</span>}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {batch.items.map(item => (
+                <div key={item.id} className="relative rounded-lg overflow-hidden border border-[var(--border-primary)] bg-[var(--bg-primary)] aspect-square flex items-center justify-center">
+                  {item.result?.imageUrl ? (
+                    <img
+                      src={item.result.imageUrl}
+                      alt={`${item.index + 1}`}
+                      className="max-w-full max-h-full object-contain cursor-pointer"
+                      onClick={() => onImageClick(item.result!.imageUrl!)}
+                    />
+                  ) : item.status === 'failed' ? (
+                    <p className="p-2 text-xs text-center text-red-500">{item.error}</p>
+                  ) : (
+                    <>
+                      {previews[item.index] && <img src={previews[item.index]} alt={`${item.index + 1}`} className="absolute inset-0 w-full h-full object-cover opacity-40" />}
+                      {item.status === 'running' && <LoadingSpinner size="small" />}
+                    </>
+                  )}
+                  <div className={`absolute top-1 left-1 text-xs text-white px-2 py-0.5 rounded ${statusClassName[item.status]}`}>
+                    {item.index + 1} · {t(`batch.status.${item.status}`)}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={handleDownloadZip}
+              disabled={batch.succeededCount === 0}
+              className="w-full py-3 px-4 bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)] font-semibold rounded-lg shadow-lg shadow-[var(--accent-shadow)] hover:from-[var(--accent-primary-hover)] hover:to-[var(--accent-secondary-hover)] disabled:bg-[var(--bg-disabled)] disabled:from-[var(--bg-disabled)] disabled:to-[var(--bg-disabled)] disabled:text-[var(--text-disabled)] disabled:shadow-none disabled:cursor-not-allowed transition-all duration-200"
+            >
+              {t('batch.downloadZip')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchModal;
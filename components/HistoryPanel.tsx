@@ -1,16 +1,25 @@
 import React from 'react';
 import type { GeneratedContent } from '../types';
 import { useTranslation } from '../i18n/context';
+import { getIntermediateLabel } from './ResultDisplay';
 
 interface HistoryPanelProps {
   isOpen: boolean;
   onClose: () => void;
   history: GeneratedContent[];
-  onUseImage: (imageUrl: string) => void;
+  onUseImage: (imageUrl: string, generationId?: string) => void;
   onDownload: (url: string, type: string) => void;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  onShowLineage?: (generationId: string) => void;
 }
 
-const HistoryItem: React.FC<{ item: GeneratedContent; onUseImage: (url: string) => void; onDownload: (url: string, type: string) => void; }> = ({ item, onUseImage, onDownload }) => {
+const HistoryItem: React.FC<{
+  item: GeneratedContent;
+  onUseImage: (url: string, generationId?: string) => void;
+  onDownload: (url: string, type: string) => void;
+  onShowLineage?: (generationId: string) => void;
+}> = ({ item, onUseImage, onDownload, onShowLineage }) => {
     const { t } = useTranslation();
     const ActionButton: React.FC<{ onClick: () => void; children: React.ReactNode; isPrimary?: boolean; }> = ({ onClick, children, isPrimary }) => (
         <button 
@@ -43,36 +52,27 @@ const HistoryItem: React.FC<{ item: GeneratedContent; onUseImage: (url: string)
 
     return (
         <div className="bg-[var(--bg-secondary)] p-3 rounded-lg border border-[var(--border-primary)]">
-            {item.secondaryImageUrl && item.imageUrl ? (
+            {item.intermediates?.length && item.imageUrl ? (
                 <div className="grid grid-cols-2 gap-3">
-                    <div className="flex flex-col gap-2">
-                        <img src={item.secondaryImageUrl} className="rounded-md aspect-square object-contain bg-[var(--bg-primary)]" alt="Line Art Result" />
-                        <div className="text-xs text-center text-[var(--text-secondary)] mb-1">{t('history.lineArt')}</div>
-                        <div className="grid grid-cols-2 gap-1.5 text-xs">
-                            <ActionButton onClick={() => onUseImage(item.secondaryImageUrl!)} isPrimary>
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor"><path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" /><path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2-2H4a2 2 0 01-2-2V6z" clipRule="evenodd" /></svg>
-                                {t('history.use')}
-                            </ActionButton>
-                            <ActionButton onClick={() => onDownload(item.secondaryImageUrl!, 'line-art')}>
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
-                                {t('history.save')}
-                            </ActionButton>
-                        </div>
-                    </div>
-                    <div className="flex flex-col gap-2">
-                        <img src={item.imageUrl} className="rounded-md aspect-square object-contain bg-[var(--bg-primary)]" alt="Final Result" />
-                        <div className="text-xs text-center text-[var(--text-secondary)] mb-1">{t('history.finalResult')}</div>
+                    {[
+                        ...item.intermediates.map(output => ({ id: `step-${output.step}`, src: output.imageUrl, label: getIntermediateLabel(output, t) })),
+                        { id: 'final-result', src: item.imageUrl, label: t('history.finalResult') },
+                    ].map(({ id, src, label }) => (
+                    <div key={id} className="flex flex-col gap-2">
+                        <img src={src} className="rounded-md aspect-square object-contain bg-[var(--bg-primary)]" alt={label} />
+                        <div className="text-xs text-center text-[var(--text-secondary)] mb-1">{label}</div>
                         <div className="grid grid-cols-2 gap-1.5 text-xs">
-                            <ActionButton onClick={() => onUseImage(item.imageUrl!)} isPrimary>
+                            <ActionButton onClick={() => onUseImage(src, item.generationId)} isPrimary>
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor"><path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" /><path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2-2H4a2 2 0 01-2-2V6z" clipRule="evenodd" /></svg>
                                 {t('history.use')}
                             </ActionButton>
-                            <ActionButton onClick={() => onDownload(item.imageUrl!, 'final-result')}>
+                            <ActionButton onClick={() => onDownload(src, id)}>
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
                                 {t('history.save')}
                             </ActionButton>
                         </div>
                     </div>
+                    ))}
                 </div>
             ) : item.imageUrl && (
                 <div className="flex flex-col gap-3">
@@ -82,18 +82,25 @@ const HistoryItem: React.FC<{ item: GeneratedContent; onUseImage: (url: string)
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
                             {t('resultDisplay.actions.download')}
                         </ActionButton>
-                        <ActionButton onClick={() => onUseImage(item.imageUrl!)} isPrimary>
+                        <ActionButton onClick={() => onUseImage(item.imageUrl!, item.generationId)} isPrimary>
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" /><path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2-2H4a2 2 0 01-2-2V6z" clipRule="evenodd" /></svg>
                             {t('resultDisplay.actions.useAsInput')}
                         </ActionButton>
                     </div>
                 </div>
             )}
+            {item.generationId && onShowLineage && (
+                <div className="mt-2">
+                    <ActionButton onClick={() => onShowLineage(item.generationId!)}>
+                        {t('lineage.open')}
+                    </ActionButton>
+                </div>
+            )}
         </div>
     );
 };
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, history, onUseImage, onDownload }) => {
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, history, onUseImage, onDownload, hasMore, onLoadMore, onShowLineage }) => {
   const { t } = useTranslation();
   return (
     <div className={`fixed inset-0 z-40 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
@@ -118,8 +125,16 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, history, o
           ) : (
              <div className="space-y-4">
                 {history.map((item, index) => (
-                    <HistoryItem key={index} item={item} onUseImage={onUseImage} onDownload={onDownload} />
+                    <HistoryItem key={index} item={item} onUseImage={onUseImage} onDownload={onDownload} onShowLineage={onShowLineage} />
                 ))}
+                {hasMore && onLoadMore && (
+                    <button
+                        onClick={onLoadMore}
+                        className="w-full py-2 px-3 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] transition-colors duration-200"
+                    >
+                        {t('history.loadMore')}
+                    </button>
+                )}
             </div>
           )}
         </div>
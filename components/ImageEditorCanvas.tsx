@@ -5,164 +5,422 @@ interface ImageEditorCanvasProps {
   onImageSelect: (file: File, dataUrl: string) => void;
   initialImageUrl: string | null;
   onMaskChange: (dataUrl: string | null) => void;
+  // 当前蒙版，撤销/重做恢复的蒙版会重新绘制到画布上
+  maskDataUrl?: string | null;
   onClearImage: () => void;
   isMaskToolActive: boolean;
 }
 
-const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = ({ onImageSelect, initialImageUrl, onMaskChange, onClearImage, isMaskToolActive }) => {
+type MaskTool = 'brush' | 'eraser' | 'rectangle' | 'ellipse' | 'lasso' | 'pan';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface ViewState {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+// 一次拖动操作，坐标为原图像素坐标
+interface Gesture {
+  tool: MaskTool;
+  points: Point[];
+  panOrigin?: { clientX: number; clientY: number; x: number; y: number };
+}
+
+const MASK_TOOLS: { tool: MaskTool; icon: string }[] = [
+  { tool: 'brush', icon: '🖌️' },
+  { tool: 'eraser', icon: '🧽' },
+  { tool: 'rectangle', icon: '▭' },
+  { tool: 'ellipse', icon: '◯' },
+  { tool: 'lasso', icon: '➰' },
+  { tool: 'pan', icon: '✋' }
+];
+
+const SHAPE_TOOLS: MaskTool[] = ['rectangle', 'ellipse', 'lasso'];
+
+// 蒙版图层中选中区域的颜色，显示时再换成主题色
+const MASK_COLOR = '#ffffff';
+const DEFAULT_VIEW: ViewState = { zoom: 1, x: 0, y: 0 };
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+// 蒙版撤销记录上限，每条记录是整张原图尺寸图层的像素数据，大图时按总字节数限制
+const MAX_MASK_HISTORY = 20;
+const MAX_MASK_HISTORY_BYTES = 200 * 1024 * 1024;
+
+const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * 图片按比例完整显示在指定区域内时的位置和尺寸
+ */
+const fitRect = (image: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+  const fittedWidth = image.naturalWidth * scale;
+  const fittedHeight = image.naturalHeight * scale;
+  return { x: (width - fittedWidth) / 2, y: (height - fittedHeight) / 2, width: fittedWidth, height: fittedHeight };
+};
+
+const clampView = (view: ViewState, width: number, height: number): ViewState => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom));
+  return {
+    zoom,
+    x: Math.min(0, Math.max(width * (1 - zoom), view.x)),
+    y: Math.min(0, Math.max(height * (1 - zoom), view.y))
+  };
+};
+
+const isLayerEmpty = (layer: HTMLCanvasElement): boolean => {
+  const data = layer.getContext('2d')!.getImageData(0, 0, layer.width, layer.height).data;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+/**
+ * 恢复的蒙版可能带有羽化，按半透明度阈值还原为实心蒙版，避免再次导出时重复羽化
+ */
+const binarizeLayer = (layer: HTMLCanvasElement) => {
+  const ctx = layer.getContext('2d')!;
+  const imageData = ctx.getImageData(0, 0, layer.width, layer.height);
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = 255;
+    data[i + 3] = data[i + 3] >= 128 ? 255 : 0;
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+const traceShape = (ctx: CanvasRenderingContext2D, tool: MaskTool, points: Point[]) => {
+  const start = points[0];
+  const end = points[points.length - 1];
+  ctx.beginPath();
+  if (tool === 'rectangle') {
+    ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+  } else if (tool === 'ellipse') {
+    ctx.ellipse((start.x + end.x) / 2, (start.y + end.y) / 2, Math.abs(end.x - start.x) / 2, Math.abs(end.y - start.y) / 2, 0, 0, Math.PI * 2);
+  } else {
+    points.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+    ctx.closePath();
+  }
+};
+
+const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = ({ onImageSelect, initialImageUrl, onMaskChange, onClearImage, isMaskToolActive, maskDataUrl = null }) => {
   const { t } = useTranslation();
   const imageCanvasRef = useRef<HTMLCanvasElement>(null);
   const maskCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  
+  // 离屏蒙版图层，尺寸与原图一致，按原图像素坐标绘制，与显示的缩放和平移无关
+  const maskLayerRef = useRef<HTMLCanvasElement | null>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+
   const [image, setImage] = useState<HTMLImageElement | null>(null);
-  
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [lastPos, setLastPos] = useState<{ x: number; y: number } | null>(null);
+  const [layerVersion, setLayerVersion] = useState(0);
+
+  const [tool, setTool] = useState<MaskTool>('brush');
   const [brushSize, setBrushSize] = useState(20);
+  const [featherRadius, setFeatherRadius] = useState(0);
+  const [maskOpacity, setMaskOpacity] = useState(0.7);
+  const [view, setView] = useState<ViewState>(DEFAULT_VIEW);
   const [history, setHistory] = useState<ImageData[]>([]);
 
   const [isDragging, setIsDragging] = useState(false); // For file drop
+  // 画布上当前绘制的蒙版，用于区分外部恢复的蒙版和自己绘制产生的蒙版
+  const drawnMaskRef = useRef<string | null>(null);
+  const drawnImageRef = useRef<HTMLImageElement | null>(null);
 
-  const getCanvasContexts = useCallback(() => {
+  /**
+   * 原图像素坐标到画布坐标的变换：先按比例完整显示在容器中，再应用缩放和平移
+   */
+  const getTransform = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || !image) return { scale: view.zoom, x: view.x, y: view.y, fitScale: 1 };
+    const rect = fitRect(image, container.clientWidth, container.clientHeight);
+    const fitScale = rect.width / image.naturalWidth;
+    return {
+      scale: fitScale * view.zoom,
+      x: view.x + rect.x * view.zoom,
+      y: view.y + rect.y * view.zoom,
+      fitScale
+    };
+  }, [image, view]);
+
+  const render = useCallback(() => {
     const imageCanvas = imageCanvasRef.current;
     const maskCanvas = maskCanvasRef.current;
     const imageCtx = imageCanvas?.getContext('2d');
     const maskCtx = maskCanvas?.getContext('2d');
-    return { imageCanvas, maskCanvas, imageCtx, maskCtx };
-  }, []);
-
-  const draw = useCallback(() => {
-    const { imageCtx, imageCanvas, maskCanvas } = getCanvasContexts();
     const container = containerRef.current;
+    const layer = maskLayerRef.current;
 
-    if (!imageCtx || !imageCanvas || !image || !container) return;
-    
-    const contRatio = container.clientWidth / container.clientHeight;
-    const imgRatio = image.width / image.height;
+    if (!imageCanvas || !maskCanvas || !imageCtx || !maskCtx || !container || !layer || !image) return;
 
-    let displayW, displayH, displayX, displayY;
-    if (contRatio > imgRatio) {
-        displayH = container.clientHeight;
-        displayW = displayH * imgRatio;
-    } else {
-        displayW = container.clientWidth;
-        displayH = displayW / imgRatio;
-    }
-    displayX = (container.clientWidth - displayW) / 2;
-    displayY = (container.clientHeight - displayH) / 2;
-    
     [imageCanvas, maskCanvas].forEach(canvas => {
-        if(canvas) {
-            canvas.width = container.clientWidth;
-            canvas.height = container.clientHeight;
-        }
+        canvas.width = container.clientWidth;
+        canvas.height = container.clientHeight;
     });
 
-    imageCtx.clearRect(0, 0, imageCanvas.width, imageCanvas.height);
-    imageCtx.drawImage(image, displayX, displayY, displayW, displayH);
+    const { scale, x, y } = getTransform();
+    imageCtx.setTransform(scale, 0, 0, scale, x, y);
+    imageCtx.drawImage(image, 0, 0, layer.width, layer.height);
 
-  }, [image, getCanvasContexts]);
+    maskCtx.setTransform(scale, 0, 0, scale, x, y);
+    maskCtx.drawImage(layer, 0, 0);
+    // 拖动中的选区预览
+    const gesture = gestureRef.current;
+    if (gesture && SHAPE_TOOLS.includes(gesture.tool) && gesture.points.length > 1) {
+        traceShape(maskCtx, gesture.tool, gesture.points);
+        maskCtx.fillStyle = MASK_COLOR;
+        maskCtx.fill();
+    }
+    // 用主题色显示蒙版，透明度由画布样式控制
+    maskCtx.setTransform(1, 0, 0, 1, 0, 0);
+    maskCtx.globalCompositeOperation = 'source-in';
+    maskCtx.fillStyle = getComputedStyle(document.documentElement).getPropertyValue('--accent-primary').trim();
+    maskCtx.fillRect(0, 0, maskCanvas.width, maskCanvas.height);
+  }, [image, getTransform]);
 
   useEffect(() => {
     const img = new Image();
     img.crossOrigin = "anonymous";
     img.onload = () => {
+        // 蒙版随图片一起由下面的 effect 重置
         setImage(img);
-        setHistory([]);
-        const { maskCtx, maskCanvas } = getCanvasContexts();
-        if (maskCtx && maskCanvas) {
-            maskCtx.clearRect(0, 0, maskCanvas.width, maskCanvas.height);
-            onMaskChange(null);
-        }
     };
     if (initialImageUrl) {
         img.src = initialImageUrl;
     } else {
         setImage(null);
     }
-  }, [initialImageUrl, getCanvasContexts, onMaskChange]);
+  }, [initialImageUrl]);
+
+  // 换图时按原图尺寸新建蒙版图层；外部恢复蒙版（撤销/重做）时重新绘制到图层上
+  useEffect(() => {
+    if (maskDataUrl === drawnMaskRef.current && image === drawnImageRef.current) return;
+    if (image !== drawnImageRef.current) {
+      maskLayerRef.current = image ? createCanvas(image.naturalWidth, image.naturalHeight) : null;
+      setView(DEFAULT_VIEW);
+    }
+    drawnMaskRef.current = maskDataUrl;
+    drawnImageRef.current = image;
+    setHistory([]);
+
+    const layer = maskLayerRef.current;
+    if (!layer) return;
+    layer.getContext('2d')!.clearRect(0, 0, layer.width, layer.height);
+    setLayerVersion(version => version + 1);
+    if (!maskDataUrl) return;
+
+    const maskImage = new Image();
+    maskImage.onload = () => {
+      if (maskLayerRef.current !== layer) return;
+      layer.getContext('2d')!.drawImage(maskImage, 0, 0, layer.width, layer.height);
+      binarizeLayer(layer);
+      setLayerVersion(version => version + 1);
+    };
+    maskImage.src = maskDataUrl;
+  }, [maskDataUrl, image]);
 
   useEffect(() => {
-    draw();
-    const handleResize = () => draw();
+    render();
+    const handleResize = () => render();
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
-  }, [draw, image]);
+  }, [render, layerVersion]);
+
+  /**
+   * 按原图分辨率导出蒙版，羽化半径大于 0 时模糊边缘；蒙版为空时导出 null
+   */
+  const emitMaskChange = useCallback(() => {
+    const layer = maskLayerRef.current;
+    if (!layer) return;
+    // 羽化半径按屏幕像素设置，换算为原图像素
+    const { fitScale } = getTransform();
+    let dataUrl: string | null = null;
+    if (!isLayerEmpty(layer)) {
+      const exportCanvas = createCanvas(layer.width, layer.height);
+      const exportCtx = exportCanvas.getContext('2d')!;
+      if (featherRadius > 0) {
+        exportCtx.filter = `blur(${featherRadius / fitScale}px)`;
+      }
+      exportCtx.drawImage(layer, 0, 0);
+      dataUrl = exportCanvas.toDataURL();
+    }
+    drawnMaskRef.current = dataUrl;
+    onMaskChange(dataUrl);
+  }, [featherRadius, onMaskChange, getTransform]);
+
+  // 调整羽化半径后重新导出已有蒙版
+  useEffect(() => {
+    if (drawnMaskRef.current) emitMaskChange();
+  }, [emitMaskChange]);
 
   const saveToHistory = useCallback(() => {
-    const { maskCtx, maskCanvas } = getCanvasContexts();
-    if (maskCtx && maskCanvas) {
-      setHistory(prev => [...prev, maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height)]);
+    const layer = maskLayerRef.current;
+    if (layer) {
+      const snapshot = layer.getContext('2d')!.getImageData(0, 0, layer.width, layer.height);
+      setHistory(prev => {
+        const next = [...prev, snapshot].slice(-MAX_MASK_HISTORY);
+        while (next.length > 1 && next.length * snapshot.data.byteLength > MAX_MASK_HISTORY_BYTES) {
+          next.shift();
+        }
+        return next;
+      });
     }
-  }, [getCanvasContexts]);
+  }, []);
 
   const clearMask = useCallback(() => {
-    const { maskCtx, maskCanvas } = getCanvasContexts();
-    if (maskCtx && maskCanvas) {
-      saveToHistory();
-      maskCtx.clearRect(0, 0, maskCanvas.width, maskCanvas.height);
-      onMaskChange(null);
-      setHistory(prev => [...prev, maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height)]);
-    }
-  }, [getCanvasContexts, onMaskChange, saveToHistory]);
-  
+    const layer = maskLayerRef.current;
+    if (!layer) return;
+    saveToHistory();
+    layer.getContext('2d')!.clearRect(0, 0, layer.width, layer.height);
+    render();
+    emitMaskChange();
+  }, [emitMaskChange, render, saveToHistory]);
+
+  const invertMask = useCallback(() => {
+    const layer = maskLayerRef.current;
+    if (!layer) return;
+    saveToHistory();
+    const ctx = layer.getContext('2d')!;
+    ctx.globalCompositeOperation = 'xor';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.fillRect(0, 0, layer.width, layer.height);
+    ctx.globalCompositeOperation = 'source-over';
+    render();
+    emitMaskChange();
+  }, [emitMaskChange, render, saveToHistory]);
+
   const handleUndo = useCallback(() => {
-    const { maskCtx, maskCanvas } = getCanvasContexts();
-    if (!maskCtx || !maskCanvas || history.length === 0) return;
-
-    const newHistory = history.slice(0, -1);
-    setHistory(newHistory);
-    maskCtx.clearRect(0, 0, maskCanvas.width, maskCanvas.height);
-    
-    if (newHistory.length > 0) {
-        maskCtx.putImageData(newHistory[newHistory.length - 1], 0, 0);
-        onMaskChange(maskCanvas.toDataURL());
-    } else {
-        onMaskChange(null);
-    }
-  }, [getCanvasContexts, onMaskChange, history]);
+    const layer = maskLayerRef.current;
+    if (!layer || history.length === 0) return;
+
+    layer.getContext('2d')!.putImageData(history[history.length - 1], 0, 0);
+    setHistory(history.slice(0, -1));
+    render();
+    emitMaskChange();
+  }, [emitMaskChange, render, history]);
+
+  // 以容器内的某一点为中心缩放
+  const zoomAt = useCallback((factor: number, anchorX: number, anchorY: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    setView(current => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom * factor));
+      const ratio = zoom / current.zoom;
+      return clampView({
+        zoom,
+        x: anchorX - (anchorX - current.x) * ratio,
+        y: anchorY - (anchorY - current.y) * ratio
+      }, container.clientWidth, container.clientHeight);
+    });
+  }, []);
+
+  const zoomAtCenter = (factor: number) => {
+    const container = containerRef.current;
+    if (container) zoomAt(factor, container.clientWidth / 2, container.clientHeight / 2);
+  };
 
-  const getMaskCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
+  // 滚轮缩放需要阻止页面滚动，React 的 onWheel 是被动监听，无法 preventDefault
+  useEffect(() => {
     const canvas = maskCanvasRef.current;
-    if (!canvas) return null;
-    const rect = canvas.getBoundingClientRect();
-    const x = 'touches' in e ? e.touches[0].clientX - rect.left : e.clientX - rect.left;
-    const y = 'touches' in e ? e.touches[0].clientY - rect.top : e.clientY - rect.top;
-    return { x, y };
+    if (!canvas || !isMaskToolActive) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [isMaskToolActive, zoomAt, image]);
+
+  const getLayerPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const { scale, x, y } = getTransform();
+    return { x: (e.clientX - rect.left - x) / scale, y: (e.clientY - rect.top - y) / scale };
   };
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    const coords = getMaskCoordinates(e);
-    if (!coords) return;
-    saveToHistory();
-    setIsDrawing(true);
-    setLastPos(coords);
+  // 笔刷大小按屏幕像素计算，缩放后保持手感一致
+  const strokeSegment = (gestureTool: MaskTool, from: Point, to: Point) => {
+    const ctx = maskLayerRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.globalCompositeOperation = gestureTool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize / getTransform().scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!maskLayerRef.current) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (tool === 'pan') {
+      gestureRef.current = { tool, points: [], panOrigin: { clientX: e.clientX, clientY: e.clientY, x: view.x, y: view.y } };
+      return;
+    }
+    const point = getLayerPoint(e);
+    gestureRef.current = { tool, points: [point] };
+    if (tool === 'brush' || tool === 'eraser') {
+      saveToHistory();
+      strokeSegment(tool, point, point);
+      render();
+    }
   };
-  
-  const doDraw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing) return;
-    const coords = getMaskCoordinates(e);
-    if (!coords || !lastPos) return;
-    const { maskCtx } = getCanvasContexts();
-    if (maskCtx) {
-      maskCtx.beginPath();
-      const accentColor = getComputedStyle(document.documentElement).getPropertyValue('--accent-primary').trim();
-      maskCtx.strokeStyle = `${accentColor}b3`; // 70% opacity
-      maskCtx.lineWidth = brushSize;
-      maskCtx.lineCap = 'round';
-      maskCtx.lineJoin = 'round';
-      maskCtx.moveTo(lastPos.x, lastPos.y);
-      maskCtx.lineTo(coords.x, coords.y);
-      maskCtx.stroke();
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+    if (gesture.panOrigin) {
+      const { clientX, clientY, x, y } = gesture.panOrigin;
+      const container = containerRef.current;
+      if (container) {
+        setView(clampView({ zoom: view.zoom, x: x + e.clientX - clientX, y: y + e.clientY - clientY }, container.clientWidth, container.clientHeight));
+      }
+      return;
     }
-    setLastPos(coords);
+    const point = getLayerPoint(e);
+    if (gesture.tool === 'brush' || gesture.tool === 'eraser') {
+      strokeSegment(gesture.tool, gesture.points[0], point);
+      gesture.points = [point];
+    } else if (gesture.tool === 'lasso') {
+      gesture.points.push(point);
+    } else {
+      gesture.points = [gesture.points[0], point];
+    }
+    render();
   };
-  
-  const stopDrawing = () => {
-    setIsDrawing(false);
-    setLastPos(null);
-    onMaskChange(maskCanvasRef.current?.toDataURL() ?? null);
+
+  const handlePointerUp = () => {
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+    if (!gesture || gesture.panOrigin) return;
+    if (SHAPE_TOOLS.includes(gesture.tool)) {
+      const ctx = maskLayerRef.current?.getContext('2d');
+      if (!ctx || gesture.points.length < 2) {
+        render();
+        return;
+      }
+      saveToHistory();
+      traceShape(ctx, gesture.tool, gesture.points);
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fill();
+    }
+    render();
+    emitMaskChange();
   };
 
   const handleFile = useCallback((file: File) => {
@@ -181,6 +439,9 @@ const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = ({ onImageSelect, in
   const handleDragOver = (e: React.DragEvent) => { e.preventDefault(); e.stopPropagation(); setIsDragging(true); };
   const handleDragLeave = (e: React.DragEvent) => { e.preventDefault(); e.stopPropagation(); setIsDragging(false); };
 
+  const panelButtonClassName = "px-4 py-2 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] disabled:bg-[var(--bg-disabled)] disabled:text-[var(--text-disabled)] disabled:cursor-not-allowed transition-colors";
+  const sliderClassName = "w-full h-2 bg-[var(--text-tertiary)] rounded-lg appearance-none cursor-pointer accent-[var(--accent-primary)]";
+
   return (
     <div className="flex flex-col gap-4">
         <div
@@ -200,14 +461,11 @@ const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = ({ onImageSelect, in
                 <>
                     <button onClick={onClearImage} className="absolute top-2 right-2 z-30 p-1 bg-black/50 backdrop-blur-sm rounded-full text-white hover:bg-red-600 transition-colors" aria-label="Remove image"><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg></button>
                     <canvas ref={imageCanvasRef} className="absolute top-0 left-0" style={{ zIndex: 1 }} />
-                    <canvas ref={maskCanvasRef} className="absolute top-0 left-0" style={{ zIndex: 3, touchAction: 'none', cursor: isMaskToolActive ? 'crosshair' : 'default' }} 
-                        onMouseDown={isMaskToolActive ? startDrawing : undefined} 
-                        onMouseMove={isMaskToolActive ? doDraw : undefined} 
-                        onMouseUp={isMaskToolActive ? stopDrawing : undefined} 
-                        onMouseLeave={isMaskToolActive ? stopDrawing : undefined} 
-                        onTouchStart={isMaskToolActive ? startDrawing : undefined} 
-                        onTouchMove={isMaskToolActive ? doDraw : undefined} 
-                        onTouchEnd={isMaskToolActive ? stopDrawing : undefined} 
+                    <canvas ref={maskCanvasRef} className="absolute top-0 left-0" style={{ zIndex: 3, touchAction: 'none', opacity: maskOpacity, cursor: isMaskToolActive ? (tool === 'pan' ? 'grab' : 'crosshair') : 'default' }}
+                        onPointerDown={isMaskToolActive ? handlePointerDown : undefined}
+                        onPointerMove={isMaskToolActive ? handlePointerMove : undefined}
+                        onPointerUp={isMaskToolActive ? handlePointerUp : undefined}
+                        onPointerCancel={isMaskToolActive ? handlePointerUp : undefined}
                     />
                 </>
             )}
@@ -215,13 +473,51 @@ const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = ({ onImageSelect, in
         {initialImageUrl && isMaskToolActive && (
             <div className="p-3 bg-black/60 backdrop-blur-md rounded-lg flex flex-col gap-4 border border-[var(--border-primary)] animate-fade-in-fast">
                 <p className="text-xs text-[var(--text-secondary)] -mb-2">{t('imageEditor.maskPanelInfo')}</p>
+                <div className="grid grid-cols-3 sm:grid-cols-6 gap-1">
+                    {MASK_TOOLS.map(({ tool: maskTool, icon }) => (
+                        <button
+                            key={maskTool}
+                            onClick={() => setTool(maskTool)}
+                            title={t(`imageEditor.tools.${maskTool}`)}
+                            className={`flex flex-col items-center gap-0.5 py-1.5 text-xs font-semibold rounded-md transition-colors ${
+                                tool === maskTool ? 'bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)]' : 'text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)]'
+                            }`}
+                        >
+                            <span className="text-base leading-none">{icon}</span>
+                            <span>{t(`imageEditor.tools.${maskTool}`)}</span>
+                        </button>
+                    ))}
+                </div>
+                {(tool === 'brush' || tool === 'eraser') && (
+                    <div className="flex items-center gap-4">
+                        <label htmlFor="brush-size" className="text-sm font-medium text-[var(--text-primary)] whitespace-nowrap">{t('imageEditor.brushSize')}</label>
+                        <input id="brush-size" type="range" min="5" max="100" value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className={sliderClassName} />
+                    </div>
+                )}
                 <div className="flex items-center gap-4">
-                    <label htmlFor="brush-size" className="text-sm font-medium text-[var(--text-primary)] whitespace-nowrap">{t('imageEditor.brushSize')}</label>
-                    <input id="brush-size" type="range" min="5" max="100" value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-full h-2 bg-[var(--text-tertiary)] rounded-lg appearance-none cursor-pointer accent-[var(--accent-primary)]" />
+                    <label htmlFor="feather-radius" className="text-sm font-medium text-[var(--text-primary)] whitespace-nowrap">{t('imageEditor.feather')}</label>
+                    <input id="feather-radius" type="range" min="0" max="50" value={featherRadius} onChange={(e) => setFeatherRadius(Number(e.target.value))} className={sliderClassName} />
+                    <span className="w-10 text-right text-xs text-[var(--text-secondary)]">{featherRadius}px</span>
+                </div>
+                <div className="flex items-center gap-4">
+                    <label htmlFor="mask-opacity" className="text-sm font-medium text-[var(--text-primary)] whitespace-nowrap">{t('imageEditor.maskOpacity')}</label>
+                    <input id="mask-opacity" type="range" min="10" max="100" value={Math.round(maskOpacity * 100)} onChange={(e) => setMaskOpacity(Number(e.target.value) / 100)} className={sliderClassName} />
+                    <span className="w-10 text-right text-xs text-[var(--text-secondary)]">{Math.round(maskOpacity * 100)}%</span>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-[var(--text-primary)]">{t('imageEditor.zoom')}</span>
+                    <div className="flex items-center gap-1">
+                        <button onClick={() => zoomAtCenter(1 / ZOOM_STEP)} disabled={view.zoom <= MIN_ZOOM} className="px-3 py-1 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] disabled:text-[var(--text-disabled)] disabled:cursor-not-allowed transition-colors" aria-label={t('imageEditor.zoomOut')}>−</button>
+                        <span className="w-12 text-center text-xs text-[var(--text-secondary)]">{Math.round(view.zoom * 100)}%</span>
+                        <button onClick={() => zoomAtCenter(ZOOM_STEP)} disabled={view.zoom >= MAX_ZOOM} className="px-3 py-1 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] disabled:text-[var(--text-disabled)] disabled:cursor-not-allowed transition-colors" aria-label={t('imageEditor.zoomIn')}>+</button>
+                        <button onClick={() => setView(DEFAULT_VIEW)} disabled={view.zoom === MIN_ZOOM} className="px-3 py-1 text-xs font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] disabled:text-[var(--text-disabled)] disabled:cursor-not-allowed transition-colors">{t('imageEditor.resetZoom')}</button>
+                    </div>
                 </div>
-                <div className="grid grid-cols-2 gap-2">
-                    <button onClick={handleUndo} disabled={history.length === 0} className="px-4 py-2 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] disabled:bg-[var(--bg-disabled)] disabled:text-[var(--text-disabled)] disabled:cursor-not-allowed transition-colors">{t('imageEditor.undo')}</button>
-                    <button onClick={clearMask} disabled={history.length === 0} className="px-4 py-2 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] disabled:bg-[var(--bg-disabled)] disabled:text-[var(--text-disabled)] disabled:cursor-not-allowed transition-colors">{t('imageEditor.clearMask')}</button>
+                <p className="text-xs text-[var(--text-tertiary)] -mt-2">{t('imageEditor.zoomHint')}</p>
+                <div className="grid grid-cols-3 gap-2">
+                    <button onClick={handleUndo} disabled={history.length === 0} className={panelButtonClassName}>{t('imageEditor.undo')}</button>
+                    <button onClick={invertMask} className={panelButtonClassName}>{t('imageEditor.invertMask')}</button>
+                    <button onClick={clearMask} disabled={!maskDataUrl} className={panelButtonClassName}>{t('imageEditor.clearMask')}</button>
                 </div>
             </div>
         )}
@@ -229,4 +525,4 @@ const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = ({ onImageSelect, in
   );
 };
 
-export default ImageEditorCanvas;
\ No newline at end of file
+export default ImageEditorCanvas;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { useTranslation } from '../i18n/context';
+import { downloadImage, getImageFilename } from '../utils/fileUtils';
 
 interface ImagePreviewModalProps {
   imageUrl: string | null;
@@ -12,16 +13,10 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ imageUrl, onClose
     return null;
   }
   
-  const handleDownload = (e: React.MouseEvent) => {
+  const handleDownload = async (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent modal from closing
     if (!imageUrl) return;
-    const link = document.createElement('a');
-    link.href = imageUrl;
-    const fileExtension = imageUrl.split(';')[0].split('/')[1] || 'png';
-    link.download = `generated-image-${Date.now()}.${fileExtension}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadImage(imageUrl, await getImageFilename(imageUrl, 'generated-image'));
   };
 
   return (
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import type { GeneratedContent, Transformation } from '../types';
+import { useTranslation } from '../i18n/context';
+import ErrorMessage from './ErrorMessage';
+import LoadingSpinner from './LoadingSpinner';
+
+interface LineageModalProps {
+  // 要查看的生成记录，null 时不显示
+  generationId: string | null;
+  transformations: Transformation[];
+  onClose: () => void;
+  // 以该节点的结果作为输入，继续编辑出新的分支
+  onBranch: (imageUrl: string, generationId: string) => void;
+  // 以该节点的输入图片重新选择效果，结果与该节点并列
+  onRerun: (imageUrl: string, parentGenerationId?: string) => void;
+  onImageClick: (imageUrl: string) => void;
+}
+
+interface LineageNode {
+  id: string;
+  transformationKey: string | null;
+  prompt: string;
+  parentIds: string[];
+  inputs: { primaryImageUrl: string | null };
+  result: GeneratedContent;
+  createdAt: string;
+}
+
+interface LineageResponse {
+  generationId: string;
+  rootIds: string[];
+  generations: LineageNode[];
+}
+
+const fetchLineage = async (generationId: string): Promise<LineageResponse> => {
+  const token = localStorage.getItem('token');
+  const response = await fetch(`http://localhost:3000/api/generations/${generationId}/lineage`, {
+    headers: { 'Authorization': `Bearer ${token}` }
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch lineage. Status: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+/**
+ * 在效果目录（含分类）中查找效果
+ */
+const findTransformation = (transformations: Transformation[], key: string): Transformation | null => {
+  for (const transformation of transformations) {
+    if (transformation.key === key) return transformation;
+    const found = transformation.items ? findTransformation(transformation.items, key) : null;
+    if (found) return found;
+  }
+  return null;
+};
+
+const LineageModal: React.FC<LineageModalProps> = ({
+  generationId,
+  transformations,
+  onClose,
+  onBranch,
+  onRerun,
+  onImageClick
+}) => {
+  const { t } = useTranslation();
+  const [lineage, setLineage] = useState<LineageResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!generationId) return;
+    setLineage(null);
+    setError(null);
+    fetchLineage(generationId)
+      .then(setLineage)
+      .catch(err => setError(err instanceof Error ? err.message : t('app.error.unknown')));
+  }, [generationId, t]);
+
+  if (!generationId) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const nodes = new Map((lineage?.generations ?? []).map(node => [node.id, node]));
+  const children = new Map<string, LineageNode[]>();
+  for (const node of lineage?.generations ?? []) {
+    for (const parentId of node.parentIds) {
+      children.set(parentId, [...(children.get(parentId) ?? []), node]);
+    }
+  }
+
+  const renderNode = (node: LineageNode): React.ReactNode => {
+    const transformation = node.transformationKey ? findTransformation(transformations, node.transformationKey) : null;
+    const isCurrent = node.id === lineage?.generationId;
+    const childNodes = children.get(node.id) ?? [];
+
+    return (
+      <li key={node.id}>
+        <div className={`flex items-center gap-3 p-3 rounded-lg border bg-[var(--bg-secondary)] ${
+          isCurrent ? 'border-2 border-[var(--accent-primary)]' : 'border-[var(--border-primary)]'
+        }`}>
+          {node.result.imageUrl && (
+            <img
+              src={node.result.imageUrl}
+              alt={node.prompt}
+              className="h-16 w-16 flex-shrink-0 rounded-md object-cover bg-[var(--bg-primary)] cursor-pointer"
+              onClick={() => onImageClick(node.result.imageUrl!)}
+            />
+          )}
+          <div className="flex-grow min-w-0">
+            <div className="flex items-center gap-2 text-sm font-semibold text-[var(--text-primary)]">
+              <span>{transformation ? `${transformation.emoji} ${t(transformation.titleKey)}` : t('textToImage.title')}</span>
+              {isCurrent && <span className="text-xs font-normal text-[var(--accent-primary)]">{t('lineage.current')}</span>}
+            </div>
+            <p className="text-xs text-[var(--text-secondary)] truncate" title={node.prompt}>{node.prompt}</p>
+            <p className="text-xs text-[var(--text-tertiary)]">{new Date(node.createdAt).toLocaleString()}</p>
+          </div>
+          <div className="flex flex-col gap-1.5 flex-shrink-0">
+            {node.result.imageUrl && (
+              <button
+                onClick={() => onBranch(node.result.imageUrl!, node.id)}
+                className="py-1 px-2 text-xs font-semibold text-[var(--text-on-accent)] bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] rounded-md hover:from-[var(--accent-primary-hover)] hover:to-[var(--accent-secondary-hover)] transition-colors duration-200"
+              >
+                {t('lineage.branch')}
+              </button>
+            )}
+            {node.inputs.primaryImageUrl && (
+              <button
+                onClick={() => onRerun(node.inputs.primaryImageUrl!, node.parentIds.find(parentId => nodes.has(parentId)))}
+                className="py-1 px-2 text-xs font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] transition-colors duration-200"
+              >
+                {t('lineage.rerun')}
+              </button>
+            )}
+          </div>
+        </div>
+        {childNodes.length > 0 && (
+          <ul className="mt-3 ml-6 pl-4 space-y-3 border-l-2 border-[var(--border-primary)]">
+            {childNodes.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center z-50 bg-black/50 backdrop-blur-sm"
+      onClick={handleBackdropClick}
+    >
+      <div
+        className="bg-[var(--bg-card-alpha)] backdrop-blur-lg rounded-xl border border-[var(--border-primary)] shadow-2xl shadow-black/20 w-full max-w-3xl p-6 sm:p-8 animate-fade-in max-h-[90vh] overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl font-bold text-[var(--accent-primary)]">{t('lineage.title')}</h2>
+          <button
+            onClick={onClose}
+            className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-[var(--text-secondary)] mb-6">{t('lineage.description')}</p>
+
+        {error && (
+          <div className="flex justify-center mb-4">
+            <ErrorMessage message={error} />
+          </div>
+        )}
+
+        {!lineage && !error ? (
+          <div className="flex justify-center py-10">
+            <LoadingSpinner />
+          </div>
+        ) : lineage && (
+          <ul className="space-y-3">
+            {lineage.rootIds.map(rootId => nodes.get(rootId)).filter((node): node is LineageNode => !!node).map(renderNode)}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LineageModal;
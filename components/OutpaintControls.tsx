@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from '../i18n/context';
+import { loadImage } from '../utils/fileUtils';
+import AspectRatioSelector from './AspectRatioSelector';
+
+export interface OutpaintPadding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface OutpaintSettings {
+  mode: 'aspectRatio' | 'padding';
+  aspectRatio: string;
+  // 原图在新画布中的位置（0~1）
+  position: { x: number; y: number };
+  // 四周补充的尺寸，按原图宽高的百分比
+  padding: OutpaintPadding;
+}
+
+// 扩图可选的宽高比（服务端支持列表中的常用项）
+const OUTPAINT_ASPECT_RATIOS = ['1:1', '4:3', '3:4', '3:2', '2:3', '16:9', '9:16', '21:9'];
+// 每条边最多补充原图尺寸的百分比
+const MAX_PADDING_PERCENT = 200;
+
+const PADDING_SIDES: (keyof OutpaintPadding)[] = ['top', 'right', 'bottom', 'left'];
+
+export const DEFAULT_OUTPAINT_SETTINGS: OutpaintSettings = {
+  mode: 'aspectRatio',
+  aspectRatio: '16:9',
+  position: { x: 0.5, y: 0.5 },
+  padding: { top: 0, right: 25, bottom: 0, left: 25 }
+};
+
+/**
+ * 计算扩展后的画布尺寸和四周补充的像素数，与服务端的计算方式一致
+ */
+export const getOutpaintLayout = (settings: OutpaintSettings, width: number, height: number) => {
+  let padding: OutpaintPadding;
+  if (settings.mode === 'padding') {
+    padding = {
+      top: Math.round((height * settings.padding.top) / 100),
+      right: Math.round((width * settings.padding.right) / 100),
+      bottom: Math.round((height * settings.padding.bottom) / 100),
+      left: Math.round((width * settings.padding.left) / 100)
+    };
+  } else {
+    const [ratioWidth, ratioHeight] = settings.aspectRatio.split(':').map(Number);
+    const extraX = Math.max(width, Math.round((height * ratioWidth) / ratioHeight)) - width;
+    const extraY = Math.max(height, Math.round((width * ratioHeight) / ratioWidth)) - height;
+    const left = Math.round(extraX * settings.position.x);
+    const top = Math.round(extraY * settings.position.y);
+    padding = { top, right: extraX - left, bottom: extraY - top, left };
+  }
+  return {
+    padding,
+    width: width + padding.left + padding.right,
+    height: height + padding.top + padding.bottom
+  };
+};
+
+/**
+ * 转换为编辑请求中的 outpaint 参数：宽高比模式由服务端计算位置，补边模式换算为原图像素
+ */
+export const toOutpaintRequest = (settings: OutpaintSettings, width: number, height: number) =>
+  settings.mode === 'aspectRatio'
+    ? { aspectRatio: settings.aspectRatio, position: settings.position }
+    : { padding: getOutpaintLayout(settings, width, height).padding };
+
+interface OutpaintControlsProps {
+  imageUrl: string | null;
+  settings: OutpaintSettings;
+  onChange: (settings: OutpaintSettings) => void;
+  disabled?: boolean;
+}
+
+const OutpaintControls: React.FC<OutpaintControlsProps> = ({ imageUrl, settings, onChange, disabled }) => {
+  const { t } = useTranslation();
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    setImageSize(null);
+    if (!imageUrl) return;
+    let cancelled = false;
+    loadImage(imageUrl)
+      .then(image => !cancelled && setImageSize({ width: image.naturalWidth, height: image.naturalHeight }))
+      .catch(e => console.error("Failed to read image size", e));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  const layout = imageSize ? getOutpaintLayout(settings, imageSize.width, imageSize.height) : null;
+  const isUnchanged = !!layout && !!imageSize && layout.width === imageSize.width && layout.height === imageSize.height;
+
+  const modeButtonClassName = (active: boolean) => `flex-1 py-1.5 text-xs font-semibold rounded-md transition-colors duration-200 ${
+    active ? 'bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)]' : 'text-[var(--text-primary)] hover:bg-[rgba(107,114,128,0.2)]'
+  }`;
+
+  return (
+    <div className="mt-4 flex flex-col gap-4">
+      <div className="p-1 bg-[var(--bg-secondary)] rounded-lg flex items-center gap-1">
+        <button onClick={() => onChange({ ...settings, mode: 'aspectRatio' })} disabled={disabled} className={modeButtonClassName(settings.mode === 'aspectRatio')}>
+          {t('outpaint.modes.aspectRatio')}
+        </button>
+        <button onClick={() => onChange({ ...settings, mode: 'padding' })} disabled={disabled} className={modeButtonClassName(settings.mode === 'padding')}>
+          {t('outpaint.modes.padding')}
+        </button>
+      </div>
+
+      {settings.mode === 'aspectRatio' ? (
+        <>
+          <AspectRatioSelector
+            options={OUTPAINT_ASPECT_RATIOS}
+            value={settings.aspectRatio}
+            onChange={aspectRatio => onChange({ ...settings, aspectRatio })}
+            disabled={disabled}
+          />
+          {(['x', 'y'] as const).map(axis => (
+            <div key={axis} className="flex items-center gap-4">
+              <label htmlFor={`outpaint-position-${axis}`} className="w-24 text-sm font-medium text-[var(--text-primary)] whitespace-nowrap">{t(`outpaint.position.${axis}`)}</label>
+              <input
+                id={`outpaint-position-${axis}`}
+                type="range"
+                min="0"
+                max="100"
+                value={Math.round(settings.position[axis] * 100)}
+                onChange={e => onChange({ ...settings, position: { ...settings.position, [axis]: Number(e.target.value) / 100 } })}
+                disabled={disabled || (axis === 'x' ? layout?.width === imageSize?.width : layout?.height === imageSize?.height)}
+                className="w-full h-2 bg-[var(--text-tertiary)] rounded-lg appearance-none cursor-pointer accent-[var(--accent-primary)] disabled:opacity-40"
+              />
+            </div>
+          ))}
+        </>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          {PADDING_SIDES.map(side => (
+            <label key={side} className="flex items-center justify-between gap-2 text-sm font-medium text-[var(--text-primary)]">
+              <span>{t(`outpaint.sides.${side}`)}</span>
+              <span className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min="0"
+                  max={MAX_PADDING_PERCENT}
+                  value={settings.padding[side]}
+                  onChange={e => onChange({
+                    ...settings,
+                    padding: { ...settings.padding, [side]: Math.min(MAX_PADDING_PERCENT, Math.max(0, Math.round(Number(e.target.value) || 0))) }
+                  })}
+                  disabled={disabled}
+                  className="w-20 p-1.5 text-right bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-md focus:ring-2 focus:ring-[var(--accent-primary)] focus:border-[var(--accent-primary)]"
+                />
+                <span className="text-[var(--text-secondary)]">%</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* 预览：灰色区域由模型填充 */}
+      {imageUrl && imageSize && layout && (
+        <div className="flex flex-col items-center gap-2">
+          {/* 竖向画布按比例缩小宽度，预览高度不超过宽度上限 */}
+          <div
+            className="relative max-w-xs rounded-md overflow-hidden border border-dashed border-[var(--border-primary)] bg-[repeating-linear-gradient(45deg,rgba(107,114,128,0.25)_0,rgba(107,114,128,0.25)_8px,transparent_8px,transparent_16px)]"
+            style={{
+              aspectRatio: `${layout.width} / ${layout.height}`,
+              width: `${Math.min(1, layout.width / layout.height) * 100}%`
+            }}
+          >
+            <img
+              src={imageUrl}
+              alt={t('outpaint.original')}
+              className="absolute object-fill"
+              style={{
+                left: `${(layout.padding.left / layout.width) * 100}%`,
+                top: `${(layout.padding.top / layout.height) * 100}%`,
+                width: `${(imageSize.width / layout.width) * 100}%`,
+                height: `${(imageSize.height / layout.height) * 100}%`
+              }}
+            />
+          </div>
+          <p className="text-xs text-[var(--text-secondary)]">
+            {t('outpaint.canvasSize').replace('{width}', String(layout.width)).replace('{height}', String(layout.height))}
+          </p>
+          {isUnchanged && <p className="text-xs text-red-500">{t('outpaint.unchanged')}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutpaintControls;
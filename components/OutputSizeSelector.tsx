@@ -0,0 +1,180 @@
+import React from 'react';
+import type { OutputFormat, OutputSettings } from '../types';
+import { useTranslation } from '../i18n/context';
+
+interface OutputSizeSelectorProps {
+  value: OutputSettings;
+  onChange: (settings: OutputSettings) => void;
+  disabled?: boolean;
+}
+
+type SizeOption = 'original' | '1024' | '2048' | 'custom';
+
+// 预设尺寸按最长边缩放
+const SIZE_PRESETS: Record<'1024' | '2048', number> = { '1024': 1024, '2048': 2048 };
+const SIZE_OPTIONS: SizeOption[] = ['original', '1024', '2048', 'custom'];
+const FORMAT_OPTIONS: Array<OutputFormat | 'original'> = ['original', 'png', 'jpeg', 'webp', 'avif'];
+const FIT_OPTIONS: NonNullable<OutputSettings['fit']>[] = ['inside', 'cover', 'fill'];
+// 与服务端的限制一致
+const MAX_OUTPUT_DIMENSION = 4096;
+const DEFAULT_QUALITY = 85;
+
+const LOSSY_FORMATS: OutputFormat[] = ['jpeg', 'webp', 'avif'];
+
+/**
+ * 根据当前设置推断选中的尺寸选项
+ */
+const getSizeOption = (settings: OutputSettings): SizeOption => {
+  if (!settings.width && !settings.height) return 'original';
+  const preset = (Object.keys(SIZE_PRESETS) as Array<keyof typeof SIZE_PRESETS>).find(key =>
+    settings.width === SIZE_PRESETS[key] && settings.height === SIZE_PRESETS[key] && (settings.fit ?? 'inside') === 'inside'
+  );
+  return preset ?? 'custom';
+};
+
+/**
+ * 去掉值为 undefined 的字段，未做任何设置时结果为空对象
+ */
+const compact = (settings: OutputSettings): OutputSettings =>
+  Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined)) as OutputSettings;
+
+/**
+ * 服务端只在 PNG 结果中嵌入标准水印（未指定格式时模型通常返回 PNG），抗压缩水印不受格式限制
+ */
+const supportsWatermark = (settings: OutputSettings): boolean =>
+  !settings.format || settings.format === 'png';
+
+const OutputSizeSelector: React.FC<OutputSizeSelectorProps> = ({ value, onChange, disabled }) => {
+  const { t } = useTranslation();
+  const sizeOption = getSizeOption(value);
+  const isLossy = !!value.format && LOSSY_FORMATS.includes(value.format);
+
+  const update = (changes: Partial<OutputSettings>) => onChange(compact({ ...value, ...changes }));
+
+  const handleSizeChange = (option: SizeOption) => {
+    if (option === 'original') {
+      update({ width: undefined, height: undefined, fit: undefined });
+    } else if (option === 'custom') {
+      update({ width: value.width ?? 1024, height: value.height, fit: value.fit });
+    } else {
+      update({ width: SIZE_PRESETS[option], height: SIZE_PRESETS[option], fit: undefined });
+    }
+  };
+
+  const handleDimensionChange = (dimension: 'width' | 'height', input: string) => {
+    const size = Math.round(Number(input));
+    update({ [dimension]: input === '' || !size ? undefined : Math.min(MAX_OUTPUT_DIMENSION, Math.max(1, size)) });
+  };
+
+  const optionClassName = (active: boolean) => `px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 ${
+    active
+      ? 'bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)]'
+      : 'text-[var(--text-primary)] hover:bg-[rgba(107,114,128,0.2)]'
+  }`;
+  const inputClassName = "w-24 p-1.5 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-md focus:ring-2 focus:ring-[var(--accent-primary)] focus:border-[var(--accent-primary)]";
+
+  return (
+    <div className="mt-6 flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-semibold text-[var(--text-secondary)]">{t('output.size')}</span>
+        <div className="p-1 bg-[var(--bg-secondary)] rounded-lg flex flex-wrap items-center gap-1">
+          {SIZE_OPTIONS.map(option => (
+            <button key={option} onClick={() => handleSizeChange(option)} disabled={disabled} className={optionClassName(sizeOption === option)}>
+              {t(`output.sizes.${option}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {sizeOption === 'custom' && (
+        <div className="flex flex-wrap items-center justify-end gap-2 text-sm text-[var(--text-primary)]">
+          <input
+            type="number"
+            min="1"
+            max={MAX_OUTPUT_DIMENSION}
+            value={value.width ?? ''}
+            placeholder={t('output.width')}
+            aria-label={t('output.width')}
+            onChange={e => handleDimensionChange('width', e.target.value)}
+            disabled={disabled}
+            className={inputClassName}
+          />
+          <span className="text-[var(--text-secondary)]">×</span>
+          <input
+            type="number"
+            min="1"
+            max={MAX_OUTPUT_DIMENSION}
+            value={value.height ?? ''}
+            placeholder={t('output.height')}
+            aria-label={t('output.height')}
+            onChange={e => handleDimensionChange('height', e.target.value)}
+            disabled={disabled}
+            className={inputClassName}
+          />
+          {/* 只设置一边时按比例缩放，缩放方式无效 */}
+          <select
+            value={value.fit ?? 'inside'}
+            onChange={e => update({ fit: e.target.value === 'inside' ? undefined : e.target.value as OutputSettings['fit'] })}
+            disabled={disabled || !value.width || !value.height}
+            aria-label={t('output.fit')}
+            className="p-1.5 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-md disabled:opacity-40"
+          >
+            {FIT_OPTIONS.map(fit => (
+              <option key={fit} value={fit}>{t(`output.fits.${fit}`)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-semibold text-[var(--text-secondary)]">{t('output.format')}</span>
+        <div className="p-1 bg-[var(--bg-secondary)] rounded-lg flex flex-wrap items-center gap-1">
+          {FORMAT_OPTIONS.map(format => (
+            <button
+              key={format}
+              onClick={() => update({ format: format === 'original' ? undefined : format, quality: undefined })}
+              disabled={disabled}
+              className={optionClassName((value.format ?? 'original') === format)}
+            >
+              {t(`output.formats.${format}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLossy && (
+        <div className="flex items-center gap-4">
+          <label htmlFor="output-quality" className="text-sm font-semibold text-[var(--text-secondary)] whitespace-nowrap">
+            {t('output.quality').replace('{quality}', String(value.quality ?? DEFAULT_QUALITY))}
+          </label>
+          <input
+            id="output-quality"
+            type="range"
+            min="1"
+            max="100"
+            value={value.quality ?? DEFAULT_QUALITY}
+            onChange={e => update({ quality: Number(e.target.value) })}
+            disabled={disabled}
+            className="w-full h-2 bg-[var(--text-tertiary)] rounded-lg appearance-none cursor-pointer accent-[var(--accent-primary)]"
+          />
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-[var(--text-primary)] cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.metadata === 'preserve'}
+          onChange={e => update({ metadata: e.target.checked ? 'preserve' : undefined })}
+          disabled={disabled}
+          className="accent-[var(--accent-primary)]"
+        />
+        {t('output.keepMetadata')}
+      </label>
+      {!supportsWatermark(value) && (
+        <p className="text-xs text-[var(--text-secondary)]">{t('output.watermarkNote')}</p>
+      )}
+    </div>
+  );
+};
+
+export default OutputSizeSelector;
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from '../i18n/context';
+import ErrorMessage from './ErrorMessage';
+import LoadingSpinner from './LoadingSpinner';
+
+export interface PresetFormValues {
+  title: string;
+  emoji: string;
+  prompt: string;
+  stepTwoPrompt: string;
+  isMultiImage: boolean;
+  isSecondaryOptional: boolean;
+}
+
+interface PresetEditorModalProps {
+  isOpen: boolean;
+  initialValues: PresetFormValues;
+  isEditing: boolean;
+  onClose: () => void;
+  onSave: (values: PresetFormValues) => Promise<void>;
+}
+
+const inputClassName = "w-full p-3 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg focus:ring-2 focus:ring-[var(--accent-primary)] focus:border-[var(--accent-primary)] transition-colors placeholder-[var(--text-tertiary)]";
+const labelClassName = "block text-sm font-medium text-[var(--text-primary)] mb-1";
+
+const PresetEditorModal: React.FC<PresetEditorModalProps> = ({ isOpen, initialValues, isEditing, onClose, onSave }) => {
+  const { t } = useTranslation();
+  const [values, setValues] = useState<PresetFormValues>(initialValues);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // 每次打开时重置为传入的初始值
+  useEffect(() => {
+    if (isOpen) {
+      setValues(initialValues);
+      setFormError(null);
+    }
+  }, [isOpen, initialValues]);
+
+  if (!isOpen) return null;
+
+  const update = <K extends keyof PresetFormValues>(field: K, value: PresetFormValues[K]) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    if (!values.title.trim()) {
+      setFormError(t('presets.titleRequired'));
+      return;
+    }
+    if (!values.prompt.trim()) {
+      setFormError(t('presets.promptRequired'));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(values);
+      onClose();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : t('app.error.unknown'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center z-50 bg-black/50 backdrop-blur-sm"
+      onClick={handleBackdropClick}
+    >
+      <div
+        className="bg-[var(--bg-card-alpha)] backdrop-blur-lg rounded-xl border border-[var(--border-primary)] shadow-2xl shadow-black/20 w-full max-w-lg p-6 sm:p-8 animate-fade-in max-h-[90vh] overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-[var(--accent-primary)]">
+            {isEditing ? t('presets.editTitle') : t('presets.createTitle')}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {formError && <ErrorMessage message={formError} className="mb-4" />}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex gap-3">
+            <div className="w-20">
+              <label htmlFor="preset-emoji" className={labelClassName}>{t('presets.emoji')}</label>
+              <input
+                id="preset-emoji"
+                type="text"
+                value={values.emoji}
+                onChange={(e) => update('emoji', e.target.value)}
+                maxLength={16}
+                className={`${inputClassName} text-center`}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="preset-title" className={labelClassName}>{t('presets.title')}</label>
+              <input
+                id="preset-title"
+                type="text"
+                value={values.title}
+                onChange={(e) => update('title', e.target.value)}
+                maxLength={60}
+                className={inputClassName}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="preset-prompt" className={labelClassName}>{t('presets.prompt')}</label>
+            <textarea
+              id="preset-prompt"
+              value={values.prompt}
+              onChange={(e) => update('prompt', e.target.value)}
+              rows={3}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="preset-step-two" className={labelClassName}>{t('presets.stepTwoPrompt')}</label>
+            <textarea
+              id="preset-step-two"
+              value={values.stepTwoPrompt}
+              onChange={(e) => update('stepTwoPrompt', e.target.value)}
+              rows={2}
+              placeholder={t('presets.stepTwoPromptHint')}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+            <input
+              type="checkbox"
+              checked={values.isMultiImage}
+              onChange={(e) => update('isMultiImage', e.target.checked)}
+              disabled={isSaving}
+            />
+            {t('presets.isMultiImage')}
+          </label>
+
+          {values.isMultiImage && (
+            <label className="flex items-center gap-2 text-sm text-[var(--text-primary)] ml-6">
+              <input
+                type="checkbox"
+                checked={values.isSecondaryOptional}
+                onChange={(e) => update('isSecondaryOptional', e.target.checked)}
+                disabled={isSaving}
+              />
+              {t('presets.isSecondaryOptional')}
+            </label>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full py-3 px-4 bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)] font-semibold rounded-lg shadow-lg shadow-[var(--accent-shadow)] hover:from-[var(--accent-primary-hover)] hover:to-[var(--accent-secondary-hover)] disabled:bg-[var(--bg-disabled)] disabled:from-[var(--bg-disabled)] disabled:to-[var(--bg-disabled)] disabled:text-[var(--text-disabled)] disabled:shadow-none disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center gap-2"
+          >
+            {isSaving ? (
+              <>
+                <LoadingSpinner size="small" />
+                <span>{t('presets.saving')}</span>
+              </>
+            ) : (
+              <span>{t('presets.save')}</span>
+            )}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PresetEditorModal;
@@ -1,30 +1,65 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import type { GeneratedContent } from '../types';
+import type { GeneratedContent, PipelineStepOutput } from '../types';
 import { useTranslation } from '../i18n/context';
-import { downloadImage } from '../utils/fileUtils';
+import { downloadImage, getImageFilename } from '../utils/fileUtils';
+
+/**
+ * 风格对比中的一个结果
+ */
+export interface ContactSheetItem {
+  key: string;
+  title: string;
+  emoji: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  imageUrl?: string | null;
+  generationId?: string;
+  error?: string;
+}
 
 interface ResultDisplayProps {
   content: GeneratedContent;
-  onUseImageAsInput: (imageUrl: string) => void;
+  // generationId 为图片所属的生成记录，用于记录编辑来源
+  onUseImageAsInput: (imageUrl: string, generationId?: string) => void;
   onImageClick: (imageUrl: string) => void;
   originalImageUrl: string | null;
+  // 提供时显示风格对比的结果总览
+  contactSheet?: ContactSheetItem[];
 }
 
+// 下载的风格对比总览中每张图片的尺寸（像素）
+const CONTACT_SHEET_CELL_SIZE = 384;
+const CONTACT_SHEET_LABEL_HEIGHT = 32;
+
 type ViewMode = 'result' | 'side-by-side' | 'slider';
-type TwoStepViewMode = 'result' | 'grid' | 'slider';
-type ImageSelection = 'Original' | 'Line Art' | 'Final Result';
+type PipelineViewMode = 'result' | 'grid' | 'slider';
 
-const ResultDisplay: React.FC<ResultDisplayProps> = ({ content, onUseImageAsInput, onImageClick, originalImageUrl }) => {
+/**
+ * 中间步骤的显示名称：优先使用步骤定义的 labelKey，否则显示“第 N 步”
+ */
+export const getIntermediateLabel = (output: PipelineStepOutput, t: (key: string) => string): string => {
+  return output.labelKey ? t(output.labelKey) : t('resultDisplay.labels.step').replace('{step}', String(output.step));
+};
+
+const ResultDisplay: React.FC<ResultDisplayProps> = ({ content, onUseImageAsInput, onImageClick, originalImageUrl, contactSheet }) => {
   const { t } = useTranslation();
   const [viewMode, setViewMode] = useState<ViewMode>('result');
-  const [twoStepViewMode, setTwoStepViewMode] = useState<TwoStepViewMode>('result');
+  const [pipelineViewMode, setPipelineViewMode] = useState<PipelineViewMode>('result');
   
   const sliderContainerRef = useRef<HTMLDivElement>(null);
   const [sliderPosition, setSliderPosition] = useState(50);
   const [isDragging, setIsDragging] = useState(false);
   
-  const [sliderLeft, setSliderLeft] = useState<ImageSelection>('Original');
-  const [sliderRight, setSliderRight] = useState<ImageSelection>('Final Result');
+  const [sliderLeft, setSliderLeft] = useState<string>('original');
+  const [sliderRight, setSliderRight] = useState<string>('final');
+
+  const [selectedCandidate, setSelectedCandidate] = useState<number>(0);
+  const [isComparingCandidates, setIsComparingCandidates] = useState<boolean>(false);
+
+  // 新结果默认显示第一个候选
+  useEffect(() => {
+    setSelectedCandidate(0);
+    setIsComparingCandidates(false);
+  }, [content]);
 
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -50,18 +85,18 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ content, onUseImageAsInpu
 
   const handleMouseDown = () => setIsDragging(true);
 
-  const handleDownload = () => {
+  const handleDownload = async () => {
     if (!content.imageUrl) return;
-    const fileExtension = content.imageUrl.split(';')[0].split('/')[1] || 'png';
-    downloadImage(content.imageUrl, `generated-image-${Date.now()}.${fileExtension}`);
+    downloadImage(content.imageUrl, await getImageFilename(content.imageUrl, 'generated-image'));
   };
 
-  const handleDownloadBoth = () => {
-    if (content.secondaryImageUrl) {
-        downloadImage(content.secondaryImageUrl, `line-art-${Date.now()}.png`);
-    }
+  const handleDownloadAll = async () => {
+    const timestamp = Date.now();
+    content.intermediates?.forEach(output => {
+        downloadImage(output.imageUrl, `step-${output.step}-${timestamp}.png`);
+    });
     if (content.imageUrl) {
-        downloadImage(content.imageUrl, `final-result-${Date.now()}.png`);
+        downloadImage(content.imageUrl, await getImageFilename(content.imageUrl, 'final-result'));
     }
   };
   
@@ -69,10 +104,10 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ content, onUseImageAsInpu
     const imagesToLoad: {url: string | null, img: HTMLImageElement}[] = [
         { url: originalImageUrl, img: new Image() },
     ];
-    if (content.secondaryImageUrl && content.imageUrl) {
-        imagesToLoad.push({ url: content.secondaryImageUrl, img: new Image() });
-        imagesToLoad.push({ url: content.imageUrl, img: new Image() });
-    } else if (content.imageUrl) {
+    content.intermediates?.forEach(output => {
+        imagesToLoad.push({ url: output.imageUrl, img: new Image() });
+    });
+    if (content.imageUrl) {
         imagesToLoad.push({ url: content.imageUrl, img: new Image() });
     }
 
@@ -108,7 +143,56 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ content, onUseImageAsInpu
 
     downloadImage(canvas.toDataURL('image/png'), `comparison-image-${Date.now()}.png`);
 
-  }, [originalImageUrl, content.imageUrl, content.secondaryImageUrl]);
+  }, [originalImageUrl, content.imageUrl, content.intermediates]);
+
+  const handleDownloadContactSheet = useCallback(async () => {
+    const cells = [
+        ...(originalImageUrl ? [{ url: originalImageUrl, label: t('resultDisplay.labels.original') }] : []),
+        ...(contactSheet || [])
+            .filter(item => item.status === 'succeeded' && item.imageUrl)
+            .map(item => ({ url: item.imageUrl!, label: `${item.emoji} ${item.title}` })),
+    ];
+    if (cells.length < 2) return;
+
+    const images = await Promise.all(cells.map(cell => new Promise<HTMLImageElement>(resolve => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.src = cell.url;
+    })));
+
+    const columns = Math.ceil(Math.sqrt(cells.length));
+    const rows = Math.ceil(cells.length / columns);
+    const cellHeight = CONTACT_SHEET_CELL_SIZE + CONTACT_SHEET_LABEL_HEIGHT;
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    canvas.width = columns * CONTACT_SHEET_CELL_SIZE;
+    canvas.height = rows * cellHeight;
+
+    const rootStyle = getComputedStyle(document.documentElement);
+    ctx.fillStyle = rootStyle.getPropertyValue('--bg-primary').trim();
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.font = '16px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    images.forEach((img, index) => {
+        const x = (index % columns) * CONTACT_SHEET_CELL_SIZE;
+        const y = Math.floor(index / columns) * cellHeight;
+        // 按比例缩放到单元格内并居中
+        const scale = Math.min(CONTACT_SHEET_CELL_SIZE / img.width, CONTACT_SHEET_CELL_SIZE / img.height);
+        const width = img.width * scale;
+        const height = img.height * scale;
+        ctx.drawImage(img, x + (CONTACT_SHEET_CELL_SIZE - width) / 2, y + (CONTACT_SHEET_CELL_SIZE - height) / 2, width, height);
+        ctx.fillStyle = rootStyle.getPropertyValue('--text-primary').trim();
+        ctx.fillText(cells[index].label, x + CONTACT_SHEET_CELL_SIZE / 2, y + CONTACT_SHEET_CELL_SIZE + CONTACT_SHEET_LABEL_HEIGHT / 2, CONTACT_SHEET_CELL_SIZE - 8);
+    });
+
+    downloadImage(canvas.toDataURL('image/png'), `contact-sheet-${Date.now()}.png`);
+  }, [originalImageUrl, contactSheet, t]);
 
   const ActionButton: React.FC<{ onClick: () => void; children: React.ReactNode; isPrimary?: boolean; className?: string }> = ({ onClick, children, isPrimary, className }) => (
     <button 
@@ -123,7 +207,7 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ content, onUseImageAsInpu
     </button>
   );
   
-  const ViewSwitcherButton: React.FC<{ mode: TwoStepViewMode | ViewMode; currentMode: TwoStepViewMode | ViewMode; onClick: () => void; children: React.ReactNode }> = ({ mode, currentMode, onClick, children }) => (
+  const ViewSwitcherButton: React.FC<{ mode: PipelineViewMode | ViewMode; currentMode: PipelineViewMode | ViewMode; onClick: () => void; children: React.ReactNode }> = ({ mode, currentMode, onClick, children }) => (
       <button
         onClick={onClick}
         className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 ${
@@ -136,48 +220,175 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ content, onUseImageAsInpu
       </button>
   );
 
-  // Special view for two-step results
-  if (content.secondaryImageUrl && content.imageUrl && originalImageUrl) {
-    const imageMap: Record<ImageSelection, string> = { 'Original': originalImageUrl, 'Line Art': content.secondaryImageUrl, 'Final Result': content.imageUrl };
-    const imageOptions: ImageSelection[] = ['Original', 'Line Art', 'Final Result'];
-    const leftImageSrc = imageMap[sliderLeft];
-    const rightImageSrc = imageMap[sliderRight];
+  // Candidate picker for multi-variant results
+  if (content.candidates && content.candidates.length > 1) {
+    const candidates = content.candidates;
+    const currentIndex = Math.min(selectedCandidate, candidates.length - 1);
+    const getCandidateLabel = (index: number) => t('resultDisplay.candidates.label').replace('{index}', String(index + 1));
+
+    return (
+      <div className="w-full h-full flex flex-col gap-4 animate-fade-in">
+        <div className="w-full flex items-center gap-2 overflow-x-auto pb-1">
+          {candidates.map((candidate, index) => (
+            <button
+              key={index}
+              onClick={() => { setSelectedCandidate(index); setIsComparingCandidates(false); }}
+              className={`relative flex-shrink-0 h-16 w-16 rounded-md overflow-hidden border-2 bg-[var(--bg-primary)] transition-colors duration-200 ${
+                !isComparingCandidates && index === currentIndex ? 'border-[var(--accent-primary)]' : 'border-[var(--border-primary)] hover:border-[var(--accent-primary)]'
+              }`}
+              aria-label={getCandidateLabel(index)}
+              title={getCandidateLabel(index)}
+            >
+              {candidate.imageUrl
+                ? <img src={candidate.imageUrl} alt={getCandidateLabel(index)} className="w-full h-full object-cover" />
+                : <span className="text-xs text-[var(--text-tertiary)]">{index + 1}</span>}
+              <span className="absolute bottom-0 right-0 text-[10px] bg-black/50 text-white px-1 rounded-tl">{index + 1}</span>
+            </button>
+          ))}
+          <button
+            onClick={() => setIsComparingCandidates(true)}
+            className={`ml-auto flex-shrink-0 px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 ${
+              isComparingCandidates
+                ? 'bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] text-[var(--text-on-accent)]'
+                : 'text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)]'
+            }`}
+          >
+            {t('resultDisplay.candidates.compare')}
+          </button>
+        </div>
+
+        {isComparingCandidates ? (
+          <div className="w-full grid grid-cols-2 gap-2 flex-grow">
+            {candidates.map((candidate, index) => (
+              <div key={index} className="relative group rounded-lg overflow-hidden border border-[var(--border-primary)] bg-[var(--bg-primary)] flex items-center justify-center aspect-square">
+                {candidate.imageUrl ? (
+                  <img
+                    src={candidate.imageUrl}
+                    alt={getCandidateLabel(index)}
+                    className="max-w-full max-h-full object-contain cursor-pointer"
+                    onClick={() => onImageClick(candidate.imageUrl!)}
+                  />
+                ) : (
+                  <p className="p-2 text-xs text-center text-[var(--text-secondary)]">{candidate.text}</p>
+                )}
+                <div className="absolute bottom-1 right-1 text-xs bg-black/50 text-white px-2 py-1 rounded">{getCandidateLabel(index)}</div>
+                <div className="absolute top-1 left-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => { setSelectedCandidate(index); setIsComparingCandidates(false); }}
+                    className="text-xs bg-black/50 hover:bg-black/70 text-white px-2 py-1 rounded"
+                  >
+                    {t('resultDisplay.candidates.select')}
+                  </button>
+                  {candidate.imageUrl && (
+                    <button
+                      onClick={() => onUseImageAsInput(candidate.imageUrl!, candidate.generationId)}
+                      className="text-xs bg-black/50 hover:bg-black/70 text-white px-2 py-1 rounded"
+                    >
+                      {t('resultDisplay.actions.useAsInput')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <ResultDisplay
+            key={currentIndex}
+            content={candidates[currentIndex]}
+            onUseImageAsInput={onUseImageAsInput}
+            onImageClick={onImageClick}
+            originalImageUrl={originalImageUrl}
+          />
+        )}
+      </div>
+    );
+  }
+
+  // Contact sheet for style sweeps
+  if (contactSheet) {
+    return (
+      <div className="w-full h-full flex flex-col items-center gap-4 animate-fade-in">
+        <div className="w-full grid grid-cols-2 lg:grid-cols-3 gap-2 flex-grow">
+          {contactSheet.map(item => (
+            <div key={item.key} className="relative group rounded-lg overflow-hidden border border-[var(--border-primary)] bg-[var(--bg-primary)] flex items-center justify-center flex-col p-1 aspect-square">
+              {item.status === 'succeeded' && item.imageUrl ? (
+                <>
+                  <img src={item.imageUrl} alt={item.title} className="max-w-full max-h-full object-contain cursor-pointer" onClick={() => onImageClick(item.imageUrl!)} />
+                  <button
+                    onClick={() => onUseImageAsInput(item.imageUrl!, item.generationId)}
+                    className="absolute top-1 left-1 text-xs bg-black/50 hover:bg-black/70 text-white px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    {t('resultDisplay.actions.useAsInput')}
+                  </button>
+                </>
+              ) : item.status === 'failed' ? (
+                <p className="p-2 text-xs text-center text-red-500">{item.error}</p>
+              ) : (
+                <svg className="animate-spin h-6 w-6 text-[var(--accent-primary)]" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+              )}
+              <div className="absolute bottom-1 right-1 max-w-[90%] truncate text-xs bg-black/50 text-white px-2 py-1 rounded">{item.emoji} {item.title}</div>
+            </div>
+          ))}
+        </div>
+        <div className="w-full flex flex-col md:flex-row gap-3 mt-auto">
+          <ActionButton onClick={handleDownloadContactSheet}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+            <span>{t('resultDisplay.actions.downloadContactSheet')}</span>
+          </ActionButton>
+        </div>
+      </div>
+    );
+  }
+
+  // Special view for multi-step pipeline results
+  if (content.intermediates?.length && content.imageUrl && originalImageUrl) {
+    const stepImages = [
+        ...content.intermediates.map(output => ({ id: `step-${output.step}`, src: output.imageUrl, label: getIntermediateLabel(output, t) })),
+        { id: 'final', src: content.imageUrl, label: t('resultDisplay.labels.finalResult') },
+    ];
+    const allImages = [{ id: 'original', src: originalImageUrl, label: t('resultDisplay.labels.original') }, ...stepImages];
+    const leftImage = allImages.find(image => image.id === sliderLeft) ?? allImages[0];
+    const rightImage = allImages.find(image => image.id === sliderRight) ?? allImages[allImages.length - 1];
     
     return (
        <div className="w-full h-full flex flex-col items-center gap-4 animate-fade-in">
         <div className="w-full flex justify-center">
             <div className="p-1 bg-[var(--bg-secondary)] rounded-lg flex items-center gap-1">
-                {(['result', 'grid', 'slider'] as TwoStepViewMode[]).map(mode => (
-                    <ViewSwitcherButton key={mode} mode={mode} currentMode={twoStepViewMode} onClick={() => setTwoStepViewMode(mode)}>
+                {(['result', 'grid', 'slider'] as PipelineViewMode[]).map(mode => (
+                    <ViewSwitcherButton key={mode} mode={mode} currentMode={pipelineViewMode} onClick={() => setPipelineViewMode(mode)}>
                         {t(`resultDisplay.viewModes.${mode}`)}
                     </ViewSwitcherButton>
                 ))}
             </div>
         </div>
         
-        {twoStepViewMode === 'result' && (
+        {pipelineViewMode === 'result' && (
             <div className="w-full h-full flex flex-col items-center gap-4 flex-grow">
-                <div className="w-full h-full grid grid-cols-1 md:grid-cols-2 gap-2 flex-grow">
-                {[
-                    { src: content.secondaryImageUrl, label: t('resultDisplay.labels.lineArt') },
-                    { src: content.imageUrl, label: t('resultDisplay.labels.finalResult') },
-                ].map(({ src, label }) => (
-                    <div key={label} className="relative rounded-lg overflow-hidden border border-[var(--border-primary)] bg-[var(--bg-primary)] flex items-center justify-center flex-col p-1 aspect-square md:aspect-auto">
-                    <img src={src!} alt={label} className="max-w-full max-h-full object-contain cursor-pointer" onClick={() => onImageClick(src!)} />
+                <div className={`w-full h-full grid grid-cols-1 gap-2 flex-grow ${stepImages.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+                {stepImages.map(({ id, src, label }) => (
+                    <div key={id} className="relative group rounded-lg overflow-hidden border border-[var(--border-primary)] bg-[var(--bg-primary)] flex items-center justify-center flex-col p-1 aspect-square md:aspect-auto">
+                    <img src={src} alt={label} className="max-w-full max-h-full object-contain cursor-pointer" onClick={() => onImageClick(src)} />
                     <div className="absolute bottom-1 right-1 text-xs bg-black/50 text-white px-2 py-1 rounded">{label}</div>
+                    {id !== 'final' && (
+                        <button
+                            onClick={() => onUseImageAsInput(src, content.generationId)}
+                            className="absolute top-1 left-1 text-xs bg-black/50 hover:bg-black/70 text-white px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                        >
+                            {t('resultDisplay.actions.useAsInput')}
+                        </button>
+                    )}
                     </div>
                 ))}
                 </div>
                 <div className="w-full flex flex-col md:flex-row gap-3 mt-auto">
-                    <ActionButton onClick={handleDownloadBoth}>
+                    <ActionButton onClick={handleDownloadAll}>
                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
-                        {t('resultDisplay.actions.downloadBoth')}
-                    </ActionButton>
-                    <ActionButton onClick={() => onUseImageAsInput(content.secondaryImageUrl!)}>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" /><path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2-2H4a2 2 0 01-2-2V6z" clipRule="evenodd" /></svg>
-                        {t('resultDisplay.actions.useLineArtAsInput')}
+                        {t('resultDisplay.actions.downloadAll')}
                     </ActionButton>
-                    <ActionButton onClick={() => onUseImageAsInput(content.imageUrl!)} isPrimary>
+                    <ActionButton onClick={() => onUseImageAsInput(content.imageUrl!, content.generationId)} isPrimary>
                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" /><path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2-2H4a2 2 0 01-2-2V6z" clipRule="evenodd" /></svg>
                         {t('resultDisplay.actions.useFinalAsInput')}
                     </ActionButton>
@@ -185,14 +396,10 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ content, onUseImageAsInpu
             </div>
         )}
 
-        {twoStepViewMode === 'grid' && (
-             <div className="w-full h-full grid grid-cols-1 md:grid-cols-3 gap-2 flex-grow">
-                {[
-                    {src: originalImageUrl, label: t('resultDisplay.labels.original')},
-                    {src: content.secondaryImageUrl, label: t('resultDisplay.labels.lineArt')},
-                    {src: content.imageUrl, label: t('resultDisplay.labels.finalResult')},
-                ].map(({src, label}) => (
-                    <div key={label} className="relative rounded-lg overflow-hidden border border-[var(--border-primary)] bg-[var(--bg-primary)] flex items-center justify-center flex-col p-1 aspect-square md:aspect-auto">
+        {pipelineViewMode === 'grid' && (
+             <div className={`w-full h-full grid grid-cols-1 gap-2 flex-grow ${allImages.length > 3 ? 'md:grid-cols-2' : 'md:grid-cols-3'}`}>
+                {allImages.map(({id, src, label}) => (
+                    <div key={id} className="relative rounded-lg overflow-hidden border border-[var(--border-primary)] bg-[var(--bg-primary)] flex items-center justify-center flex-col p-1 aspect-square md:aspect-auto">
                         <img src={src} alt={label} className="max-w-full max-h-full object-contain"/>
                         <div className="absolute bottom-1 right-1 text-xs bg-black/50 text-white px-2 py-1 rounded">{label}</div>
                     </div>
@@ -200,23 +407,23 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ content, onUseImageAsInpu
             </div>
         )}
 
-        {twoStepViewMode === 'slider' && (
+        {pipelineViewMode === 'slider' && (
             <div className="w-full flex-grow flex flex-col gap-4">
                  <div className="flex items-center justify-center gap-4 text-sm">
-                    <select value={sliderLeft} onChange={e => setSliderLeft(e.target.value as ImageSelection)} className="bg-[var(--bg-secondary)] border-[var(--border-primary)] border text-[var(--text-primary)] rounded p-1">
-                        {imageOptions.filter(o => o !== sliderRight).map(o => <option key={o} value={o}>{t(`resultDisplay.labels.${o.charAt(0).toLowerCase() + o.slice(1).replace(/\s+/g, '')}`)}</option>)}
+                    <select value={leftImage.id} onChange={e => setSliderLeft(e.target.value)} className="bg-[var(--bg-secondary)] border-[var(--border-primary)] border text-[var(--text-primary)] rounded p-1">
+                        {allImages.filter(image => image.id !== rightImage.id).map(image => <option key={image.id} value={image.id}>{image.label}</option>)}
                     </select>
                     <span>{t('resultDisplay.sliderPicker.vs')}</span>
-                     <select value={sliderRight} onChange={e => setSliderRight(e.target.value as ImageSelection)} className="bg-[var(--bg-secondary)] border-[var(--border-primary)] border text-[var(--text-primary)] rounded p-1">
-                        {imageOptions.filter(o => o !== sliderLeft).map(o => <option key={o} value={o}>{t(`resultDisplay.labels.${o.charAt(0).toLowerCase() + o.slice(1).replace(/\s+/g, '')}`)}</option>)}
+                     <select value={rightImage.id} onChange={e => setSliderRight(e.target.value)} className="bg-[var(--bg-secondary)] border-[var(--border-primary)] border text-[var(--text-primary)] rounded p-1">
+                        {allImages.filter(image => image.id !== leftImage.id).map(image => <option key={image.id} value={image.id}>{image.label}</option>)}
                     </select>
                 </div>
                 <div ref={sliderContainerRef} onMouseDown={handleMouseDown} className="relative w-full h-full overflow-hidden rounded-lg cursor-ew-resize border border-[var(--border-primary)] select-none bg-[var(--bg-primary)]">
                     <div className="absolute inset-0 flex items-center justify-center">
-                        <img src={leftImageSrc} alt={sliderLeft} className="max-w-full max-h-full object-contain" />
+                        <img src={leftImage.src} alt={leftImage.label} className="max-w-full max-h-full object-contain" />
                     </div>
                     <div className="absolute inset-0 flex items-center justify-center" style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}>
-                        <img src={rightImageSrc} alt={sliderRight} className="max-w-full max-h-full object-contain" />
+                        <img src={rightImage.src} alt={rightImage.label} className="max-w-full max-h-full object-contain" />
                     </div>
                     <div className="absolute top-0 bottom-0 bg-[var(--accent-primary)] w-1 cursor-ew-resize" style={{ left: `calc(${sliderPosition}% - 2px)` }}>
                         <div className="absolute top-1/2 -translate-y-1/2 -left-3.5 bg-[var(--accent-primary)] h-8 w-8 rounded-full border-2 border-[var(--bg-primary)] flex items-center justify-center text-[var(--text-on-accent)]">
@@ -227,13 +434,13 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ content, onUseImageAsInpu
             </div>
         )}
          
-         {twoStepViewMode !== 'result' && (
+         {pipelineViewMode !== 'result' && (
             <div className="w-full flex flex-col md:flex-row gap-3 mt-auto">
                 <ActionButton onClick={handleDownloadComparison}>
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M5 4a1 1 0 00-2 0v7.268a2 2 0 000 3.464V16a1 1 0 102 0v-1.268a2 2 0 000-3.464V4zM11 4a1 1 0 10-2 0v1.268a2 2 0 000 3.464V16a1 1 0 102 0V8.732a2 2 0 000-3.464V4zM15 3a1 1 0 011 1v12a1 1 0 11-2 0V4a1 1 0 011-1z" /></svg>
                     <span>{t('resultDisplay.actions.downloadComparison')}</span>
                 </ActionButton>
-                <ActionButton onClick={() => onUseImageAsInput(content.imageUrl!)} isPrimary>
+                <ActionButton onClick={() => onUseImageAsInput(content.imageUrl!, content.generationId)} isPrimary>
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                         <path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" />
                         <path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2-2H4a2 2 0 01-2-2V6z" clipRule="evenodd" />
@@ -322,7 +529,7 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ content, onUseImageAsInpu
               </svg>
               <span>{t('resultDisplay.actions.download')}</span>
             </ActionButton>
-            <ActionButton onClick={() => onUseImageAsInput(content.imageUrl!)} isPrimary>
+            <ActionButton onClick={() => onUseImageAsInput(content.imageUrl!, content.generationId)} isPrimary>
                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                 <path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" />
                 <path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2-2H4a2 2 0 01-2-2V6z" clipRule="evenodd" />
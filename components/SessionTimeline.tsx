@@ -0,0 +1,69 @@
+import React from 'react';
+import { useTranslation } from '../i18n/context';
+
+export interface SessionTimelineItem {
+  id: number;
+  label: string;
+  thumbnailUrl: string | null;
+  emoji?: string;
+}
+
+interface SessionTimelineProps {
+  items: SessionTimelineItem[];
+  currentIndex: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const SessionTimeline: React.FC<SessionTimelineProps> = ({ items, currentIndex, canUndo, canRedo, onUndo, onRedo, onJump }) => {
+  const { t } = useTranslation();
+
+  const buttonClassName = "p-2 rounded-md text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] hover:bg-[rgba(107,114,128,0.4)] disabled:bg-[var(--bg-disabled)] disabled:text-[var(--text-disabled)] disabled:cursor-not-allowed transition-colors duration-200";
+
+  return (
+    <div className="container mx-auto px-4 md:px-8 pt-4">
+      <div className="flex items-center gap-3 p-3 bg-[var(--bg-card-alpha)] backdrop-blur-lg rounded-xl border border-[var(--border-primary)]">
+        <div className="flex items-center gap-1 shrink-0">
+          <button onClick={onUndo} disabled={!canUndo} className={buttonClassName} aria-label={t('timeline.undo')} title={t('timeline.undoShortcut')}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2"><path strokeLinecap="round" strokeLinejoin="round" d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" /></svg>
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} className={buttonClassName} aria-label={t('timeline.redo')} title={t('timeline.redoShortcut')}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2"><path strokeLinecap="round" strokeLinejoin="round" d="M15 15l6-6m0 0l-6-6m6 6H9a6 6 0 000 12h3" /></svg>
+          </button>
+        </div>
+        <span className="hidden sm:block text-xs font-semibold text-[var(--text-secondary)] shrink-0">{t('timeline.title')}</span>
+        <div className="flex items-center gap-2 overflow-x-auto pb-1">
+          {items.map((item, index) => {
+            const isCurrent = index === currentIndex;
+            // 当前位置之后的记录可以重做，显示为半透明
+            const isRedoable = index > currentIndex;
+            return (
+              <button
+                key={item.id}
+                onClick={() => onJump(index)}
+                title={t(`timeline.labels.${item.label}`)}
+                className={`relative shrink-0 h-12 w-12 rounded-md overflow-hidden border-2 bg-[var(--bg-secondary)] flex items-center justify-center transition-all duration-200 ${
+                  isCurrent ? 'border-[var(--accent-primary)]' : 'border-[var(--border-primary)] hover:border-[var(--accent-primary)]'
+                } ${isRedoable ? 'opacity-40' : ''}`}
+              >
+                {item.thumbnailUrl ? (
+                  <img src={item.thumbnailUrl} alt={t(`timeline.labels.${item.label}`)} className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-xl">{item.emoji ?? '✨'}</span>
+                )}
+                <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[10px] leading-tight text-white truncate px-0.5">
+                  {t(`timeline.labels.${item.label}`)}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimeline;
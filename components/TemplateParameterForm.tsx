@@ -0,0 +1,107 @@
+import React from 'react';
+import type { TransformationParameter } from '../types';
+import { useTranslation } from '../i18n/context';
+
+export type TemplateParameterValues = Record<string, string | number>;
+
+interface TemplateParameterFormProps {
+  parameters: TransformationParameter[];
+  values: TemplateParameterValues;
+  onChange: (values: TemplateParameterValues) => void;
+  disabled?: boolean;
+}
+
+/**
+ * 获取模板参数的默认值
+ */
+export const getDefaultParameterValues = (parameters: TransformationParameter[] = []): TemplateParameterValues => {
+  return Object.fromEntries(parameters.map(p => [p.name, p.default]));
+};
+
+const inputClassName = "w-full p-2 bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-lg focus:ring-2 focus:ring-[var(--accent-primary)] focus:border-[var(--accent-primary)] transition-colors";
+
+const TemplateParameterForm: React.FC<TemplateParameterFormProps> = ({ parameters, values, onChange, disabled }) => {
+  const { t } = useTranslation();
+
+  const update = (name: string, value: string | number) => {
+    onChange({ ...values, [name]: value });
+  };
+
+  const renderControl = (parameter: TransformationParameter) => {
+    const id = `parameter-${parameter.name}`;
+    const value = values[parameter.name] ?? parameter.default;
+
+    switch (parameter.type) {
+      case 'enum':
+        return (
+          <select
+            id={id}
+            value={String(value)}
+            onChange={(e) => update(parameter.name, e.target.value)}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            {parameter.options?.map(option => (
+              <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+            ))}
+          </select>
+        );
+      case 'number':
+        return (
+          <input
+            id={id}
+            type="number"
+            value={value}
+            min={parameter.min}
+            max={parameter.max}
+            step={parameter.step}
+            onChange={(e) => update(parameter.name, e.target.value === '' ? '' : Number(e.target.value))}
+            className={inputClassName}
+            disabled={disabled}
+          />
+        );
+      case 'color':
+        return (
+          <div className="flex items-center gap-3">
+            <input
+              id={id}
+              type="color"
+              value={String(value)}
+              onChange={(e) => update(parameter.name, e.target.value)}
+              className="h-10 w-16 rounded cursor-pointer bg-transparent"
+              disabled={disabled}
+            />
+            <span className="text-sm font-mono text-[var(--text-secondary)]">{String(value)}</span>
+          </div>
+        );
+      case 'text':
+      default:
+        return (
+          <input
+            id={id}
+            type="text"
+            value={String(value)}
+            maxLength={parameter.maxLength}
+            onChange={(e) => update(parameter.name, e.target.value)}
+            className={inputClassName}
+            disabled={disabled}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+      {parameters.map(parameter => (
+        <div key={parameter.name}>
+          <label htmlFor={`parameter-${parameter.name}`} className="block text-sm font-medium text-[var(--text-primary)] mb-1">
+            {t(parameter.labelKey)}
+          </label>
+          {renderControl(parameter)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TemplateParameterForm;
@@ -9,17 +9,40 @@ interface TransformationSelectorProps {
   onOrderChange: (newOrder: Transformation[]) => void;
   activeCategory: Transformation | null;
   setActiveCategory: (category: Transformation | null) => void;
+  onCreatePreset?: () => void;
+  onEditPreset?: (transformation: Transformation) => void;
+  onDeletePreset?: (transformation: Transformation) => void;
+  // 风格对比模式下已选中的效果，null 表示未进入该模式
+  sweepSelection?: Transformation[] | null;
+  onSweepSelectionChange?: (selection: Transformation[] | null) => void;
+  onStartSweep?: () => void;
+  onOpenTextToImage?: () => void;
 }
 
+/**
+ * 风格对比只支持单张图片、无需自定义提示词的效果
+ */
+const isSweepable = (transformation: Transformation): boolean =>
+  !transformation.isCustomPrompt && !transformation.isOutpaint && !(transformation.isMultiImage && !transformation.isSecondaryOptional);
+
 const TransformationSelector: React.FC<TransformationSelectorProps> = ({ 
   transformations, 
   onSelect, 
   hasPreviousResult, 
   onOrderChange, 
   activeCategory, 
-  setActiveCategory 
+  setActiveCategory,
+  onCreatePreset,
+  onEditPreset,
+  onDeletePreset,
+  sweepSelection = null,
+  onSweepSelectionChange,
+  onStartSweep,
+  onOpenTextToImage
 }) => {
   const { t } = useTranslation();
+  const isSweepMode = !!sweepSelection;
+  const canDrag = !activeCategory && !isSweepMode;
   const dragItemIndex = useRef<number | null>(null);
   const dragOverItemIndex = useRef<number | null>(null);
   const [dragging, setDragging] = useState(false);
@@ -59,30 +82,87 @@ const TransformationSelector: React.FC<TransformationSelectorProps> = ({
   const handleItemClick = (item: Transformation) => {
     if (item.items && item.items.length > 0) {
       setActiveCategory(item);
+    } else if (sweepSelection) {
+      if (!isSweepable(item)) return;
+      const isSelected = sweepSelection.some(selected => selected.key === item.key);
+      onSweepSelectionChange?.(isSelected
+        ? sweepSelection.filter(selected => selected.key !== item.key)
+        : [...sweepSelection, item]);
     } else {
       onSelect(item);
     }
   };
 
+  const sweepCredits = (sweepSelection || []).reduce((sum, item) => sum + (item.credits ?? 0), 0);
+
   const renderGrid = (items: Transformation[]) => (
     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-      {items.map((trans, index) => (
+      {items.map((trans, index) => {
+        const isCategory = !!trans.items?.length;
+        const isSelected = !!sweepSelection?.some(selected => selected.key === trans.key);
+        const isDisabled = isSweepMode && !isCategory && !isSweepable(trans);
+        return (
+        <div key={trans.key} className="relative group">
+          <button
+            draggable={canDrag} // Only allow dragging categories
+            onDragStart={(e) => canDrag && handleDragStart(e, index)}
+            onDragEnter={(e) => canDrag && handleDragEnter(e, index)}
+            onDragEnd={canDrag && handleDragEnd}
+            onDragOver={canDrag && handleDragOver}
+            onClick={() => handleItemClick(trans)}
+            disabled={isDisabled}
+            className={`w-full flex flex-col items-center justify-center text-center p-4 aspect-square bg-[var(--bg-card)] rounded-xl border hover:border-[var(--accent-primary)] transition-all duration-200 ease-in-out transform hover:-translate-y-1 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-[var(--bg-primary)] focus:ring-[var(--accent-primary)] ${
+              canDrag ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+            } ${dragging && canDrag ? 'border-dashed' : ''} ${
+              isSelected ? 'border-2 border-[var(--accent-primary)]' : 'border-[var(--border-primary)]'
+            } ${isDisabled ? 'opacity-40 cursor-not-allowed hover:translate-y-0' : ''}`}
+          >
+            {isSelected && (
+              <span className="absolute top-2 left-2 h-5 w-5 rounded-full bg-[var(--accent-primary)] text-[var(--text-on-accent)] text-xs flex items-center justify-center">✓</span>
+            )}
+            <span className="text-4xl mb-2 transition-transform duration-200 group-hover:scale-110">{trans.emoji}</span>
+            <span className="font-semibold text-sm text-[var(--text-primary)]">{t(trans.titleKey)}</span>
+            {trans.presetId && (
+              <span className="mt-1 text-xs text-[var(--text-tertiary)]">{t('presets.badge')}</span>
+            )}
+          </button>
+          {/* 用户预设可以编辑和删除 */}
+          {trans.presetId && !isSweepMode && (onEditPreset || onDeletePreset) && (
+            <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {onEditPreset && (
+                <button
+                  onClick={() => onEditPreset(trans)}
+                  className="p-1 rounded-md bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--accent-primary)]"
+                  aria-label={t('presets.edit')}
+                  title={t('presets.edit')}
+                >
+                  ✏️
+                </button>
+              )}
+              {onDeletePreset && (
+                <button
+                  onClick={() => onDeletePreset(trans)}
+                  className="p-1 rounded-md bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-red-500"
+                  aria-label={t('presets.delete')}
+                  title={t('presets.delete')}
+                >
+                  🗑️
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        );
+      })}
+      {!activeCategory && !isSweepMode && onCreatePreset && (
         <button
-          key={trans.key}
-          draggable={!activeCategory} // Only allow dragging categories
-          onDragStart={(e) => !activeCategory && handleDragStart(e, index)}
-          onDragEnter={(e) => !activeCategory && handleDragEnter(e, index)}
-          onDragEnd={!activeCategory && handleDragEnd}
-          onDragOver={!activeCategory && handleDragOver}
-          onClick={() => handleItemClick(trans)}
-          className={`group flex flex-col items-center justify-center text-center p-4 aspect-square bg-[var(--bg-card)] rounded-xl border border-[var(--border-primary)] hover:border-[var(--accent-primary)] transition-all duration-200 ease-in-out transform hover:-translate-y-1 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-[var(--bg-primary)] focus:ring-[var(--accent-primary)] ${
-            !activeCategory ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
-          } ${dragging && !activeCategory ? 'border-dashed' : ''}`}
+          onClick={onCreatePreset}
+          className="flex flex-col items-center justify-center text-center p-4 aspect-square rounded-xl border-2 border-dashed border-[var(--border-primary)] hover:border-[var(--accent-primary)] text-[var(--text-secondary)] hover:text-[var(--accent-primary)] transition-colors duration-200"
         >
-          <span className="text-4xl mb-2 transition-transform duration-200 group-hover:scale-110">{trans.emoji}</span>
-          <span className="font-semibold text-sm text-[var(--text-primary)]">{t(trans.titleKey)}</span>
+          <span className="text-4xl mb-2">➕</span>
+          <span className="font-semibold text-sm">{t('presets.create')}</span>
         </button>
-      ))}
+      )}
     </div>
   );
 
@@ -97,6 +177,26 @@ const TransformationSelector: React.FC<TransformationSelectorProps> = ({
               : t('transformationSelector.description')
             }
           </p>
+          {(onSweepSelectionChange || onOpenTextToImage) && (
+            <div className="flex justify-center gap-3 mb-6">
+              {onOpenTextToImage && !isSweepMode && (
+                <button
+                  onClick={onOpenTextToImage}
+                  className="py-2 px-4 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] transition-colors duration-200"
+                >
+                  {t('textToImage.open')}
+                </button>
+              )}
+              {onSweepSelectionChange && (
+                <button
+                  onClick={() => onSweepSelectionChange(isSweepMode ? null : [])}
+                  className="py-2 px-4 text-sm font-semibold text-[var(--text-primary)] bg-[rgba(107,114,128,0.2)] rounded-md hover:bg-[rgba(107,114,128,0.4)] transition-colors duration-200"
+                >
+                  {isSweepMode ? t('sweep.cancel') : t('sweep.start')}
+                </button>
+              )}
+            </div>
+          )}
           {renderGrid(transformations)}
         </>
       ) : (
@@ -119,6 +219,20 @@ const TransformationSelector: React.FC<TransformationSelectorProps> = ({
           {renderGrid(activeCategory.items || [])}
         </div>
       )}
+      {isSweepMode && (
+        <div className="sticky bottom-4 mt-8 mx-auto max-w-xl flex items-center justify-between gap-4 p-4 bg-[var(--bg-card-alpha)] backdrop-blur-lg rounded-xl border border-[var(--border-primary)] shadow-2xl shadow-black/20">
+          <span className="text-sm text-[var(--text-secondary)]">
+            {t('sweep.selected').replace('{count}', String(sweepSelection!.length)).replace('{credits}', String(sweepCredits))}
+          </span>
+          <button
+            onClick={onStartSweep}
+            disabled={sweepSelection!.length === 0}
+            className="py-2 px-4 text-sm font-semibold text-[var(--text-on-accent)] bg-gradient-to-r from-[var(--accent-primary)] to-[var(--accent-secondary)] rounded-md hover:from-[var(--accent-primary-hover)] hover:to-[var(--accent-secondary-hover)] disabled:from-[var(--bg-disabled)] disabled:to-[var(--bg-disabled)] disabled:text-[var(--text-disabled)] disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {t('sweep.continue')}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
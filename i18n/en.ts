@@ -5,6 +5,7 @@ export default {
     back: "Back",
     chooseAnotherEffect: "Choose Another Effect",
     generateImage: "Generate Image",
+    variants: "Candidates",
     generating: "Generating...",
     result: "Result",
     yourImageWillAppear: "Your generated image will appear here.",
@@ -16,9 +17,11 @@ export default {
       useAsInputFailed: "Could not use the generated image as a new input.",
     },
     loading: {
-      step1: "Step 1: Creating line art...",
-      step2: "Step 2: Applying color palette...",
+      candidate: "Generating candidate {current} of {total}...",
+      pipelineStep: "Step {current} of {total}: Processing...",
       default: "Generating your masterpiece...",
+      queued: "Waiting in queue...",
+      uploading: "Uploading images...",
       wait: "This can sometimes take a moment.",
       videoInit: "Initializing video generation...",
       videoPolling: "Processing video, this may take a few minutes...",
@@ -34,6 +37,64 @@ export default {
     description: "Ready to remix your reality? Pick a category to start the magic. You can also drag and drop to reorder your favorite categories.",
     descriptionWithResult: "That was fun! Your last creation is ready for another round. Select a new effect to keep the chain going."
   },
+  presets: {
+    badge: "My preset",
+    create: "New Preset",
+    createTitle: "Create Preset",
+    editTitle: "Edit Preset",
+    saveAsPreset: "Save as Preset",
+    edit: "Edit preset",
+    delete: "Delete preset",
+    deleteConfirm: "Delete this preset?",
+    title: "Title",
+    emoji: "Emoji",
+    prompt: "Prompt",
+    stepTwoPrompt: "Step two prompt (optional)",
+    stepTwoPromptHint: "Applied to the result of the first prompt",
+    isMultiImage: "Uses a second image",
+    isSecondaryOptional: "Second image is optional",
+    save: "Save",
+    saving: "Saving...",
+    titleRequired: "Please enter a title.",
+    promptRequired: "Please enter a prompt.",
+    loginRequired: "Please log in to save presets."
+  },
+  batch: {
+    open: "Batch process multiple images",
+    title: "Batch Processing",
+    description: "Apply this effect to up to {max} images at once. Each image is billed separately at a discounted price.",
+    tooManyImages: "You can select at most {max} images; extra images were ignored.",
+    start: "Process {count} images",
+    submitting: "Submitting...",
+    progress: "{finished} of {total} images processed",
+    failedCount: "{count} failed",
+    downloadZip: "Download ZIP",
+    status: {
+      pending: "Waiting",
+      running: "Processing",
+      succeeded: "Done",
+      failed: "Failed"
+    }
+  },
+  textToImage: {
+    open: "Text to image",
+    title: "Text to Image",
+    description: "Describe the image you want and pick an aspect ratio. No input image needed.",
+    placeholder: "e.g., 'a watercolor lighthouse on a cliff at sunrise'",
+    aspectRatio: "Aspect Ratio",
+    generate: "Generate · {credits} credits"
+  },
+  sweep: {
+    start: "Compare styles",
+    cancel: "Cancel comparison",
+    selected: "{count} selected · {credits} credits",
+    continue: "Continue",
+    title: "Style Comparison",
+    description: "Upload one image to apply all {count} selected effects to it.",
+    confirm: "Run {count} effects · {credits} credits",
+    submitting: "Submitting...",
+    edit: "Change selection"
+  },
   imageEditor: {
     upload: "Click to upload",
     dragAndDrop: "or drag and drop",
@@ -41,7 +102,23 @@ export default {
     maskPanelInfo: "Draw on the image to create a mask for localized edits.",
     brushSize: "Brush Size",
     undo: "Undo",
-    clearMask: "Clear Mask"
+    clearMask: "Clear Mask",
+    invertMask: "Invert",
+    feather: "Feather",
+    maskOpacity: "Preview Opacity",
+    zoom: "Zoom",
+    zoomIn: "Zoom in",
+    zoomOut: "Zoom out",
+    resetZoom: "Fit",
+    zoomHint: "Scroll over the image to zoom, and use the Pan tool to move around.",
+    tools: {
+      brush: "Brush",
+      eraser: "Eraser",
+      rectangle: "Rectangle",
+      ellipse: "Ellipse",
+      lasso: "Lasso",
+      pan: "Pan"
+    }
   },
   resultDisplay: {
     viewModes: {
@@ -54,16 +131,22 @@ export default {
       original: "Original",
       generated: "Generated",
       lineArt: "Line Art",
+      step: "Step {step}",
       finalResult: "Final Result"
     },
     actions: {
       download: "Download",
-      downloadBoth: "Download Both",
+      downloadAll: "Download All",
+      downloadContactSheet: "Download Contact Sheet",
       downloadComparison: "Download Comparison",
       useAsInput: "Use as Input",
-      useLineArtAsInput: "Use Line Art as Input",
       useFinalAsInput: "Use Final as Input"
     },
+    candidates: {
+      label: "Candidate {index}",
+      compare: "Compare All",
+      select: "Pick"
+    },
     sliderPicker: {
       vs: "vs"
     }
@@ -73,8 +156,53 @@ export default {
     empty: "Your generated images will appear here once you create something.",
     use: "Use",
     save: "Save",
-    lineArt: "Line Art",
-    finalResult: "Final Result"
+    finalResult: "Final Result",
+    loadMore: "Load More"
+  },
+  lineage: {
+    open: "View Lineage",
+    title: "Edit Lineage",
+    description: "Every edit in this chain, starting from the original. Branch from any result to keep editing it, or re-run a step with a different preset.",
+    current: "Current",
+    branch: "Branch from here",
+    rerun: "Re-run with another preset"
+  },
+  output: {
+    size: "Output size",
+    sizes: { original: "Original", "1024": "1024px", "2048": "2048px", custom: "Custom" },
+    width: "Width",
+    height: "Height",
+    fit: "Resize mode",
+    fits: { inside: "Fit inside", cover: "Crop to fill", fill: "Stretch" },
+    format: "Format",
+    formats: { original: "Original", png: "PNG", jpeg: "JPEG", webp: "WebP", avif: "AVIF" },
+    quality: "Quality {quality}",
+    keepMetadata: "Keep image metadata (EXIF, color profile)",
+    watermarkNote: "The standard invisible watermark is only added to PNG results. Enable robust watermarking in your profile to mark other formats."
+  },
+  outpaint: {
+    modes: { aspectRatio: "Aspect Ratio", padding: "Custom Padding" },
+    position: { x: "Horizontal", y: "Vertical" },
+    sides: { top: "Top", right: "Right", bottom: "Bottom", left: "Left" },
+    original: "Original image",
+    canvasSize: "New canvas: {width} × {height}px",
+    unchanged: "The image already fits this canvas. Choose a different ratio or add padding."
+  },
+  timeline: {
+    title: "Session",
+    undo: "Undo",
+    redo: "Redo",
+    undoShortcut: "Undo (Ctrl+Z)",
+    redoShortcut: "Redo (Ctrl+Shift+Z)",
+    labels: {
+      start: "Start",
+      image: "Image",
+      mask: "Mask",
+      transformation: "Effect",
+      prompt: "Prompt",
+      result: "Result",
+      reset: "Reset"
+    }
   },
   error: {
     title: "An Error Occurred"
@@ -115,9 +243,26 @@ export default {
     refreshBalanceConfirm: "Would you like to refresh your balance now?",
     paymentInitiated: "Payment process initiated. You will be redirected to payment gateway.",
     refreshBalanceFailed: "Failed to refresh balance. Please try again later.",
-    refreshBalance: "Refresh balance"
+    refreshBalance: "Refresh balance",
+    robustWatermark: "Robust watermark",
+    robustWatermarkHint: "Also embed a watermark that survives JPEG compression, resizing and cropping. Slightly alters the image.",
+    watermarkModeFailed: "Failed to update watermark settings. Please try again later."
   },
   transformations: {
+    parameters: {
+      style: {
+        label: "Background style",
+        options: { y2k: "Y2K", cyberpunk: "Cyberpunk", vaporwave: "Vaporwave", studio: "Minimalist studio", beach: "Tropical beach" }
+      },
+      era: {
+        label: "Era",
+        options: { early1900s: "Early 1900s", "1950s": "1950s", "1970s": "1970s", "1990s": "1990s" }
+      },
+      color: { label: "Neon color" },
+      panels: { label: "Number of panels" },
+      time: { label: "Lock screen time" },
+      date: { label: "Lock screen date" }
+    },
     categories: {
       viral: { title: "Viral & Fun" },
       photo: { title: "Photo & Pro Edits" },
@@ -150,6 +295,7 @@ export default {
       plushie: { title: "Cute Plushie", description: "Converts your subject into a cuddly, soft plushie toy." },
       keychain: { title: "Acrylic Keychain", description: "Creates a cute acrylic keychain of your subject, perfect for hanging on a bag." },
       hdEnhance: { title: "HD Enhance", description: "Upscales your image, adding sharpness, clarity, and detail for a high-res look." },
+      outpaint: { title: "Extend Canvas", description: "Places your image on a larger canvas and fills the new space to match the original scene." },
       pose: { title: "Pose Reference", description: "Applies a pose from one image to a character from another.", uploader1Title: "Character", uploader1Desc: "The main character", uploader2Title: "Pose Reference", uploader2Desc: "The pose to apply" },
       photorealistic: { title: "To Photorealistic", description: "Converts drawings or illustrations into stunningly realistic photos." },
       fashion: { title: "Fashion Magazine", description: "Gives your photo a high-fashion, editorial look worthy of a magazine cover." },
@@ -161,7 +307,7 @@ export default {
       iphoneWallpaper: { title: "iPhone Wallpaper", description: "Instantly transforms your image into a stylish iPhone lock screen, complete with time, date, and UI elements, all presented in a beautiful product shot." },
       colorPalette: { title: "Color Palette Swap", description: "Converts an image to line art, then colors it using a second image as a palette.", uploader1Title: "Original Image", uploader1Desc: "The image to transform", uploader2Title: "Color Palette", uploader2Desc: "The color reference" },
       lineArt: { title: "Line Art Drawing", description: "Reduces your photo to its essential lines, creating a clean sketch." },
-      paintingProcess: { title: "Painting Process", description: "Shows a 4-step grid of your image being created, from sketch to final painting." },
+      paintingProcess: { title: "Painting Process", description: "Shows a step-by-step grid of your image being created, from sketch to final painting." },
       markerSketch: { title: "Marker Sketch", description: "Reimagines your photo as a vibrant sketch made with Copic markers." },
       addIllustration: { title: "Add Illustration", description: "Adds charming, hand-drawn characters into your real-world photo." },
       cyberpunk: { title: "Cyberpunk", description: "Transforms your scene into a neon-drenched, futuristic cyberpunk city." },
@@ -169,7 +315,7 @@ export default {
       isolate: { title: "Isolate & Enhance", description: "Cuts out a masked subject and creates a clean, high-definition portrait." },
       screen3d: { title: "3D Screen Effect", description: "Makes content on a screen in your photo appear to pop out in 3D." },
       makeup: { title: "Makeup Analysis", description: "Analyzes makeup in a portrait and suggests improvements with red-pen markup." },
-      background: { title: "Change Background", description: "Swaps the existing background for a cool, retro Y2K aesthetic." },
+      background: { title: "Change Background", description: "Swaps the existing background for the aesthetic of your choice, like retro Y2K or cyberpunk." },
       pixelArt: { title: "Pixel Art", description: "Transform your image into retro 8-bit pixel art." },
       watercolor: { title: "Watercolor", description: "Convert your image into a soft, vibrant watercolor painting." },
       popArt: { title: "Pop Art", description: "Reimagine your image in the bold style of Andy Warhol." },
@@ -180,7 +326,7 @@ export default {
       origami: { title: "Origami", description: "Reconstruct your subject from folded paper in an origami style." },
       neonGlow: { title: "Neon Glow", description: "Outline your subject in bright, glowing neon lights." },
       doodleArt: { title: "Doodle Art", description: "Overlay your image with playful, hand-drawn doodles." },
-      vintagePhoto: { title: "Vintage Photo", description: "Give your image an aged, sepia-toned vintage look." },
+      vintagePhoto: { title: "Vintage Photo", description: "Give your image an aged vintage look from the era of your choice." },
       blueprintSketch: { title: "Blueprint", description: "Convert your image into a technical blueprint drawing." },
       glitchArt: { title: "Glitch Art", description: "Apply a digital glitch effect with datamoshing and pixel sorting." },
       doubleExposure: { title: "Double Exposure", description: "Blend your image with a nature scene in a double exposure." },
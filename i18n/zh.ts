@@ -5,6 +5,7 @@ export default {
     back: "返回",
     chooseAnotherEffect: "选择其他效果",
     generateImage: "生成图像",
+    variants: "候选数量",
     generating: "生成中...",
     result: "结果",
     yourImageWillAppear: "您生成的图像将显示在这里。",
@@ -16,9 +17,11 @@ export default {
       useAsInputFailed: "无法使用生成的图像作为新输入。",
     },
     loading: {
-        step1: "第1步：创建线稿...",
-        step2: "第2步：应用调色板...",
+      candidate: "正在生成第 {current} / {total} 个候选...",
+        pipelineStep: "第{current}步（共{total}步）：处理中...",
         default: "正在生成您的杰作...",
+        queued: "排队等待中...",
+        uploading: "正在上传图片...",
         wait: "这有时可能需要一些时间。",
         videoInit: "正在初始化视频生成...",
         videoPolling: "正在处理视频，这可能需要几分钟...",
@@ -34,6 +37,64 @@ export default {
     description: "准备好重塑你的现实了吗？选择一个类别开始施展魔法。你也可以拖放来重新排序你最喜欢的类别。",
     descriptionWithResult: "真有趣！你上一个创作已经准备好进行下一轮了。选择一个新的效果来继续这个创作链吧。"
   },
+  presets: {
+    badge: "我的预设",
+    create: "新建预设",
+    createTitle: "创建预设",
+    editTitle: "编辑预设",
+    saveAsPreset: "保存为预设",
+    edit: "编辑预设",
+    delete: "删除预设",
+    deleteConfirm: "确定删除这个预设吗？",
+    title: "标题",
+    emoji: "图标",
+    prompt: "提示词",
+    stepTwoPrompt: "第二步提示词（可选）",
+    stepTwoPromptHint: "作用于第一步提示词生成的结果",
+    isMultiImage: "使用第二张图片",
+    isSecondaryOptional: "第二张图片可选",
+    save: "保存",
+    saving: "保存中...",
+    titleRequired: "请输入标题。",
+    promptRequired: "请输入提示词。",
+    loginRequired: "请登录后保存预设。"
+  },
+  batch: {
+    open: "批量处理多张图片",
+    title: "批量处理",
+    description: "一次将该效果应用到最多 {max} 张图片，每张图片按折扣价单独计费。",
+    tooManyImages: "最多只能选择 {max} 张图片，多出的图片已忽略。",
+    start: "处理 {count} 张图片",
+    submitting: "提交中...",
+    progress: "已处理 {finished} / {total} 张图片",
+    failedCount: "{count} 张失败",
+    downloadZip: "下载 ZIP",
+    status: {
+      pending: "等待中",
+      running: "处理中",
+      succeeded: "已完成",
+      failed: "失败"
+    }
+  },
+  textToImage: {
+    open: "文字生成图片",
+    title: "文字生成图片",
+    description: "描述你想要的画面并选择宽高比，无需上传图片。",
+    placeholder: "例如：“日出时悬崖上的水彩灯塔”",
+    aspectRatio: "宽高比",
+    generate: "生成 · {credits} 积分"
+  },
+  sweep: {
+    start: "风格对比",
+    cancel: "取消对比",
+    selected: "已选 {count} 项 · {credits} 积分",
+    continue: "继续",
+    title: "风格对比",
+    description: "上传一张图片，同时应用已选的 {count} 种效果。",
+    confirm: "运行 {count} 种效果 · {credits} 积分",
+    submitting: "提交中...",
+    edit: "修改选择"
+  },
   imageEditor: {
     upload: "点击上传",
     dragAndDrop: "或拖放文件",
@@ -41,7 +102,23 @@ export default {
     maskPanelInfo: "在图像上绘制以创建用于局部编辑的蒙版。",
     brushSize: "笔刷大小",
     undo: "撤销",
-    clearMask: "清除蒙版"
+    clearMask: "清除蒙版",
+    invertMask: "反选",
+    feather: "羽化",
+    maskOpacity: "预览透明度",
+    zoom: "缩放",
+    zoomIn: "放大",
+    zoomOut: "缩小",
+    resetZoom: "适应",
+    zoomHint: "在图像上滚动鼠标滚轮缩放，使用平移工具移动视图。",
+    tools: {
+      brush: "画笔",
+      eraser: "橡皮擦",
+      rectangle: "矩形",
+      ellipse: "椭圆",
+      lasso: "套索",
+      pan: "平移"
+    }
   },
   resultDisplay: {
     viewModes: {
@@ -54,16 +131,22 @@ export default {
       original: "原图",
       generated: "生成图",
       lineArt: "线稿",
+      step: "第{step}步",
       finalResult: "最终结果"
     },
     actions: {
       download: "下载",
-      downloadBoth: "下载全部",
+      downloadAll: "下载全部",
+      downloadContactSheet: "下载对比总览图",
       downloadComparison: "下载对比图",
       useAsInput: "用作输入",
-      useLineArtAsInput: "使用线稿作为输入",
       useFinalAsInput: "使用最终结果作为输入"
     },
+    candidates: {
+      label: "候选 {index}",
+      compare: "全部对比",
+      select: "选用"
+    },
     sliderPicker: {
       vs: "对"
     }
@@ -73,8 +156,53 @@ export default {
     empty: "一旦您创造了某些东西，您生成的图像就会出现在这里。",
     use: "使用",
     save: "保存",
-    lineArt: "线稿",
-    finalResult: "最终结果"
+    finalResult: "最终结果",
+    loadMore: "加载更多"
+  },
+  lineage: {
+    open: "查看编辑树",
+    title: "编辑树",
+    description: "从原图开始的每一次编辑。可以从任一结果继续编辑出新的分支，或用其他效果重新运行某一步。",
+    current: "当前",
+    branch: "从这里分支",
+    rerun: "换个效果重新运行"
+  },
+  output: {
+    size: "输出尺寸",
+    sizes: { original: "原始", "1024": "1024px", "2048": "2048px", custom: "自定义" },
+    width: "宽",
+    height: "高",
+    fit: "缩放方式",
+    fits: { inside: "完整放入", cover: "裁剪填满", fill: "拉伸" },
+    format: "格式",
+    formats: { original: "原始", png: "PNG", jpeg: "JPEG", webp: "WebP", avif: "AVIF" },
+    quality: "质量 {quality}",
+    keepMetadata: "保留图片元数据（EXIF、色彩配置）",
+    watermarkNote: "标准隐形水印只添加到 PNG 结果中。在个人资料中开启抗压缩水印后，其他格式的结果也会带有水印。"
+  },
+  outpaint: {
+    modes: { aspectRatio: "按宽高比", padding: "自定义补边" },
+    position: { x: "水平位置", y: "垂直位置" },
+    sides: { top: "上", right: "右", bottom: "下", left: "左" },
+    original: "原图",
+    canvasSize: "新画布：{width} × {height}px",
+    unchanged: "图片已符合该画布，请选择其他宽高比或增加补边。"
+  },
+  timeline: {
+    title: "本次编辑",
+    undo: "撤销",
+    redo: "重做",
+    undoShortcut: "撤销 (Ctrl+Z)",
+    redoShortcut: "重做 (Ctrl+Shift+Z)",
+    labels: {
+      start: "开始",
+      image: "图片",
+      mask: "蒙版",
+      transformation: "效果",
+      prompt: "提示词",
+      result: "结果",
+      reset: "重置"
+    }
   },
   error: {
     title: "发生错误"
@@ -115,9 +243,26 @@ export default {
     refreshBalanceConfirm: "现在刷新您的余额吗？",
     paymentInitiated: "支付流程已启动。您将被重定向到支付网关。",
     refreshBalanceFailed: "刷新余额失败。请稍后再试。",
-    refreshBalance: "刷新余额"
+    refreshBalance: "刷新余额",
+    robustWatermark: "抗压缩水印",
+    robustWatermarkHint: "额外嵌入可抵抗 JPEG 压缩、缩放和裁剪的水印，画面会有轻微改动。",
+    watermarkModeFailed: "更新水印设置失败。请稍后再试。"
   },
   transformations: {
+    parameters: {
+      style: {
+        label: "背景风格",
+        options: { y2k: "Y2K", cyberpunk: "赛博朋克", vaporwave: "蒸汽波", studio: "极简影棚", beach: "热带海滩" }
+      },
+      era: {
+        label: "年代",
+        options: { early1900s: "20世纪初", "1950s": "50年代", "1970s": "70年代", "1990s": "90年代" }
+      },
+      color: { label: "霓虹颜色" },
+      panels: { label: "格子数量" },
+      time: { label: "锁屏时间" },
+      date: { label: "锁屏日期" }
+    },
     categories: {
       viral: { title: "网红玩法" },
       photo: { title: "专业照片编辑" },
@@ -150,6 +295,7 @@ export default {
       plushie: { title: "可爱毛绒玩具", description: "将您的主题转换成一个可爱的、柔软的毛绒玩具。" },
       keychain: { title: "亚克力钥匙扣", description: "创建一个您的主题的可爱亚克力钥匙扣，非常适合挂在包上。" },
       hdEnhance: { title: "高清增强", description: "放大您的图像，增加清晰度、细节，以获得高分辨率外观。" },
+      outpaint: { title: "扩展画布", description: "把图像放到更大的画布上，并按原图场景填充新增区域。" },
       pose: { title: "姿势参考", description: "将一张图像中的姿势应用到另一张图像中的角色上。", uploader1Title: "角色", uploader1Desc: "主要角色", uploader2Title: "姿势参考", uploader2Desc: "要应用的姿势" },
       photorealistic: { title: "转为照片级真实", description: "将绘画或插图转换为惊人逼真的照片。" },
       fashion: { title: "时尚杂志", description: "为您的照片赋予高级时尚、编辑风格的外观，堪比杂志封面。" },
@@ -161,7 +307,7 @@ export default {
       iphoneWallpaper: { title: "iPhone壁纸效果", description: "将您的图片即时转换为时尚的iPhone锁屏界面，配有时间、日期和UI元素，并以精美的产品照片形式呈现。" },
       colorPalette: { title: "色板换色", description: "将图像转换为线稿，然后使用第二张图像作为调色板为其上色。", uploader1Title: "原始图像", uploader1Desc: "要转换的图像", uploader2Title: "调色板", uploader2Desc: "颜色参考" },
       lineArt: { title: "线稿绘画", description: "将您的照片简化为其基本线条，创建一个干净的草图。" },
-      paintingProcess: { title: "绘画过程", description: "展示一个4步网格，展示您的图像从草图到最终绘画的创作过程。" },
+      paintingProcess: { title: "绘画过程", description: "展示一个分步网格，展示您的图像从草图到最终绘画的创作过程。" },
       markerSketch: { title: "马克笔素描", description: "用Copic马克笔的风格重塑您的照片，创造出充满活力的素描。" },
       addIllustration: { title: "添加插画", description: "在您的真实世界照片中添加迷人的手绘角色。" },
       cyberpunk: { title: "赛博朋克", description: "将您的场景转变为一个充满霓虹灯的未来赛博朋克城市。" },
@@ -169,7 +315,7 @@ export default {
       isolate: { title: "分离并增强", description: "剪出蒙版中的主体，并创建一个干净、高清的肖像。" },
       screen3d: { title: "3D屏幕效果", description: "使您照片中屏幕上的内容呈现出裸眼3D效果，仿佛要跳出屏幕。" },
       makeup: { title: "妆容分析", description: "分析肖像中的妆容，并用红笔标记提出改进建议。" },
-      background: { title: "更换背景", description: "将现有背景更换为酷炫的复古Y2K美学风格。" },
+      background: { title: "更换背景", description: "将现有背景更换为你选择的美学风格，例如复古Y2K或赛博朋克。" },
       pixelArt: { title: "像素艺术", description: "将您的图像转换为复古的8位像素艺术。" },
       watercolor: { title: "水彩画", description: "将您的图像转换为柔和、充满活力的水彩画。" },
       popArt: { title: "波普艺术", description: "以安迪·沃霍尔的大胆风格重新想象您的图像。" },
@@ -180,7 +326,7 @@ export default {
       origami: { title: "折纸", description: "用折纸风格重建您的主题。" },
       neonGlow: { title: "霓虹灯光", description: "用明亮、发光的霓虹灯勾勒您的主题。" },
       doodleArt: { title: "涂鸦艺术", description: "在您的图像上覆盖好玩的手绘涂鸦。" },
-      vintagePhoto: { title: "复古照片", description: "为您的图像赋予一种陈旧的、深褐色的复古外观。" },
+      vintagePhoto: { title: "复古照片", description: "为您的图像赋予所选年代的陈旧复古外观。" },
       blueprintSketch: { title: "蓝图", description: "将您的图像转换为技术蓝图图纸。" },
       glitchArt: { title: "故障艺术", description: "应用数字故障效果，包括数据融合和像素排序。" },
       doubleExposure: { title: "双重曝光", description: "在双重曝光中将您的图像与自然场景融合。" },
@@ -2,6 +2,7 @@
 import sqlite3 from 'sqlite3';
 import { open } from 'sqlite';
 import { promisify } from 'util';
+import crypto from 'crypto';
 
 // 数据库连接配置
 const DB_CONFIG = {
@@ -201,6 +202,84 @@ async function viewDatabaseStats(db: any) {
   }
 }
 
+/**
+ * 查看服务价格表（含历史版本）
+ */
+async function listServicePrices(db: any) {
+  try {
+    logBold('\n===== 服务价格表 =====');
+    const prices = await db.all(
+      `SELECT serviceKey, transformationKey, credits, version, effectiveFrom, note
+       FROM service_prices
+       ORDER BY serviceKey, transformationKey, effectiveFrom DESC, version DESC`
+    );
+    
+    if (prices.length === 0) {
+      logInfo('暂无价格记录（服务器首次启动时会写入初始价格）');
+      return;
+    }
+    
+    const now = new Date().toISOString();
+    const current = new Set<string>();
+    prices.forEach((price: any) => {
+      const scope = price.transformationKey ? `${price.serviceKey} / ${price.transformationKey}` : price.serviceKey;
+      // 每个服务/转换效果中已生效的最新版本为当前价格
+      const isCurrent = price.effectiveFrom <= now && !current.has(scope);
+      if (isCurrent) current.add(scope);
+      
+      log(`\n${scope}${isCurrent ? ' (当前)' : ''}`);
+      log(`   积分: ${price.credits}`);
+      log(`   版本: ${price.version}`);
+      log(`   生效时间: ${price.effectiveFrom}`);
+      if (price.note) log(`   备注: ${price.note}`);
+    });
+  } catch (error) {
+    logError(`查询服务价格失败: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 设置服务价格，新增一条版本记录而不修改历史价格
+ */
+async function setServicePrice(
+  db: any,
+  serviceKey: string,
+  creditsParam: string,
+  transformationKey?: string,
+  effectiveFromParam?: string
+) {
+  try {
+    const credits = Number(creditsParam);
+    if (!Number.isFinite(credits) || credits < 0) {
+      logError(`无效的积分数: ${creditsParam}`);
+      return;
+    }
+    
+    const effectiveFrom = effectiveFromParam ? new Date(effectiveFromParam) : new Date();
+    if (isNaN(effectiveFrom.getTime())) {
+      logError(`无效的生效时间: ${effectiveFromParam}`);
+      return;
+    }
+    
+    const row = await db.get(
+      'SELECT MAX(version) as version FROM service_prices WHERE serviceKey = ? AND transformationKey IS ?',
+      serviceKey, transformationKey || null
+    );
+    const version = (row?.version || 0) + 1;
+    
+    await db.run(
+      'INSERT INTO service_prices (id, serviceKey, transformationKey, credits, version, effectiveFrom, note, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      crypto.randomUUID(), serviceKey, transformationKey || null, credits, version, effectiveFrom.toISOString(),
+      'set by db:maintain', new Date().toISOString()
+    );
+    
+    const scope = transformationKey ? `${serviceKey} / ${transformationKey}` : serviceKey;
+    logSuccess(`已设置价格: ${scope} = ${credits} 积分（版本 ${version}，生效时间 ${effectiveFrom.toISOString()}）`);
+  } catch (error) {
+    logError(`设置服务价格失败: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * 显示帮助信息
  */
@@ -214,11 +293,14 @@ function showHelp() {
   log('  delete-user [id/用户名] - 根据ID或用户名删除用户');
   log('  list-accounts       - 查看所有用户积分账户信息');
   log('  stats               - 查看数据库统计信息');
+  log('  list-prices         - 查看服务价格表（含历史版本）');
+  log('  set-price [服务] [积分] [转换效果] [生效时间] - 新增服务价格版本');
   log('  help                - 显示帮助信息');
   log('\n示例:');
   log('  npm run db:maintain -- list-users');
   log('  npm run db:maintain -- delete-user john_doe');
   log('  npm run db:maintain -- stats');
+  log('  npm run db:maintain -- set-price ai-image-edit 6 colorPalette 2024-08-01T00:00:00Z');
 }
 
 /**
@@ -258,6 +340,17 @@ async function main() {
       case 'stats':
         await viewDatabaseStats(db);
         break;
+      case 'list-prices':
+        await listServicePrices(db);
+        break;
+      case 'set-price':
+        if (!param || !args[2]) {
+          logError('请提供服务名称和积分数');
+          showHelp();
+        } else {
+          await setServicePrice(db, param, args[2], args[3], args[4]);
+        }
+        break;
       case 'help':
       case undefined:
       case '':
@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import zlib from 'zlib';
+import type { GeneratedContent } from '../types';
+import type { ImageProvider } from './imageProvider';
+import { ImageProviderError } from './providerErrors.js';
+import type { GenerationFailureReason } from './providerErrors.js';
+
+/**
+ * 本地确定性提供方，不访问网络，用于离线开发和测试。
+ *
+ * - 编辑：原样返回输入图像，并在 text 中回显提示词
+ * - 生成：根据提示词哈希生成纯色 PNG，尺寸由宽高比决定
+ * - 提示词中包含 [fake:safety] / [fake:quota] / [fake:error] 时模拟对应的失败
+ * - FAKE_PROVIDER_DELAY_MS 环境变量可模拟模型延迟
+ */
+
+// 生成图像的长边像素数
+const GENERATED_LONG_SIDE = 256;
+
+const FAILURES: Record<string, { message: string; reason: GenerationFailureReason }> = {
+  safety: {
+    message: 'The request was blocked for safety reasons. Categories: HARM_CATEGORY_DANGEROUS_CONTENT. Please modify your prompt or image.',
+    reason: 'safety_blocked'
+  },
+  quota: {
+    message: "You've likely exceeded the request limit. Please wait a moment before trying again.",
+    reason: 'rate_limited'
+  },
+  error: {
+    message: 'An unexpected server error occurred. This might be a temporary issue. Please try again in a few moments.',
+    reason: 'model_error'
+  }
+};
+
+/**
+ * 模拟模型延迟
+ */
+const simulateLatency = async (): Promise<void> => {
+  const delay = parseInt(process.env.FAKE_PROVIDER_DELAY_MS || '0', 10);
+  if (delay > 0) {
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+};
+
+/**
+ * 根据提示词中的标记模拟失败
+ */
+const simulateFailure = (prompt: string): void => {
+  const match = prompt.match(/\[fake:(safety|quota|error)\]/);
+  if (match) {
+    const { message, reason } = FAILURES[match[1]];
+    throw new ImageProviderError(message, reason);
+  }
+};
+
+/**
+ * 计算 CRC32 校验值（PNG 数据块所需）
+ */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (buffer: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+};
+
+/**
+ * 编码纯色 RGB PNG
+ */
+const encodeSolidPng = (width: number, height: number, rgb: [number, number, number]): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // 位深
+  header[9] = 2; // 颜色类型：RGB
+  header[10] = 0;
+  header[11] = 0;
+  header[12] = 0;
+
+  const rowLength = 1 + width * 3;
+  const raw = Buffer.alloc(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * rowLength;
+    raw[rowStart] = 0; // 过滤类型：None
+    for (let x = 0; x < width; x++) {
+      const offset = rowStart + 1 + x * 3;
+      raw[offset] = rgb[0];
+      raw[offset + 1] = rgb[1];
+      raw[offset + 2] = rgb[2];
+    }
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+};
+
+/**
+ * 将 "16:9" 形式的宽高比换算为像素尺寸
+ */
+const dimensionsForAspectRatio = (aspectRatio?: string): { width: number; height: number } => {
+  const [w, h] = (aspectRatio || '1:1').split(':').map(Number);
+  if (!w || !h) {
+    return { width: GENERATED_LONG_SIDE, height: GENERATED_LONG_SIDE };
+  }
+  if (w >= h) {
+    return { width: GENERATED_LONG_SIDE, height: Math.max(1, Math.round(GENERATED_LONG_SIDE * h / w)) };
+  }
+  return { width: Math.max(1, Math.round(GENERATED_LONG_SIDE * w / h)), height: GENERATED_LONG_SIDE };
+};
+
+export const fakeProvider: ImageProvider = {
+  name: 'fake',
+  model: 'fake-image-model',
+  capabilities: {
+    edit: true,
+    generate: true,
+    mask: true,
+    secondaryImage: true
+  },
+
+  editImage: async (input): Promise<GeneratedContent> => {
+    await simulateLatency();
+    simulateFailure(input.prompt);
+
+    return {
+      imageUrl: `data:${input.mimeType};base64,${input.base64ImageData}`,
+      text: `[fake] ${input.prompt}`
+    };
+  },
+
+  generateImage: async (input): Promise<GeneratedContent> => {
+    await simulateLatency();
+    simulateFailure(input.prompt);
+
+    const digest = crypto.createHash('sha256').update(input.prompt).digest();
+    const { width, height } = dimensionsForAspectRatio(input.aspectRatio);
+    const png = encodeSolidPng(width, height, [digest[0], digest[1], digest[2]]);
+
+    return {
+      imageUrl: `data:image/png;base64,${png.toString('base64')}`,
+      text: `[fake] ${input.prompt}`
+    };
+  }
+};
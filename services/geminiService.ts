@@ -1,6 +1,12 @@
 
 import { GoogleGenAI, Modality } from "@google/genai";
+import type { GenerateContentResponse } from "@google/genai";
 import type { GeneratedContent } from '../types';
+import type { ImageProvider } from './imageProvider';
+import { ImageProviderError } from './providerErrors.js';
+import type { GenerationFailureReason } from './providerErrors.js';
+
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
 
 // Create a helper function to get a GoogleGenAI client with the provided API key
 const getGenAIClient = (apiKey: string) => {
@@ -60,13 +66,56 @@ export async function editImage(
     parts.push({ text: fullPrompt });
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
+      model: GEMINI_IMAGE_MODEL,
       contents: { parts },
       config: {
         responseModalities: [Modality.IMAGE, Modality.TEXT],
       },
     });
 
+    const result = parseImageResponse(response);
+
+    // 注意：积分扣除逻辑已移至服务器端处理
+
+    return result;
+  } catch (error) {
+    throw normalizeGeminiError(error);
+  }
+}
+
+export async function generateImage(
+    prompt: string,
+    aspectRatio?: string,
+    apiKey?: string
+): Promise<GeneratedContent> {
+  try {
+    const keyToUse = apiKey || process.env.GEMINI_API_KEY;
+    if (!keyToUse) {
+        throw new Error("API key is required. Please set GEMINI_API_KEY environment variable or provide it as a parameter.");
+    }
+
+    const ai = getGenAIClient(keyToUse);
+
+    const response = await ai.models.generateContent({
+      model: GEMINI_IMAGE_MODEL,
+      contents: { parts: [{ text: prompt }] },
+      config: {
+        responseModalities: [Modality.IMAGE, Modality.TEXT],
+        ...(aspectRatio ? { imageConfig: { aspectRatio } } : {}),
+      },
+    });
+
+    return parseImageResponse(response);
+  } catch (error) {
+    throw normalizeGeminiError(error);
+  }
+}
+
+/**
+ * Extracts the image and text parts from a Gemini response.
+ * Throws when the model did not return an image.
+ */
+const parseImageResponse = (response: GenerateContentResponse): GeneratedContent => {
     const result: GeneratedContent = { imageUrl: null, text: null };
     const responseParts = response.candidates?.[0]?.content?.parts;
 
@@ -82,6 +131,7 @@ export async function editImage(
 
     if (!result.imageUrl) {
         let errorMessage;
+        let reason: GenerationFailureReason = 'no_image';
         if (result.text) {
             errorMessage = `The model responded: "${result.text}"`;
         } else {
@@ -92,33 +142,65 @@ export async function editImage(
             if (finishReason === 'SAFETY') {
                 const blockedCategories = safetyRatings?.filter(r => r.blocked).map(r => r.category).join(', ');
                 errorMessage = `The request was blocked for safety reasons. Categories: ${blockedCategories || 'Unknown'}. Please modify your prompt or image.`;
+                reason = 'safety_blocked';
             }
         }
-        throw new Error(errorMessage);
+        throw new ImageProviderError(errorMessage, reason);
     }
 
-    // 注意：积分扣除逻辑已移至服务器端处理
-
     return result;
-  } catch (error) {
+};
+
+/**
+ * Maps raw Gemini API errors to user-facing messages.
+ */
+const normalizeGeminiError = (error: unknown): Error => {
     console.error("Error calling Gemini API:", error);
+    if (error instanceof ImageProviderError) {
+        return error;
+    }
     if (error instanceof Error) {
         let errorMessage = error.message;
+        let reason: GenerationFailureReason = errorMessage.startsWith('API key is required') ? 'configuration' : 'unknown';
         try {
             const parsedError = JSON.parse(errorMessage);
             if (parsedError.error && parsedError.error.message) {
                 if (parsedError.error.status === 'RESOURCE_EXHAUSTED') {
                     errorMessage = "You've likely exceeded the request limit. Please wait a moment before trying again.";
+                    reason = 'rate_limited';
                 } else if (parsedError.error.code === 500 || parsedError.error.status === 'UNKNOWN') {
                     errorMessage = "An unexpected server error occurred. This might be a temporary issue. Please try again in a few moments.";
+                    reason = 'model_error';
                 } else {
                     errorMessage = parsedError.error.message;
+                    reason = 'model_error';
                 }
             }
         } catch (e) {}
-        throw new Error(errorMessage);
+        return new ImageProviderError(errorMessage, reason);
     } else {
-        throw new Error("An unknown error occurred while communicating with the API.");
+        return new ImageProviderError("An unknown error occurred while communicating with the API.", 'unknown');
     }
-  }
-}
+};
+
+/**
+ * Gemini adapter for the image provider layer.
+ */
+export const geminiProvider: ImageProvider = {
+  name: 'gemini',
+  model: GEMINI_IMAGE_MODEL,
+  capabilities: {
+    edit: true,
+    generate: true,
+    mask: true,
+    secondaryImage: true,
+  },
+  editImage: (input) => editImage(
+    input.base64ImageData,
+    input.mimeType,
+    input.prompt,
+    input.maskBase64,
+    input.secondaryImage
+  ),
+  generateImage: (input) => generateImage(input.prompt, input.aspectRatio),
+};
@@ -0,0 +1,82 @@
+import type { GeneratedContent } from '../types';
+import { geminiProvider } from './geminiService.js';
+import { fakeProvider } from './fakeProvider.js';
+
+/**
+ * 图像模型提供方的能力描述
+ */
+export interface ImageProviderCapabilities {
+  edit: boolean;
+  generate: boolean;
+  mask: boolean;
+  secondaryImage: boolean;
+}
+
+/**
+ * 图像编辑请求参数
+ */
+export interface EditImageInput {
+  base64ImageData: string;
+  mimeType: string;
+  prompt: string;
+  maskBase64: string | null;
+  secondaryImage: { base64: string; mimeType: string } | null;
+}
+
+// 文生图支持的宽高比
+export const SUPPORTED_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+/**
+ * 文生图请求参数
+ */
+export interface GenerateImageInput {
+  prompt: string;
+  aspectRatio?: string;
+}
+
+/**
+ * 图像模型提供方接口，每个后端（Gemini、本地 fake 等）实现一个适配器
+ */
+export interface ImageProvider {
+  name: string;
+  model: string;
+  capabilities: ImageProviderCapabilities;
+  editImage: (input: EditImageInput) => Promise<GeneratedContent>;
+  generateImage: (input: GenerateImageInput) => Promise<GeneratedContent>;
+}
+
+// 默认提供方，可通过 IMAGE_PROVIDER 环境变量覆盖
+const DEFAULT_PROVIDER = 'gemini';
+
+const providers: Record<string, ImageProvider> = {
+  [geminiProvider.name]: geminiProvider,
+  [fakeProvider.name]: fakeProvider
+};
+
+/**
+ * 获取所有已注册的提供方
+ */
+export const listImageProviders = (): ImageProvider[] => {
+  return Object.values(providers);
+};
+
+/**
+ * 检查提供方是否已注册
+ */
+export const hasImageProvider = (name: string): boolean => {
+  return Object.prototype.hasOwnProperty.call(providers, name);
+};
+
+/**
+ * 获取图像模型提供方
+ * 优先使用请求指定的名称，其次使用环境变量配置，最后使用默认提供方
+ */
+export const getImageProvider = (name?: string | null): ImageProvider => {
+  const providerName = name || process.env.IMAGE_PROVIDER || DEFAULT_PROVIDER;
+
+  if (!hasImageProvider(providerName)) {
+    throw new Error(`Unknown image provider: ${providerName}`);
+  }
+
+  return providers[providerName];
+};
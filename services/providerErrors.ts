@@ -0,0 +1,30 @@
+/**
+ * 生成失败原因
+ */
+export type GenerationFailureReason =
+  | 'safety_blocked'
+  | 'rate_limited'
+  | 'no_image'
+  | 'model_error'
+  | 'configuration'
+  | 'unknown';
+
+/**
+ * 图像模型提供方抛出的错误，携带结构化的失败原因
+ */
+export class ImageProviderError extends Error {
+  reason: GenerationFailureReason;
+
+  constructor(message: string, reason: GenerationFailureReason) {
+    super(message);
+    this.name = 'ImageProviderError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * 获取错误对应的失败原因
+ */
+export const getFailureReason = (error: unknown): GenerationFailureReason => {
+  return error instanceof ImageProviderError ? error.reason : 'unknown';
+};
@@ -1,7 +1,13 @@
+import type { PipelineStep, Transformation, UserPreset } from '../../types.js';
 
+// 自定义提示词效果的占位提示词，实际提示词由用户提交
+export const CUSTOM_PROMPT = 'CUSTOM';
+// 用户预设的 transformationKey 前缀，完整形式为 preset:<预设ID>
+export const PRESET_KEY_PREFIX = 'preset:';
 
-import type { Transformation } from './types';
-
+/**
+ * 转换效果目录（仅在服务端使用，提示词不下发给客户端）
+ */
 export const TRANSFORMATIONS: Transformation[] = [
   // Moved custom prompt to the top and enabled multi-image
   { 
@@ -76,6 +82,14 @@ export const TRANSFORMATIONS: Transformation[] = [
     emoji: "🔍",
     descriptionKey: "transformations.effects.hdEnhance.description"
   },
+  { 
+    key: "outpaint",
+    titleKey: "transformations.effects.outpaint.title", 
+    prompt: "Extend this image outward by filling the masked gray border area. Continue the existing scene naturally with matching perspective, lighting, colors and style, so the original picture blends seamlessly into the larger canvas. Keep the unmasked original area unchanged.", 
+    emoji: "↔️",
+    descriptionKey: "transformations.effects.outpaint.description",
+    isOutpaint: true
+  },
   { 
     key: "pose",
     titleKey: "transformations.effects.pose.title", 
@@ -142,21 +156,33 @@ export const TRANSFORMATIONS: Transformation[] = [
   { 
     key: "iphoneWallpaper",
     titleKey: "transformations.effects.iphoneWallpaper.title", 
-    prompt: "Turn the image into an iPhone lock screen wallpaper effect, with the phone's time (01:16), date (Sunday, September 16), and status bar information (battery, signal, etc.), with the flashlight and camera buttons at the bottom, overlaid on the image. The original image should be adapted to a vertical composition that fits a phone screen. The phone is placed on a solid color background of the same color scheme.",
+    prompt: "Turn the image into an iPhone lock screen wallpaper effect, with the phone's time ({{time}}), date ({{date}}), and status bar information (battery, signal, etc.), with the flashlight and camera buttons at the bottom, overlaid on the image. The original image should be adapted to a vertical composition that fits a phone screen. The phone is placed on a solid color background of the same color scheme.",
     emoji: "📱",
-    descriptionKey: "transformations.effects.iphoneWallpaper.description"
+    descriptionKey: "transformations.effects.iphoneWallpaper.description",
+    parameters: [
+      { name: "time", type: "text", labelKey: "transformations.parameters.time.label", default: "01:16", maxLength: 10 },
+      { name: "date", type: "text", labelKey: "transformations.parameters.date.label", default: "Sunday, September 16", maxLength: 40 }
+    ]
   },
 
   // Creative Tools (Flattened)
   { 
     key: "colorPalette",
     titleKey: "transformations.effects.colorPalette.title",
-    prompt: "Turn this image into a clean, hand-drawn line art sketch.", // Step 1 prompt
-    stepTwoPrompt: "Color the line art using the colors from the second image.", // Step 2 prompt
+    pipeline: [
+      {
+        prompt: "Turn this image into a clean, hand-drawn line art sketch.",
+        labelKey: "resultDisplay.labels.lineArt",
+        keepOutput: true
+      },
+      {
+        prompt: "Color the line art using the colors from the second image.",
+        useSecondaryImage: true
+      }
+    ],
     emoji: "🎨",
     descriptionKey: "transformations.effects.colorPalette.description",
     isMultiImage: true,
-    isTwoStep: true,
     primaryUploaderTitle: "transformations.effects.colorPalette.uploader1Title",
     primaryUploaderDescription: "transformations.effects.colorPalette.uploader1Desc",
     secondaryUploaderTitle: "transformations.effects.colorPalette.uploader2Title",
@@ -186,9 +212,24 @@ export const TRANSFORMATIONS: Transformation[] = [
   { 
     key: "background",
     titleKey: "transformations.effects.background.title", 
-    prompt: "Change the background to a Y2K aesthetic style.", 
+    prompt: "Change the background to a {{style}} aesthetic style.", 
     emoji: "🪩",
-    descriptionKey: "transformations.effects.background.description"
+    descriptionKey: "transformations.effects.background.description",
+    parameters: [
+      {
+        name: "style",
+        type: "enum",
+        labelKey: "transformations.parameters.style.label",
+        default: "Y2K",
+        options: [
+          { value: "Y2K", labelKey: "transformations.parameters.style.options.y2k" },
+          { value: "cyberpunk", labelKey: "transformations.parameters.style.options.cyberpunk" },
+          { value: "vaporwave", labelKey: "transformations.parameters.style.options.vaporwave" },
+          { value: "minimalist studio", labelKey: "transformations.parameters.style.options.studio" },
+          { value: "tropical beach", labelKey: "transformations.parameters.style.options.beach" }
+        ]
+      }
+    ]
   },
   { 
     key: "addIllustration",
@@ -212,9 +253,9 @@ export const TRANSFORMATIONS: Transformation[] = [
       { key: "ukiyoE", titleKey: "transformations.effects.ukiyoE.title", prompt: "Redraw the image in the style of a traditional Japanese Ukiyo-e woodblock print.", emoji: "🌊", descriptionKey: "transformations.effects.ukiyoE.description" },
       { key: "stainedGlass", titleKey: "transformations.effects.stainedGlass.title", prompt: "Transform the image into a vibrant stained glass window with dark lead lines.", emoji: "🪟", descriptionKey: "transformations.effects.stainedGlass.description" },
       { key: "origami", titleKey: "transformations.effects.origami.title", prompt: "Reconstruct the subject of the image using folded paper in an origami style.", emoji: "🦢", descriptionKey: "transformations.effects.origami.description" },
-      { key: "neonGlow", titleKey: "transformations.effects.neonGlow.title", prompt: "Outline the subject in bright, glowing neon lights against a dark background.", emoji: "💡", descriptionKey: "transformations.effects.neonGlow.description" },
+      { key: "neonGlow", titleKey: "transformations.effects.neonGlow.title", prompt: "Outline the subject in bright, glowing {{color}} neon lights against a dark background.", emoji: "💡", descriptionKey: "transformations.effects.neonGlow.description", parameters: [{ name: "color", type: "color", labelKey: "transformations.parameters.color.label", default: "#ff2fd6" }] },
       { key: "doodleArt", titleKey: "transformations.effects.doodleArt.title", prompt: "Overlay the image with playful, hand-drawn doodle-style illustrations.", emoji: "✏️", descriptionKey: "transformations.effects.doodleArt.description" },
-      { key: "vintagePhoto", titleKey: "transformations.effects.vintagePhoto.title", prompt: "Give the image an aged, sepia-toned vintage photograph look from the early 20th century.", emoji: "📜", descriptionKey: "transformations.effects.vintagePhoto.description" },
+      { key: "vintagePhoto", titleKey: "transformations.effects.vintagePhoto.title", prompt: "Give the image an aged vintage photograph look from the {{era}}.", emoji: "📜", descriptionKey: "transformations.effects.vintagePhoto.description", parameters: [{ name: "era", type: "enum", labelKey: "transformations.parameters.era.label", default: "early 20th century", options: [{ value: "early 20th century", labelKey: "transformations.parameters.era.options.early1900s" }, { value: "1950s", labelKey: "transformations.parameters.era.options.1950s" }, { value: "1970s", labelKey: "transformations.parameters.era.options.1970s" }, { value: "1990s", labelKey: "transformations.parameters.era.options.1990s" }] }] },
       { key: "blueprintSketch", titleKey: "transformations.effects.blueprintSketch.title", prompt: "Convert the image into a technical blueprint-style architectural drawing.", emoji: "📐", descriptionKey: "transformations.effects.blueprintSketch.description" },
       { key: "glitchArt", titleKey: "transformations.effects.glitchArt.title", prompt: "Apply a digital glitch effect with datamoshing, pixel sorting, and RGB shifts.", emoji: "📉", descriptionKey: "transformations.effects.glitchArt.description" },
       { key: "doubleExposure", titleKey: "transformations.effects.doubleExposure.title", prompt: "Create a double exposure effect, blending the image with a nature scene like a forest or a mountain range.", emoji: "🏞️", descriptionKey: "transformations.effects.doubleExposure.description" },
@@ -255,8 +296,86 @@ export const TRANSFORMATIONS: Transformation[] = [
       { key: "cyberpunk", titleKey: "transformations.effects.cyberpunk.title", prompt: "Transform the scene into a futuristic cyberpunk city.", emoji: "🤖", descriptionKey: "transformations.effects.cyberpunk.description" },
       { key: "vanGogh", titleKey: "transformations.effects.vanGogh.title", prompt: "Reimagine the photo in the style of Van Gogh's 'Starry Night'.", emoji: "🌌", descriptionKey: "transformations.effects.vanGogh.description" },
       { key: "lineArt", titleKey: "transformations.effects.lineArt.title", prompt: "Turn the image into a clean, hand-drawn line art sketch.", emoji: "✍🏻", descriptionKey: "transformations.effects.lineArt.description" },
-      { key: "paintingProcess", titleKey: "transformations.effects.paintingProcess.title", prompt: "Generate a 4-panel grid showing the artistic process of creating this image, from sketch to final render.", emoji: "🖼️", descriptionKey: "transformations.effects.paintingProcess.description" },
+      { key: "paintingProcess", titleKey: "transformations.effects.paintingProcess.title", prompt: "Generate a {{panels}}-panel grid showing the artistic process of creating this image, from sketch to final render.", emoji: "🖼️", descriptionKey: "transformations.effects.paintingProcess.description", parameters: [{ name: "panels", type: "number", labelKey: "transformations.parameters.panels.label", default: 4, min: 2, max: 9, step: 1 }] },
       { key: "markerSketch", titleKey: "transformations.effects.markerSketch.title", prompt: "Redraw the image in the style of a Copic marker sketch, often used in design.", emoji: "🖊️", descriptionKey: "transformations.effects.markerSketch.description" },
     ]
   },
-];
\ No newline at end of file
+];
+
+/**
+ * 按 key 查找转换效果（包含分类下的子项），分类本身不可直接使用
+ */
+export const findTransformation = (
+  key: string,
+  items: Transformation[] = TRANSFORMATIONS
+): Transformation | null => {
+  for (const item of items) {
+    if (item.items) {
+      const found = findTransformation(key, item.items);
+      if (found) return found;
+    } else if (item.key === key) {
+      return item;
+    }
+  }
+  return null;
+};
+
+/**
+ * 将用户预设转换为转换效果（标题直接使用用户填写的文本）
+ */
+export const presetToTransformation = (preset: UserPreset): Transformation => ({
+  key: `${PRESET_KEY_PREFIX}${preset.id}`,
+  titleKey: preset.title,
+  emoji: preset.emoji,
+  prompt: preset.prompt,
+  isMultiImage: preset.isMultiImage,
+  isSecondaryOptional: preset.isSecondaryOptional,
+  // 填写了第二步提示词的预设按两步流水线执行，第二张图片只在第二步使用
+  ...(preset.stepTwoPrompt ? {
+    pipeline: [
+      { prompt: preset.prompt, keepOutput: true },
+      { prompt: preset.stepTwoPrompt, useSecondaryImage: true }
+    ]
+  } : {}),
+  presetId: preset.id
+});
+
+/**
+ * 获取转换效果的执行步骤，没有定义流水线的效果只有一步
+ */
+export const getPipelineSteps = (transformation: Transformation): PipelineStep[] => {
+  if (transformation.pipeline?.length) {
+    return transformation.pipeline;
+  }
+  return transformation.prompt ? [{ prompt: transformation.prompt, useSecondaryImage: true }] : [];
+};
+
+/**
+ * 获取转换效果的计费 key：用户预设按单步/两步统一定价，内置效果按各自的 key 定价
+ */
+export const getPricingKey = (transformation: Transformation): string => {
+  if (transformation.presetId) {
+    return (transformation.pipeline?.length ?? 1) > 1 ? 'userPresetTwoStep' : 'userPreset';
+  }
+  return transformation.key;
+};
+
+/**
+ * 转换为下发给客户端的目录项：去掉提示词和流水线步骤，附带价格
+ */
+export const toPublicTransformation = (
+  transformation: Transformation,
+  pricing: { defaultCredits: number | null; overrides: Record<string, number> }
+): Transformation => {
+  const { prompt, pipeline, items, ...rest } = transformation;
+
+  if (items) {
+    return { ...rest, items: items.map(item => toPublicTransformation(item, pricing)) };
+  }
+
+  return {
+    ...rest,
+    isCustomPrompt: prompt === CUSTOM_PROMPT,
+    credits: pricing.overrides[transformation.key] ?? pricing.defaultCredits ?? undefined
+  };
+};
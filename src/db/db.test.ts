@@ -0,0 +1,60 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { initDb, openDb, withTransaction } from './db.js';
+import { createUser } from '../models/userModel.js';
+import { getUserAccount } from '../models/accountModel.js';
+
+let userCount = 0;
+
+/**
+ * 创建余额为 balance 的测试用户
+ */
+const createTestUser = async (balance: number): Promise<string> => {
+  userCount++;
+  const { id } = await createUser(`db${userCount}`, `db${userCount}@example.com`, 'password');
+  const db = await openDb();
+  await db.run('UPDATE user_accounts SET balance = ? WHERE userId = ?', balance, id);
+  return id;
+};
+
+describe('withTransaction', () => {
+  beforeAll(async () => {
+    await initDb();
+  });
+
+  it('keeps writes made on the shared connection during a transaction out of it', async () => {
+    const inTransaction = await createTestUser(10);
+    const outside = await createTestUser(10);
+    let markStarted!: () => void;
+    let finishTransaction!: () => void;
+    const started = new Promise<void>(resolve => { markStarted = resolve; });
+    const finished = new Promise<void>(resolve => { finishTransaction = resolve; });
+
+    const transaction = withTransaction(async db => {
+      await db.run('UPDATE user_accounts SET balance = 50 WHERE userId = ?', inTransaction);
+      markStarted();
+      await finished;
+      throw new Error('rolled back');
+    });
+    await started;
+    // 其他请求在事务进行中直接写入共享连接
+    const db = await openDb();
+    const write = db.run('UPDATE user_accounts SET balance = 7 WHERE userId = ?', outside);
+    finishTransaction();
+
+    await expect(transaction).rejects.toThrow('rolled back');
+    await write;
+    expect((await getUserAccount(inTransaction))?.balance).toBe(10);
+    expect((await getUserAccount(outside))?.balance).toBe(7);
+  });
+
+  it('runs transactions one after another', async () => {
+    const userId = await createTestUser(0);
+
+    await Promise.all(Array.from({ length: 5 }, () => withTransaction(async db => {
+      const { balance } = await db.get('SELECT balance FROM user_accounts WHERE userId = ?', userId);
+      await db.run('UPDATE user_accounts SET balance = ? WHERE userId = ?', balance + 1, userId);
+    })));
+
+    expect((await getUserAccount(userId))?.balance).toBe(5);
+  });
+});
@@ -1,22 +1,75 @@
 import sqlite3 from 'sqlite3';
 import { open } from 'sqlite';
 
-// 数据库连接实例
-let dbInstance: any = null;
+// 普通语句使用的共享连接
+let dbInstance: Promise<any> | null = null;
+// withTransaction 专用的连接，其他请求在共享连接上执行的语句不会落入进行中的事务
+let transactionDbInstance: Promise<any> | null = null;
+// 专用连接上的事务不能嵌套，通过 withTransaction 排队执行
+let transactionQueue: Promise<unknown> = Promise.resolve();
+
+// 等待其他连接释放写锁的最长时间（毫秒）
+const BUSY_TIMEOUT_MS = 5000;
+
+/**
+ * 建立数据库连接
+ * 使用 WAL 模式，一个连接写入时另一个连接仍可读取；写入冲突时等待而不是立即失败
+ */
+const connect = async () => {
+  const db = await open({
+    filename: process.env.DATABASE_FILE || './database.sqlite',
+    driver: sqlite3.Database
+  });
+  db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+  await db.exec('PRAGMA journal_mode = WAL');
+  return db;
+};
 
 /**
  * 打开数据库连接
+ * 数据库文件可通过 DATABASE_FILE 环境变量配置（测试中每个测试文件使用独立的临时文件）
  */
 export const openDb = async () => {
   if (!dbInstance) {
-    dbInstance = await open({
-      filename: './database.sqlite',
-      driver: sqlite3.Database
-    });
+    dbInstance = connect();
   }
   return dbInstance;
 };
 
+/**
+ * 在 BEGIN IMMEDIATE 事务中执行 fn，fn 抛出错误时回滚
+ * 事务在专用连接上执行，fn 中的语句必须使用传入的 db；事务之间按顺序执行，fn 中不能再调用 withTransaction
+ */
+export const withTransaction = <T>(fn: (db: any) => Promise<T>): Promise<T> => {
+  const run = transactionQueue.then(async () => {
+    if (!transactionDbInstance) {
+      transactionDbInstance = connect();
+    }
+    const db = await transactionDbInstance;
+    await db.run('BEGIN IMMEDIATE');
+    try {
+      const result = await fn(db);
+      await db.run('COMMIT');
+      return result;
+    } catch (error) {
+      await db.run('ROLLBACK');
+      throw error;
+    }
+  });
+  transactionQueue = run.catch(() => {});
+  return run;
+};
+
+/**
+ * 为已存在的表补充新增列（CREATE TABLE IF NOT EXISTS 不会修改旧表结构）
+ */
+const ensureColumn = async (db: any, table: string, column: string, definition: string) => {
+  const columns = await db.all(`PRAGMA table_info(${table})`);
+  if (!columns.some((c: any) => c.name === column)) {
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
 /**
  * 初始化数据库表结构
  */
@@ -49,6 +102,8 @@ export const initDb = async () => {
     );
   `);
   
+  await ensureColumn(db, 'user_accounts', 'watermarkMode', "TEXT NOT NULL DEFAULT 'standard'");
+  
   // 创建积分交易记录表
   await db.exec(`
     CREATE TABLE IF NOT EXISTS credit_transactions (
@@ -90,20 +145,208 @@ export const initDb = async () => {
       creditsUsed REAL NOT NULL,
       status TEXT NOT NULL,
       details TEXT,
+      failureReason TEXT,
       createdAt TEXT NOT NULL,
       FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
     );
   `);
   
+  await ensureColumn(db, 'service_usages', 'failureReason', 'TEXT');
+  
+  // 创建服务价格表（每次调价新增一条版本记录）
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS service_prices (
+      id TEXT PRIMARY KEY,
+      serviceKey TEXT NOT NULL,
+      transformationKey TEXT,
+      credits REAL NOT NULL,
+      version INTEGER NOT NULL,
+      effectiveFrom TEXT NOT NULL,
+      note TEXT,
+      createdAt TEXT NOT NULL
+    );
+  `);
+  
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_service_prices_lookup ON service_prices (serviceKey, transformationKey, effectiveFrom)');
+  
+  // 创建积分预留（冻结）记录表
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS credit_holds (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      amount REAL NOT NULL,
+      status TEXT NOT NULL,
+      relatedOrder TEXT,
+      description TEXT,
+      expiresAt TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    );
+  `);
+  
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_credit_holds_userId_status ON credit_holds (userId, status)');
+  
+  // 创建异步任务队列表
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      type TEXT NOT NULL,
+      status TEXT NOT NULL,
+      progress REAL NOT NULL DEFAULT 0,
+      progressMessage TEXT,
+      payload TEXT NOT NULL,
+      result TEXT,
+      error TEXT,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      workerId TEXT,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      startedAt TEXT,
+      completedAt TEXT,
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    );
+  `);
+  
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_status_createdAt ON jobs (status, createdAt)');
+  
+  // 创建幂等键记录表（保存请求指纹和缓存的响应）
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      scope TEXT NOT NULL,
+      idempotencyKey TEXT NOT NULL,
+      requestHash TEXT NOT NULL,
+      status TEXT NOT NULL,
+      responseStatus INTEGER,
+      responseBody TEXT,
+      createdAt TEXT NOT NULL,
+      expiresAt TEXT NOT NULL,
+      UNIQUE (userId, scope, idempotencyKey),
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    );
+  `);
+  
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expiresAt ON idempotency_keys (expiresAt)');
+  
+  // 创建用户自定义预设表
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS user_presets (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      title TEXT NOT NULL,
+      emoji TEXT NOT NULL,
+      prompt TEXT NOT NULL,
+      stepTwoPrompt TEXT,
+      isMultiImage INTEGER NOT NULL DEFAULT 0,
+      isSecondaryOptional INTEGER NOT NULL DEFAULT 0,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    );
+  `);
+  
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_user_presets_userId ON user_presets (userId)');
+  
+  // 创建批量处理表（每个批次对应一个后台任务）
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS batches (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      jobId TEXT,
+      transformationKey TEXT NOT NULL,
+      status TEXT NOT NULL,
+      itemCount INTEGER NOT NULL,
+      creditsPerItem REAL NOT NULL,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      completedAt TEXT,
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    );
+  `);
+  
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_batches_userId_createdAt ON batches (userId, createdAt)');
+  
+  // 创建批量处理条目表（每张输入图片一条记录）
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS batch_items (
+      id TEXT PRIMARY KEY,
+      batchId TEXT NOT NULL,
+      itemIndex INTEGER NOT NULL,
+      status TEXT NOT NULL,
+      input TEXT NOT NULL,
+      result TEXT,
+      error TEXT,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (batchId) REFERENCES batches (id) ON DELETE CASCADE
+    );
+  `);
+  
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_batch_items_batchId ON batch_items (batchId, itemIndex)');
+  
+  // 创建资源表（图片内容保存在对象存储中，这里只记录存储键）
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS assets (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      storageKey TEXT NOT NULL,
+      mimeType TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      createdAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    );
+  `);
+  
+  // 创建生成记录表（输入和结果图片均以资源ID记录）
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS generations (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      jobId TEXT,
+      transformationKey TEXT,
+      prompt TEXT NOT NULL,
+      inputs TEXT NOT NULL,
+      outputs TEXT NOT NULL,
+      serviceUsageId TEXT,
+      createdAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (serviceUsageId) REFERENCES service_usages (id)
+    );
+  `);
+  
+  await ensureColumn(db, 'generations', 'provenance', 'TEXT');
+  
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_generations_userId_createdAt ON generations (userId, createdAt)');
+  
+  // 创建生成记录的父子关系表（以某次生成的结果作为输入时记录来源）
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS generation_parents (
+      generationId TEXT NOT NULL,
+      parentId TEXT NOT NULL,
+      PRIMARY KEY (generationId, parentId),
+      FOREIGN KEY (generationId) REFERENCES generations (id) ON DELETE CASCADE,
+      FOREIGN KEY (parentId) REFERENCES generations (id) ON DELETE CASCADE
+    );
+  `);
+  
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_generation_parents_parentId ON generation_parents (parentId)');
+  
   return db;
 };
 
 /**
- * 关闭数据库连接
+ * 关闭数据库连接（包括事务专用的连接）
  */
 export const closeDb = async () => {
-  if (dbInstance) {
-    await dbInstance.close();
-    dbInstance = null;
+  const connections = [dbInstance, transactionDbInstance];
+  dbInstance = null;
+  transactionDbInstance = null;
+  for (const connection of connections) {
+    if (connection) {
+      await (await connection).close();
+    }
   }
 };
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { initDb, openDb } from '../db/db.js';
+import { createUser } from './userModel.js';
+import {
+  captureCreditHold,
+  expireCreditHolds,
+  getUserAccount,
+  getUserTransactions,
+  releaseCreditHold,
+  releaseCreditHoldsForOrder,
+  reserveCredits
+} from './accountModel.js';
+
+let userId: string;
+let userCount = 0;
+
+/**
+ * 设置用户余额（注册赠送的积分不计入测试）
+ */
+const setBalance = async (balance: number) => {
+  const db = await openDb();
+  await db.run('UPDATE user_accounts SET balance = ? WHERE userId = ?', balance, userId);
+};
+
+describe('credit holds', () => {
+  beforeAll(async () => {
+    await initDb();
+  });
+
+  beforeEach(async () => {
+    userCount++;
+    userId = (await createUser(`holder${userCount}`, `holder${userCount}@example.com`, 'password')).id;
+    await setBalance(10);
+  });
+
+  it('reserves credits without changing the balance', async () => {
+    const hold = await reserveCredits(userId, 4, 'job-1');
+
+    expect(hold?.status).toBe('held');
+    expect(await getUserAccount(userId)).toMatchObject({ balance: 10, heldBalance: 4, availableBalance: 6 });
+  });
+
+  it('refuses holds beyond the available balance', async () => {
+    expect(await reserveCredits(userId, 7, 'job-1')).not.toBeNull();
+    expect(await reserveCredits(userId, 4, 'job-2')).toBeNull();
+  });
+
+  it('captures a hold once and records the withdrawal', async () => {
+    const hold = (await reserveCredits(userId, 4, 'job-1', 'edit'))!;
+
+    expect(await captureCreditHold(hold.id)).toBe(true);
+    expect(await captureCreditHold(hold.id)).toBe(false);
+
+    expect(await getUserAccount(userId)).toMatchObject({ balance: 6, heldBalance: 0 });
+    const [transaction] = await getUserTransactions(userId);
+    expect(transaction).toMatchObject({
+      type: 'withdrawal',
+      amount: -4,
+      previousBalance: 10,
+      currentBalance: 6,
+      relatedOrder: 'job-1',
+      description: 'edit'
+    });
+  });
+
+  it('releases holds so the credits become available again', async () => {
+    const order = `job-${userId}`;
+    const first = (await reserveCredits(userId, 3, order))!;
+    await reserveCredits(userId, 3, order);
+
+    expect(await releaseCreditHold(first.id)).toBe(true);
+    expect(await captureCreditHold(first.id)).toBe(false);
+    expect(await releaseCreditHoldsForOrder(order)).toBe(1);
+
+    expect(await getUserAccount(userId)).toMatchObject({ balance: 10, heldBalance: 0 });
+  });
+
+  it('captures an expired hold while the balance still covers it', async () => {
+    const hold = (await reserveCredits(userId, 4, 'job-1', undefined, -1000))!;
+    expect(await expireCreditHolds()).toBe(1);
+
+    expect(await captureCreditHold(hold.id)).toBe(true);
+    expect((await getUserAccount(userId))?.balance).toBe(6);
+  });
+
+  it('does not capture an expired hold from credits reserved by another job', async () => {
+    const expired = (await reserveCredits(userId, 6, 'job-1', undefined, -1000))!;
+    await expireCreditHolds();
+    await reserveCredits(userId, 8, 'job-2');
+
+    expect(await captureCreditHold(expired.id)).toBe(false);
+
+    expect(await getUserAccount(userId)).toMatchObject({ balance: 10, heldBalance: 8 });
+    expect(await getUserTransactions(userId)).toHaveLength(0);
+  });
+
+  it('keeps the balance and transactions consistent under concurrent captures', async () => {
+    const holds = await Promise.all([1, 2, 3].map(() => reserveCredits(userId, 3, 'job-1')));
+
+    const results = await Promise.all(holds.map(hold => captureCreditHold(hold!.id)));
+
+    expect(results).toEqual([true, true, true]);
+    expect((await getUserAccount(userId))?.balance).toBe(1);
+    const transactions = await getUserTransactions(userId);
+    expect(transactions.map(transaction => transaction.currentBalance).sort()).toEqual([1, 4, 7]);
+  });
+});
@@ -1,5 +1,5 @@
-import { openDb } from '../db/db.js';
-import type { UserAccount, CreditTransaction } from '../../types.js';
+import { openDb, withTransaction } from '../db/db.js';
+import type { UserAccount, CreditTransaction, CreditHold, WatermarkMode } from '../../types.js';
 import crypto from 'crypto';
 
 /**
@@ -9,6 +9,10 @@ const generateId = (): string => {
   return crypto.randomUUID();
 };
 
+// 积分预留默认有效期（毫秒），可通过 CREDIT_HOLD_TTL_MS 环境变量配置
+// 处理任务的 worker 异常退出时，预留会在到期后自动失效
+const DEFAULT_HOLD_TTL_MS = 10 * 60 * 1000;
+
 /**
  * 获取用户积分账户
  */
@@ -18,13 +22,78 @@ export const getUserAccount = async (userId: string): Promise<UserAccount | null
   
   if (!row) return null;
   
+  const heldBalance = await getHeldBalance(userId);
+  
   return {
     userId: row.userId,
     balance: row.balance,
+    heldBalance,
+    availableBalance: row.balance - heldBalance,
+    watermarkMode: row.watermarkMode,
     lastUpdated: new Date(row.lastUpdated)
   };
 };
 
+/**
+ * 获取用户的水印模式，没有积分账户时为 standard
+ */
+export const getWatermarkMode = async (userId: string): Promise<WatermarkMode> => {
+  const db = await openDb();
+  const row = await db.get('SELECT watermarkMode FROM user_accounts WHERE userId = ?', userId);
+  return row?.watermarkMode === 'robust' ? 'robust' : 'standard';
+};
+
+/**
+ * 设置用户的水印模式，没有积分账户时返回 false
+ */
+export const updateWatermarkMode = async (userId: string, mode: WatermarkMode): Promise<boolean> => {
+  const db = await openDb();
+  const result = await db.run('UPDATE user_accounts SET watermarkMode = ? WHERE userId = ?', mode, userId);
+  return (result.changes ?? 0) > 0;
+};
+
+/**
+ * 在调用方的事务中更新用户积分余额并记录交易，db 为 withTransaction 传入的连接
+ * 账户不存在或扣款后余额不足时抛出错误
+ */
+export const applyBalanceChange = async (
+  db: any,
+  userId: string,
+  amount: number,
+  type: 'deposit' | 'withdrawal' | 'reward' | 'expiry',
+  description?: string,
+  relatedOrder?: string
+): Promise<void> => {
+  // 获取当前余额
+  const account = await db.get('SELECT balance FROM user_accounts WHERE userId = ?', userId);
+  
+  if (!account) {
+    throw new Error('User account not found');
+  }
+  
+  const previousBalance = account.balance;
+  const currentBalance = previousBalance + amount;
+  
+  // 检查余额是否足够（针对扣款操作）
+  if (type === 'withdrawal' && currentBalance < 0) {
+    throw new Error('Insufficient balance');
+  }
+  
+  // 更新账户余额
+  const now = new Date().toISOString();
+  await db.run(
+    'UPDATE user_accounts SET balance = ?, lastUpdated = ? WHERE userId = ?',
+    currentBalance, now, userId
+  );
+  
+  // 记录交易日志
+  const transactionId = generateId();
+  await db.run(
+    'INSERT INTO credit_transactions (id, userId, type, amount, previousBalance, currentBalance, relatedOrder, description, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    transactionId, userId, type, amount, previousBalance, currentBalance, relatedOrder, description, now
+  );
+};
+
 /**
  * 更新用户积分余额
  */
@@ -35,48 +104,11 @@ export const updateUserBalance = async (
   description?: string,
   relatedOrder?: string
 ): Promise<boolean> => {
-  const db = await openDb();
-  
-  // 开始事务
-  await db.run('BEGIN TRANSACTION');
-  
   try {
-    // 获取当前余额
-    const account = await db.get('SELECT balance FROM user_accounts WHERE userId = ?', userId);
-    
-    if (!account) {
-      throw new Error('User account not found');
-    }
-    
-    const previousBalance = account.balance;
-    const currentBalance = previousBalance + amount;
-    
-    // 检查余额是否足够（针对扣款操作）
-    if (type === 'withdrawal' && currentBalance < 0) {
-      throw new Error('Insufficient balance');
-    }
-    
-    // 更新账户余额
-    const now = new Date().toISOString();
-    await db.run(
-      'UPDATE user_accounts SET balance = ?, lastUpdated = ? WHERE userId = ?',
-      currentBalance, now, userId
-    );
-    
-    // 记录交易日志
-    const transactionId = generateId();
-    await db.run(
-      'INSERT INTO credit_transactions (id, userId, type, amount, previousBalance, currentBalance, relatedOrder, description, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      transactionId, userId, type, amount, previousBalance, currentBalance, relatedOrder, description, now
-    );
-    
-    // 提交事务
-    await db.run('COMMIT');
+    await withTransaction(db => applyBalanceChange(db, userId, amount, type, description, relatedOrder));
     
     return true;
   } catch (error) {
-    // 回滚事务
-    await db.run('ROLLBACK');
     console.error('Failed to update user balance:', error);
     return false;
   }
@@ -99,7 +131,7 @@ export const getUserTransactions = async (
   return rows.map(row => ({
     id: row.id,
     userId: row.userId,
-    type: row.type as 'deposit' | 'withdrawal' | 'reward' | 'expiry',
+    type: row.type as 'deposit' | 'withdrawal' | 'reward' | 'expiry' | 'refund',
     amount: row.amount,
     previousBalance: row.previousBalance,
     currentBalance: row.currentBalance,
@@ -125,7 +157,7 @@ export const getBalance = async (
 };
 
 /**
- * 检查用户积分余额是否充足
+ * 检查用户积分余额是否充足（扣除已预留的积分）
  */
 export const checkBalance = async (
   userId: string,
@@ -137,7 +169,7 @@ export const checkBalance = async (
     return false;
   }
   
-  return account.balance >= requiredAmount;
+  return account.availableBalance >= requiredAmount;
 };
 
 /**
@@ -178,4 +210,187 @@ export const rewardCredits = async (
   description?: string
 ): Promise<boolean> => {
   return updateUserBalance(userId, amount, 'reward', description);
+};
+
+/**
+ * 将数据库行转换为积分预留对象
+ */
+const rowToCreditHold = (row: any): CreditHold => ({
+  id: row.id,
+  userId: row.userId,
+  amount: row.amount,
+  status: row.status as 'held' | 'captured' | 'released' | 'expired',
+  relatedOrder: row.relatedOrder ?? undefined,
+  description: row.description ?? undefined,
+  expiresAt: new Date(row.expiresAt),
+  createdAt: new Date(row.createdAt),
+  updatedAt: new Date(row.updatedAt)
+});
+
+/**
+ * 获取用户当前预留中的积分总额（已过期的预留不计入）
+ */
+export const getHeldBalance = async (userId: string): Promise<number> => {
+  const db = await openDb();
+  const row = await db.get(
+    'SELECT COALESCE(SUM(amount), 0) AS held FROM credit_holds WHERE userId = ? AND status = ? AND expiresAt > ?',
+    userId, 'held', new Date().toISOString()
+  );
+  
+  return row?.held ?? 0;
+};
+
+/**
+ * 获取用户当前有效的积分预留
+ */
+export const getActiveCreditHolds = async (userId: string): Promise<CreditHold[]> => {
+  const db = await openDb();
+  const rows = await db.all(
+    'SELECT * FROM credit_holds WHERE userId = ? AND status = ? AND expiresAt > ? ORDER BY createdAt DESC',
+    userId, 'held', new Date().toISOString()
+  );
+  
+  return rows.map(rowToCreditHold);
+};
+
+/**
+ * 预留积分
+ * 可用余额（余额减去有效预留）的检查与预留写入在同一条语句中完成，
+ * 并发请求不会同时通过检查导致透支
+ */
+export const reserveCredits = async (
+  userId: string,
+  amount: number,
+  relatedOrder?: string,
+  description?: string,
+  ttlMs: number = parseInt(process.env.CREDIT_HOLD_TTL_MS || `${DEFAULT_HOLD_TTL_MS}`, 10)
+): Promise<CreditHold | null> => {
+  const db = await openDb();
+  const id = generateId();
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const expiresAt = new Date(now.getTime() + ttlMs).toISOString();
+  
+  const result = await db.run(
+    `INSERT INTO credit_holds (id, userId, amount, status, relatedOrder, description, expiresAt, createdAt, updatedAt)
+     SELECT ?, ?, ?, 'held', ?, ?, ?, ?, ?
+     WHERE (SELECT balance FROM user_accounts WHERE userId = ?)
+       - (SELECT COALESCE(SUM(amount), 0) FROM credit_holds WHERE userId = ? AND status = 'held' AND expiresAt > ?)
+       >= ?`,
+    id, userId, amount, relatedOrder, description, expiresAt, nowIso, nowIso,
+    userId, userId, nowIso, amount
+  );
+  
+  if (!result.changes) {
+    return null;
+  }
+  
+  return {
+    id,
+    userId,
+    amount,
+    status: 'held',
+    relatedOrder,
+    description,
+    expiresAt: new Date(expiresAt),
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * 确认扣除预留的积分
+ * 认领预留、扣除余额和记录交易在同一事务中完成。在工作进程超时后才完成的任务也允许确认已过期的预留，
+ * 但余额扣除其他有效预留后必须仍然足够，避免扣掉其他任务已预留的积分；不足时释放该预留
+ */
+export const captureCreditHold = async (
+  holdId: string,
+  description?: string
+): Promise<boolean> => {
+  try {
+    return await withTransaction(async db => {
+      const now = new Date().toISOString();
+      
+      // 先认领预留，保证同一预留只会被扣除一次
+      const hold = await db.get(
+        `UPDATE credit_holds SET status = 'captured', updatedAt = ?
+         WHERE id = ? AND status IN ('held', 'expired')
+         RETURNING *`,
+        now, holdId
+      );
+      
+      if (!hold) {
+        return false;
+      }
+      
+      const account = await db.get(
+        `UPDATE user_accounts SET balance = balance - ?, lastUpdated = ?
+         WHERE userId = ?
+           AND balance - (SELECT COALESCE(SUM(amount), 0) FROM credit_holds WHERE userId = ? AND status = 'held' AND expiresAt > ?) >= ?
+         RETURNING balance`,
+        hold.amount, now, hold.userId, hold.userId, now, hold.amount
+      );
+      
+      if (!account) {
+        await db.run(
+          'UPDATE credit_holds SET status = ?, updatedAt = ? WHERE id = ?',
+          'released', now, holdId
+        );
+        console.error('Failed to capture credit hold: insufficient balance', holdId);
+        return false;
+      }
+      
+      // 记录交易日志
+      await db.run(
+        'INSERT INTO credit_transactions (id, userId, type, amount, previousBalance, currentBalance, relatedOrder, description, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        generateId(), hold.userId, 'withdrawal', -hold.amount, account.balance + hold.amount, account.balance,
+        hold.relatedOrder, description ?? hold.description, now
+      );
+      
+      return true;
+    });
+  } catch (error) {
+    console.error('Failed to capture credit hold:', error);
+    return false;
+  }
+};
+
+/**
+ * 释放预留的积分
+ */
+export const releaseCreditHold = async (holdId: string): Promise<boolean> => {
+  const db = await openDb();
+  const result = await db.run(
+    'UPDATE credit_holds SET status = ?, updatedAt = ? WHERE id = ? AND status = ?',
+    'released', new Date().toISOString(), holdId, 'held'
+  );
+  
+  return !!result.changes;
+};
+
+/**
+ * 释放关联订单（如任务）下所有仍在预留中的积分
+ */
+export const releaseCreditHoldsForOrder = async (relatedOrder: string): Promise<number> => {
+  const db = await openDb();
+  const result = await db.run(
+    'UPDATE credit_holds SET status = ?, updatedAt = ? WHERE relatedOrder = ? AND status = ?',
+    'released', new Date().toISOString(), relatedOrder, 'held'
+  );
+  
+  return result.changes ?? 0;
+};
+
+/**
+ * 将已到期的预留标记为过期
+ */
+export const expireCreditHolds = async (): Promise<number> => {
+  const db = await openDb();
+  const now = new Date().toISOString();
+  const result = await db.run(
+    'UPDATE credit_holds SET status = ?, updatedAt = ? WHERE status = ? AND expiresAt <= ?',
+    'expired', now, 'held', now
+  );
+  
+  return result.changes ?? 0;
 };
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { openDb } from '../db/db.js';
+import type { Asset } from '../../types.js';
+import crypto from 'crypto';
+
+/**
+ * 生成唯一ID
+ */
+const generateId = (): string => {
+  return crypto.randomUUID();
+};
+
+/**
+ * 将数据库行转换为资源对象
+ */
+const rowToAsset = (row: any): Asset => ({
+  id: row.id,
+  userId: row.userId,
+  storageKey: row.storageKey,
+  mimeType: row.mimeType,
+  size: row.size,
+  createdAt: new Date(row.createdAt)
+});
+
+/**
+ * 创建资源记录（内容需已写入对象存储）
+ */
+export const createAsset = async (
+  userId: string,
+  data: { storageKey: string; mimeType: string; size: number }
+): Promise<Asset> => {
+  const db = await openDb();
+  const id = generateId();
+  const now = new Date().toISOString();
+
+  await db.run(
+    'INSERT INTO assets (id, userId, storageKey, mimeType, size, createdAt) VALUES (?, ?, ?, ?, ?, ?)',
+    id, userId, data.storageKey, data.mimeType, data.size, now
+  );
+
+  return (await getAssetById(id))!;
+};
+
+/**
+ * 获取资源
+ */
+export const getAssetById = async (id: string): Promise<Asset | null> => {
+  const db = await openDb();
+  const row = await db.get('SELECT * FROM assets WHERE id = ?', id);
+
+  if (!row) return null;
+
+  return rowToAsset(row);
+};
@@ -0,0 +1,185 @@
+import { openDb } from '../db/db.js';
+import type { Batch, BatchItem, BatchItemStatus, BatchStatus, GeneratedContent } from '../../types.js';
+import crypto from 'crypto';
+
+/**
+ * 批量处理条目的输入图片（已上传的资源ID）
+ */
+export interface BatchItemInput {
+  imageAssetId: string;
+}
+
+/**
+ * 生成唯一ID
+ */
+const generateId = (): string => {
+  return crypto.randomUUID();
+};
+
+/**
+ * 将数据库行转换为批次对象
+ */
+const rowToBatch = (row: any): Batch => ({
+  id: row.id,
+  userId: row.userId,
+  jobId: row.jobId ?? undefined,
+  transformationKey: row.transformationKey,
+  status: row.status as BatchStatus,
+  itemCount: row.itemCount,
+  creditsPerItem: row.creditsPerItem,
+  createdAt: new Date(row.createdAt),
+  updatedAt: new Date(row.updatedAt),
+  completedAt: row.completedAt ? new Date(row.completedAt) : undefined
+});
+
+/**
+ * 将数据库行转换为批次条目对象（不包含输入图片）
+ */
+const rowToBatchItem = (row: any): BatchItem => ({
+  id: row.id,
+  batchId: row.batchId,
+  index: row.itemIndex,
+  status: row.status as BatchItemStatus,
+  result: row.result ? JSON.parse(row.result) : undefined,
+  error: row.error ?? undefined,
+  createdAt: new Date(row.createdAt),
+  updatedAt: new Date(row.updatedAt)
+});
+
+/**
+ * 创建批次，每张输入图片生成一个待处理条目
+ */
+export const createBatch = async (
+  userId: string,
+  transformationKey: string,
+  creditsPerItem: number,
+  inputs: BatchItemInput[]
+): Promise<Batch> => {
+  const db = await openDb();
+  const id = generateId();
+  const now = new Date().toISOString();
+
+  await db.run(
+    'INSERT INTO batches (id, userId, transformationKey, status, itemCount, creditsPerItem, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    id, userId, transformationKey, 'queued', inputs.length, creditsPerItem, now, now
+  );
+
+  for (const [index, input] of inputs.entries()) {
+    await db.run(
+      'INSERT INTO batch_items (id, batchId, itemIndex, status, input, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      generateId(), id, index, 'pending', JSON.stringify(input), now, now
+    );
+  }
+
+  return (await getBatchById(id))!;
+};
+
+/**
+ * 关联批次和处理它的后台任务
+ */
+export const setBatchJobId = async (batchId: string, jobId: string): Promise<void> => {
+  const db = await openDb();
+
+  await db.run(
+    'UPDATE batches SET jobId = ?, updatedAt = ? WHERE id = ?',
+    jobId, new Date().toISOString(), batchId
+  );
+};
+
+/**
+ * 获取批次
+ */
+export const getBatchById = async (id: string): Promise<Batch | null> => {
+  const db = await openDb();
+  const row = await db.get('SELECT * FROM batches WHERE id = ?', id);
+
+  if (!row) return null;
+
+  return rowToBatch(row);
+};
+
+/**
+ * 获取批次的所有条目（按输入顺序）
+ */
+export const getBatchItems = async (batchId: string): Promise<BatchItem[]> => {
+  const db = await openDb();
+  const rows = await db.all(
+    'SELECT id, batchId, itemIndex, status, result, error, createdAt, updatedAt FROM batch_items WHERE batchId = ? ORDER BY itemIndex',
+    batchId
+  );
+
+  return rows.map(rowToBatchItem);
+};
+
+/**
+ * 更新批次状态，批次完成时记录完成时间
+ */
+export const updateBatchStatus = async (batchId: string, status: BatchStatus): Promise<void> => {
+  const db = await openDb();
+  const now = new Date().toISOString();
+
+  await db.run(
+    'UPDATE batches SET status = ?, updatedAt = ?, completedAt = ? WHERE id = ?',
+    status, now, status === 'completed' ? now : null, batchId
+  );
+};
+
+/**
+ * 将上次中断时处理中的条目恢复为待处理
+ */
+export const resetInterruptedBatchItems = async (batchId: string): Promise<number> => {
+  const db = await openDb();
+  const result = await db.run(
+    `UPDATE batch_items SET status = 'pending', updatedAt = ? WHERE batchId = ? AND status = 'running'`,
+    new Date().toISOString(), batchId
+  );
+
+  return result.changes ?? 0;
+};
+
+/**
+ * 领取批次中下一个待处理条目
+ * 使用单条 UPDATE ... RETURNING 语句，保证同一条目只会被处理一次
+ */
+export const claimNextBatchItem = async (
+  batchId: string
+): Promise<{ item: BatchItem; input: BatchItemInput } | null> => {
+  const db = await openDb();
+  const now = new Date().toISOString();
+
+  const row = await db.get(
+    `UPDATE batch_items
+     SET status = 'running', updatedAt = ?
+     WHERE id = (SELECT id FROM batch_items WHERE batchId = ? AND status = 'pending' ORDER BY itemIndex LIMIT 1)
+     RETURNING *`,
+    now, batchId
+  );
+
+  if (!row) return null;
+
+  return { item: rowToBatchItem(row), input: JSON.parse(row.input) };
+};
+
+/**
+ * 标记条目处理成功
+ */
+export const completeBatchItem = async (itemId: string, result: GeneratedContent): Promise<void> => {
+  const db = await openDb();
+
+  await db.run(
+    'UPDATE batch_items SET status = ?, result = ?, error = NULL, updatedAt = ? WHERE id = ?',
+    'succeeded', JSON.stringify(result), new Date().toISOString(), itemId
+  );
+};
+
+/**
+ * 标记条目处理失败
+ */
+export const failBatchItem = async (itemId: string, error: string): Promise<void> => {
+  const db = await openDb();
+
+  await db.run(
+    'UPDATE batch_items SET status = ?, error = ?, updatedAt = ? WHERE id = ?',
+    'failed', error, new Date().toISOString(), itemId
+  );
+};
@@ -0,0 +1,56 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { initDb } from '../db/db.js';
+import { createUser } from './userModel.js';
+import { createGeneration, getGenerationById, getGenerationLineage } from './generationModel.js';
+
+let userId: string;
+let otherUserId: string;
+
+/**
+ * 创建只有一个输出的生成记录
+ */
+const createTestGeneration = async (owner: string, prompt: string, parentIds: string[] = []) => {
+  const generation = await createGeneration(owner, {
+    prompt,
+    inputs: {},
+    outputs: [{ assetId: `asset-${prompt}`, text: null }],
+    parentIds
+  });
+  return generation.id;
+};
+
+describe('generation lineage', () => {
+  beforeAll(async () => {
+    await initDb();
+    userId = (await createUser('lineage', 'lineage@example.com', 'password')).id;
+    otherUserId = (await createUser('lineage2', 'lineage2@example.com', 'password')).id;
+  });
+
+  it('stores parents and returns the whole edit tree from any node', async () => {
+    const root = await createTestGeneration(userId, 'root');
+    const child = await createTestGeneration(userId, 'child', [root]);
+    const grandchild = await createTestGeneration(userId, 'grandchild', [child]);
+    const sibling = await createTestGeneration(userId, 'sibling', [root]);
+    // 合并两棵树：第二张图片来自另一条记录
+    const other = await createTestGeneration(userId, 'other');
+    const merged = await createTestGeneration(userId, 'merged', [sibling, other]);
+    const unrelated = await createTestGeneration(userId, 'unrelated');
+
+    expect((await getGenerationById(merged))!.parentIds.sort()).toEqual([sibling, other].sort());
+
+    const expected = [root, child, grandchild, sibling, other, merged].sort();
+    for (const id of [root, grandchild, other]) {
+      const lineage = await getGenerationLineage(userId, id);
+      expect(lineage.map(generation => generation.id).sort()).toEqual(expected);
+    }
+    expect((await getGenerationLineage(userId, unrelated)).map(generation => generation.id)).toEqual([unrelated]);
+  });
+
+  it('does not include other users\' generations', async () => {
+    const root = await createTestGeneration(otherUserId, 'foreign-root');
+    const child = await createTestGeneration(userId, 'own-child', [root]);
+
+    expect((await getGenerationLineage(userId, child)).map(generation => generation.id)).toEqual([child]);
+    expect((await getGenerationLineage(otherUserId, child)).map(generation => generation.id)).toEqual([root]);
+  });
+});
@@ -0,0 +1,139 @@
+import { openDb } from '../db/db.js';
+import type { Generation, GenerationInputs, GenerationOutput, SignedProvenanceManifest } from '../../types.js';
+import crypto from 'crypto';
+
+/**
+ * 生成唯一ID
+ */
+const generateId = (): string => {
+  return crypto.randomUUID();
+};
+
+// 查询生成记录时附带逗号分隔的父记录ID
+const GENERATION_COLUMNS = 'g.*, (SELECT GROUP_CONCAT(parentId) FROM generation_parents WHERE generationId = g.id) AS parentIds';
+
+/**
+ * 将数据库行转换为生成记录对象
+ */
+const rowToGeneration = (row: any): Generation => ({
+  id: row.id,
+  userId: row.userId,
+  jobId: row.jobId ?? undefined,
+  transformationKey: row.transformationKey ?? undefined,
+  prompt: row.prompt,
+  inputs: JSON.parse(row.inputs),
+  outputs: JSON.parse(row.outputs),
+  parentIds: row.parentIds ? row.parentIds.split(',') : [],
+  serviceUsageId: row.serviceUsageId ?? undefined,
+  provenance: row.provenance ? JSON.parse(row.provenance) : undefined,
+  createdAt: new Date(row.createdAt)
+});
+
+/**
+ * 创建生成记录（可指定预先分配的ID，如已写入结果图片水印的ID）
+ */
+export const createGeneration = async (
+  userId: string,
+  data: {
+    id?: string;
+    jobId?: string;
+    transformationKey?: string;
+    prompt: string;
+    inputs: GenerationInputs;
+    outputs: GenerationOutput[];
+    parentIds?: string[];
+    serviceUsageId?: string;
+    provenance?: SignedProvenanceManifest;
+  }
+): Promise<Generation> => {
+  const db = await openDb();
+  const id = data.id ?? generateId();
+  const now = new Date().toISOString();
+
+  await db.run(
+    'INSERT INTO generations (id, userId, jobId, transformationKey, prompt, inputs, outputs, serviceUsageId, provenance, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    id, userId, data.jobId ?? null, data.transformationKey ?? null, data.prompt,
+    JSON.stringify(data.inputs), JSON.stringify(data.outputs), data.serviceUsageId ?? null,
+    data.provenance ? JSON.stringify(data.provenance) : null, now
+  );
+
+  for (const parentId of data.parentIds ?? []) {
+    await db.run(
+      'INSERT OR IGNORE INTO generation_parents (generationId, parentId) VALUES (?, ?)',
+      id, parentId
+    );
+  }
+
+  return (await getGenerationById(id))!;
+};
+
+/**
+ * 获取生成记录
+ */
+export const getGenerationById = async (id: string): Promise<Generation | null> => {
+  const db = await openDb();
+  const row = await db.get(`SELECT ${GENERATION_COLUMNS} FROM generations g WHERE g.id = ?`, id);
+
+  if (!row) return null;
+
+  return rowToGeneration(row);
+};
+
+/**
+ * 按ID前缀获取生成记录（用于频域水印中截断的ID），没有或有多条匹配时返回 null
+ */
+export const getGenerationByIdPrefix = async (prefix: string): Promise<Generation | null> => {
+  const db = await openDb();
+  const rows = await db.all(
+    `SELECT ${GENERATION_COLUMNS} FROM generations g WHERE g.id LIKE ? LIMIT 2`,
+    `${prefix.replace(/[%_]/g, '')}%`
+  );
+
+  return rows.length === 1 ? rowToGeneration(rows[0]) : null;
+};
+
+/**
+ * 分页获取用户的生成记录（按时间倒序）
+ */
+export const getUserGenerations = async (
+  userId: string,
+  limit: number = 20,
+  offset: number = 0
+): Promise<{ generations: Generation[]; total: number }> => {
+  const db = await openDb();
+
+  const rows = await db.all(
+    `SELECT ${GENERATION_COLUMNS} FROM generations g WHERE g.userId = ? ORDER BY g.createdAt DESC LIMIT ? OFFSET ?`,
+    userId, limit, offset
+  );
+  const { total } = await db.get('SELECT COUNT(*) AS total FROM generations WHERE userId = ?', userId);
+
+  return { generations: rows.map(rowToGeneration), total };
+};
+
+/**
+ * 获取生成记录所在的整棵编辑树（沿父子关系双向遍历，按时间顺序）
+ */
+export const getGenerationLineage = async (userId: string, generationId: string): Promise<Generation[]> => {
+  const db = await openDb();
+
+  const rows = await db.all(
+    `WITH RECURSIVE
+       edges (fromId, toId) AS (
+         SELECT generationId, parentId FROM generation_parents
+         UNION ALL
+         SELECT parentId, generationId FROM generation_parents
+       ),
+       lineage (id) AS (
+         SELECT ?
+         UNION
+         SELECT edges.toId FROM edges JOIN lineage ON edges.fromId = lineage.id
+       )
+     SELECT ${GENERATION_COLUMNS} FROM generations g
+     WHERE g.id IN (SELECT id FROM lineage) AND g.userId = ?
+     ORDER BY g.createdAt`,
+    generationId, userId
+  );
+
+  return rows.map(rowToGeneration);
+};
@@ -0,0 +1,107 @@
+import { openDb } from '../db/db.js';
+import type { IdempotencyRecord } from '../../types.js';
+import crypto from 'crypto';
+
+// 幂等键保留时间（毫秒），默认24小时
+export const IDEMPOTENCY_KEY_TTL_MS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_MS || String(24 * 60 * 60 * 1000), 10);
+// 处理中的记录超过该时间仍未完成，视为请求已中断，允许重新执行
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * 生成唯一ID
+ */
+const generateId = (): string => {
+  return crypto.randomUUID();
+};
+
+/**
+ * 将数据库行转换为幂等记录对象
+ */
+const rowToIdempotencyRecord = (row: any): IdempotencyRecord => ({
+  id: row.id,
+  userId: row.userId,
+  scope: row.scope,
+  idempotencyKey: row.idempotencyKey,
+  requestHash: row.requestHash,
+  status: row.status,
+  responseStatus: row.responseStatus ?? undefined,
+  responseBody: row.responseBody ? JSON.parse(row.responseBody) : undefined,
+  createdAt: new Date(row.createdAt),
+  expiresAt: new Date(row.expiresAt)
+});
+
+/**
+ * 占用幂等键
+ * 键未被使用（或已过期）时插入处理中记录并返回 claimed: true；
+ * 键已被使用时返回已有记录，由调用方决定重放响应还是报告冲突
+ */
+export const claimIdempotencyKey = async (
+  userId: string,
+  scope: string,
+  idempotencyKey: string,
+  requestHash: string,
+  ttlMs: number = IDEMPOTENCY_KEY_TTL_MS
+): Promise<{ claimed: boolean; record: IdempotencyRecord }> => {
+  const db = await openDb();
+  const now = new Date();
+
+  // 清理该键已过期或已中断的记录
+  await db.run(
+    `DELETE FROM idempotency_keys
+     WHERE userId = ? AND scope = ? AND idempotencyKey = ?
+       AND (expiresAt <= ? OR (status = 'processing' AND createdAt <= ?))`,
+    userId, scope, idempotencyKey, now.toISOString(), new Date(now.getTime() - PROCESSING_TIMEOUT_MS).toISOString()
+  );
+
+  const inserted = await db.get(
+    `INSERT INTO idempotency_keys (id, userId, scope, idempotencyKey, requestHash, status, createdAt, expiresAt)
+     VALUES (?, ?, ?, ?, ?, 'processing', ?, ?)
+     ON CONFLICT (userId, scope, idempotencyKey) DO NOTHING
+     RETURNING *`,
+    generateId(), userId, scope, idempotencyKey, requestHash, now.toISOString(), new Date(now.getTime() + ttlMs).toISOString()
+  );
+
+  if (inserted) {
+    return { claimed: true, record: rowToIdempotencyRecord(inserted) };
+  }
+
+  const existing = await db.get(
+    'SELECT * FROM idempotency_keys WHERE userId = ? AND scope = ? AND idempotencyKey = ?',
+    userId, scope, idempotencyKey
+  );
+
+  return { claimed: false, record: rowToIdempotencyRecord(existing) };
+};
+
+/**
+ * 保存请求的响应，之后使用相同幂等键的请求直接重放该响应
+ */
+export const completeIdempotencyKey = async (
+  id: string,
+  responseStatus: number,
+  responseBody: any
+): Promise<void> => {
+  const db = await openDb();
+  await db.run(
+    `UPDATE idempotency_keys SET status = 'completed', responseStatus = ?, responseBody = ? WHERE id = ?`,
+    responseStatus, JSON.stringify(responseBody ?? null), id
+  );
+};
+
+/**
+ * 释放幂等键（请求未成功处理时调用，允许客户端使用相同的键重试）
+ */
+export const releaseIdempotencyKey = async (id: string): Promise<void> => {
+  const db = await openDb();
+  await db.run('DELETE FROM idempotency_keys WHERE id = ?', id);
+};
+
+/**
+ * 删除超过保留时间的幂等键记录
+ */
+export const purgeExpiredIdempotencyKeys = async (): Promise<number> => {
+  const db = await openDb();
+  const result = await db.run('DELETE FROM idempotency_keys WHERE expiresAt <= ?', new Date().toISOString());
+
+  return result.changes || 0;
+};
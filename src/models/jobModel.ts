@@ -0,0 +1,192 @@
+import { openDb } from '../db/db.js';
+import type { Job, JobStatus } from '../../types.js';
+import crypto from 'crypto';
+
+/**
+ * 生成唯一ID
+ */
+const generateId = (): string => {
+  return crypto.randomUUID();
+};
+
+/**
+ * 将数据库行转换为任务对象
+ */
+const rowToJob = (row: any): Job => ({
+  id: row.id,
+  userId: row.userId,
+  type: row.type,
+  status: row.status as JobStatus,
+  progress: row.progress,
+  progressMessage: row.progressMessage ?? undefined,
+  payload: JSON.parse(row.payload),
+  result: row.result ? JSON.parse(row.result) : undefined,
+  error: row.error ?? undefined,
+  attempts: row.attempts,
+  createdAt: new Date(row.createdAt),
+  updatedAt: new Date(row.updatedAt),
+  startedAt: row.startedAt ? new Date(row.startedAt) : undefined,
+  completedAt: row.completedAt ? new Date(row.completedAt) : undefined
+});
+
+/**
+ * 创建任务（进入队列）
+ */
+export const createJob = async <TPayload>(
+  userId: string,
+  type: string,
+  payload: TPayload
+): Promise<Job<TPayload>> => {
+  const db = await openDb();
+  const id = generateId();
+  const now = new Date().toISOString();
+
+  await db.run(
+    'INSERT INTO jobs (id, userId, type, status, progress, payload, attempts, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    id, userId, type, 'queued', 0, JSON.stringify(payload), 0, now, now
+  );
+
+  return {
+    id,
+    userId,
+    type,
+    status: 'queued',
+    progress: 0,
+    payload,
+    attempts: 0,
+    createdAt: new Date(now),
+    updatedAt: new Date(now)
+  };
+};
+
+/**
+ * 获取任务
+ */
+export const getJobById = async (id: string): Promise<Job | null> => {
+  const db = await openDb();
+  const row = await db.get('SELECT * FROM jobs WHERE id = ?', id);
+
+  if (!row) return null;
+
+  return rowToJob(row);
+};
+
+/**
+ * 获取用户任务列表
+ */
+export const getUserJobs = async (
+  userId: string,
+  limit: number = 50,
+  offset: number = 0,
+  status?: JobStatus
+): Promise<Job[]> => {
+  const db = await openDb();
+
+  let query = 'SELECT * FROM jobs WHERE userId = ?';
+  const params: any[] = [userId];
+
+  if (status) {
+    query += ' AND status = ?';
+    params.push(status);
+  }
+
+  query += ' ORDER BY createdAt DESC LIMIT ? OFFSET ?';
+  params.push(limit, offset);
+
+  const rows = await db.all(query, ...params);
+
+  return rows.map(rowToJob);
+};
+
+/**
+ * 领取下一个排队中的任务
+ * 使用单条 UPDATE ... RETURNING 语句，保证同一任务只会被一个 worker 领取
+ */
+export const claimNextJob = async (workerId: string): Promise<Job | null> => {
+  const db = await openDb();
+  const now = new Date().toISOString();
+
+  const row = await db.get(
+    `UPDATE jobs
+     SET status = 'running', workerId = ?, attempts = attempts + 1, startedAt = ?, updatedAt = ?
+     WHERE id = (SELECT id FROM jobs WHERE status = 'queued' ORDER BY createdAt LIMIT 1)
+     RETURNING *`,
+    workerId, now, now
+  );
+
+  if (!row) return null;
+
+  return rowToJob(row);
+};
+
+/**
+ * 更新任务进度
+ */
+export const updateJobProgress = async (
+  jobId: string,
+  progress: number,
+  progressMessage?: string
+): Promise<void> => {
+  const db = await openDb();
+  const now = new Date().toISOString();
+
+  await db.run(
+    'UPDATE jobs SET progress = ?, progressMessage = ?, updatedAt = ? WHERE id = ? AND status = ?',
+    progress, progressMessage, now, jobId, 'running'
+  );
+};
+
+/**
+ * 标记任务成功
+ */
+export const completeJob = async <TResult>(jobId: string, result: TResult): Promise<void> => {
+  const db = await openDb();
+  const now = new Date().toISOString();
+
+  await db.run(
+    'UPDATE jobs SET status = ?, progress = 1, progressMessage = NULL, result = ?, error = NULL, updatedAt = ?, completedAt = ? WHERE id = ?',
+    'succeeded', JSON.stringify(result), now, now, jobId
+  );
+};
+
+/**
+ * 标记任务失败
+ */
+export const failJob = async (jobId: string, error: string): Promise<void> => {
+  const db = await openDb();
+  const now = new Date().toISOString();
+
+  await db.run(
+    'UPDATE jobs SET status = ?, progressMessage = NULL, error = ?, updatedAt = ?, completedAt = ? WHERE id = ?',
+    'failed', error, now, now, jobId
+  );
+};
+
+/**
+ * 恢复服务重启时被中断的任务
+ * 尝试次数未超过上限的任务重新排队，否则标记为失败，返回被标记失败的任务
+ */
+export const recoverInterruptedJobs = async (
+  maxAttempts: number
+): Promise<{ requeued: number; failed: Job[] }> => {
+  const db = await openDb();
+  const now = new Date().toISOString();
+
+  const failed = await db.all(
+    `UPDATE jobs SET status = 'failed', error = ?, updatedAt = ?, completedAt = ?
+     WHERE status = 'running' AND attempts >= ?
+     RETURNING *`,
+    'Job was interrupted too many times', now, now, maxAttempts
+  );
+
+  const requeued = await db.run(
+    `UPDATE jobs SET status = 'queued', workerId = NULL, progress = 0, progressMessage = NULL, updatedAt = ?
+     WHERE status = 'running'`,
+    now
+  );
+
+  return {
+    requeued: requeued.changes ?? 0,
+    failed: failed.map(rowToJob)
+  };
+};
@@ -0,0 +1,48 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { initDb, openDb } from '../db/db.js';
+import { createUser } from './userModel.js';
+import { getUserAccount, getUserTransactions } from './accountModel.js';
+import { createPayment, getPaymentById, handlePaymentCallback } from './paymentModel.js';
+
+let userCount = 0;
+
+/**
+ * 创建余额为 0 的测试用户
+ */
+const createTestUser = async (): Promise<string> => {
+  userCount++;
+  const { id } = await createUser(`payer${userCount}`, `payer${userCount}@example.com`, 'password');
+  const db = await openDb();
+  await db.run('UPDATE user_accounts SET balance = 0 WHERE userId = ?', id);
+  return id;
+};
+
+describe('payments', () => {
+  beforeAll(async () => {
+    await initDb();
+  });
+
+  it('completes a payment and deposits its credits once', async () => {
+    const userId = await createTestUser();
+    const payment = await createPayment(userId, 5, 'alipay');
+
+    expect(await handlePaymentCallback(payment.id, 'txn-1', true)).toBe(true);
+    expect(await handlePaymentCallback(payment.id, 'txn-1', true)).toBe(false);
+
+    expect(await getPaymentById(payment.id)).toMatchObject({ status: 'completed', transactionId: 'txn-1' });
+    expect((await getUserAccount(userId))?.balance).toBe(50);
+    const transactions = await getUserTransactions(userId);
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0]).toMatchObject({ type: 'deposit', amount: 50, relatedOrder: payment.id });
+  });
+
+  it('does not deposit credits for a failed payment', async () => {
+    const userId = await createTestUser();
+    const payment = await createPayment(userId, 5, 'wechat');
+
+    expect(await handlePaymentCallback(payment.id, 'txn-2', false)).toBe(true);
+
+    expect((await getPaymentById(payment.id))?.status).toBe('failed');
+    expect((await getUserAccount(userId))?.balance).toBe(0);
+  });
+});
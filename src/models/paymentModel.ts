@@ -1,7 +1,7 @@
-import { openDb } from '../db/db.js';
+import { openDb, withTransaction } from '../db/db.js';
 import type { Payment } from '../../types.js';
 import crypto from 'crypto';
-import { depositCredits } from './accountModel.js';
+import { applyBalanceChange } from './accountModel.js';
 
 /**
  * 生成唯一ID
@@ -92,50 +92,43 @@ export const getUserPayments = async (
 
 /**
  * 更新支付状态
+ * 状态更新和充值积分在同一事务中完成
  */
 export const updatePaymentStatus = async (
   paymentId: string,
   status: 'completed' | 'failed' | 'refunded',
   transactionId?: string
 ): Promise<boolean> => {
-  const db = await openDb();
-  
-  // 开始事务
-  await db.run('BEGIN TRANSACTION');
-  
   try {
-    // 获取支付记录
-    const payment = await getPaymentById(paymentId);
-    
-    if (!payment) {
-      throw new Error('Payment not found');
-    }
-    
-    // 检查当前状态是否为pending
-    if (payment.status !== 'pending') {
-      throw new Error('Payment is not pending');
-    }
-    
-    const now = new Date().toISOString();
-    
-    // 更新支付状态
-    await db.run(
-      'UPDATE payments SET status = ?, transactionId = ?, updatedAt = ? WHERE id = ?',
-      status, transactionId, now, paymentId
-    );
-    
-    // 如果支付成功，充值积分
-    if (status === 'completed') {
-      await depositCredits(payment.userId, payment.credits, paymentId, `充值${payment.credits}积分`);
-    }
-    
-    // 提交事务
-    await db.run('COMMIT');
+    await withTransaction(async db => {
+      // 获取支付记录
+      const payment = await db.get('SELECT * FROM payments WHERE id = ?', paymentId);
+      
+      if (!payment) {
+        throw new Error('Payment not found');
+      }
+      
+      // 检查当前状态是否为pending
+      if (payment.status !== 'pending') {
+        throw new Error('Payment is not pending');
+      }
+      
+      const now = new Date().toISOString();
+      
+      // 更新支付状态
+      await db.run(
+        'UPDATE payments SET status = ?, transactionId = ?, updatedAt = ? WHERE id = ?',
+        status, transactionId, now, paymentId
+      );
+      
+      // 如果支付成功，充值积分
+      if (status === 'completed') {
+        await applyBalanceChange(db, payment.userId, payment.credits, 'deposit', `充值${payment.credits}积分`, paymentId);
+      }
+    });
     
     return true;
   } catch (error) {
-    // 回滚事务
-    await db.run('ROLLBACK');
     console.error('Failed to update payment status:', error);
     return false;
   }
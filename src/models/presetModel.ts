@@ -0,0 +1,109 @@
+import { openDb } from '../db/db.js';
+import type { UserPreset } from '../../types.js';
+import crypto from 'crypto';
+
+/**
+ * 预设的可编辑字段
+ */
+export interface PresetInput {
+  title: string;
+  emoji: string;
+  prompt: string;
+  stepTwoPrompt?: string | null;
+  isMultiImage?: boolean;
+  isSecondaryOptional?: boolean;
+}
+
+/**
+ * 生成唯一ID
+ */
+const generateId = (): string => {
+  return crypto.randomUUID();
+};
+
+/**
+ * 将数据库行转换为预设对象
+ */
+const rowToPreset = (row: any): UserPreset => ({
+  id: row.id,
+  userId: row.userId,
+  title: row.title,
+  emoji: row.emoji,
+  prompt: row.prompt,
+  stepTwoPrompt: row.stepTwoPrompt ?? undefined,
+  isMultiImage: row.isMultiImage === 1,
+  isSecondaryOptional: row.isSecondaryOptional === 1,
+  createdAt: new Date(row.createdAt),
+  updatedAt: new Date(row.updatedAt)
+});
+
+/**
+ * 创建预设
+ */
+export const createPreset = async (userId: string, input: PresetInput): Promise<UserPreset> => {
+  const db = await openDb();
+  const id = generateId();
+  const now = new Date().toISOString();
+
+  await db.run(
+    'INSERT INTO user_presets (id, userId, title, emoji, prompt, stepTwoPrompt, isMultiImage, isSecondaryOptional, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    id, userId, input.title, input.emoji, input.prompt, input.stepTwoPrompt || null,
+    input.isMultiImage ? 1 : 0, input.isSecondaryOptional ? 1 : 0, now, now
+  );
+
+  return (await getPresetById(id))!;
+};
+
+/**
+ * 获取预设
+ */
+export const getPresetById = async (id: string): Promise<UserPreset | null> => {
+  const db = await openDb();
+  const row = await db.get('SELECT * FROM user_presets WHERE id = ?', id);
+
+  if (!row) return null;
+
+  return rowToPreset(row);
+};
+
+/**
+ * 获取用户的所有预设（按创建时间排序）
+ */
+export const getUserPresets = async (userId: string): Promise<UserPreset[]> => {
+  const db = await openDb();
+  const rows = await db.all('SELECT * FROM user_presets WHERE userId = ? ORDER BY createdAt ASC', userId);
+
+  return rows.map(rowToPreset);
+};
+
+/**
+ * 更新预设（只能更新自己的预设），预设不存在时返回 null
+ */
+export const updatePreset = async (
+  id: string,
+  userId: string,
+  input: PresetInput
+): Promise<UserPreset | null> => {
+  const db = await openDb();
+  const result = await db.run(
+    `UPDATE user_presets
+     SET title = ?, emoji = ?, prompt = ?, stepTwoPrompt = ?, isMultiImage = ?, isSecondaryOptional = ?, updatedAt = ?
+     WHERE id = ? AND userId = ?`,
+    input.title, input.emoji, input.prompt, input.stepTwoPrompt || null,
+    input.isMultiImage ? 1 : 0, input.isSecondaryOptional ? 1 : 0, new Date().toISOString(), id, userId
+  );
+
+  if (!result.changes) return null;
+
+  return getPresetById(id);
+};
+
+/**
+ * 删除预设（只能删除自己的预设）
+ */
+export const deletePreset = async (id: string, userId: string): Promise<boolean> => {
+  const db = await openDb();
+  const result = await db.run('DELETE FROM user_presets WHERE id = ? AND userId = ?', id, userId);
+
+  return (result.changes || 0) > 0;
+};
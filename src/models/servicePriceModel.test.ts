@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { initDb, openDb } from '../db/db.js';
+import { getCurrentPriceTable, getServicePrice, seedServicePrices } from './servicePriceModel.js';
+
+/**
+ * 新增价格版本，与 set-price 命令写入的记录相同
+ */
+const addPriceVersion = async (serviceKey: string, transformationKey: string | null, credits: number, effectiveFrom: Date) => {
+  const db = await openDb();
+  const { version } = await db.get(
+    'SELECT COALESCE(MAX(version), 0) + 1 AS version FROM service_prices WHERE serviceKey = ? AND transformationKey IS ?',
+    serviceKey, transformationKey
+  );
+  await db.run(
+    `INSERT INTO service_prices (id, serviceKey, transformationKey, credits, version, effectiveFrom, note, createdAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    crypto.randomUUID(), serviceKey, transformationKey, credits, version, effectiveFrom.toISOString(), null, new Date().toISOString()
+  );
+};
+
+describe('service prices', () => {
+  beforeAll(async () => {
+    await initDb();
+    await seedServicePrices();
+  });
+
+  it('falls back to the service price without a transformation override', async () => {
+    expect(await getServicePrice('batch-processing')).toBe(20);
+    expect(await getServicePrice('batch-processing', 'figurine')).toBe(20);
+    expect((await getCurrentPriceTable()).servicePricing['batch-processing']).toBe(20);
+  });
+
+  it('prefers a transformation override and applies new versions from their effective time', async () => {
+    const effectiveFrom = new Date(Date.now() + 60 * 60 * 1000);
+    await addPriceVersion('batch-processing', 'lego', 12, new Date(0));
+    await addPriceVersion('batch-processing', null, 15, effectiveFrom);
+
+    expect(await getServicePrice('batch-processing', 'lego')).toBe(12);
+    expect(await getServicePrice('batch-processing', 'crochet')).toBe(20);
+    expect(await getServicePrice('batch-processing', 'crochet', effectiveFrom)).toBe(15);
+  });
+
+  it('does not overwrite adjusted prices when seeding again', async () => {
+    await addPriceVersion('resize-image', null, 5, new Date(0));
+    await seedServicePrices();
+
+    expect(await getServicePrice('resize-image')).toBe(5);
+    expect(await getServicePrice('unknown-service')).toBeNull();
+  });
+});
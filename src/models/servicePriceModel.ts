@@ -0,0 +1,136 @@
+import { openDb } from '../db/db.js';
+import type { ServicePrice } from '../../types.js';
+import crypto from 'crypto';
+
+/**
+ * 生成唯一ID
+ */
+const generateId = (): string => {
+  return crypto.randomUUID();
+};
+
+/**
+ * 服务价格初始配置，仅在价格表中没有对应记录时写入
+ * 之后的调价通过数据库维护脚本（set-price 命令）新增版本记录，不修改已有记录
+ */
+export const defaultServicePrices: Array<{ serviceKey: string; transformationKey?: string; credits: number; note: string }> = [
+  { serviceKey: 'ai-image-edit', credits: 3, note: 'AI图片编辑：3积分/次' },
+  { serviceKey: 'ai-image-edit', transformationKey: 'colorPalette', credits: 6, note: '两步调色板换色：6积分/次' },
+  { serviceKey: 'ai-image-edit', transformationKey: 'userPresetTwoStep', credits: 6, note: '两步用户预设：6积分/次' },
+  { serviceKey: 'ai-image-generate', credits: 10, note: 'AI图片生成：10积分/次' },
+  { serviceKey: 'high-resolution-edit', credits: 15, note: '高清编辑：15积分/次' },
+  { serviceKey: 'batch-processing', credits: 20, note: '批量处理：20积分/次' },
+  { serviceKey: 'remove-background', credits: 3, note: '移除背景：3积分/次' },
+  { serviceKey: 'enhance-image', credits: 4, note: '图片增强：4积分/次' },
+  { serviceKey: 'resize-image', credits: 2, note: '调整图片大小：2积分/次' }
+];
+
+/**
+ * 将数据库行转换为价格对象
+ */
+const rowToServicePrice = (row: any): ServicePrice => ({
+  id: row.id,
+  serviceKey: row.serviceKey,
+  transformationKey: row.transformationKey ?? undefined,
+  credits: row.credits,
+  version: row.version,
+  effectiveFrom: new Date(row.effectiveFrom),
+  note: row.note ?? undefined,
+  createdAt: new Date(row.createdAt)
+});
+
+/**
+ * 写入初始价格，已有记录（包括管理员调整过的价格）的服务/转换效果不受影响
+ */
+export const seedServicePrices = async (): Promise<void> => {
+  const db = await openDb();
+  const now = new Date().toISOString();
+
+  for (const price of defaultServicePrices) {
+    await db.run(
+      `INSERT INTO service_prices (id, serviceKey, transformationKey, credits, version, effectiveFrom, note, createdAt)
+       SELECT ?, ?, ?, ?, ?, ?, ?, ?
+       WHERE NOT EXISTS (SELECT 1 FROM service_prices WHERE serviceKey = ? AND transformationKey IS ?)`,
+      generateId(), price.serviceKey, price.transformationKey ?? null, price.credits, 1, new Date(0).toISOString(), price.note, now,
+      price.serviceKey, price.transformationKey ?? null
+    );
+  }
+};
+
+/**
+ * 获取指定时间生效的价格记录（不回退到服务默认价）
+ */
+const getEffectivePriceRecord = async (
+  serviceKey: string,
+  transformationKey: string | null,
+  at: Date
+): Promise<ServicePrice | null> => {
+  const db = await openDb();
+  const row = await db.get(
+    `SELECT * FROM service_prices
+     WHERE serviceKey = ? AND transformationKey IS ? AND effectiveFrom <= ?
+     ORDER BY effectiveFrom DESC, version DESC
+     LIMIT 1`,
+    serviceKey, transformationKey, at.toISOString()
+  );
+
+  if (!row) return null;
+
+  return rowToServicePrice(row);
+};
+
+/**
+ * 获取服务价格
+ * 优先使用该转换效果的单独定价，没有时使用服务默认价；均未配置时返回 null
+ */
+export const getServicePrice = async (
+  serviceKey: string,
+  transformationKey?: string | null,
+  at: Date = new Date()
+): Promise<number | null> => {
+  if (transformationKey) {
+    const override = await getEffectivePriceRecord(serviceKey, transformationKey, at);
+    if (override) {
+      return override.credits;
+    }
+  }
+
+  const price = await getEffectivePriceRecord(serviceKey, null, at);
+
+  return price ? price.credits : null;
+};
+
+/**
+ * 获取当前生效的价格表
+ */
+export const getCurrentPriceTable = async (
+  at: Date = new Date()
+): Promise<{ servicePricing: Record<string, number>; transformationPricing: Record<string, Record<string, number>> }> => {
+  const db = await openDb();
+  const rows = await db.all(
+    `SELECT p.* FROM service_prices p
+     WHERE p.effectiveFrom <= ?
+       AND p.id = (
+         SELECT id FROM service_prices q
+         WHERE q.serviceKey = p.serviceKey AND q.transformationKey IS p.transformationKey AND q.effectiveFrom <= ?
+         ORDER BY q.effectiveFrom DESC, q.version DESC
+         LIMIT 1
+       )
+     ORDER BY p.serviceKey, p.transformationKey`,
+    at.toISOString(), at.toISOString()
+  );
+
+  const servicePricing: Record<string, number> = {};
+  const transformationPricing: Record<string, Record<string, number>> = {};
+
+  for (const row of rows) {
+    if (row.transformationKey) {
+      transformationPricing[row.serviceKey] = transformationPricing[row.serviceKey] || {};
+      transformationPricing[row.serviceKey][row.transformationKey] = row.credits;
+    } else {
+      servicePricing[row.serviceKey] = row.credits;
+    }
+  }
+
+  return { servicePricing, transformationPricing };
+};
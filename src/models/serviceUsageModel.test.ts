@@ -0,0 +1,93 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { initDb, openDb } from '../db/db.js';
+import { createUser } from './userModel.js';
+import { getUserAccount, getUserTransactions } from './accountModel.js';
+import {
+  createServiceUsage,
+  getUserServiceUsages,
+  refundServiceConsumption,
+  shouldRefundPartialFailure
+} from './serviceUsageModel.js';
+
+let userCount = 0;
+
+/**
+ * 创建余额为 balance 的测试用户
+ */
+const createTestUser = async (balance: number): Promise<string> => {
+  userCount++;
+  const { id } = await createUser(`usage${userCount}`, `usage${userCount}@example.com`, 'password');
+  const db = await openDb();
+  await db.run('UPDATE user_accounts SET balance = ? WHERE userId = ?', balance, id);
+  return id;
+};
+
+describe('service usages', () => {
+  beforeAll(async () => {
+    await initDb();
+  });
+
+  it('records failed attempts with a structured failure reason', async () => {
+    const userId = await createTestUser(10);
+
+    await createServiceUsage(userId, 'ai-image-edit', 0, 'failed', '{"jobId":"job-1"}', 'safety_blocked');
+
+    const [usage] = await getUserServiceUsages(userId);
+    expect(usage).toMatchObject({ serviceKey: 'ai-image-edit', creditsUsed: 0, status: 'failed', failureReason: 'safety_blocked' });
+    expect((await getUserAccount(userId))?.balance).toBe(10);
+  });
+
+  it('refunds a successful usage exactly once', async () => {
+    const userId = await createTestUser(7);
+    const usage = await createServiceUsage(userId, 'ai-image-edit', 3, 'success');
+
+    expect(await refundServiceConsumption(usage.id, 'step 2 failed')).toBe(true);
+    expect(await refundServiceConsumption(usage.id)).toBe(false);
+
+    expect((await getUserAccount(userId))?.balance).toBe(10);
+    const [usageAfter] = await getUserServiceUsages(userId);
+    expect(usageAfter.status).toBe('refunded');
+    const transactions = await getUserTransactions(userId);
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0]).toMatchObject({ type: 'refund', amount: 3, previousBalance: 7, currentBalance: 10, relatedOrder: usage.id });
+  });
+
+  it('keeps the usage refundable when crediting the account fails', async () => {
+    const userId = await createTestUser(7);
+    const usage = await createServiceUsage(userId, 'ai-image-edit', 3, 'success');
+    const db = await openDb();
+    await db.run('DELETE FROM user_accounts WHERE userId = ?', userId);
+
+    expect(await refundServiceConsumption(usage.id)).toBe(false);
+
+    const [usageAfter] = await getUserServiceUsages(userId);
+    expect(usageAfter.status).toBe('success');
+    expect(await getUserTransactions(userId)).toHaveLength(0);
+  });
+
+  it('does not refund failed usages', async () => {
+    const userId = await createTestUser(10);
+    const usage = await createServiceUsage(userId, 'ai-image-edit', 3, 'failed', undefined, 'model_error');
+
+    expect(await refundServiceConsumption(usage.id)).toBe(false);
+    expect((await getUserAccount(userId))?.balance).toBe(10);
+  });
+});
+
+describe('partial failure refund policy', () => {
+  it('always refunds by default', () => {
+    expect(shouldRefundPartialFailure('safety_blocked')).toBe(true);
+    expect(shouldRefundPartialFailure('model_error', 'always')).toBe(true);
+  });
+
+  it('refunds only provider errors under provider-errors', () => {
+    expect(shouldRefundPartialFailure('model_error', 'provider-errors')).toBe(true);
+    expect(shouldRefundPartialFailure('rate_limited', 'provider-errors')).toBe(true);
+    expect(shouldRefundPartialFailure('safety_blocked', 'provider-errors')).toBe(false);
+    expect(shouldRefundPartialFailure('insufficient_credits', 'provider-errors')).toBe(false);
+  });
+
+  it('never refunds under never', () => {
+    expect(shouldRefundPartialFailure('model_error', 'never')).toBe(false);
+  });
+});
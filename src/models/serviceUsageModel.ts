@@ -1,7 +1,8 @@
-import { openDb } from '../db/db';
-import { ServiceUsage } from '../../types';
+import { openDb, withTransaction } from '../db/db.js';
+import type { ServiceUsage } from '../../types.js';
 import crypto from 'crypto';
-import { checkBalance, withdrawCredits } from './accountModel';
+import { applyBalanceChange } from './accountModel.js';
+import type { GenerationFailureReason } from '../../services/providerErrors.js';
 
 /**
  * 生成唯一ID
@@ -11,22 +12,28 @@ const generateId = (): string => {
 };
 
 /**
- * 创建服务使用记录
+ * 服务使用失败原因：模型生成失败原因，或计费环节的失败
  */
-export const createServiceUsage = async (
+export type UsageFailureReason = GenerationFailureReason | 'insufficient_credits' | 'billing_failed';
+
+/**
+ * 在指定连接上写入服务使用记录
+ */
+const insertServiceUsage = async (
+  db: any,
   userId: string,
   serviceKey: string,
   creditsUsed: number,
   status: 'success' | 'failed',
-  details?: string
+  details?: string,
+  failureReason?: UsageFailureReason
 ): Promise<ServiceUsage> => {
-  const db = await openDb();
   const id = generateId();
   const now = new Date().toISOString();
   
   await db.run(
-    'INSERT INTO service_usages (id, userId, serviceKey, creditsUsed, status, details, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
-    id, userId, serviceKey, creditsUsed, status, details, now
+    'INSERT INTO service_usages (id, userId, serviceKey, creditsUsed, status, details, failureReason, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    id, userId, serviceKey, creditsUsed, status, details, failureReason, now
   );
   
   return {
@@ -36,12 +43,28 @@ export const createServiceUsage = async (
     creditsUsed,
     status,
     details,
+    failureReason,
     createdAt: new Date(now)
   };
 };
 
+/**
+ * 创建服务使用记录
+ */
+export const createServiceUsage = async (
+  userId: string,
+  serviceKey: string,
+  creditsUsed: number,
+  status: 'success' | 'failed',
+  details?: string,
+  failureReason?: UsageFailureReason
+): Promise<ServiceUsage> => {
+  return insertServiceUsage(await openDb(), userId, serviceKey, creditsUsed, status, details, failureReason);
+};
+
 /**
  * 消费服务并扣费
+ * 检查余额、扣费和记录使用在同一事务中完成
  */
 export const consumeService = async (
   userId: string,
@@ -49,46 +72,31 @@ export const consumeService = async (
   credits: number,
   details?: string
 ): Promise<{ success: boolean; message?: string; serviceUsage?: ServiceUsage }> => {
-  const db = await openDb();
-  
-  // 开始事务
-  await db.run('BEGIN TRANSACTION');
-  
   try {
-    // 检查积分余额是否充足
-    const hasEnoughBalance = await checkBalance(userId, credits);
-    
-    if (!hasEnoughBalance) {
-      throw new Error('Insufficient balance');
-    }
-    
-    // 扣费
-    const withdrawSuccess = await withdrawCredits(userId, credits, undefined, `使用${serviceKey}服务`);
-    
-    if (!withdrawSuccess) {
-      throw new Error('Failed to withdraw credits');
-    }
-    
-    // 创建服务使用记录
-    const serviceUsage = await createServiceUsage(
-      userId,
-      serviceKey,
-      credits,
-      'success',
-      details
-    );
-    
-    // 提交事务
-    await db.run('COMMIT');
+    const serviceUsage = await withTransaction(async db => {
+      // 检查可用积分（余额扣除有效预留）是否充足
+      const account = await db.get(
+        `SELECT balance - (SELECT COALESCE(SUM(amount), 0) FROM credit_holds WHERE userId = ? AND status = 'held' AND expiresAt > ?) AS availableBalance
+         FROM user_accounts WHERE userId = ?`,
+        userId, new Date().toISOString(), userId
+      );
+      
+      if (!account || account.availableBalance < credits) {
+        throw new Error('Insufficient balance');
+      }
+      
+      // 扣费
+      await applyBalanceChange(db, userId, -credits, 'withdrawal', `使用${serviceKey}服务`);
+      
+      // 创建服务使用记录
+      return insertServiceUsage(db, userId, serviceKey, credits, 'success', details);
+    });
     
     return {
       success: true,
       serviceUsage
     };
   } catch (error) {
-    // 回滚事务
-    await db.run('ROLLBACK');
-    
     // 记录失败的服务使用
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     await createServiceUsage(
@@ -132,6 +140,20 @@ export const confirmServiceConsumption = async (
   };
 };
 
+/**
+ * 将数据库行转换为服务使用记录
+ */
+const rowToServiceUsage = (row: any): ServiceUsage => ({
+  id: row.id,
+  userId: row.userId,
+  serviceKey: row.serviceKey,
+  creditsUsed: row.creditsUsed,
+  status: row.status as 'success' | 'failed' | 'refunded',
+  details: row.details,
+  failureReason: row.failureReason ?? undefined,
+  createdAt: new Date(row.createdAt)
+});
+
 /**
  * 获取用户服务使用记录
  */
@@ -156,98 +178,131 @@ export const getUserServiceUsages = async (
   
   const rows = await db.all(query, ...params);
   
-  return rows.map(row => ({
-    id: row.id,
-    userId: row.userId,
-    serviceKey: row.serviceKey,
-    creditsUsed: row.creditsUsed,
-    status: row.status as 'success' | 'failed',
-    details: row.details,
-    createdAt: new Date(row.createdAt)
-  }));
-};
-
-/**
- * 定义服务价格配置
- */
-export const servicePricing = {
-  'ai-image-edit': 5, // AI图片编辑：5积分/次
-  'ai-image-generate': 10, // AI图片生成：10积分/次
-  'high-resolution-edit': 15, // 高清编辑：15积分/次
-  'batch-processing': 20, // 批量处理：20积分/次
-  'remove-background': 3, // 移除背景：3积分/次
-  'enhance-image': 4, // 图片增强：4积分/次
-  'resize-image': 2 // 调整图片大小：2积分/次
+  return rows.map(rowToServiceUsage);
 };
 
 /**
- * 获取服务价格
+ * 获取任务的服务使用记录（details 中的 jobId），按创建时间排序
+ * 任务中断后重新执行时，用于跳过已完成的候选结果
  */
-export const getServicePrice = (serviceKey: string): number => {
-  return servicePricing[serviceKey as keyof typeof servicePricing] || 0;
+export const getJobServiceUsages = async (
+  userId: string,
+  jobId: string
+): Promise<ServiceUsage[]> => {
+  const db = await openDb();
+  
+  // details 不一定是 JSON，先校验再读取 jobId
+  const rows = await db.all(
+    `SELECT * FROM service_usages
+     WHERE userId = ? AND CASE WHEN json_valid(details) THEN json_extract(details, '$.jobId') END = ?
+     ORDER BY createdAt`,
+    userId, jobId
+  );
+  
+  return rows.map(rowToServiceUsage);
 };
 
 /**
  * 撤销服务消费（仅在特定条件下）
+ * 认领使用记录、退还积分和记录交易在同一事务中完成
  */
 export const refundServiceConsumption = async (
   serviceUsageId: string,
   reason?: string
 ): Promise<boolean> => {
-  const db = await openDb();
-  
-  // 开始事务
-  await db.run('BEGIN TRANSACTION');
-  
   try {
-    // 获取服务使用记录
-    const serviceUsage = await db.get('SELECT * FROM service_usages WHERE id = ?', serviceUsageId);
-    
-    if (!serviceUsage || serviceUsage.status !== 'success') {
-      throw new Error('Invalid service usage record');
-    }
-    
-    // 检查服务使用时间是否在可退款期限内（例如24小时）
-    const usageTime = new Date(serviceUsage.createdAt);
-    const now = new Date();
-    const timeDiff = now.getTime() - usageTime.getTime();
-    const hoursDiff = timeDiff / (1000 * 60 * 60);
-    
-    if (hoursDiff > 24) {
-      throw new Error('Refund period expired');
-    }
-    
-    // 退款积分
-    await openDb().then(db => 
-      db.run(
-        'UPDATE user_accounts SET balance = balance + ?, lastUpdated = ? WHERE userId = ?',
+    return await withTransaction(async db => {
+      // 获取服务使用记录
+      const serviceUsage = await db.get('SELECT * FROM service_usages WHERE id = ?', serviceUsageId);
+      
+      if (!serviceUsage || serviceUsage.status !== 'success') {
+        throw new Error('Invalid service usage record');
+      }
+      
+      // 检查服务使用时间是否在可退款期限内（例如24小时）
+      const usageTime = new Date(serviceUsage.createdAt);
+      const now = new Date();
+      const timeDiff = now.getTime() - usageTime.getTime();
+      const hoursDiff = timeDiff / (1000 * 60 * 60);
+      
+      if (hoursDiff > 24) {
+        throw new Error('Refund period expired');
+      }
+      
+      // 更新服务使用记录状态（仅成功状态可退款，保证同一记录只退款一次）
+      const claimed = await db.run(
+        'UPDATE service_usages SET status = ? WHERE id = ? AND status = ?',
+        'refunded', serviceUsageId, 'success'
+      );
+      
+      if (!claimed.changes) {
+        throw new Error('Service usage already refunded');
+      }
+      
+      // 退款积分
+      const account = await db.get(
+        'UPDATE user_accounts SET balance = balance + ?, lastUpdated = ? WHERE userId = ? RETURNING balance',
         serviceUsage.creditsUsed, now.toISOString(), serviceUsage.userId
-      )
-    );
-    
-    // 更新服务使用记录状态
-    await db.run(
-      'UPDATE service_usages SET status = ? WHERE id = ?',
-      'refunded', serviceUsageId
-    );
-    
-    // 记录退款交易
-    const transactionId = generateId();
-    await db.run(
-      'INSERT INTO credit_transactions (id, userId, type, amount, previousBalance, currentBalance, relatedOrder, description, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      transactionId, serviceUsage.userId, 'reward', serviceUsage.creditsUsed, 
-      serviceUsage.creditsUsed - serviceUsage.creditsUsed, serviceUsage.creditsUsed, 
-      serviceUsageId, `服务退款: ${serviceUsage.serviceKey} ${reason || ''}`, now.toISOString()
-    );
-    
-    // 提交事务
-    await db.run('COMMIT');
-    
-    return true;
+      );
+      
+      // 记录退款交易
+      const transactionId = generateId();
+      await db.run(
+        'INSERT INTO credit_transactions (id, userId, type, amount, previousBalance, currentBalance, relatedOrder, description, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        transactionId, serviceUsage.userId, 'refund', serviceUsage.creditsUsed, 
+        account.balance - serviceUsage.creditsUsed, account.balance, 
+        serviceUsageId, `服务退款: ${serviceUsage.serviceKey} ${reason || ''}`.trim(), now.toISOString()
+      );
+      
+      return true;
+    });
   } catch (error) {
-    // 回滚事务
-    await db.run('ROLLBACK');
     console.error('Failed to refund service consumption:', error);
     return false;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * 退还任务所有已扣费的使用记录（任务最终失败、没有交付任何结果时）
+ * 返回退款的记录数
+ */
+export const refundJobServiceUsages = async (
+  userId: string,
+  jobId: string,
+  reason: string
+): Promise<number> => {
+  let refunded = 0;
+  for (const usage of await getJobServiceUsages(userId, jobId)) {
+    if (usage.status === 'success' && await refundServiceConsumption(usage.id, reason)) {
+      refunded++;
+    }
+  }
+  return refunded;
+};
+
+/**
+ * 多步骤任务部分失败时的退款策略，可通过 PARTIAL_FAILURE_REFUND_POLICY 环境变量配置
+ * - always：后续步骤失败时，退还已扣除的前序步骤积分（默认）
+ * - provider-errors：仅在模型服务自身出错时退款，内容安全拦截不退款
+ * - never：不退款
+ */
+export type PartialFailureRefundPolicy = 'always' | 'provider-errors' | 'never';
+
+const PROVIDER_ERROR_REASONS: UsageFailureReason[] = ['rate_limited', 'model_error', 'no_image', 'configuration', 'unknown'];
+
+/**
+ * 根据退款策略判断部分失败的多步骤任务是否应退还已扣除的积分
+ */
+export const shouldRefundPartialFailure = (
+  reason: UsageFailureReason,
+  policy: PartialFailureRefundPolicy = (process.env.PARTIAL_FAILURE_REFUND_POLICY as PartialFailureRefundPolicy) || 'always'
+): boolean => {
+  switch (policy) {
+    case 'never':
+      return false;
+    case 'provider-errors':
+      return PROVIDER_ERROR_REASONS.includes(reason);
+    default:
+      return true;
+  }
+};
@@ -2,8 +2,11 @@ import express from 'express';
 import {
   getUserAccount,
   getUserTransactions,
-  checkBalance
+  getActiveCreditHolds,
+  checkBalance,
+  updateWatermarkMode
 } from '../models/accountModel.js';
+import { getCurrentPriceTable } from '../models/servicePriceModel.js';
 import { authMiddleware, getUserIdFromAuth } from '../utils/authUtils.js';
 
 const router = express.Router();
@@ -29,6 +32,30 @@ router.get('/', authMiddleware, async (req, res) => {
   }
 });
 
+// 设置结果图片的水印模式
+router.put('/watermark-mode', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const { mode } = req.body ?? {};
+    if (mode !== 'standard' && mode !== 'robust') {
+      return res.status(400).json({ error: 'mode must be standard or robust' });
+    }
+    
+    if (!(await updateWatermarkMode(userId, mode))) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+    
+    res.status(200).json({ watermarkMode: mode });
+  } catch (error) {
+    console.error('Error updating watermark mode:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // 获取用户积分交易记录
 router.get('/transactions', authMiddleware, async (req, res) => {
   try {
@@ -52,6 +79,23 @@ router.get('/transactions', authMiddleware, async (req, res) => {
   }
 });
 
+// 获取用户当前有效的积分预留
+router.get('/holds', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const holds = await getActiveCreditHolds(userId);
+    
+    res.status(200).json(holds);
+  } catch (error) {
+    console.error('Error fetching credit holds:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // 检查用户积分余额是否充足
 router.get('/check-balance/:amount', authMiddleware, async (req, res) => {
   try {
@@ -72,6 +116,8 @@ router.get('/check-balance/:amount', authMiddleware, async (req, res) => {
     res.status(200).json({
       hasEnoughBalance,
       currentBalance: account?.balance || 0,
+      heldBalance: account?.heldBalance || 0,
+      availableBalance: account?.availableBalance || 0,
       requiredAmount
     });
   } catch (error) {
@@ -83,21 +129,15 @@ router.get('/check-balance/:amount', authMiddleware, async (req, res) => {
 // 获取积分规则配置
 router.get('/rules', async (req, res) => {
   try {
-    // 实际应用中可以从配置文件或数据库读取规则
+    // 服务价格从价格表读取当前生效的版本
+    const { servicePricing, transformationPricing } = await getCurrentPriceTable();
     const rules = {
       exchangeRate: 10, // 1元 = 10积分
       expirationDays: 365, // 积分有效期1年
       minimumBalance: 0, // 最低余额
       maxTransferAmount: 1000, // 最大转账金额
-      servicePricing: {
-        'ai-image-edit': 5,
-        'ai-image-generate': 10,
-        'high-resolution-edit': 15,
-        'batch-processing': 20,
-        'remove-background': 3,
-        'enhance-image': 4,
-        'resize-image': 2
-      }
+      servicePricing,
+      transformationPricing
     };
     
     res.status(200).json(rules);
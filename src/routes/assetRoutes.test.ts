@@ -0,0 +1,53 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { initDb } from '../db/db.js';
+import { createUser } from '../models/userModel.js';
+import { storeAsset } from '../storage/assetStorage.js';
+import { signAssetUrl } from '../storage/signedUrls.js';
+import assetRoutes from './assetRoutes.js';
+
+let server: Server;
+let baseUrl: string;
+let storageDir: string;
+
+describe('asset routes', () => {
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'asset-routes-'));
+    process.env.IMAGE_STORAGE_DIR = storageDir;
+    await initDb();
+
+    const app = express();
+    app.use('/api/assets', assetRoutes);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.close();
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  it('serves signed content with its stored type and without content sniffing', async () => {
+    const { id: userId } = await createUser('assets', 'assets@example.com', 'password');
+    const data = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    const asset = await storeAsset(userId, data, 'image/png');
+
+    const response = await fetch(signAssetUrl(baseUrl, asset.id));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+    expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+    expect(Buffer.from(await response.arrayBuffer()).equals(data)).toBe(true);
+  });
+
+  it('rejects an unsigned request', async () => {
+    const response = await fetch(`${baseUrl}/api/assets/missing/content`);
+
+    expect(response.status).toBe(403);
+  });
+});
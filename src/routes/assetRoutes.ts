@@ -0,0 +1,147 @@
+import express from 'express';
+import { getAssetById } from '../models/assetModel.js';
+import { SUPPORTED_MIME_TYPES, readAsset, storeAsset } from '../storage/assetStorage.js';
+import { getBaseUrl, signAssetUrl, verifyAssetUrlSignature } from '../storage/signedUrls.js';
+import { getMultipartBoundary, parseMultipart } from '../utils/multipartUtils.js';
+import type { Asset } from '../../types.js';
+import { authMiddleware, getUserIdFromAuth } from '../utils/authUtils.js';
+
+const router = express.Router();
+
+// 单次上传请求的大小上限
+const MAX_UPLOAD_SIZE = '25mb';
+// 单次上传最多包含的文件数量
+const MAX_UPLOAD_FILES = 20;
+
+const parseUploadBody = express.raw({ type: 'multipart/form-data', limit: MAX_UPLOAD_SIZE });
+
+/**
+ * 读取上传请求体，超出大小限制时返回 413
+ */
+const uploadBodyMiddleware = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  parseUploadBody(req, res, (error?: any) => {
+    if (error?.status === 413) {
+      return res.status(413).json({ error: `Upload exceeds ${MAX_UPLOAD_SIZE}` });
+    }
+    if (error) {
+      return res.status(400).json({ error: 'Invalid upload body' });
+    }
+    next();
+  });
+};
+
+/**
+ * 转换资源为接口响应，附带签名地址
+ */
+const toAssetResponse = (asset: Asset, baseUrl: string) => ({
+  id: asset.id,
+  mimeType: asset.mimeType,
+  size: asset.size,
+  url: signAssetUrl(baseUrl, asset.id),
+  createdAt: asset.createdAt
+});
+
+/**
+ * 上传图片（multipart/form-data，文件字段名为 file，可包含多个）
+ * 按上传顺序返回资源ID和签名地址，之后的编辑请求通过资源ID引用这些图片
+ */
+router.post('/', authMiddleware, uploadBodyMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const boundary = getMultipartBoundary(req.headers['content-type']);
+    if (!boundary || !Buffer.isBuffer(req.body)) {
+      return res.status(400).json({ error: 'Request must be multipart/form-data' });
+    }
+    
+    let files;
+    try {
+      files = parseMultipart(req.body, boundary).filter(part => part.name === 'file' && part.filename !== null);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid multipart body' });
+    }
+    
+    if (files.length === 0) {
+      return res.status(400).json({ error: 'At least one file is required' });
+    }
+    if (files.length > MAX_UPLOAD_FILES) {
+      return res.status(400).json({ error: `At most ${MAX_UPLOAD_FILES} files can be uploaded at once` });
+    }
+    const unsupported = files.find(file => !file.contentType || !SUPPORTED_MIME_TYPES.includes(file.contentType));
+    if (unsupported) {
+      return res.status(400).json({ error: `Unsupported file type: ${unsupported.contentType ?? 'unknown'}` });
+    }
+    if (files.some(file => file.data.length === 0)) {
+      return res.status(400).json({ error: 'Uploaded files must not be empty' });
+    }
+    
+    const assets = [];
+    for (const file of files) {
+      assets.push(await storeAsset(userId, Buffer.from(file.data), file.contentType!));
+    }
+    
+    res.status(201).json({ assets: assets.map(asset => toAssetResponse(asset, getBaseUrl(req))) });
+  } catch (error) {
+    console.error('Error uploading assets:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * 获取资源信息和新的签名地址
+ */
+router.get('/:id', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const asset = await getAssetById(req.params.id as string);
+    
+    // 用户只能查看自己的资源
+    if (!asset || asset.userId !== userId) {
+      return res.status(404).json({ error: 'Asset not found' });
+    }
+    
+    res.status(200).json(toAssetResponse(asset, getBaseUrl(req)));
+  } catch (error) {
+    console.error('Error fetching asset:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * 通过签名地址读取资源内容（无需登录，地址过期或签名不符时拒绝访问）
+ */
+router.get('/:id/content', async (req, res) => {
+  try {
+    const assetId = req.params.id as string;
+    const { expires, signature } = req.query;
+    
+    if (!verifyAssetUrlSignature(assetId, expires, signature)) {
+      return res.status(403).json({ error: 'Invalid or expired signature' });
+    }
+    
+    const asset = await getAssetById(assetId);
+    if (!asset) {
+      return res.status(404).json({ error: 'Asset not found' });
+    }
+    
+    // 资源内容不会变化，可以缓存到签名过期为止
+    const maxAge = Math.max(0, Number(expires) - Math.floor(Date.now() / 1000));
+    res.setHeader('Content-Type', asset.mimeType);
+    // 不允许浏览器按内容猜测类型（如把图片当作 HTML 执行）
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', `private, max-age=${maxAge}, immutable`);
+    res.status(200).send(await readAsset(asset));
+  } catch (error) {
+    console.error('Error reading asset content:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
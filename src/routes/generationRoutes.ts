@@ -0,0 +1,130 @@
+import express from 'express';
+import { getGenerationById, getGenerationLineage, getUserGenerations } from '../models/generationModel.js';
+import { getBaseUrl, signAssetUrl } from '../storage/signedUrls.js';
+import type { Generation } from '../../types.js';
+import { authMiddleware, getUserIdFromAuth } from '../utils/authUtils.js';
+
+const router = express.Router();
+
+// 每页最多返回的生成记录数量
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * 转换生成记录为接口响应：资源ID换成签名地址，结果整理为 GeneratedContent 格式
+ */
+const toGenerationResponse = (generation: Generation, baseUrl: string) => {
+  const final = generation.outputs[generation.outputs.length - 1];
+  const intermediates = generation.outputs.filter(output => output.step !== undefined);
+  const { primaryAssetId, secondaryAssetId, maskAssetId } = generation.inputs;
+
+  return {
+    id: generation.id,
+    jobId: generation.jobId ?? null,
+    transformationKey: generation.transformationKey ?? null,
+    prompt: generation.prompt,
+    parentIds: generation.parentIds,
+    serviceUsageId: generation.serviceUsageId ?? null,
+    provenance: generation.provenance ?? null,
+    inputs: {
+      primaryAssetId: primaryAssetId ?? null,
+      primaryImageUrl: primaryAssetId ? signAssetUrl(baseUrl, primaryAssetId) : null,
+      secondaryAssetId: secondaryAssetId ?? null,
+      secondaryImageUrl: secondaryAssetId ? signAssetUrl(baseUrl, secondaryAssetId) : null,
+      maskAssetId: maskAssetId ?? null,
+      maskUrl: maskAssetId ? signAssetUrl(baseUrl, maskAssetId) : null
+    },
+    result: {
+      generationId: generation.id,
+      imageUrl: signAssetUrl(baseUrl, final.assetId),
+      text: final.text,
+      ...(intermediates.length ? {
+        intermediates: intermediates.map(output => ({
+          step: output.step!,
+          ...(output.labelKey ? { labelKey: output.labelKey } : {}),
+          imageUrl: signAssetUrl(baseUrl, output.assetId),
+          text: output.text
+        }))
+      } : {})
+    },
+    createdAt: generation.createdAt
+  };
+};
+
+// 分页获取当前用户的生成记录
+router.get('/', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const { limit = '20', offset = '0' } = req.query;
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(limit as string, 10) || 20));
+    const pageOffset = Math.max(0, parseInt(offset as string, 10) || 0);
+    
+    const { generations, total } = await getUserGenerations(userId, pageSize, pageOffset);
+    
+    res.status(200).json({
+      generations: generations.map(generation => toGenerationResponse(generation, getBaseUrl(req))),
+      total,
+      limit: pageSize,
+      offset: pageOffset
+    });
+  } catch (error) {
+    console.error('Error fetching generations:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// 获取单条生成记录
+router.get('/:id', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const generation = await getGenerationById(req.params.id as string);
+    
+    // 用户只能查看自己的生成记录
+    if (!generation || generation.userId !== userId) {
+      return res.status(404).json({ error: 'Generation not found' });
+    }
+    
+    res.status(200).json(toGenerationResponse(generation, getBaseUrl(req)));
+  } catch (error) {
+    console.error('Error fetching generation:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// 获取生成记录所在的编辑树：从根记录开始的所有祖先、后代和分支，按时间顺序返回
+router.get('/:id/lineage', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const generation = await getGenerationById(req.params.id as string);
+    
+    if (!generation || generation.userId !== userId) {
+      return res.status(404).json({ error: 'Generation not found' });
+    }
+    
+    const generations = await getGenerationLineage(userId, generation.id);
+    const ids = new Set(generations.map(item => item.id));
+    
+    res.status(200).json({
+      generationId: generation.id,
+      // 父记录不在树中（如已删除）的节点也视为根节点
+      rootIds: generations.filter(item => !item.parentIds.some(parentId => ids.has(parentId))).map(item => item.id),
+      generations: generations.map(item => toGenerationResponse(item, getBaseUrl(req)))
+    });
+  } catch (error) {
+    console.error('Error fetching generation lineage:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
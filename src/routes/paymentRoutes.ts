@@ -7,11 +7,12 @@ import {
   getPaymentGatewayUrl
 } from '../models/paymentModel.js';
 import { authMiddleware, getUserIdFromAuth } from '../utils/authUtils.js';
+import { idempotencyMiddleware } from '../utils/idempotencyUtils.js';
 
 const router = express.Router();
 
 // 创建支付订单
-router.post('/create', authMiddleware, async (req, res) => {
+router.post('/create', authMiddleware, idempotencyMiddleware('payment-create'), async (req, res) => {
   try {
     const userId = getUserIdFromAuth(req);
     if (!userId) {
@@ -0,0 +1,149 @@
+import express from 'express';
+import {
+  createPreset,
+  deletePreset,
+  getUserPresets,
+  updatePreset
+} from '../models/presetModel.js';
+import type { PresetInput } from '../models/presetModel.js';
+import { getServicePrice } from '../models/servicePriceModel.js';
+import { getPricingKey, presetToTransformation } from '../data/transformations.js';
+import type { UserPreset } from '../../types.js';
+import { authMiddleware, getUserIdFromAuth } from '../utils/authUtils.js';
+
+const router = express.Router();
+
+// 每个用户最多保存的预设数量
+const MAX_PRESETS_PER_USER = 50;
+const MAX_TITLE_LENGTH = 60;
+const MAX_EMOJI_LENGTH = 16;
+const MAX_PROMPT_LENGTH = 4000;
+
+/**
+ * 校验并整理请求体中的预设字段
+ */
+const parsePresetInput = (body: any): { input?: PresetInput; error?: string } => {
+  const { title, emoji, prompt, stepTwoPrompt, isMultiImage, isSecondaryOptional } = body || {};
+
+  if (typeof title !== 'string' || !title.trim() || title.trim().length > MAX_TITLE_LENGTH) {
+    return { error: `Title is required and must be at most ${MAX_TITLE_LENGTH} characters` };
+  }
+  if (typeof prompt !== 'string' || !prompt.trim() || prompt.length > MAX_PROMPT_LENGTH) {
+    return { error: `Prompt is required and must be at most ${MAX_PROMPT_LENGTH} characters` };
+  }
+  if (stepTwoPrompt != null && (typeof stepTwoPrompt !== 'string' || stepTwoPrompt.length > MAX_PROMPT_LENGTH)) {
+    return { error: `Step two prompt must be at most ${MAX_PROMPT_LENGTH} characters` };
+  }
+  if (emoji != null && (typeof emoji !== 'string' || emoji.length > MAX_EMOJI_LENGTH)) {
+    return { error: 'Invalid emoji' };
+  }
+
+  return {
+    input: {
+      title: title.trim(),
+      emoji: emoji?.trim() || '⭐',
+      prompt: prompt.trim(),
+      stepTwoPrompt: stepTwoPrompt?.trim() || null,
+      isMultiImage: !!isMultiImage,
+      // 只有多图预设才有“第二张图可选”
+      isSecondaryOptional: !!isMultiImage && !!isSecondaryOptional
+    }
+  };
+};
+
+/**
+ * 为预设附带当前价格
+ */
+const withCredits = async (preset: UserPreset) => ({
+  ...preset,
+  credits: await getServicePrice('ai-image-edit', getPricingKey(presetToTransformation(preset)))
+});
+
+// 获取当前用户的预设列表
+router.get('/', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const presets = await getUserPresets(userId);
+    res.status(200).json(await Promise.all(presets.map(withCredits)));
+  } catch (error) {
+    console.error('Error fetching presets:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// 创建预设
+router.post('/', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { input, error } = parsePresetInput(req.body);
+    if (!input) {
+      return res.status(400).json({ error });
+    }
+
+    const existing = await getUserPresets(userId);
+    if (existing.length >= MAX_PRESETS_PER_USER) {
+      return res.status(400).json({ error: `You can save at most ${MAX_PRESETS_PER_USER} presets` });
+    }
+
+    const preset = await createPreset(userId, input);
+    res.status(201).json(await withCredits(preset));
+  } catch (error) {
+    console.error('Error creating preset:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// 更新预设
+router.put('/:presetId', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { input, error } = parsePresetInput(req.body);
+    if (!input) {
+      return res.status(400).json({ error });
+    }
+
+    const preset = await updatePreset(req.params.presetId as string, userId, input);
+    if (!preset) {
+      return res.status(404).json({ error: 'Preset not found' });
+    }
+
+    res.status(200).json(await withCredits(preset));
+  } catch (error) {
+    console.error('Error updating preset:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// 删除预设
+router.delete('/:presetId', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const deleted = await deletePreset(req.params.presetId as string, userId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Preset not found' });
+    }
+
+    res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error deleting preset:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
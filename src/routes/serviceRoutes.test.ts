@@ -0,0 +1,188 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import sharp from 'sharp';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { initDb, openDb } from '../db/db.js';
+import { createUser } from '../models/userModel.js';
+import { getServicePrice, seedServicePrices } from '../models/servicePriceModel.js';
+import { getBatchItems } from '../models/batchModel.js';
+import { getJobById } from '../models/jobModel.js';
+import { storeAsset } from '../storage/assetStorage.js';
+import { generateAuthToken } from '../utils/authUtils.js';
+import serviceRoutes from './serviceRoutes.js';
+import type { BatchJobPayload } from '../workers/batchJob.js';
+
+let server: Server;
+let baseUrl: string;
+let storageDir: string;
+let userCount = 0;
+
+/**
+ * 创建余额为 balance 的测试用户，返回用户ID、令牌和一张已上传的图片
+ */
+const createTestUser = async (balance: number) => {
+  userCount++;
+  const user = await createUser(`service${userCount}`, `service${userCount}@example.com`, 'password');
+  const db = await openDb();
+  await db.run('UPDATE user_accounts SET balance = ? WHERE userId = ?', balance, user.id);
+  const image = await sharp({ create: { width: 32, height: 32, channels: 3, background: { r: 200, g: 100, b: 50 } } }).png().toBuffer();
+  const asset = await storeAsset(user.id, image, 'image/png');
+  return { userId: user.id, token: generateAuthToken(user), imageAssetId: asset.id };
+};
+
+const post = (path: string, token: string, body: unknown) =>
+  fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body)
+  });
+
+describe('service routes', () => {
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'service-routes-'));
+    process.env.IMAGE_STORAGE_DIR = storageDir;
+    await initDb();
+    await seedServicePrices();
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/services', serviceRoutes);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.close();
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  describe('POST /batch', () => {
+    afterEach(() => {
+      delete process.env.BATCH_DISCOUNT_PERCENT;
+    });
+
+    it('charges each image less than the same single edit', async () => {
+      const { token, imageAssetId } = await createTestUser(100);
+
+      const response = await post('/api/services/batch', token, {
+        images: [{ imageAssetId }, { imageAssetId }],
+        transformationKey: 'figurine',
+        provider: 'fake'
+      });
+
+      expect(response.status).toBe(202);
+      const body = await response.json();
+      const editPrice = (await getServicePrice('ai-image-edit', 'figurine'))!;
+      expect(body.creditsPerItem).toBeLessThan(editPrice);
+      // 3 积分打八折后向下取整
+      expect(body).toMatchObject({ creditsPerItem: 2, requiredCredits: 4, itemCount: 2 });
+      const job = await getJobById(body.jobId);
+      expect((job!.payload as BatchJobPayload).edit).toMatchObject({ credits: 2, serviceKey: 'batch-processing' });
+    });
+
+    it('discounts a transformation override and applies the configured discount', async () => {
+      process.env.BATCH_DISCOUNT_PERCENT = '50';
+      const db = await openDb();
+      await db.run(
+        `INSERT INTO service_prices (id, serviceKey, transformationKey, credits, version, effectiveFrom, note, createdAt)
+         VALUES (?, 'ai-image-edit', 'lego', 9, 1, ?, NULL, ?)`,
+        crypto.randomUUID(), new Date(0).toISOString(), new Date().toISOString()
+      );
+      const { token, imageAssetId } = await createTestUser(100);
+
+      const response = await post('/api/services/batch', token, {
+        images: [{ imageAssetId }, { imageAssetId }, { imageAssetId }],
+        transformationKey: 'lego',
+        provider: 'fake'
+      });
+
+      expect(response.status).toBe(202);
+      const body = await response.json();
+      expect(body).toMatchObject({ creditsPerItem: 4, requiredCredits: 12 });
+      expect(await getBatchItems(body.batchId)).toHaveLength(3);
+    });
+
+    it('falls back to the default discount when the setting is invalid', async () => {
+      process.env.BATCH_DISCOUNT_PERCENT = 'abc';
+      const { token, imageAssetId } = await createTestUser(100);
+
+      const response = await post('/api/services/batch', token, {
+        images: [{ imageAssetId }],
+        transformationKey: 'figurine',
+        provider: 'fake'
+      });
+
+      expect(response.status).toBe(202);
+      expect(await response.json()).toMatchObject({ creditsPerItem: 2 });
+    });
+
+    it('rejects a batch the user cannot afford', async () => {
+      const { token, imageAssetId } = await createTestUser(3);
+
+      const response = await post('/api/services/batch', token, {
+        images: [{ imageAssetId }, { imageAssetId }],
+        transformationKey: 'figurine',
+        provider: 'fake'
+      });
+
+      expect(response.status).toBe(402);
+      expect(await response.json()).toMatchObject({ error: 'Insufficient credits', requiredCredits: 4 });
+    });
+  });
+
+  describe('POST /sweep', () => {
+    it('rejects a base64 image with an unsupported type', async () => {
+      const { userId, token } = await createTestUser(100);
+
+      const response = await post('/api/services/sweep', token, {
+        base64ImageData: Buffer.from('<script>alert(1)</script>').toString('base64'),
+        mimeType: 'text/html',
+        transformationKeys: ['figurine'],
+        provider: 'fake'
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Unsupported file type: text/html');
+      const db = await openDb();
+      // 只有 createTestUser 上传的图片
+      expect(await db.all('SELECT id FROM assets WHERE userId = ?', userId)).toHaveLength(1);
+    });
+
+    it('stores the uploaded image once and passes only its asset id to each job', async () => {
+      const { userId, token } = await createTestUser(100);
+      const image = await sharp({ create: { width: 32, height: 32, channels: 3, background: { r: 10, g: 20, b: 30 } } }).png().toBuffer();
+
+      const response = await post('/api/services/sweep', token, {
+        base64ImageData: image.toString('base64'),
+        mimeType: 'image/png',
+        transformationKeys: ['figurine', 'lego', 'crochet'],
+        provider: 'fake'
+      });
+
+      expect(response.status).toBe(202);
+      const body = await response.json();
+      expect(body.jobs).toHaveLength(3);
+
+      const db = await openDb();
+      const assets = await db.all('SELECT id FROM assets WHERE userId = ?', userId);
+      // createTestUser 上传的图片和本次请求上传的图片
+      expect(assets).toHaveLength(2);
+
+      const payloads = await Promise.all(body.jobs.map(async (item: { jobId: string }) =>
+        (await getJobById(item.jobId))!.payload as Record<string, unknown>
+      ));
+      const imageAssetIds = new Set(payloads.map(payload => payload.imageAssetId));
+      expect(imageAssetIds.size).toBe(1);
+      expect(assets.map((asset: { id: string }) => asset.id)).toContain([...imageAssetIds][0]);
+      for (const payload of payloads) {
+        expect(payload).not.toHaveProperty('base64ImageData');
+        expect(JSON.stringify(payload)).not.toContain(image.toString('base64').slice(0, 32));
+      }
+    });
+  });
+});
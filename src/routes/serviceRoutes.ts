@@ -1,25 +1,76 @@
 import express from 'express';
 import { authMiddleware, getUserIdFromAuth } from '../utils/authUtils.js';
+import { idempotencyMiddleware } from '../utils/idempotencyUtils.js';
 import { getUserAccount } from '../models/accountModel.js';
-import { checkBalance, deductCredits } from '../models/accountModel.js';
-import { editImage as geminiEditImage } from '../../services/geminiService.js';
-import type { GeneratedContent } from '../../types';
+import { checkBalance } from '../models/accountModel.js';
+import { createJob, getJobById } from '../models/jobModel.js';
+import { getServicePrice } from '../models/servicePriceModel.js';
+import {
+  CUSTOM_PROMPT,
+  PRESET_KEY_PREFIX,
+  findTransformation,
+  getPipelineSteps,
+  getPricingKey,
+  presetToTransformation
+} from '../data/transformations.js';
+import { getPresetById } from '../models/presetModel.js';
+import { interpolatePrompt, resolveTemplateParameters } from '../utils/promptTemplateUtils.js';
+import { SUPPORTED_ASPECT_RATIOS, getImageProvider, hasImageProvider, listImageProviders } from '../../services/imageProvider.js';
+import { notifyJobQueued, subscribeToJob } from '../workers/jobWorker.js';
+import { EDIT_IMAGE_JOB } from '../workers/editImageJob.js';
+import type { EditImageJobPayload } from '../workers/editImageJob.js';
+import { GENERATE_IMAGE_JOB, GENERATE_SERVICE_KEY } from '../workers/generateImageJob.js';
+import type { GenerateImageJobPayload } from '../workers/generateImageJob.js';
+import { BATCH_JOB } from '../workers/batchJob.js';
+import type { BatchJobPayload } from '../workers/batchJob.js';
+import { createBatch, getBatchById, getBatchItems, setBatchJobId } from '../models/batchModel.js';
+import { createZip } from '../utils/zipUtils.js';
+import { getAssetById } from '../models/assetModel.js';
+import { getGenerationById } from '../models/generationModel.js';
+import { SUPPORTED_MIME_TYPES, getAssetExtension, getAssetIdFromRef, readAsset, storeAsset } from '../storage/assetStorage.js';
+import { getBaseUrl, signContentUrls } from '../storage/signedUrls.js';
+import { composeOutpaintCanvas, parseOutpaintOptions } from '../utils/outpaintUtils.js';
+import { parseOutputSettings } from '../utils/outputUtils.js';
+import type { OutpaintOptions } from '../utils/outpaintUtils.js';
+import type { Batch, BatchItem, Job, Transformation } from '../../types';
 
 const router = express.Router();
 
-// 服务定价配置
-const SERVICE_PRICES = {
-  'ai-image-edit': 3
+// 单个批次最多包含的图片数量
+const MAX_BATCH_ITEMS = 20;
+// 单次图像编辑最多生成的候选结果数量
+const MAX_VARIANTS = 4;
+// 风格对比最多同时应用的转换效果数量
+const MAX_SWEEP_ITEMS = 24;
+// 单次编辑最多关联的父生成记录数量（主图和第二张图片各一个）
+const MAX_PARENT_GENERATIONS = 2;
+// 批量处理使用记录的计费服务
+const BATCH_SERVICE_KEY = 'batch-processing';
+// 批量处理每张图片的折扣（百分比），可通过 BATCH_DISCOUNT_PERCENT 环境变量配置（0~100，无效时使用默认值）
+const DEFAULT_BATCH_DISCOUNT_PERCENT = 20;
+
+/**
+ * 读取服务价格（转换效果有单独定价时优先使用），未配置价格时抛出错误
+ */
+const requireServicePrice = async (serviceName: string, transformationKey?: string | null): Promise<number> => {
+  const credits = await getServicePrice(serviceName, transformationKey);
+  if (credits === null) {
+    throw new Error(`Service price not configured: ${serviceName}`);
+  }
+  return credits;
 };
 
 /**
  * 检查用户积分是否充足
+ * 价格从服务价格表读取，转换效果有单独定价时优先使用
  */
 const checkUserBalance = async (
   userId: string,
-  serviceName: string
+  serviceName: string,
+  transformationKey?: string | null
 ): Promise<{ hasSufficientBalance: boolean; requiredCredits: number }> => {
-  const requiredCredits = SERVICE_PRICES[serviceName as keyof typeof SERVICE_PRICES] || 0;
+  const requiredCredits = await requireServicePrice(serviceName, transformationKey);
+  
   // 使用 checkBalance 函数检查用户积分
   const hasSufficientBalance = await checkBalance(userId, requiredCredits);
   
@@ -30,17 +81,340 @@ const checkUserBalance = async (
 };
 
 /**
- * 处理图像编辑请求
+ * 获取批量处理中每张图片的价格：该效果的图像编辑价格按批量折扣向下取整，至少 1 积分
+ */
+const getBatchItemPrice = async (transformationKey: string): Promise<number> => {
+  const price = await requireServicePrice('ai-image-edit', transformationKey);
+  const configured = Number(process.env.BATCH_DISCOUNT_PERCENT);
+  const discount = process.env.BATCH_DISCOUNT_PERCENT && Number.isFinite(configured) && configured >= 0 && configured <= 100
+    ? configured
+    : DEFAULT_BATCH_DISCOUNT_PERCENT;
+  return Math.max(1, Math.floor(price * (100 - discount) / 100));
+};
+
+/**
+ * 根据 transformationKey 查找转换效果（内置效果或当前用户的预设）
+ */
+const resolveTransformation = async (userId: string, transformationKey: string): Promise<Transformation | null> => {
+  if (typeof transformationKey !== 'string') return null;
+
+  if (transformationKey.startsWith(PRESET_KEY_PREFIX)) {
+    const preset = await getPresetById(transformationKey.slice(PRESET_KEY_PREFIX.length));
+    // 只能使用自己的预设
+    return preset && preset.userId === userId ? presetToTransformation(preset) : null;
+  }
+
+  return findTransformation(transformationKey);
+};
+
+/**
+ * 解析请求中的一张输入图片：优先使用已上传的资源ID，兼容直接提交 base64 的旧客户端（保存为新资源）
+ * 未提供图片时返回 null，资源不存在、不属于当前用户或提交的图片类型不支持时返回错误
+ */
+const resolveImageAsset = async (
+  userId: string,
+  assetId: unknown,
+  legacyImage?: { base64?: unknown; mimeType?: unknown } | null
+): Promise<{ assetId: string | null } | { status: number; error: string }> => {
+  if (assetId) {
+    const asset = typeof assetId === 'string' ? await getAssetById(assetId) : null;
+    if (!asset || asset.userId !== userId) {
+      return { status: 400, error: `Unknown asset: ${assetId}` };
+    }
+    return { assetId: asset.id };
+  }
+  
+  if (typeof legacyImage?.base64 === 'string' && legacyImage.base64) {
+    const mimeType = typeof legacyImage.mimeType === 'string' && legacyImage.mimeType ? legacyImage.mimeType.toLowerCase() : 'image/png';
+    // 资源内容按保存的类型返回，只接受与上传接口相同的图片类型
+    if (!SUPPORTED_MIME_TYPES.includes(mimeType)) {
+      return { status: 400, error: `Unsupported file type: ${mimeType}` };
+    }
+    const asset = await storeAsset(userId, Buffer.from(legacyImage.base64, 'base64'), mimeType);
+    return { assetId: asset.id };
+  }
+  
+  return { assetId: null };
+};
+
+/**
+ * 校验请求中的父生成记录（输入图片来自之前的生成结果），只能引用自己的生成记录
+ */
+const resolveParentGenerations = async (
+  userId: string,
+  parentGenerationIds: unknown
+): Promise<{ parentIds: string[] } | { status: number; error: string }> => {
+  if (parentGenerationIds === undefined || parentGenerationIds === null) {
+    return { parentIds: [] };
+  }
+  if (!Array.isArray(parentGenerationIds) || parentGenerationIds.length > MAX_PARENT_GENERATIONS) {
+    return { status: 400, error: `parentGenerationIds must be an array of at most ${MAX_PARENT_GENERATIONS} generation IDs` };
+  }
+  
+  const parentIds = [...new Set(parentGenerationIds)];
+  for (const parentId of parentIds) {
+    const generation = typeof parentId === 'string' ? await getGenerationById(parentId) : null;
+    if (!generation || generation.userId !== userId) {
+      return { status: 400, error: `Unknown parent generation: ${parentId}` };
+    }
+  }
+  
+  return { parentIds };
+};
+
+/**
+ * 所有输入图片共用的编辑参数（不含主图和价格）
+ */
+type EditOptions = Omit<EditImageJobPayload, 'imageAssetId' | 'credits'>;
+
+/**
+ * 解析编辑请求中与输入图片无关的部分：转换效果、处理步骤、模板参数、第二张图片、扩图参数、输出设置和模型提供方
+ * 校验失败时返回错误状态码和信息
+ */
+const resolveEditOptions = async (
+  userId: string,
+  body: any
+): Promise<
+  { transformation: Transformation; options: EditOptions; outpaint: OutpaintOptions | null } | { status: number; error: string }
+> => {
+  const {
+    prompt: customPrompt,
+    parameters,
+    maskAssetId,
+    maskBase64,
+    secondaryImageAssetId,
+    secondaryImage,
+    transformationKey,
+    provider: providerName
+  } = body;
+  const hasMask = !!(maskAssetId || maskBase64);
+  const hasSecondaryImage = !!(secondaryImageAssetId || secondaryImage);
+  
+  const transformation = await resolveTransformation(userId, transformationKey);
+  if (!transformation) {
+    return { status: 400, error: `Unknown transformation: ${transformationKey}` };
+  }
+  
+  // 自定义提示词效果使用请求中的提示词，其余效果按服务端定义的步骤执行
+  const isCustomPrompt = transformation.prompt === CUSTOM_PROMPT;
+  let steps = isCustomPrompt
+    ? [{ prompt: typeof customPrompt === 'string' ? customPrompt : '', useSecondaryImage: true }]
+    : getPipelineSteps(transformation);
+  if (!steps.length || steps.some(step => !step.prompt.trim())) {
+    return { status: 400, error: 'Prompt is required for this transformation' };
+  }
+  
+  // 校验模板参数并填入每一步的提示词
+  let parameterValues: Record<string, string> | null = null;
+  if (transformation.parameters?.length) {
+    const { values, error } = resolveTemplateParameters(transformation.parameters, parameters);
+    if (!values) {
+      return { status: 400, error: error! };
+    }
+    parameterValues = values;
+    steps = steps.map(step => ({ ...step, prompt: interpolatePrompt(step.prompt, values) }));
+  }
+  if (transformation.isMultiImage && !transformation.isSecondaryOptional && !hasSecondaryImage) {
+    return { status: 400, error: 'This transformation requires a secondary image' };
+  }
+  
+  // 选择图像模型提供方（请求指定 > 环境变量 > 默认）
+  if (providerName && !hasImageProvider(providerName)) {
+    return { status: 400, error: `Unknown image provider: ${providerName}` };
+  }
+  const provider = getImageProvider(providerName);
+  
+  if (!provider.capabilities.edit) {
+    return { status: 400, error: `Provider ${provider.name} does not support image editing` };
+  }
+  if (hasMask && !provider.capabilities.mask) {
+    return { status: 400, error: `Provider ${provider.name} does not support masks` };
+  }
+  // 仅多图转换效果使用第二张图片
+  const usesSecondaryImage = transformation.isMultiImage && hasSecondaryImage;
+  if (usesSecondaryImage && !provider.capabilities.secondaryImage) {
+    return { status: 400, error: `Provider ${provider.name} does not support secondary images` };
+  }
+  
+  // 扩图效果的蒙版由服务端根据扩展区域生成
+  let outpaint: OutpaintOptions | null = null;
+  if (transformation.isOutpaint) {
+    if (hasMask) {
+      return { status: 400, error: 'Masks cannot be combined with outpainting' };
+    }
+    if (!provider.capabilities.mask) {
+      return { status: 400, error: `Provider ${provider.name} does not support outpainting` };
+    }
+    const parsed = parseOutpaintOptions(body.outpaint);
+    if ('error' in parsed) {
+      return { status: 400, error: parsed.error };
+    }
+    outpaint = parsed.options;
+  } else if (body.outpaint !== undefined) {
+    return { status: 400, error: 'outpaint is only supported by the outpaint transformation' };
+  }
+  
+  const output = parseOutputSettings(body.output);
+  if ('error' in output) {
+    return { status: 400, error: output.error };
+  }
+  
+  const mask = await resolveImageAsset(userId, maskAssetId, { base64: maskBase64, mimeType: 'image/png' });
+  if ('error' in mask) {
+    return mask;
+  }
+  const secondary = usesSecondaryImage
+    ? await resolveImageAsset(userId, secondaryImageAssetId, secondaryImage)
+    : { assetId: null };
+  if ('error' in secondary) {
+    return secondary;
+  }
+  
+  return {
+    transformation,
+    options: {
+      steps,
+      maskAssetId: mask.assetId,
+      secondaryImageAssetId: secondary.assetId,
+      transformationKey: transformation.key,
+      parameters: parameterValues,
+      provider: provider.name,
+      output: output.settings
+    },
+    outpaint
+  };
+};
+
+/**
+ * 扩图：把原图放到扩展后的画布上，补充区域作为蒙版，都保存为新资源
+ */
+const prepareOutpaintInputs = async (
+  userId: string,
+  imageAssetId: string,
+  outpaint: OutpaintOptions
+): Promise<{ imageAssetId: string; maskAssetId: string } | { status: number; error: string }> => {
+  const asset = await getAssetById(imageAssetId);
+  if (!asset) {
+    return { status: 400, error: `Unknown asset: ${imageAssetId}` };
+  }
+  
+  const composed = await composeOutpaintCanvas(await readAsset(asset), outpaint);
+  if ('error' in composed) {
+    return { status: 400, error: composed.error };
+  }
+  
+  const canvasAsset = await storeAsset(userId, composed.image, 'image/png');
+  const maskAsset = await storeAsset(userId, composed.mask, 'image/png');
+  return { imageAssetId: canvasAsset.id, maskAssetId: maskAsset.id };
+};
+
+/**
+ * 提交图像编辑任务
+ * 任务进入队列后立即返回任务ID，客户端通过 /jobs/:id 轮询或 /jobs/:id/events 订阅结果
+ */
+router.post('/edit-image', authMiddleware, idempotencyMiddleware('edit-image'), async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    // 获取请求数据（提示词和处理方式由服务端根据转换效果确定）
+    const { imageAssetId, base64ImageData, mimeType, transformationKey, variants = 1 } = req.body;
+    
+    if ((!imageAssetId && (!base64ImageData || !mimeType)) || !transformationKey) {
+      return res.status(400).json({ error: 'An image asset and transformation key are required' });
+    }
+    if (!Number.isInteger(variants) || variants < 1 || variants > MAX_VARIANTS) {
+      return res.status(400).json({ error: `Variants must be an integer between 1 and ${MAX_VARIANTS}` });
+    }
+    
+    const resolved = await resolveEditOptions(userId, req.body);
+    if ('error' in resolved) {
+      return res.status(resolved.status).json({ error: resolved.error });
+    }
+    const { transformation, options, outpaint } = resolved;
+    const parents = await resolveParentGenerations(userId, req.body.parentGenerationIds);
+    if ('error' in parents) {
+      return res.status(parents.status).json({ error: parents.error });
+    }
+    
+    // 检查积分是否足够生成全部候选结果，实际只对成功交付的候选扣费
+    const creditsPerVariant = await requireServicePrice('ai-image-edit', getPricingKey(transformation));
+    const requiredCredits = creditsPerVariant * variants;
+    if (!(await checkBalance(userId, requiredCredits))) {
+      return res.status(402).json({
+        error: 'Insufficient credits',
+        requiredCredits,
+        message: 'You need more credits to use this service'
+      });
+    }
+    
+    const image = await resolveImageAsset(userId, imageAssetId, { base64: base64ImageData, mimeType });
+    if ('error' in image) {
+      return res.status(image.status).json({ error: image.error });
+    }
+    
+    let inputs = { imageAssetId: image.assetId!, maskAssetId: options.maskAssetId };
+    if (outpaint) {
+      const prepared = await prepareOutpaintInputs(userId, image.assetId!, outpaint);
+      if ('error' in prepared) {
+        return res.status(prepared.status).json({ error: prepared.error });
+      }
+      inputs = prepared;
+    }
+    
+    const job = await createJob<EditImageJobPayload>(userId, EDIT_IMAGE_JOB, {
+      ...options,
+      ...inputs,
+      credits: creditsPerVariant,
+      variants,
+      ...(parents.parentIds.length ? { parentGenerationIds: parents.parentIds } : {})
+    });
+    notifyJobQueued();
+    
+    res.status(202).json({
+      success: true,
+      message: 'Image edit job queued',
+      jobId: job.id,
+      status: job.status,
+      variants,
+      creditsPerVariant
+    });
+  } catch (error) {
+    console.error('Error processing image edit request:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * 提交文生图任务：只需要提示词和可选的宽高比，按 ai-image-generate 的价格计费
  */
-router.post('/edit-image', authMiddleware, async (req, res) => {
+router.post('/generate-image', authMiddleware, idempotencyMiddleware('generate-image'), async (req, res) => {
   try {
     const userId = getUserIdFromAuth(req);
     if (!userId) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
     
-    // 检查用户积分是否充足
-    const { hasSufficientBalance, requiredCredits } = await checkUserBalance(userId, 'ai-image-edit');
+    const { prompt, aspectRatio, provider: providerName } = req.body;
+    
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      return res.status(400).json({ error: 'Prompt is required' });
+    }
+    if (aspectRatio && !SUPPORTED_ASPECT_RATIOS.includes(aspectRatio)) {
+      return res.status(400).json({ error: `Unsupported aspect ratio: ${aspectRatio}` });
+    }
+    
+    if (providerName && !hasImageProvider(providerName)) {
+      return res.status(400).json({ error: `Unknown image provider: ${providerName}` });
+    }
+    const provider = getImageProvider(providerName);
+    if (!provider.capabilities.generate) {
+      return res.status(400).json({ error: `Provider ${provider.name} does not support image generation` });
+    }
+    
+    const { hasSufficientBalance, requiredCredits } = await checkUserBalance(userId, GENERATE_SERVICE_KEY);
     if (!hasSufficientBalance) {
       return res.status(402).json({
         error: 'Insufficient credits',
@@ -49,72 +423,426 @@ router.post('/edit-image', authMiddleware, async (req, res) => {
       });
     }
     
-    // 获取请求数据
-    const { base64ImageData, mimeType, prompt, maskBase64, secondaryImage, isTwoStep, stepTwoPrompt } = req.body;
+    const job = await createJob<GenerateImageJobPayload>(userId, GENERATE_IMAGE_JOB, {
+      prompt: prompt.trim(),
+      aspectRatio: aspectRatio || null,
+      provider: provider.name,
+      credits: requiredCredits
+    });
+    notifyJobQueued();
+    
+    res.status(202).json({
+      success: true,
+      message: 'Image generation job queued',
+      jobId: job.id,
+      status: job.status
+    });
+  } catch (error) {
+    console.error('Error processing image generation request:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * 批量处理：同一转换效果应用到多张图片
+ * 每张图片按该效果的图像编辑价格打折后单独计费，批次进入队列后立即返回批次信息
+ */
+router.post('/batch', authMiddleware, idempotencyMiddleware('batch'), async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const { images, transformationKey, maskAssetId, maskBase64 } = req.body;
     
-    if (!base64ImageData || !mimeType || !prompt) {
-      return res.status(400).json({ error: 'Image data, MIME type and prompt are required' });
+    if (!Array.isArray(images) || images.length === 0 || !transformationKey) {
+      return res.status(400).json({ error: 'Images and transformation key are required' });
+    }
+    if (images.length > MAX_BATCH_ITEMS) {
+      return res.status(400).json({ error: `A batch can contain at most ${MAX_BATCH_ITEMS} images` });
+    }
+    if (images.some(image => !image?.imageAssetId && (!image?.base64ImageData || !image?.mimeType))) {
+      return res.status(400).json({ error: 'Each image requires an image asset' });
+    }
+    // 蒙版针对单张图片绘制，批量处理不支持
+    if (maskAssetId || maskBase64) {
+      return res.status(400).json({ error: 'Masks are not supported in batch processing' });
     }
     
-    let result: GeneratedContent;
+    const resolved = await resolveEditOptions(userId, req.body);
+    if ('error' in resolved) {
+      return res.status(resolved.status).json({ error: resolved.error });
+    }
+    const { transformation, options, outpaint } = resolved;
+    // 扩图的画布和蒙版按单张图片生成，批量处理不支持
+    if (outpaint) {
+      return res.status(400).json({ error: 'Outpainting is not supported in batch processing' });
+    }
     
-    if (isTwoStep && stepTwoPrompt) {
-      // 两步处理流程
-      // 第一步：生成线条艺术
-      const stepOneResult: GeneratedContent = await geminiEditImage(
-        base64ImageData, 
-        mimeType, 
-        prompt,
-        null,
-        null
-      );
-      
-      if (!stepOneResult.imageUrl) {
-        throw new Error("Step 1 (line art) failed to generate an image.");
+    // 检查积分是否足够处理全部图片
+    const creditsPerItem = await getBatchItemPrice(getPricingKey(transformation));
+    const requiredCredits = creditsPerItem * images.length;
+    if (!(await checkBalance(userId, requiredCredits))) {
+      return res.status(402).json({
+        error: 'Insufficient credits',
+        requiredCredits,
+        message: 'You need more credits to use this service'
+      });
+    }
+    
+    const inputs = [];
+    for (const image of images) {
+      const resolvedImage = await resolveImageAsset(userId, image.imageAssetId, { base64: image.base64ImageData, mimeType: image.mimeType });
+      if ('error' in resolvedImage) {
+        return res.status(resolvedImage.status).json({ error: resolvedImage.error });
       }
-      
-      // 第二步：应用第二步提示
-      const stepOneImageBase64 = stepOneResult.imageUrl.split(',')[1];
-      const stepOneImageMimeType = stepOneResult.imageUrl.split(';')[0].split(':')[1] || 'image/png';
-      
-      const stepTwoResult: GeneratedContent = await geminiEditImage(
-        stepOneImageBase64, 
-        stepOneImageMimeType, 
-        stepTwoPrompt,
-        null,
-        secondaryImage || null
-      );
-      
-      // 合并结果，保留第一步的图像作为secondaryImageUrl
-      result = { 
-        ...stepTwoResult, 
-        secondaryImageUrl: stepOneResult.imageUrl 
-      };
-    } else {
-      // 标准一步处理流程
-      result = await geminiEditImage(
-        base64ImageData, 
-        mimeType, 
-        prompt,
-        maskBase64 || null,
-        secondaryImage || null
-      );
+      inputs.push({ imageAssetId: resolvedImage.assetId! });
     }
     
-    // 扣除用户积分
-    await deductCredits(userId, requiredCredits, 'Used AI Image Editing service');
+    const batch = await createBatch(userId, transformation.key, creditsPerItem, inputs);
+    const job = await createJob<BatchJobPayload>(userId, BATCH_JOB, {
+      batchId: batch.id,
+      edit: { ...options, credits: creditsPerItem, serviceKey: BATCH_SERVICE_KEY }
+    });
+    await setBatchJobId(batch.id, job.id);
+    notifyJobQueued();
     
-    res.status(200).json({
+    res.status(202).json({
       success: true,
-      message: 'Image edited successfully',
-      result
+      message: 'Batch queued',
+      batchId: batch.id,
+      jobId: job.id,
+      status: batch.status,
+      itemCount: batch.itemCount,
+      creditsPerItem,
+      requiredCredits
     });
   } catch (error) {
-    console.error('Error processing image edit request:', error);
+    console.error('Error processing batch request:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * 风格对比：同一张图片应用多个转换效果，每个效果作为独立的图像编辑任务入队并按各自价格计费
+ * 不支持自定义提示词和必须提供第二张图片的效果，模板参数使用默认值
+ */
+router.post('/sweep', authMiddleware, idempotencyMiddleware('sweep'), async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const { imageAssetId, base64ImageData, mimeType, transformationKeys, provider, output, parentGenerationIds } = req.body;
+    
+    if ((!imageAssetId && (!base64ImageData || !mimeType)) || !Array.isArray(transformationKeys) || transformationKeys.length === 0) {
+      return res.status(400).json({ error: 'An image asset and transformation keys are required' });
+    }
+    const uniqueKeys = [...new Set(transformationKeys)];
+    if (uniqueKeys.length > MAX_SWEEP_ITEMS) {
+      return res.status(400).json({ error: `A sweep can contain at most ${MAX_SWEEP_ITEMS} transformations` });
+    }
+    
+    // 先校验所有转换效果并计算总价，全部通过后再入队
+    const items: Array<{ options: EditOptions; credits: number }> = [];
+    for (const transformationKey of uniqueKeys) {
+      const resolved = await resolveEditOptions(userId, { transformationKey, provider, output });
+      if ('error' in resolved) {
+        return res.status(resolved.status).json({ error: `${transformationKey}: ${resolved.error}` });
+      }
+      items.push({
+        options: resolved.options,
+        credits: await requireServicePrice('ai-image-edit', getPricingKey(resolved.transformation))
+      });
+    }
+    
+    const parents = await resolveParentGenerations(userId, parentGenerationIds);
+    if ('error' in parents) {
+      return res.status(parents.status).json({ error: parents.error });
+    }
+    
+    const totalCredits = items.reduce((sum, item) => sum + item.credits, 0);
+    if (!(await checkBalance(userId, totalCredits))) {
+      return res.status(402).json({
+        error: 'Insufficient credits',
+        requiredCredits: totalCredits,
+        message: 'You need more credits to use this service'
+      });
+    }
+    
+    // 所有效果共用同一张输入图片
+    const image = await resolveImageAsset(userId, imageAssetId, { base64: base64ImageData, mimeType });
+    if ('error' in image) {
+      return res.status(image.status).json({ error: image.error });
+    }
+    
+    const jobs = [];
+    for (const { options, credits } of items) {
+      const job = await createJob<EditImageJobPayload>(userId, EDIT_IMAGE_JOB, {
+        ...options,
+        imageAssetId: image.assetId!,
+        credits,
+        ...(parents.parentIds.length ? { parentGenerationIds: parents.parentIds } : {})
+      });
+      jobs.push({ transformationKey: options.transformationKey, jobId: job.id, status: job.status, credits });
+    }
+    notifyJobQueued();
+    
+    res.status(202).json({
+      success: true,
+      message: 'Sweep queued',
+      totalCredits,
+      jobs
+    });
+  } catch (error) {
+    console.error('Error processing sweep request:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+/**
+ * 转换批次为接口响应，附带每个条目的状态和结果（结果图片为签名地址）
+ */
+const toBatchResponse = async (batch: Batch, items: BatchItem[], baseUrl: string) => ({
+  id: batch.id,
+  jobId: batch.jobId ?? null,
+  transformationKey: batch.transformationKey,
+  status: batch.status,
+  itemCount: batch.itemCount,
+  creditsPerItem: batch.creditsPerItem,
+  succeededCount: items.filter(item => item.status === 'succeeded').length,
+  failedCount: items.filter(item => item.status === 'failed').length,
+  items: await Promise.all(items.map(async item => ({
+    id: item.id,
+    index: item.index,
+    status: item.status,
+    result: item.result ? await signContentUrls(item.result, baseUrl) : null,
+    error: item.error ?? null
+  }))),
+  createdAt: batch.createdAt,
+  updatedAt: batch.updatedAt,
+  completedAt: batch.completedAt ?? null
+});
+
+/**
+ * 查询批次状态
+ */
+router.get('/batch/:batchId', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const batch = await getBatchById(req.params.batchId as string);
+    
+    // 用户只能查看自己的批次
+    if (!batch || batch.userId !== userId) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+    
+    res.status(200).json(await toBatchResponse(batch, await getBatchItems(batch.id), getBaseUrl(req)));
+  } catch (error) {
+    console.error('Error fetching batch:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
+/**
+ * 下载批次中已成功的结果（ZIP）
+ */
+router.get('/batch/:batchId/zip', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const batch = await getBatchById(req.params.batchId as string);
+    
+    if (!batch || batch.userId !== userId) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+    
+    const entries = [];
+    for (const item of await getBatchItems(batch.id)) {
+      const imageUrl = item.result?.imageUrl;
+      if (item.status !== 'succeeded' || !imageUrl) continue;
+      
+      const name = String(item.index + 1).padStart(3, '0');
+      const assetId = getAssetIdFromRef(imageUrl);
+      const asset = assetId ? await getAssetById(assetId) : null;
+      if (asset) {
+        entries.push({ name: `${name}.${getAssetExtension(asset.mimeType)}`, data: await readAsset(asset) });
+      } else if (imageUrl.startsWith('data:')) {
+        // 资源存储上线前的结果直接保存为 data URL
+        const extension = imageUrl.split(';')[0].split('/')[1] || 'png';
+        entries.push({ name: `${name}.${extension}`, data: Buffer.from(imageUrl.split(',')[1], 'base64') });
+      }
+    }
+    
+    if (entries.length === 0) {
+      return res.status(404).json({ error: 'No completed results to download' });
+    }
+    
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="batch-${batch.id}.zip"`);
+    res.status(200).send(createZip(entries));
+  } catch (error) {
+    console.error('Error downloading batch results:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// 结果为 GeneratedContent 的任务类型，返回前需要为图片签名
+const IMAGE_RESULT_JOB_TYPES = [EDIT_IMAGE_JOB, GENERATE_IMAGE_JOB];
+
+/**
+ * 转换任务为接口响应（不返回任务输入数据，结果图片为签名地址）
+ */
+const toJobResponse = async (job: Job, baseUrl: string) => ({
+  id: job.id,
+  type: job.type,
+  status: job.status,
+  progress: job.progress,
+  progressMessage: job.progressMessage ?? null,
+  result: job.result && IMAGE_RESULT_JOB_TYPES.includes(job.type)
+    ? await signContentUrls(job.result, baseUrl)
+    : job.result ?? null,
+  error: job.error ?? null,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  startedAt: job.startedAt ?? null,
+  completedAt: job.completedAt ?? null
+});
+
+const isFinishedJob = (job: Job): boolean => job.status === 'succeeded' || job.status === 'failed';
+
+/**
+ * 查询任务状态
+ */
+router.get('/jobs/:jobId', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const job = await getJobById(req.params.jobId as string);
+    
+    // 用户只能查看自己的任务
+    if (!job || job.userId !== userId) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    
+    res.status(200).json(await toJobResponse(job, getBaseUrl(req)));
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * 订阅任务状态（Server-Sent Events），任务结束后关闭连接
+ */
+router.get('/jobs/:jobId/events', authMiddleware, async (req, res) => {
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const job = await getJobById(req.params.jobId as string);
+    
+    if (!job || job.userId !== userId) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    
+    const baseUrl = getBaseUrl(req);
+    let closed = false;
+    const close = () => {
+      closed = true;
+      unsubscribe();
+      res.end();
+    };
+    const send = async (current: Job) => {
+      if (closed) return;
+      try {
+        res.write(`event: status\ndata: ${JSON.stringify(await toJobResponse(current, baseUrl))}\n\n`);
+        if (isFinishedJob(current)) {
+          close();
+        }
+      } catch (error) {
+        console.error('Error sending job event:', error);
+        close();
+      }
+    };
+
+    // 先订阅再读取最新状态，避免任务在两次读取之间结束时错过最终事件
+    const unsubscribe = subscribeToJob(job.id, current => void send(current));
+    req.on('close', () => {
+      closed = true;
+      unsubscribe();
+    });
+
+    const latest = await getJobById(job.id);
+    await send(latest ?? job);
+  } catch (error) {
+    console.error('Error subscribing to job:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    } else {
+      res.end();
+    }
+  }
+});
+
+/**
+ * 查询服务当前价格（可指定转换效果）
+ */
+router.get('/prices/:serviceKey', async (req, res) => {
+  try {
+    const serviceKey = req.params.serviceKey as string;
+    const transformationKey = (req.query.transformationKey as string) || null;
+    
+    const credits = await getServicePrice(serviceKey, transformationKey);
+    if (credits === null) {
+      return res.status(404).json({ error: 'Service price not found' });
+    }
+    
+    res.status(200).json({ serviceKey, transformationKey, credits });
+  } catch (error) {
+    console.error('Error fetching service price:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * 获取可用的图像模型提供方及其能力
+ */
+router.get('/providers', async (req, res) => {
+  try {
+    const defaultProvider = getImageProvider();
+    const providers = listImageProviders().map(provider => ({
+      name: provider.name,
+      model: provider.model,
+      capabilities: provider.capabilities,
+      isDefault: provider.name === defaultProvider.name
+    }));
+    
+    res.status(200).json(providers);
+  } catch (error) {
+    console.error('Error fetching image providers:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,48 @@
+import express from 'express';
+import { TRANSFORMATIONS, findTransformation, toPublicTransformation } from '../data/transformations.js';
+import { getCurrentPriceTable } from '../models/servicePriceModel.js';
+
+const router = express.Router();
+
+// 转换效果计费使用的服务
+const SERVICE_KEY = 'ai-image-edit';
+
+/**
+ * 获取当前价格，供目录项附带价格
+ */
+const getTransformationPricing = async () => {
+  const { servicePricing, transformationPricing } = await getCurrentPriceTable();
+  return {
+    defaultCredits: servicePricing[SERVICE_KEY] ?? null,
+    overrides: transformationPricing[SERVICE_KEY] || {}
+  };
+};
+
+// 获取转换效果目录
+router.get('/', async (req, res) => {
+  try {
+    const pricing = await getTransformationPricing();
+    res.status(200).json(TRANSFORMATIONS.map(item => toPublicTransformation(item, pricing)));
+  } catch (error) {
+    console.error('Error fetching transformations:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// 获取单个转换效果
+router.get('/:key', async (req, res) => {
+  try {
+    const transformation = findTransformation(req.params.key as string);
+    if (!transformation) {
+      return res.status(404).json({ error: 'Transformation not found' });
+    }
+    
+    const pricing = await getTransformationPricing();
+    res.status(200).json(toPublicTransformation(transformation, pricing));
+  } catch (error) {
+    console.error('Error fetching transformation:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
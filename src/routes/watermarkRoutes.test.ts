@@ -0,0 +1,99 @@
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import sharp from 'sharp';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { embedLsbWatermark } from '../../utils/watermarkCodec.js';
+import { createWatermarkPayload } from '../utils/watermarkUtils.js';
+import watermarkRoutes from './watermarkRoutes.js';
+
+let server: Server;
+let baseUrl: string;
+// 每个测试使用不同的客户端地址，请求频率分别计数
+let clientCount = 0;
+let clientIp = '10.0.0.0';
+
+const postImage = (path: string, image: Buffer) =>
+  fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': clientIp },
+    body: JSON.stringify({ base64ImageData: image.toString('base64') })
+  });
+
+/**
+ * 生成嵌入了签名 LSB 水印的 PNG 图片
+ */
+const createWatermarkedImage = async (): Promise<Buffer> => {
+  const { data, info } = await sharp({ create: { width: 128, height: 128, channels: 3, background: { r: 90, g: 140, b: 200 } } })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  expect(embedLsbWatermark(data, createWatermarkPayload('user-1', 'generation-1'), info.channels)).toBe(true);
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } }).png().toBuffer();
+};
+
+describe('watermark routes', () => {
+  beforeAll(() => {
+    const app = express();
+    // 按 X-Forwarded-For 区分客户端
+    app.set('trust proxy', true);
+    app.use(express.json({ limit: '10mb' }));
+    app.use('/api/watermark', watermarkRoutes);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  afterEach(() => {
+    clientCount++;
+    clientIp = `10.0.0.${clientCount}`;
+    delete process.env.VERIFY_RATE_LIMIT;
+  });
+
+  it('verifies a signed LSB watermark', async () => {
+    const response = await postImage('/api/watermark/verify', await createWatermarkedImage());
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      found: true,
+      method: 'lsb',
+      valid: true,
+      claims: { userId: 'user-1', generationId: 'generation-1' }
+    });
+  });
+
+  it('rejects images above the pixel limit before decoding them', async () => {
+    const image = await sharp({ create: { width: 4100, height: 4100, channels: 3, background: { r: 0, g: 0, b: 0 } } }).png().toBuffer();
+
+    const response = await postImage('/api/watermark/verify', image);
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error).toMatch(/exceeds/);
+  });
+
+  it('limits requests per client across both endpoints', async () => {
+    process.env.VERIFY_RATE_LIMIT = '2';
+    const image = Buffer.from('not an image');
+
+    expect((await postImage('/api/watermark/provenance', image)).status).toBe(200);
+    expect((await postImage('/api/watermark/provenance', image)).status).toBe(200);
+    const limited = await postImage('/api/watermark/verify', image);
+
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+
+    clientIp = '10.0.1.1';
+    expect((await postImage('/api/watermark/provenance', image)).status).toBe(200);
+  });
+
+  it('ignores an invalid rate limit setting', async () => {
+    process.env.VERIFY_RATE_LIMIT = 'many';
+    const image = Buffer.from('not an image');
+
+    for (let i = 0; i < 5; i++) {
+      expect((await postImage('/api/watermark/provenance', image)).status).toBe(200);
+    }
+  });
+});
@@ -0,0 +1,163 @@
+import express from 'express';
+import { getMultipartBoundary, parseMultipart } from '../utils/multipartUtils.js';
+import { rateLimitMiddleware } from '../utils/rateLimitUtils.js';
+import { detectRobustWatermarkInWorker } from '../utils/robustWatermarkThread.js';
+import {
+  MAX_WATERMARK_INPUT_PIXELS,
+  exceedsWatermarkInputPixels,
+  extractImageWatermark,
+  getWatermarkKeyId,
+  verifyWatermarkPayload
+} from '../utils/watermarkUtils.js';
+import type { WatermarkVerification } from '../utils/watermarkUtils.js';
+import { extractProvenanceManifest, verifyProvenanceManifest } from '../utils/provenanceUtils.js';
+import { getGenerationById, getGenerationByIdPrefix } from '../models/generationModel.js';
+
+const router = express.Router();
+
+// 待校验图片的大小上限
+const MAX_UPLOAD_SIZE = '25mb';
+// 每个 IP 每分钟的校验请求数，可通过 VERIFY_RATE_LIMIT 环境变量配置
+const DEFAULT_VERIFY_RATE_LIMIT = 30;
+
+// 校验接口无需登录，两个接口共用同一个计数
+const verifyRateLimit = rateLimitMiddleware('VERIFY_RATE_LIMIT', DEFAULT_VERIFY_RATE_LIMIT);
+
+const parseUploadBody = express.raw({ type: 'multipart/form-data', limit: MAX_UPLOAD_SIZE });
+
+/**
+ * 读取上传请求体，超出大小限制时返回 413；JSON 请求体由全局中间件解析
+ */
+const uploadBodyMiddleware = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  parseUploadBody(req, res, (error?: any) => {
+    if (error?.status === 413) {
+      return res.status(413).json({ error: `Upload exceeds ${MAX_UPLOAD_SIZE}` });
+    }
+    if (error) {
+      return res.status(400).json({ error: 'Invalid upload body' });
+    }
+    next();
+  });
+};
+
+/**
+ * 读取请求中的图片：multipart 的 file 字段，或 JSON 中的 base64ImageData（可以是 data URL）
+ */
+const readRequestImage = (req: express.Request): Buffer | { error: string } => {
+  const boundary = getMultipartBoundary(req.headers['content-type']);
+  if (boundary && Buffer.isBuffer(req.body)) {
+    let file;
+    try {
+      file = parseMultipart(req.body, boundary).find(part => part.name === 'file' && part.filename !== null);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Invalid multipart body' };
+    }
+    return file?.data.length ? Buffer.from(file.data) : { error: 'A file is required' };
+  }
+
+  const { base64ImageData } = req.body ?? {};
+  if (typeof base64ImageData !== 'string' || !base64ImageData) {
+    return { error: 'An image file or base64ImageData is required' };
+  }
+  return Buffer.from(base64ImageData.replace(/^data:[^,]*,/, ''), 'base64');
+};
+
+/**
+ * 频域水印中的ID（生成记录ID去掉连字符后的前 10 位）转换为生成记录ID的前缀
+ */
+const toGenerationIdPrefix = (watermarkId: string): string => `${watermarkId.slice(0, 8)}-${watermarkId.slice(8)}`;
+
+/**
+ * LSB 水印的校验结果，声明中的时间转为 ISO 字符串
+ */
+const toLsbResult = ({ claims, ...verification }: WatermarkVerification) => ({
+  found: true,
+  method: 'lsb',
+  ...verification,
+  claims: claims ? { ...claims, timestamp: new Date(claims.timestamp * 1000).toISOString() } : null
+});
+
+/**
+ * 读取图片中的水印并校验签名
+ * 先读取 LSB 水印，没有有效的 LSB 水印时（如图片经过压缩或缩放）再检测频域水印，method 表示结果来自哪种水印
+ * 无需登录：水印内容随图片公开，下游发布方可以直接校验来源；按 IP 限制请求频率，像素数超出上限的图片不解码
+ */
+router.post('/verify', verifyRateLimit, uploadBodyMiddleware, async (req, res) => {
+  try {
+    const image = readRequestImage(req);
+    if ('error' in image) {
+      return res.status(400).json({ error: image.error });
+    }
+    if (await exceedsWatermarkInputPixels(image)) {
+      return res.status(413).json({ error: `Image exceeds ${MAX_WATERMARK_INPUT_PIXELS} pixels` });
+    }
+
+    const payload = await extractImageWatermark(image);
+    const verification = payload === null ? null : verifyWatermarkPayload(payload);
+    if (verification?.valid) {
+      return res.status(200).json(toLsbResult(verification));
+    }
+
+    // 频域水印中的签名已在检测时校验，生成记录ID由截断的ID查找
+    const watermarkId = await detectRobustWatermarkInWorker(image);
+    if (watermarkId) {
+      const generation = await getGenerationByIdPrefix(toGenerationIdPrefix(watermarkId));
+      return res.status(200).json({
+        found: true,
+        method: 'robust',
+        payload: watermarkId,
+        signed: true,
+        valid: true,
+        keyId: getWatermarkKeyId(),
+        claims: generation
+          ? { userId: generation.userId, generationId: generation.id, timestamp: generation.createdAt.toISOString() }
+          : null
+      });
+    }
+
+    // 只有无效或未签名的 LSB 水印时仍返回其内容
+    res.status(200).json(verification
+      ? toLsbResult(verification)
+      : { found: false, method: null, payload: null, signed: false, valid: false, keyId: null, claims: null });
+  } catch (error) {
+    console.error('Error verifying watermark:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * 校验内容溯源清单：读取上传图片 XMP 中的清单，或直接校验 JSON 提交的 { manifest, signature }
+ * recorded 表示清单与对应生成记录保存的清单一致（记录已删除或清单无效时为 false）
+ * 无需登录，下游发布方可以据此标注 AI 编辑的内容；与水印校验接口共用请求频率限制
+ */
+router.post('/provenance', verifyRateLimit, uploadBodyMiddleware, async (req, res) => {
+  try {
+    // JSON 提交的清单直接校验，否则从图片中读取
+    let signed: unknown = !Buffer.isBuffer(req.body) && req.body?.manifest ? req.body : null;
+    if (!signed) {
+      const image = readRequestImage(req);
+      if ('error' in image) {
+        return res.status(400).json({ error: image.error });
+      }
+      signed = await extractProvenanceManifest(image);
+      if (!signed) {
+        return res.status(200).json({ found: false, valid: false, keyId: null, manifest: null, recorded: false });
+      }
+    }
+
+    const { valid, keyId, manifest } = verifyProvenanceManifest(signed);
+    const generation = valid && manifest ? await getGenerationById(manifest.generationId) : null;
+    res.status(200).json({
+      found: true,
+      valid,
+      keyId,
+      manifest,
+      recorded: generation?.provenance?.signature === (signed as { signature: string }).signature
+    });
+  } catch (error) {
+    console.error('Error verifying provenance manifest:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -14,21 +14,42 @@ import userRoutes from './routes/userRoutes.js';
 import accountRoutes from './routes/accountRoutes.js';
 import paymentRoutes from './routes/paymentRoutes.js';
 import serviceRoutes from './routes/serviceRoutes.js';
+import transformationRoutes from './routes/transformationRoutes.js';
+import presetRoutes from './routes/presetRoutes.js';
+import generationRoutes from './routes/generationRoutes.js';
+import assetRoutes from './routes/assetRoutes.js';
+import watermarkRoutes from './routes/watermarkRoutes.js';
+import { registerJobHandler, startJobWorkers } from './workers/jobWorker.js';
+import { EDIT_IMAGE_JOB, abandonEditImageJob, processEditImageJob } from './workers/editImageJob.js';
+import { BATCH_JOB, abandonBatchJob, processBatchJob } from './workers/batchJob.js';
+import { GENERATE_IMAGE_JOB, abandonGenerateImageJob, processGenerateImageJob } from './workers/generateImageJob.js';
+import { expireCreditHolds } from './models/accountModel.js';
+import { seedServicePrices } from './models/servicePriceModel.js';
+import { purgeExpiredIdempotencyKeys } from './models/idempotencyModel.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
+// 过期积分预留的清理间隔（毫秒）
+const HOLD_EXPIRY_INTERVAL_MS = 60 * 1000;
+// 过期幂等键的清理间隔（毫秒）
+const IDEMPOTENCY_PURGE_INTERVAL_MS = 60 * 60 * 1000;
 
 // 中间件配置
 app.use(cors());
-// 增加请求大小限制，允许处理较大的图像文件
-app.use(bodyParser.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+// 图片通过 /api/assets 以 multipart 上传，JSON 请求体只需容纳资源ID（以及旧客户端提交的小图片）
+app.use(bodyParser.json({ limit: '10mb' }));
+app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // 注册API路由
 app.use('/api/users', userRoutes);
 app.use('/api/accounts', accountRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/services', serviceRoutes);
+app.use('/api/transformations', transformationRoutes);
+app.use('/api/presets', presetRoutes);
+app.use('/api/generations', generationRoutes);
+app.use('/api/assets', assetRoutes);
+app.use('/api/watermark', watermarkRoutes);
 
 // 健康检查端点
 app.get('/api/health', (req, res) => {
@@ -54,8 +75,25 @@ const startServer = async () => {
   try {
     // 初始化数据库
     await initDb();
+    await seedServicePrices();
     console.log('Database initialized successfully');
     
+    // 注册任务处理函数并启动任务 worker
+    registerJobHandler(EDIT_IMAGE_JOB, processEditImageJob, abandonEditImageJob);
+    registerJobHandler(BATCH_JOB, processBatchJob, abandonBatchJob);
+    registerJobHandler(GENERATE_IMAGE_JOB, processGenerateImageJob, abandonGenerateImageJob);
+    await startJobWorkers();
+    
+    // 定期将到期的积分预留标记为过期
+    setInterval(() => {
+      expireCreditHolds().catch(error => console.error('Failed to expire credit holds:', error));
+    }, HOLD_EXPIRY_INTERVAL_MS);
+    
+    // 定期清理超过保留时间的幂等键
+    setInterval(() => {
+      purgeExpiredIdempotencyKeys().catch(error => console.error('Failed to purge idempotency keys:', error));
+    }, IDEMPOTENCY_PURGE_INTERVAL_MS);
+    
     // 启动Express服务器
     app.listen(PORT, () => {
       console.log(`Server is running on port ${PORT}`);
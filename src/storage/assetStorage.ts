@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import { createAsset, getAssetById } from '../models/assetModel.js';
+import { getObjectStorage } from './objectStorage.js';
+import type { Asset, GeneratedContent } from '../../types.js';
+
+// 任务结果中以 asset:<资源ID> 的形式引用已保存的图片，返回给客户端前再换成签名地址
+const ASSET_REF_PREFIX = 'asset:';
+
+// 客户端可以提交的图片类型（上传和旧客户端直接提交的 base64 图片），资源内容按保存的类型返回
+export const SUPPORTED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'gif'
+};
+
+/**
+ * 获取资源的文件扩展名
+ */
+export const getAssetExtension = (mimeType: string): string => EXTENSIONS[mimeType] || 'png';
+
+/**
+ * 保存图片到对象存储并创建资源记录（按用户分目录，文件名为随机ID）
+ */
+export const storeAsset = async (userId: string, data: Buffer, mimeType: string): Promise<Asset> => {
+  const storage = getObjectStorage();
+  const storageKey = `${userId}/${crypto.randomUUID()}.${getAssetExtension(mimeType)}`;
+
+  await storage.putObject(storageKey, data, mimeType);
+  try {
+    return await createAsset(userId, { storageKey, mimeType, size: data.length });
+  } catch (error) {
+    await storage.deleteObject(storageKey).catch(() => {});
+    throw error;
+  }
+};
+
+/**
+ * 保存 data URL 形式的图片
+ */
+export const storeDataUrl = (userId: string, dataUrl: string): Promise<Asset> => {
+  return storeAsset(userId, Buffer.from(dataUrl.split(',')[1], 'base64'), dataUrl.split(';')[0].split(':')[1] || 'image/png');
+};
+
+/**
+ * 读取资源内容，对象已不存在时抛出错误
+ */
+export const readAsset = async (asset: Asset): Promise<Buffer> => {
+  const data = await getObjectStorage().getObject(asset.storageKey);
+  if (!data) {
+    throw new Error(`Asset content not found: ${asset.id}`);
+  }
+  return data;
+};
+
+/**
+ * 读取资源为模型输入所需的 base64 格式
+ */
+export const loadImageAsset = async (assetId: string): Promise<{ base64ImageData: string; mimeType: string }> => {
+  const asset = await getAssetById(assetId);
+  if (!asset) {
+    throw new Error(`Asset not found: ${assetId}`);
+  }
+  return { base64ImageData: (await readAsset(asset)).toString('base64'), mimeType: asset.mimeType };
+};
+
+export const toAssetRef = (assetId: string): string => `${ASSET_REF_PREFIX}${assetId}`;
+
+/**
+ * 从图片引用中取出资源ID，不是资源引用时返回 null
+ */
+export const getAssetIdFromRef = (imageUrl: string | null | undefined): string | null => {
+  return imageUrl?.startsWith(ASSET_REF_PREFIX) ? imageUrl.slice(ASSET_REF_PREFIX.length) : null;
+};
+
+/**
+ * 对结果中的每张图片（含中间步骤和候选结果）应用 mapImageUrl
+ */
+export const mapContentImages = async (
+  content: GeneratedContent,
+  mapImageUrl: (imageUrl: string) => string | Promise<string>
+): Promise<GeneratedContent> => ({
+  ...content,
+  imageUrl: content.imageUrl ? await mapImageUrl(content.imageUrl) : null,
+  ...(content.intermediates ? {
+    intermediates: await Promise.all(content.intermediates.map(async output => ({ ...output, imageUrl: await mapImageUrl(output.imageUrl) })))
+  } : {}),
+  ...(content.candidates ? {
+    candidates: await Promise.all(content.candidates.map(candidate => mapContentImages(candidate, mapImageUrl)))
+  } : {})
+});
+
+/**
+ * 将模型返回的 data URL 图片保存为资源，结果中改为资源引用
+ */
+export const storeContentImages = (userId: string, content: GeneratedContent): Promise<GeneratedContent> => {
+  return mapContentImages(content, async imageUrl =>
+    imageUrl.startsWith('data:') ? toAssetRef((await storeDataUrl(userId, imageUrl)).id) : imageUrl
+  );
+};
@@ -0,0 +1,40 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { ObjectStorage } from './objectStorage.js';
+
+/**
+ * 文件系统存储：存储键即为根目录下的相对路径
+ */
+export const createFsStorage = (rootDir: string): ObjectStorage => {
+  // 存储键不能指向根目录之外
+  const resolvePath = (key: string): string => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'fs',
+
+    async putObject(key, data) {
+      const filePath = resolvePath(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    async getObject(key) {
+      try {
+        return await fs.readFile(resolvePath(key));
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async deleteObject(key) {
+      await fs.rm(resolvePath(key), { force: true });
+    }
+  };
+};
@@ -0,0 +1,66 @@
+import path from 'path';
+import { createFsStorage } from './fsStorage.js';
+import { createS3Storage } from './s3Storage.js';
+
+/**
+ * 对象存储接口，按存储键保存二进制内容
+ * 文件系统和 S3 兼容服务（如 MinIO）各有一个实现
+ */
+export interface ObjectStorage {
+  name: string;
+  putObject(key: string, data: Buffer, contentType: string): Promise<void>;
+  // 对象不存在时返回 null
+  getObject(key: string): Promise<Buffer | null>;
+  deleteObject(key: string): Promise<void>;
+}
+
+// 默认使用文件系统存储，可通过 STORAGE_BACKEND 环境变量切换为 s3
+const DEFAULT_BACKEND = 'fs';
+// 文件系统存储目录，可通过 IMAGE_STORAGE_DIR 环境变量配置
+const DEFAULT_STORAGE_DIR = './storage';
+const DEFAULT_S3_REGION = 'us-east-1';
+
+let storageInstance: ObjectStorage | null = null;
+
+/**
+ * 读取必填的环境变量
+ */
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set when STORAGE_BACKEND is s3`);
+  }
+  return value;
+};
+
+/**
+ * 根据环境变量创建存储后端
+ */
+const createObjectStorage = (): ObjectStorage => {
+  const backend = process.env.STORAGE_BACKEND || DEFAULT_BACKEND;
+
+  switch (backend) {
+    case 'fs':
+      return createFsStorage(path.resolve(process.env.IMAGE_STORAGE_DIR || DEFAULT_STORAGE_DIR));
+    case 's3':
+      return createS3Storage({
+        endpoint: requireEnv('S3_ENDPOINT'),
+        bucket: requireEnv('S3_BUCKET'),
+        region: process.env.S3_REGION || DEFAULT_S3_REGION,
+        accessKeyId: requireEnv('S3_ACCESS_KEY_ID'),
+        secretAccessKey: requireEnv('S3_SECRET_ACCESS_KEY')
+      });
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`);
+  }
+};
+
+/**
+ * 获取对象存储实例（首次调用时创建）
+ */
+export const getObjectStorage = (): ObjectStorage => {
+  if (!storageInstance) {
+    storageInstance = createObjectStorage();
+  }
+  return storageInstance;
+};
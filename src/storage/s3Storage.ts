@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import type { ObjectStorage } from './objectStorage.js';
+
+/**
+ * S3 兼容存储的连接配置
+ */
+export interface S3StorageConfig {
+  // 服务地址，如 http://localhost:9000（MinIO）
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256Hex = (data: string | Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer => crypto.createHmac('sha256', key).update(data).digest();
+
+/**
+ * 按 S3 规则编码对象路径（保留路径分隔符）
+ */
+const encodeKey = (key: string): string => key
+  .split('/')
+  .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+  .join('/');
+
+/**
+ * S3 兼容存储：使用路径形式的地址（endpoint/bucket/key），请求按 AWS Signature V4 签名
+ */
+export const createS3Storage = (config: S3StorageConfig): ObjectStorage => {
+  const endpoint = new URL(config.endpoint);
+
+  /**
+   * 发送签名请求
+   */
+  const send = async (method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string): Promise<Response> => {
+    const pathname = `${endpoint.pathname.replace(/\/$/, '')}/${config.bucket}/${encodeKey(key)}`;
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? '');
+
+    const headers: Record<string, string> = {
+      'host': endpoint.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    const signedHeaders = Object.keys(headers).sort().join(';');
+    const canonicalRequest = [
+      method,
+      pathname,
+      '',
+      ...Object.keys(headers).sort().map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaders,
+      payloadHash
+    ].join('\n');
+
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region)
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // host 由 fetch 根据地址自动设置
+    const { host, ...requestHeaders } = headers;
+    return fetch(`${endpoint.origin}${pathname}`, {
+      method,
+      headers: {
+        ...requestHeaders,
+        ...(contentType ? { 'Content-Type': contentType } : {}),
+        'Authorization': `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      },
+      body
+    });
+  };
+
+  return {
+    name: 's3',
+
+    async putObject(key, data, contentType) {
+      const response = await send('PUT', key, data, contentType);
+      if (!response.ok) {
+        throw new Error(`Failed to upload object ${key}: ${response.status} ${await response.text()}`);
+      }
+    },
+
+    async getObject(key) {
+      const response = await send('GET', key);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Failed to fetch object ${key}: ${response.status} ${await response.text()}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async deleteObject(key) {
+      const response = await send('DELETE', key);
+      // 对象不存在时 S3 同样返回 204
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to delete object ${key}: ${response.status} ${await response.text()}`);
+      }
+    }
+  };
+};
@@ -0,0 +1,66 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { signAssetUrl, signContentUrls, verifyAssetUrlSignature } from './signedUrls.js';
+
+const baseUrl = 'http://localhost:3000';
+
+/**
+ * 从签名地址中取出资源ID、过期时间和签名
+ */
+const parseSignedUrl = (signedUrl: string) => {
+  const url = new URL(signedUrl);
+  return {
+    assetId: url.pathname.split('/')[3],
+    expires: url.searchParams.get('expires'),
+    signature: url.searchParams.get('signature')
+  };
+};
+
+describe('signed asset urls', () => {
+  beforeAll(() => {
+    process.env.ASSET_URL_SECRET = 'test-asset-url-secret';
+  });
+
+  afterEach(() => {
+    delete process.env.ASSET_URL_TTL_SECONDS;
+    vi.useRealTimers();
+  });
+
+  it('accepts the signature it issued', () => {
+    const { assetId, expires, signature } = parseSignedUrl(signAssetUrl(baseUrl, 'asset-1'));
+
+    expect(assetId).toBe('asset-1');
+    expect(verifyAssetUrlSignature(assetId, expires, signature)).toBe(true);
+  });
+
+  it('rejects a signature for another asset or a changed expiry', () => {
+    const { expires, signature } = parseSignedUrl(signAssetUrl(baseUrl, 'asset-1'));
+
+    expect(verifyAssetUrlSignature('asset-2', expires, signature)).toBe(false);
+    expect(verifyAssetUrlSignature('asset-1', `${Number(expires) + 60}`, signature)).toBe(false);
+    expect(verifyAssetUrlSignature('asset-1', expires, undefined)).toBe(false);
+    expect(verifyAssetUrlSignature('asset-1', 'soon', signature)).toBe(false);
+  });
+
+  it('rejects an expired url', () => {
+    process.env.ASSET_URL_TTL_SECONDS = '60';
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-08-01T00:00:00Z'));
+    const { assetId, expires, signature } = parseSignedUrl(signAssetUrl(baseUrl, 'asset-1'));
+
+    vi.setSystemTime(new Date('2024-08-01T00:00:59Z'));
+    expect(verifyAssetUrlSignature(assetId, expires, signature)).toBe(true);
+    vi.setSystemTime(new Date('2024-08-01T00:01:01Z'));
+    expect(verifyAssetUrlSignature(assetId, expires, signature)).toBe(false);
+  });
+
+  it('signs asset references in generated content and keeps other urls', async () => {
+    const signed = await signContentUrls({
+      imageUrl: 'asset:asset-1',
+      text: null,
+      intermediates: [{ step: 1, imageUrl: 'data:image/png;base64,AAAA', text: null }]
+    }, baseUrl);
+
+    expect(signed.imageUrl).toMatch(/^http:\/\/localhost:3000\/api\/assets\/asset-1\/content\?expires=\d+&signature=/);
+    expect(signed.intermediates![0].imageUrl).toBe('data:image/png;base64,AAAA');
+  });
+});
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import type express from 'express';
+import { getAssetIdFromRef, mapContentImages } from './assetStorage.js';
+import type { GeneratedContent } from '../../types.js';
+
+// 签名地址的有效期（秒），可通过 ASSET_URL_TTL_SECONDS 环境变量配置
+const DEFAULT_URL_TTL_SECONDS = 60 * 60;
+
+// 未配置 ASSET_URL_SECRET 时使用进程内随机密钥，重启后之前签发的地址失效
+let fallbackSecret: string | null = null;
+
+const getUrlSecret = (): string => {
+  if (process.env.ASSET_URL_SECRET) {
+    return process.env.ASSET_URL_SECRET;
+  }
+  if (!fallbackSecret) {
+    fallbackSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+};
+
+const computeSignature = (assetId: string, expires: number): string => {
+  return crypto.createHmac('sha256', getUrlSecret()).update(`${assetId}:${expires}`).digest('base64url');
+};
+
+/**
+ * 获取请求对应的服务地址，用于拼接完整的资源地址
+ */
+export const getBaseUrl = (req: express.Request): string => `${req.protocol}://${req.get('host')}`;
+
+/**
+ * 生成资源内容的签名地址，无需登录即可在有效期内访问
+ */
+export const signAssetUrl = (baseUrl: string, assetId: string): string => {
+  const ttl = parseInt(process.env.ASSET_URL_TTL_SECONDS || `${DEFAULT_URL_TTL_SECONDS}`, 10);
+  const expires = Math.floor(Date.now() / 1000) + ttl;
+  return `${baseUrl}/api/assets/${assetId}/content?expires=${expires}&signature=${computeSignature(assetId, expires)}`;
+};
+
+/**
+ * 校验签名地址：签名一致且未过期
+ */
+export const verifyAssetUrlSignature = (assetId: string, expires: unknown, signature: unknown): boolean => {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || typeof signature !== 'string' || expiresAt < Date.now() / 1000) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(assetId, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * 将结果中的资源引用换成签名地址，其他图片地址（如旧任务的 data URL）保持不变
+ */
+export const signContentUrls = (content: GeneratedContent, baseUrl: string): Promise<GeneratedContent> => {
+  return mapContentImages(content, imageUrl => {
+    const assetId = getAssetIdFromRef(imageUrl);
+    return assetId ? signAssetUrl(baseUrl, assetId) : imageUrl;
+  });
+};
@@ -0,0 +1,72 @@
+import { createGeneration, getGenerationById } from '../models/generationModel.js';
+import { getAssetIdFromRef } from '../storage/assetStorage.js';
+import type { GeneratedContent, GenerationInputs, GenerationOutput, SignedProvenanceManifest } from '../../types.js';
+
+/**
+ * 整理结果图片：中间步骤在前，最终结果在最后（结果中的图片需已保存为资源）
+ */
+const toOutputs = (content: GeneratedContent): GenerationOutput[] => {
+  const outputs: GenerationOutput[] = [];
+  for (const output of content.intermediates ?? []) {
+    const assetId = getAssetIdFromRef(output.imageUrl);
+    if (!assetId) continue;
+    outputs.push({
+      assetId,
+      text: output.text,
+      step: output.step,
+      ...(output.labelKey ? { labelKey: output.labelKey } : {})
+    });
+  }
+  outputs.push({ assetId: getAssetIdFromRef(content.imageUrl)!, text: content.text });
+  return outputs;
+};
+
+/**
+ * 将任务结果保存到图库：每个结果（候选）各创建一条生成记录，共用同一组输入资源和父记录
+ * 结果图片的水印中已写入生成记录ID时，通过 generationId 使用同一个ID，provenance 为写入结果图片的内容溯源清单
+ * 返回带有生成记录ID的结果；保存失败只记录日志，不影响已完成并扣费的任务
+ * 任务中断后重新执行时，已使用 generationId 保存过的记录直接复用，不会重复创建
+ */
+export const recordGenerations = async (
+  userId: string,
+  data: {
+    jobId: string;
+    transformationKey?: string;
+    prompt: string;
+    inputs: GenerationInputs;
+    parentIds?: string[];
+    results: Array<{
+      content: GeneratedContent;
+      serviceUsageId?: string;
+      generationId?: string;
+      provenance?: SignedProvenanceManifest;
+    }>;
+  }
+): Promise<GeneratedContent[]> => {
+  const recorded: GeneratedContent[] = [];
+  for (const { content, serviceUsageId, generationId, provenance } of data.results) {
+    if (!getAssetIdFromRef(content.imageUrl)) {
+      recorded.push(content);
+      continue;
+    }
+    try {
+      const existing = generationId ? await getGenerationById(generationId) : null;
+      const generation = existing ?? await createGeneration(userId, {
+        id: generationId,
+        jobId: data.jobId,
+        transformationKey: data.transformationKey,
+        prompt: data.prompt,
+        inputs: data.inputs,
+        outputs: toOutputs(content),
+        parentIds: data.parentIds,
+        serviceUsageId,
+        provenance
+      });
+      recorded.push({ ...content, generationId: generation.id });
+    } catch (error) {
+      console.error('Failed to record generation:', error);
+      recorded.push(content);
+    }
+  }
+  return recorded;
+};
@@ -0,0 +1,91 @@
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { initDb } from '../db/db.js';
+import { createUser } from '../models/userModel.js';
+import { IDEMPOTENCY_KEY_HEADER, idempotencyMiddleware } from './idempotencyUtils.js';
+
+let server: Server;
+let baseUrl: string;
+let userId: string;
+// 处理函数的执行次数，重放的响应不会再次执行
+let executions = 0;
+
+const post = (path: string, body: unknown, idempotencyKey?: string) =>
+  fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idempotencyKey !== undefined ? { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } : {})
+    },
+    body: JSON.stringify(body)
+  });
+
+describe('idempotency middleware', () => {
+  beforeAll(async () => {
+    await initDb();
+    userId = (await createUser('idempotent', 'idempotent@example.com', 'password')).id;
+
+    const app = express();
+    app.use(express.json());
+    // 代替 authMiddleware 写入当前用户
+    app.use((req, res, next) => {
+      (req as any).user = { id: userId };
+      next();
+    });
+    app.post('/charge', idempotencyMiddleware('charge'), (req, res) => {
+      executions++;
+      if (req.body.fail) {
+        return res.status(402).json({ error: 'Insufficient credits' });
+      }
+      res.status(202).json({ execution: executions, amount: req.body.amount });
+    });
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    executions = 0;
+  });
+
+  it('replays the first response for a retried request', async () => {
+    const first = await post('/charge', { amount: 3 }, 'retry-key');
+    const retry = await post('/charge', { amount: 3 }, 'retry-key');
+
+    expect(first.status).toBe(202);
+    expect(retry.status).toBe(202);
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await retry.json()).toEqual(await first.json());
+    expect(executions).toBe(1);
+  });
+
+  it('rejects a reused key with a different request body', async () => {
+    await post('/charge', { amount: 3 }, 'conflict-key');
+    const conflict = await post('/charge', { amount: 5 }, 'conflict-key');
+
+    expect(conflict.status).toBe(409);
+    expect((await conflict.json()).error).toBe('Idempotency key conflict');
+    expect(executions).toBe(1);
+  });
+
+  it('releases the key when the request fails so it can be retried', async () => {
+    expect((await post('/charge', { amount: 3, fail: true }, 'failed-key')).status).toBe(402);
+    expect((await post('/charge', { amount: 3, fail: true }, 'failed-key')).status).toBe(402);
+
+    expect(executions).toBe(2);
+  });
+
+  it('passes requests without a key through and rejects an empty key', async () => {
+    await post('/charge', { amount: 3 });
+    await post('/charge', { amount: 3 });
+
+    expect(executions).toBe(2);
+    expect((await post('/charge', { amount: 3 }, '')).status).toBe(400);
+  });
+});
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey
+} from '../models/idempotencyModel.js';
+import { getUserIdFromAuth } from './authUtils.js';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * 计算请求指纹（请求方法、路径和请求体）
+ */
+const fingerprintRequest = (req: Request): string => {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${JSON.stringify(req.body ?? null)}`)
+    .digest('hex');
+};
+
+/**
+ * 幂等中间件，需放在 authMiddleware 之后
+ * 请求带有 Idempotency-Key 头时：
+ * - 首次请求正常处理，成功（2xx）的响应会被保存，失败时释放该键以便重试
+ * - 相同的键和请求体再次请求时，直接重放保存的响应
+ * - 相同的键搭配不同的请求体，或首次请求仍在处理中时，返回 409
+ */
+export const idempotencyMiddleware = (scope: string) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const idempotencyKey = req.get(IDEMPOTENCY_KEY_HEADER);
+  if (idempotencyKey === undefined) {
+    next();
+    return;
+  }
+
+  try {
+    const userId = getUserIdFromAuth(req);
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!idempotencyKey.trim() || idempotencyKey.length > MAX_KEY_LENGTH) {
+      res.status(400).json({ error: `Invalid ${IDEMPOTENCY_KEY_HEADER} header` });
+      return;
+    }
+
+    const requestHash = fingerprintRequest(req);
+    const { claimed, record } = await claimIdempotencyKey(userId, scope, idempotencyKey, requestHash);
+
+    if (!claimed) {
+      if (record.requestHash !== requestHash) {
+        res.status(409).json({
+          error: 'Idempotency key conflict',
+          message: `This ${IDEMPOTENCY_KEY_HEADER} was already used with a different request`
+        });
+        return;
+      }
+
+      if (record.status === 'processing') {
+        res.status(409).json({
+          error: 'Request in progress',
+          message: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`
+        });
+        return;
+      }
+
+      // 重放首次请求的响应
+      res.set('Idempotent-Replayed', 'true');
+      res.status(record.responseStatus!).json(record.responseBody);
+      return;
+    }
+
+    // 拦截响应，保存后再发送，确保重试时能读到结果
+    const sendJson = res.json.bind(res);
+    res.json = (body?: any) => {
+      const statusCode = res.statusCode;
+      const settle = statusCode >= 200 && statusCode < 300
+        ? completeIdempotencyKey(record.id, statusCode, body)
+        : releaseIdempotencyKey(record.id);
+
+      settle
+        .catch(error => console.error('Failed to save idempotency record:', error))
+        .finally(() => sendJson(body));
+      return res;
+    };
+
+    next();
+  } catch (error) {
+    console.error('Idempotency error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
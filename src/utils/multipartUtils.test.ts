@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { getMultipartBoundary, parseMultipart } from './multipartUtils.js';
+
+const boundary = 'test-boundary';
+
+/**
+ * 按 multipart/form-data 格式拼接请求体
+ */
+const buildBody = (parts: Array<{ headers: string[]; data: Buffer | string }>): Buffer => Buffer.concat([
+  ...parts.flatMap(({ headers, data }) => [
+    Buffer.from(`--${boundary}\r\n${headers.join('\r\n')}\r\n\r\n`),
+    Buffer.isBuffer(data) ? data : Buffer.from(data),
+    Buffer.from('\r\n')
+  ]),
+  Buffer.from(`--${boundary}--\r\n`)
+]);
+
+describe('getMultipartBoundary', () => {
+  it('reads plain and quoted boundaries', () => {
+    expect(getMultipartBoundary('multipart/form-data; boundary=abc123')).toBe('abc123');
+    expect(getMultipartBoundary('multipart/form-data; boundary="a b;c"; charset=utf-8')).toBe('a b;c');
+  });
+
+  it('returns null for other content types', () => {
+    expect(getMultipartBoundary('application/json')).toBeNull();
+    expect(getMultipartBoundary('multipart/form-data')).toBeNull();
+    expect(getMultipartBoundary(undefined)).toBeNull();
+  });
+});
+
+describe('parseMultipart', () => {
+  it('parses fields and binary files', () => {
+    // 文件内容包含换行和与边界相似的字节
+    const file = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x2d, 0x2d, 0x00, 0xff]);
+    const body = buildBody([
+      { headers: ['Content-Disposition: form-data; name="note"'], data: '你好' },
+      { headers: ['Content-Disposition: form-data; name="image"; filename="a.png"', 'Content-Type: Image/PNG'], data: file }
+    ]);
+
+    const parts = parseMultipart(body, boundary);
+
+    expect(parts).toHaveLength(2);
+    expect(parts[0]).toMatchObject({ name: 'note', filename: null, contentType: null });
+    expect(parts[0].data.toString('utf8')).toBe('你好');
+    expect(parts[1]).toMatchObject({ name: 'image', filename: 'a.png', contentType: 'image/png' });
+    expect(parts[1].data.equals(file)).toBe(true);
+  });
+
+  it('skips parts without a field name', () => {
+    const body = buildBody([
+      { headers: ['Content-Type: text/plain'], data: 'ignored' },
+      { headers: ['Content-Disposition: form-data; name="kept"'], data: 'value' }
+    ]);
+
+    expect(parseMultipart(body, boundary).map(part => part.name)).toEqual(['kept']);
+  });
+
+  it('rejects malformed bodies', () => {
+    expect(() => parseMultipart(Buffer.from('no boundary here'), boundary)).toThrow('Multipart boundary not found');
+    expect(() => parseMultipart(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="a"`), boundary))
+      .toThrow('Malformed multipart part');
+    expect(() => parseMultipart(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="a"\r\n\r\nvalue`), boundary))
+      .toThrow('Unterminated multipart body');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * multipart/form-data 中的一个字段
+ */
+export interface MultipartPart {
+  name: string;
+  filename: string | null;
+  contentType: string | null;
+  data: Buffer;
+}
+
+/**
+ * 从 Content-Type 中取出 multipart 边界，不是 multipart/form-data 时返回 null
+ */
+export const getMultipartBoundary = (contentType: string | undefined): string | null => {
+  if (!contentType || !/^multipart\/form-data/i.test(contentType)) return null;
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+  return match ? (match[1] || match[2]).trim() : null;
+};
+
+/**
+ * 解析字段头部（Content-Disposition 和 Content-Type）
+ */
+const parsePartHeaders = (headerText: string): Omit<MultipartPart, 'data'> | null => {
+  let name: string | null = null;
+  let filename: string | null = null;
+  let contentType: string | null = null;
+
+  for (const line of headerText.split('\r\n')) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const header = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (header === 'content-disposition') {
+      name = /\bname="([^"]*)"/i.exec(value)?.[1] ?? null;
+      filename = /\bfilename="([^"]*)"/i.exec(value)?.[1] ?? null;
+    } else if (header === 'content-type') {
+      contentType = value.toLowerCase();
+    }
+  }
+
+  return name === null ? null : { name, filename, contentType };
+};
+
+/**
+ * 解析 multipart/form-data 请求体，格式错误时抛出错误
+ */
+export const parseMultipart = (body: Buffer, boundary: string): MultipartPart[] => {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const parts: MultipartPart[] = [];
+
+  let position = body.indexOf(delimiter);
+  if (position === -1) {
+    throw new Error('Multipart boundary not found');
+  }
+
+  while (true) {
+    position += delimiter.length;
+    // 结束边界为 --boundary--
+    if (body.subarray(position, position + 2).toString() === '--') break;
+    position += 2; // 跳过边界后的换行
+
+    const headerEnd = body.indexOf('\r\n\r\n', position);
+    if (headerEnd === -1) {
+      throw new Error('Malformed multipart part');
+    }
+    const next = body.indexOf(Buffer.from(`\r\n--${boundary}`), headerEnd + 4);
+    if (next === -1) {
+      throw new Error('Unterminated multipart body');
+    }
+
+    const headers = parsePartHeaders(body.subarray(position, headerEnd).toString('utf8'));
+    if (headers) {
+      parts.push({ ...headers, data: body.subarray(headerEnd + 4, next) });
+    }
+    position = next + 2;
+  }
+
+  return parts;
+};
@@ -0,0 +1,126 @@
+import sharp from 'sharp';
+import { SUPPORTED_ASPECT_RATIOS } from '../../services/imageProvider.js';
+
+/**
+ * 扩图时原图四周补充的像素数
+ */
+export interface OutpaintPadding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * 扩图参数：扩展到目标宽高比（原图在新画布中的位置 0~1，默认居中），或直接指定四周补充的像素数
+ */
+export type OutpaintOptions =
+  | { aspectRatio: string; position: { x: number; y: number } }
+  | { padding: OutpaintPadding };
+
+// 扩展后画布的最大边长
+export const MAX_OUTPAINT_DIMENSION = 4096;
+
+const PADDING_SIDES: (keyof OutpaintPadding)[] = ['top', 'right', 'bottom', 'left'];
+
+const isUnitInterval = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+/**
+ * 校验请求中的扩图参数
+ */
+export const parseOutpaintOptions = (input: any): { options: OutpaintOptions } | { error: string } => {
+  if (!input || typeof input !== 'object') {
+    return { error: 'outpaint must be an object with aspectRatio or padding' };
+  }
+
+  if (input.aspectRatio !== undefined) {
+    if (!SUPPORTED_ASPECT_RATIOS.includes(input.aspectRatio)) {
+      return { error: `Unsupported aspect ratio: ${input.aspectRatio}` };
+    }
+    const x = input.position?.x ?? 0.5;
+    const y = input.position?.y ?? 0.5;
+    if (!isUnitInterval(x) || !isUnitInterval(y)) {
+      return { error: 'outpaint.position x and y must be numbers between 0 and 1' };
+    }
+    return { options: { aspectRatio: input.aspectRatio, position: { x, y } } };
+  }
+
+  if (input.padding && typeof input.padding === 'object') {
+    const padding = {} as OutpaintPadding;
+    for (const side of PADDING_SIDES) {
+      const value = input.padding[side] ?? 0;
+      if (!Number.isInteger(value) || value < 0) {
+        return { error: `outpaint.padding.${side} must be a non-negative integer` };
+      }
+      padding[side] = value;
+    }
+    return { options: { padding } };
+  }
+
+  return { error: 'outpaint must specify aspectRatio or padding' };
+};
+
+/**
+ * 根据原图尺寸计算四周需要补充的像素数
+ */
+export const resolveOutpaintPadding = (width: number, height: number, options: OutpaintOptions): OutpaintPadding => {
+  if ('padding' in options) {
+    return options.padding;
+  }
+
+  const [ratioWidth, ratioHeight] = options.aspectRatio.split(':').map(Number);
+  const targetWidth = Math.max(width, Math.round((height * ratioWidth) / ratioHeight));
+  const targetHeight = Math.max(height, Math.round((width * ratioHeight) / ratioWidth));
+  const extraX = targetWidth - width;
+  const extraY = targetHeight - height;
+  const left = Math.round(extraX * options.position.x);
+  const top = Math.round(extraY * options.position.y);
+  return { top, right: extraX - left, bottom: extraY - top, left };
+};
+
+/**
+ * 生成扩图的输入：原图放在扩展后的画布上，补充区域作为蒙版（白色为待填充区域，原图区域透明）
+ * 扩展后尺寸无效时返回错误
+ */
+export const composeOutpaintCanvas = async (
+  image: Buffer,
+  options: OutpaintOptions
+): Promise<{ image: Buffer; mask: Buffer; padding: OutpaintPadding } | { error: string }> => {
+  const metadata = await sharp(image).metadata().catch(() => null);
+  const width = metadata?.width;
+  const height = metadata?.height;
+  if (!width || !height) {
+    return { error: 'Unable to read image dimensions' };
+  }
+
+  const padding = resolveOutpaintPadding(width, height, options);
+  const canvasWidth = width + padding.left + padding.right;
+  const canvasHeight = height + padding.top + padding.bottom;
+  if (canvasWidth === width && canvasHeight === height) {
+    return { error: 'The image already matches the requested canvas' };
+  }
+  if (canvasWidth > MAX_OUTPAINT_DIMENSION || canvasHeight > MAX_OUTPAINT_DIMENSION) {
+    return { error: `The extended canvas must not exceed ${MAX_OUTPAINT_DIMENSION}px per side` };
+  }
+
+  // 补充区域用中性灰填充，避免模型把纯白或纯黑边缘当作画面内容保留
+  const extended = await sharp(image)
+    .extend({ ...padding, background: { r: 128, g: 128, b: 128, alpha: 1 } })
+    .png()
+    .toBuffer();
+
+  const mask = await sharp({
+    create: { width: canvasWidth, height: canvasHeight, channels: 4, background: { r: 255, g: 255, b: 255, alpha: 1 } }
+  })
+    .composite([{
+      input: { create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 1 } } },
+      left: padding.left,
+      top: padding.top,
+      blend: 'dest-out'
+    }])
+    .png()
+    .toBuffer();
+
+  return { image: extended, mask, padding };
+};
@@ -0,0 +1,156 @@
+import sharp from 'sharp';
+import { embedLsbWatermark } from '../../utils/watermarkCodec.js';
+import { embedRobustWatermark } from './robustWatermark.js';
+import { toProvenanceXmp } from './provenanceUtils.js';
+import type { OutputWatermark } from './watermarkUtils.js';
+import type { OutputFormat, OutputSettings, SignedProvenanceManifest } from '../../types.js';
+
+// 输出图片的最大边长
+export const MAX_OUTPUT_DIMENSION = 4096;
+// 有损格式未指定质量时的默认值
+export const DEFAULT_OUTPUT_QUALITY = 85;
+
+const OUTPUT_FORMATS: OutputFormat[] = ['png', 'jpeg', 'webp', 'avif'];
+const OUTPUT_FITS: NonNullable<OutputSettings['fit']>[] = ['inside', 'cover', 'fill'];
+
+const MIME_TYPES: Record<OutputFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+const isDimension = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_OUTPUT_DIMENSION;
+
+/**
+ * 校验请求中的输出设置，未提交时返回 null
+ */
+export const parseOutputSettings = (input: any): { settings: OutputSettings | null } | { error: string } => {
+  if (input === undefined || input === null) {
+    return { settings: null };
+  }
+  if (typeof input !== 'object') {
+    return { error: 'output must be an object' };
+  }
+
+  const { format, quality, width, height, fit, metadata } = input;
+  if (format !== undefined && !OUTPUT_FORMATS.includes(format)) {
+    return { error: `Unsupported output format: ${format}` };
+  }
+  if (quality !== undefined && (!Number.isInteger(quality) || quality < 1 || quality > 100)) {
+    return { error: 'output.quality must be an integer between 1 and 100' };
+  }
+  if ((width !== undefined && !isDimension(width)) || (height !== undefined && !isDimension(height))) {
+    return { error: `output.width and output.height must be integers between 1 and ${MAX_OUTPUT_DIMENSION}` };
+  }
+  if (fit !== undefined && !OUTPUT_FITS.includes(fit)) {
+    return { error: `Unsupported output fit: ${fit}` };
+  }
+  if (metadata !== undefined && metadata !== 'strip' && metadata !== 'preserve') {
+    return { error: 'output.metadata must be strip or preserve' };
+  }
+
+  return {
+    settings: {
+      ...(format !== undefined ? { format } : {}),
+      ...(quality !== undefined ? { quality } : {}),
+      ...(width !== undefined ? { width } : {}),
+      ...(height !== undefined ? { height } : {}),
+      ...(fit !== undefined ? { fit } : {}),
+      ...(metadata !== undefined ? { metadata } : {})
+    }
+  };
+};
+
+/**
+ * 在缩放后的像素中写入水印，再以覆盖的方式合成回原流水线（保留元数据的设置仍然有效）
+ * 频域水印在 robust 模式下写入任何格式；LSB 水印最后写入且只用于 PNG，有损格式会破坏它
+ */
+const embedWatermarks = async (
+  pipeline: sharp.Sharp,
+  format: OutputFormat,
+  watermark: OutputWatermark
+): Promise<sharp.Sharp> => {
+  const { data, info } = await pipeline.clone().toColourspace('srgb').raw().toBuffer({ resolveWithObject: true });
+  if (info.channels < 3) {
+    return pipeline;
+  }
+  // 图片太小容纳不下水印时按原样交付
+  const robust = watermark.mode === 'robust'
+    && embedRobustWatermark(data, info.width, info.height, info.channels, watermark.generationId);
+  const lsb = format === 'png' && embedLsbWatermark(data, watermark.payload, info.channels);
+  if (!robust && !lsb) {
+    return pipeline;
+  }
+  return pipeline.composite([{
+    input: data,
+    raw: { width: info.width, height: info.height, channels: info.channels },
+    blend: 'source'
+  }]);
+};
+
+/**
+ * 按输出设置处理图片：缩放、转换格式并去除或保留元数据，并写入水印和内容溯源清单
+ * 未指定格式时沿用原图格式（无法作为输出格式时转为 PNG）
+ */
+export const applyOutputSettings = async (
+  image: Buffer,
+  settings: OutputSettings,
+  watermark?: OutputWatermark | null,
+  provenance?: SignedProvenanceManifest | null
+): Promise<{ data: Buffer; mimeType: string }> => {
+  let pipeline = sharp(image);
+  const { format: sourceFormat } = await pipeline.metadata();
+  const format = settings.format
+    ?? (OUTPUT_FORMATS.includes(sourceFormat as OutputFormat) ? sourceFormat as OutputFormat : 'png');
+
+  if (settings.width || settings.height) {
+    pipeline = pipeline.resize({ width: settings.width, height: settings.height, fit: settings.fit ?? 'inside' });
+  }
+  if (watermark) {
+    pipeline = await embedWatermarks(pipeline, format, watermark);
+  }
+  // sharp 默认去除所有元数据
+  if (settings.metadata === 'preserve') {
+    pipeline = pipeline.keepMetadata();
+  }
+  // 清单写入 XMP，保留元数据时替换原图的 XMP
+  if (provenance) {
+    pipeline = pipeline.withXmp(toProvenanceXmp(provenance));
+  }
+
+  const quality = settings.quality ?? DEFAULT_OUTPUT_QUALITY;
+  switch (format) {
+    case 'jpeg':
+      pipeline = pipeline.jpeg({ quality, mozjpeg: true });
+      break;
+    case 'webp':
+      pipeline = pipeline.webp({ quality });
+      break;
+    case 'avif':
+      pipeline = pipeline.avif({ quality });
+      break;
+    default:
+      pipeline = pipeline.png();
+  }
+
+  return { data: await pipeline.toBuffer(), mimeType: MIME_TYPES[format] };
+};
+
+/**
+ * 处理模型返回的 data URL 形式的图片
+ * 没有输出设置、清单且不需要嵌入水印（standard 模式下的非 PNG 图片）时原样返回，避免对原图重新编码
+ */
+export const finalizeOutputDataUrl = async (
+  dataUrl: string,
+  settings: OutputSettings | null | undefined,
+  watermark: OutputWatermark | null,
+  provenance: SignedProvenanceManifest | null = null
+): Promise<string> => {
+  if (!settings && !provenance && (!watermark || (watermark.mode !== 'robust' && !dataUrl.startsWith('data:image/png')))) {
+    return dataUrl;
+  }
+  const { data, mimeType } = await applyOutputSettings(Buffer.from(dataUrl.split(',')[1], 'base64'), settings ?? {}, watermark, provenance);
+  return `data:${mimeType};base64,${data.toString('base64')}`;
+};
@@ -0,0 +1,96 @@
+import type { TransformationParameter } from '../../types.js';
+
+// 模板占位符：{{name}}
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const DEFAULT_TEXT_MAX_LENGTH = 100;
+
+/**
+ * 校验单个参数值，返回可以填入模板的文本；不合法时返回错误信息
+ */
+const validateParameterValue = (
+  parameter: TransformationParameter,
+  value: unknown
+): { value?: string; error?: string } => {
+  switch (parameter.type) {
+    case 'enum': {
+      const option = parameter.options?.find(o => o.value === value);
+      if (!option) {
+        return { error: `Invalid value for parameter ${parameter.name}` };
+      }
+      return { value: option.value };
+    }
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (value === '' || !Number.isFinite(number)) {
+        return { error: `Parameter ${parameter.name} must be a number` };
+      }
+      if ((parameter.min !== undefined && number < parameter.min) || (parameter.max !== undefined && number > parameter.max)) {
+        return { error: `Parameter ${parameter.name} must be between ${parameter.min ?? '-∞'} and ${parameter.max ?? '∞'}` };
+      }
+      if (parameter.step !== undefined && !Number.isInteger((number - (parameter.min ?? 0)) / parameter.step)) {
+        return { error: `Parameter ${parameter.name} must be a multiple of ${parameter.step}` };
+      }
+      return { value: String(number) };
+    }
+    case 'color': {
+      if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) {
+        return { error: `Parameter ${parameter.name} must be a hex color like #ff8800` };
+      }
+      return { value: value.toLowerCase() };
+    }
+    case 'text': {
+      if (typeof value !== 'string') {
+        return { error: `Parameter ${parameter.name} must be text` };
+      }
+      // 去掉换行和模板符号，避免参数改变提示词结构
+      const text = value.replace(/[\r\n]+/g, ' ').replace(/[{}]/g, '').trim();
+      if (!text) {
+        return { error: `Parameter ${parameter.name} is required` };
+      }
+      if (text.length > (parameter.maxLength ?? DEFAULT_TEXT_MAX_LENGTH)) {
+        return { error: `Parameter ${parameter.name} must be at most ${parameter.maxLength ?? DEFAULT_TEXT_MAX_LENGTH} characters` };
+      }
+      return { value: text };
+    }
+    default:
+      return { error: `Unsupported parameter type for ${parameter.name}` };
+  }
+};
+
+/**
+ * 校验请求提交的模板参数，未提交的参数使用默认值
+ */
+export const resolveTemplateParameters = (
+  parameters: TransformationParameter[],
+  input: unknown
+): { values?: Record<string, string>; error?: string } => {
+  if (input != null && (typeof input !== 'object' || Array.isArray(input))) {
+    return { error: 'Parameters must be an object' };
+  }
+
+  const provided = (input || {}) as Record<string, unknown>;
+  const unknownName = Object.keys(provided).find(name => !parameters.some(p => p.name === name));
+  if (unknownName) {
+    return { error: `Unknown parameter: ${unknownName}` };
+  }
+
+  const values: Record<string, string> = {};
+  for (const parameter of parameters) {
+    const raw = provided[parameter.name] ?? parameter.default;
+    const { value, error } = validateParameterValue(parameter, raw);
+    if (error) {
+      return { error };
+    }
+    values[parameter.name] = value!;
+  }
+
+  return { values };
+};
+
+/**
+ * 将参数值填入提示词模板，未声明的占位符保持原样
+ */
+export const interpolatePrompt = (template: string, values: Record<string, string>): string => {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) => values[name] ?? match);
+};
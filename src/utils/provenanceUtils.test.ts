@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createProvenanceManifest, verifyProvenanceManifest } from './provenanceUtils.js';
+
+const createSigned = () => createProvenanceManifest({
+  action: 'edit',
+  generationId: 'generation-1',
+  model: 'fake-model',
+  presetKey: 'figurine',
+  prompt: 'make it a figurine',
+  inputs: [{ role: 'primary', base64: 'data:image/png;base64,AAAA' }]
+});
+
+describe('provenance manifests', () => {
+  it('verifies a manifest it signed', () => {
+    const signed = createSigned();
+
+    expect(verifyProvenanceManifest(JSON.parse(JSON.stringify(signed)))).toEqual({
+      valid: true,
+      keyId: signed.manifest.keyId,
+      manifest: signed.manifest
+    });
+  });
+
+  it('rejects a tampered manifest', () => {
+    const signed = createSigned();
+
+    const result = verifyProvenanceManifest({ ...signed, manifest: { ...signed.manifest, model: 'other-model' } });
+
+    expect(result.valid).toBe(false);
+    expect(result.manifest?.model).toBe('other-model');
+  });
+
+  it('returns no manifest for malformed input', () => {
+    const { manifest, signature } = createSigned();
+    const empty = { valid: false, keyId: null, manifest: null };
+
+    expect(verifyProvenanceManifest(null)).toEqual(empty);
+    expect(verifyProvenanceManifest('manifest')).toEqual(empty);
+    expect(verifyProvenanceManifest({ manifest })).toEqual(empty);
+    expect(verifyProvenanceManifest({ manifest: { ...manifest, action: 'upscale' }, signature })).toEqual(empty);
+    expect(verifyProvenanceManifest({ manifest: { ...manifest, inputs: [{ role: 'primary' }] }, signature })).toEqual(empty);
+  });
+});
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { computeWatermarkMac, getWatermarkKeyId } from './watermarkUtils.js';
+import type { ProvenanceManifest, SignedProvenanceManifest } from '../../types.js';
+
+// 清单在 XMP 中使用的命名空间
+const PROVENANCE_NAMESPACE = 'urn:nano-bananary:provenance:1.0';
+
+// IPTC 数字来源类型：文生图为模型生成，编辑为原图与模型生成内容的合成
+const DIGITAL_SOURCE_TYPES: Record<ProvenanceManifest['action'], string> = {
+  generate: 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia',
+  edit: 'http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia'
+};
+
+const INPUT_ROLES = ['primary', 'secondary', 'mask'];
+
+/**
+ * 内容溯源清单的校验结果：valid 表示签名有效且由当前密钥签名
+ */
+export interface ProvenanceVerification {
+  valid: boolean;
+  keyId: string | null;
+  manifest: ProvenanceManifest | null;
+}
+
+/**
+ * 计算 SHA-256（十六进制）
+ */
+const sha256Hex = (data: string | Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * 是否为可按字段读取的对象（不含数组）
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * 按键名排序序列化，签名和校验时得到相同的字节
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (isRecord(value)) {
+    const entries = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const computeSignature = (manifest: ProvenanceManifest): string =>
+  computeWatermarkMac(`provenance:${canonicalJson(manifest)}`).toString('base64url');
+
+/**
+ * 生成签名的内容溯源清单，输入图片为 base64 数据（可以是 data URL），按解码后的字节计算哈希
+ */
+export const createProvenanceManifest = (data: {
+  action: ProvenanceManifest['action'];
+  generationId: string;
+  model: string;
+  presetKey: string | null;
+  prompt: string;
+  inputs: Array<{ role: ProvenanceManifest['inputs'][number]['role']; base64: string }>;
+}): SignedProvenanceManifest => {
+  const manifest: ProvenanceManifest = {
+    version: 1,
+    action: data.action,
+    generationId: data.generationId,
+    model: data.model,
+    presetKey: data.presetKey,
+    promptHash: sha256Hex(data.prompt),
+    inputs: data.inputs.map(({ role, base64 }) => ({
+      role,
+      sha256: sha256Hex(Buffer.from(base64.replace(/^data:[^,]*,/, ''), 'base64'))
+    })),
+    timestamp: new Date().toISOString(),
+    keyId: getWatermarkKeyId()
+  };
+  return { manifest, signature: computeSignature(manifest) };
+};
+
+/**
+ * 检查清单的字段是否符合格式
+ */
+const isManifest = (value: unknown): value is ProvenanceManifest =>
+  isRecord(value) && value.version === 1
+  && typeof value.action === 'string' && Object.keys(DIGITAL_SOURCE_TYPES).includes(value.action)
+  && typeof value.generationId === 'string' && typeof value.model === 'string'
+  && (value.presetKey === null || typeof value.presetKey === 'string')
+  && typeof value.promptHash === 'string' && typeof value.timestamp === 'string' && typeof value.keyId === 'string'
+  && Array.isArray(value.inputs)
+  && value.inputs.every((input: unknown) =>
+    isRecord(input) && typeof input.role === 'string' && INPUT_ROLES.includes(input.role) && typeof input.sha256 === 'string'
+  );
+
+/**
+ * 校验签名的清单；格式不符时 manifest 为 null，由其他密钥签名或内容被篡改时 valid 为 false
+ */
+export const verifyProvenanceManifest = (input: unknown): ProvenanceVerification => {
+  const manifest = isRecord(input) && isManifest(input.manifest) ? input.manifest : null;
+  const signature = isRecord(input) ? input.signature : undefined;
+  if (!manifest || typeof signature !== 'string') {
+    return { valid: false, keyId: null, manifest: null };
+  }
+
+  const expected = Buffer.from(computeSignature(manifest));
+  const actual = Buffer.from(signature);
+  return {
+    valid: manifest.keyId === getWatermarkKeyId() && expected.length === actual.length && crypto.timingSafeEqual(expected, actual),
+    keyId: manifest.keyId,
+    manifest
+  };
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string): string =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+/**
+ * 生成写入图片的 XMP：除签名的清单外，写入 IPTC 数字来源类型和生成工具，便于其他软件识别 AI 生成内容
+ * PNG 中 XMP 保存在 iTXt 文本块中
+ */
+export const toProvenanceXmp = ({ manifest, signature }: SignedProvenanceManifest): string => [
+  '<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+  '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+  `<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/" xmlns:nb="${PROVENANCE_NAMESPACE}">`,
+  `<xmp:CreatorTool>${escapeXml(manifest.model)}</xmp:CreatorTool>`,
+  `<Iptc4xmpExt:DigitalSourceType>${DIGITAL_SOURCE_TYPES[manifest.action]}</Iptc4xmpExt:DigitalSourceType>`,
+  `<nb:Manifest>${escapeXml(canonicalJson(manifest))}</nb:Manifest>`,
+  `<nb:Signature>${escapeXml(signature)}</nb:Signature>`,
+  '</rdf:Description>',
+  '</rdf:RDF>',
+  '</x:xmpmeta>',
+  '<?xpacket end="w"?>'
+].join('\n');
+
+/**
+ * 读取图片 XMP 中的内容溯源清单，图片无法解析或没有清单时返回 null
+ */
+export const extractProvenanceManifest = async (image: Buffer): Promise<{ manifest: unknown; signature: string } | null> => {
+  const metadata = await sharp(image).metadata().catch(() => null);
+  const xmp = metadata?.xmp?.toString('utf8');
+  const manifestText = xmp?.match(/<nb:Manifest>([^<]*)<\/nb:Manifest>/)?.[1];
+  const signature = xmp?.match(/<nb:Signature>([^<]*)<\/nb:Signature>/)?.[1];
+  if (manifestText === undefined || signature === undefined) {
+    return null;
+  }
+  try {
+    return { manifest: JSON.parse(unescapeXml(manifestText)), signature: unescapeXml(signature) };
+  } catch {
+    return null;
+  }
+};
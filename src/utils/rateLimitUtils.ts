@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+
+// 计数窗口（毫秒）
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * 按客户端 IP 限制请求频率的中间件（固定窗口，进程内计数）
+ * limit 为每分钟允许的请求数，可由 envName 指定的环境变量覆盖（需为正整数，否则使用默认值）
+ * 超出时返回 429 和 Retry-After 响应头；应放在读取请求体之前，被拒绝的请求不再读取上传内容
+ */
+export const rateLimitMiddleware = (envName: string, defaultLimit: number) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  let nextCleanupAt = 0;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const configured = Number(process.env[envName]);
+    const limit = Number.isInteger(configured) && configured > 0 ? configured : defaultLimit;
+    const now = Date.now();
+
+    // 定期清理已过期的窗口
+    if (now >= nextCleanupAt) {
+      for (const [key, window] of windows) {
+        if (window.resetAt <= now) {
+          windows.delete(key);
+        }
+      }
+      nextCleanupAt = now + WINDOW_MS;
+    }
+
+    const key = req.ip ?? 'unknown';
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + WINDOW_MS };
+      windows.set(key, window);
+    }
+
+    window.count++;
+    if (window.count > limit) {
+      res.set('Retry-After', `${Math.ceil((window.resetAt - now) / 1000)}`);
+      res.status(429).json({ error: 'Too many requests' });
+      return;
+    }
+    next();
+  };
+};
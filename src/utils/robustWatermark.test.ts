@@ -0,0 +1,85 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { detectRobustWatermark, embedRobustWatermark, toRobustWatermarkId } from './robustWatermark.js';
+
+const WIDTH = 640;
+const HEIGHT = 480;
+const GENERATION_ID = '3f2a9c1e-7b44-4d21-9a0e-55c1d2e3f4a5';
+
+/**
+ * 可复现的伪随机数（mulberry32）
+ */
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * 生成带纹理的测试图片（渐变、不同方向的条纹和噪声），接近照片的频谱而不是纯色
+ */
+const createTexturedImage = async (): Promise<Buffer> => {
+  const random = createRandom(42);
+  const pixels = Buffer.alloc(WIDTH * HEIGHT * 3);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const base = 90 + 60 * (x / WIDTH) + 40 * Math.sin(x / 37 + y / 53) + 25 * Math.sin((x * y) / 9000);
+      const p = (y * WIDTH + x) * 3;
+      pixels[p] = Math.max(0, Math.min(255, base + 30 * Math.sin(y / 11) + 20 * (random() - 0.5)));
+      pixels[p + 1] = Math.max(0, Math.min(255, base + 20 * (random() - 0.5)));
+      pixels[p + 2] = Math.max(0, Math.min(255, base - 30 * Math.cos(x / 17) + 20 * (random() - 0.5)));
+    }
+  }
+  return sharp(pixels, { raw: { width: WIDTH, height: HEIGHT, channels: 3 } }).blur(0.8).png().toBuffer();
+};
+
+const embed = async (image: Buffer): Promise<Buffer> => {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+  expect(embedRobustWatermark(data, info.width, info.height, info.channels, GENERATION_ID)).toBe(true);
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } }).png().toBuffer();
+};
+
+describe('robust watermark', () => {
+  const expectedId = toRobustWatermarkId(GENERATION_ID);
+  let original: Buffer;
+  let marked: Buffer;
+
+  beforeAll(async () => {
+    original = await createTexturedImage();
+    marked = await embed(original);
+  });
+
+  it('is detected in the lossless image', async () => {
+    expect(await detectRobustWatermark(marked)).toBe(expectedId);
+  });
+
+  it('survives JPEG recompression at quality 70', async () => {
+    const jpeg = await sharp(marked).jpeg({ quality: 70 }).toBuffer();
+    expect(await detectRobustWatermark(jpeg)).toBe(expectedId);
+  });
+
+  it('survives a 50% downscale', async () => {
+    const half = await sharp(marked).resize(WIDTH / 2).png().toBuffer();
+    expect(await detectRobustWatermark(half)).toBe(expectedId);
+  });
+
+  it('survives cropping', async () => {
+    const cropped = await sharp(marked).extract({ left: 37, top: 53, width: 400, height: 300 }).png().toBuffer();
+    expect(await detectRobustWatermark(cropped)).toBe(expectedId);
+  });
+
+  it('survives a downscale followed by JPEG recompression', async () => {
+    const half = await sharp(marked).resize(WIDTH / 2).jpeg({ quality: 70 }).toBuffer();
+    expect(await detectRobustWatermark(half)).toBe(expectedId);
+  });
+
+  it('returns null for an unmarked image', async () => {
+    expect(await detectRobustWatermark(original)).toBeNull();
+    expect(await detectRobustWatermark(await sharp(original).jpeg({ quality: 70 }).toBuffer())).toBeNull();
+  });
+
+  it('returns null for data that is not an image', async () => {
+    expect(await detectRobustWatermark(Buffer.from('not an image'))).toBeNull();
+  });
+});
@@ -0,0 +1,275 @@
+import sharp from 'sharp';
+import { MAX_WATERMARK_INPUT_PIXELS, computeWatermarkMac } from './watermarkUtils.js';
+
+/**
+ * 抗压缩、缩放和裁剪的频域水印（DCT）
+ *
+ * - 载荷 80 位：8 位标记 + 生成记录ID前 40 位 + 32 位签名（HMAC），用 Hamming(7,4) 编码为 140 位
+ * - 亮度通道按 16×16 分块，每块把两个低频 DCT 系数的差值量化到对应的格点上表示一位（QIM）；
+ *   12×12 块为一组铺满全图，编码后的位按组内位置重复写入，检测时汇总所有重复位
+ * - 检测时依次尝试若干缩放比例、分块偏移和组内起点，签名一致才认为找到水印
+ */
+
+const BLOCK_SIZE = 16;
+const TILE_SIZE = 12;
+const TILE_CELLS = TILE_SIZE * TILE_SIZE;
+// 量化步长：0 对应步长的整数倍，1 对应半步长处；越大越稳健，画面改动也越明显（每块最多调整半个步长）
+const QUANTIZATION_STEP = 128;
+
+const MAGIC = 0xa7;
+const ID_HEX_LENGTH = 10;
+const TAG_BITS = 32;
+const PAYLOAD_BITS = 8 + ID_HEX_LENGTH * 4 + TAG_BITS;
+const CODED_BITS = (PAYLOAD_BITS / 4) * 7;
+
+// 检测时尝试的放大比例（1 为原尺寸，2 对应缩小一半后的图片）
+const DETECTION_SCALES = [1, 2, 1.5];
+// 检测时每个方向最多使用的分块数，大图只检测中间区域
+const MAX_DETECTION_BLOCKS = 48;
+// 放大后的检测图片最大边长
+const MAX_DETECTION_DIMENSION = 4096;
+
+/**
+ * 两个 DCT 系数 (u=1,v=2) 与 (u=2,v=1) 的基函数之差：与分块做内积得到两个系数的差值
+ */
+const PATTERN = (() => {
+  const scale = Math.sqrt(2 / BLOCK_SIZE);
+  const basis = (k: number, x: number) => scale * Math.cos(((2 * x + 1) * k * Math.PI) / (2 * BLOCK_SIZE));
+  const pattern = new Float64Array(BLOCK_SIZE * BLOCK_SIZE);
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    for (let x = 0; x < BLOCK_SIZE; x++) {
+      pattern[y * BLOCK_SIZE + x] = basis(1, x) * basis(2, y) - basis(2, x) * basis(1, y);
+    }
+  }
+  return pattern;
+})();
+
+/**
+ * Hamming(7,4) 编码：4 位数据 + 3 位校验
+ */
+const hammingEncode = ([d1, d2, d3, d4]: number[]): number[] => [d1, d2, d3, d4, d1 ^ d2 ^ d4, d1 ^ d3 ^ d4, d2 ^ d3 ^ d4];
+
+const HAMMING_CODEWORDS = Array.from({ length: 16 }, (_, value) =>
+  hammingEncode([3, 2, 1, 0].map(shift => (value >> shift) & 1))
+);
+
+/**
+ * 软判决译码：选择与软判决值相关性最大的码字
+ */
+const hammingDecodeSoft = (soft: Float64Array, offset: number): number[] => {
+  let best = HAMMING_CODEWORDS[0];
+  let bestScore = -Infinity;
+  for (const codeword of HAMMING_CODEWORDS) {
+    let score = 0;
+    for (let i = 0; i < 7; i++) {
+      score += codeword[i] ? soft[offset + i] : -soft[offset + i];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      best = codeword;
+    }
+  }
+  return best.slice(0, 4);
+};
+
+const toBits = (value: number, length: number): number[] =>
+  Array.from({ length }, (_, i) => (value >> (length - 1 - i)) & 1);
+
+const fromBits = (bits: number[]): number => bits.reduce((value, bit) => value * 2 + bit, 0);
+
+/**
+ * 载荷签名：只取前 32 位，用于确认检测结果
+ * 一次检测约尝试 3 × 256 × 144 ≈ 2^17 次译码，标记和签名共 40 位，没有水印的图片误匹配的概率约为 2^-23
+ */
+const computeTag = (idHex: string): number => computeWatermarkMac(`robust:${idHex}`).readUIntBE(0, TAG_BITS / 8);
+
+/**
+ * 生成记录ID写入水印的部分（去掉连字符后的前 10 位十六进制）
+ */
+export const toRobustWatermarkId = (generationId: string): string =>
+  generationId.replace(/-/g, '').slice(0, ID_HEX_LENGTH).toLowerCase();
+
+/**
+ * 编码生成记录ID，得到写入图片的 140 位
+ */
+const encodePayload = (generationId: string): number[] => {
+  const idHex = toRobustWatermarkId(generationId);
+  const bits = [
+    ...toBits(MAGIC, 8),
+    ...idHex.split('').flatMap(char => toBits(parseInt(char, 16), 4)),
+    ...toBits(computeTag(idHex), TAG_BITS)
+  ];
+  const coded: number[] = [];
+  for (let i = 0; i < bits.length; i += 4) {
+    coded.push(...hammingEncode(bits.slice(i, i + 4)));
+  }
+  return coded;
+};
+
+/**
+ * 译码并校验签名，成功时返回生成记录ID的前 10 位
+ */
+const decodePayload = (soft: Float64Array): string | null => {
+  const bits: number[] = [];
+  for (let i = 0; i < CODED_BITS; i += 7) {
+    bits.push(...hammingDecodeSoft(soft, i));
+  }
+  if (fromBits(bits.slice(0, 8)) !== MAGIC) {
+    return null;
+  }
+  let idHex = '';
+  for (let i = 8; i < 8 + ID_HEX_LENGTH * 4; i += 4) {
+    idHex += fromBits(bits.slice(i, i + 4)).toString(16);
+  }
+  return fromBits(bits.slice(8 + ID_HEX_LENGTH * 4)) === computeTag(idHex) ? idHex : null;
+};
+
+/**
+ * 计算亮度通道
+ */
+const toLuminance = (pixels: Uint8Array, width: number, height: number, channels: number): Float64Array => {
+  const luminance = new Float64Array(width * height);
+  for (let i = 0, p = 0; i < luminance.length; i++, p += channels) {
+    luminance[i] = 0.299 * pixels[p] + 0.587 * pixels[p + 1] + 0.114 * pixels[p + 2];
+  }
+  return luminance;
+};
+
+/**
+ * 分块与基函数之差的内积，即两个系数的差值
+ */
+const blockDifference = (luminance: Float64Array, width: number, left: number, top: number): number => {
+  let sum = 0;
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    const row = (top + y) * width + left;
+    for (let x = 0; x < BLOCK_SIZE; x++) {
+      sum += luminance[row + x] * PATTERN[y * BLOCK_SIZE + x];
+    }
+  }
+  return sum;
+};
+
+/**
+ * 把水印写入像素数据（原地修改，RGB 通道同步调整亮度）
+ * 图片不足一组分块时不做修改并返回 false
+ */
+export const embedRobustWatermark = (
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  channels: number,
+  generationId: string
+): boolean => {
+  const blocksX = Math.floor(width / BLOCK_SIZE);
+  const blocksY = Math.floor(height / BLOCK_SIZE);
+  if (blocksX * blocksY < TILE_CELLS) {
+    return false;
+  }
+
+  const coded = encodePayload(generationId);
+  const luminance = toLuminance(pixels, width, height, channels);
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      const bit = coded[((bx % TILE_SIZE) + TILE_SIZE * (by % TILE_SIZE)) % CODED_BITS];
+      const left = bx * BLOCK_SIZE;
+      const top = by * BLOCK_SIZE;
+      const difference = blockDifference(luminance, width, left, top);
+
+      // 把差值移到该位对应的最近格点上
+      const latticeOffset = bit ? QUANTIZATION_STEP / 2 : 0;
+      const target = Math.round((difference - latticeOffset) / QUANTIZATION_STEP) * QUANTIZATION_STEP + latticeOffset;
+
+      // 叠加 k 倍的基函数之差会使差值增加 2k（两个基函数正交归一）
+      const k = (target - difference) / 2;
+      for (let y = 0; y < BLOCK_SIZE; y++) {
+        for (let x = 0; x < BLOCK_SIZE; x++) {
+          const delta = k * PATTERN[y * BLOCK_SIZE + x];
+          const p = ((top + y) * width + left + x) * channels;
+          for (let c = 0; c < 3; c++) {
+            pixels[p + c] = Math.max(0, Math.min(255, Math.round(pixels[p + c] + delta)));
+          }
+        }
+      }
+    }
+  }
+  return true;
+};
+
+/**
+ * 在亮度数据中搜索水印：遍历分块偏移，汇总每个组内位置的软判决值后遍历组内起点译码
+ */
+const searchLuminance = (luminance: Float64Array, width: number, height: number): string | null => {
+  const cellSums = new Float64Array(TILE_CELLS);
+  const soft = new Float64Array(CODED_BITS);
+
+  for (let offsetY = 0; offsetY < BLOCK_SIZE; offsetY++) {
+    for (let offsetX = 0; offsetX < BLOCK_SIZE; offsetX++) {
+      const availableX = Math.floor((width - offsetX) / BLOCK_SIZE);
+      const availableY = Math.floor((height - offsetY) / BLOCK_SIZE);
+      const blocksX = Math.min(availableX, MAX_DETECTION_BLOCKS);
+      const blocksY = Math.min(availableY, MAX_DETECTION_BLOCKS);
+      if (blocksX * blocksY < TILE_CELLS) continue;
+      const startX = offsetX + Math.floor((availableX - blocksX) / 2) * BLOCK_SIZE;
+      const startY = offsetY + Math.floor((availableY - blocksY) / 2) * BLOCK_SIZE;
+
+      cellSums.fill(0);
+      for (let j = 0; j < blocksY; j++) {
+        for (let i = 0; i < blocksX; i++) {
+          const difference = blockDifference(luminance, width, startX + i * BLOCK_SIZE, startY + j * BLOCK_SIZE);
+          // 软判决值：位于半步长格点时为 1，位于整数倍格点时为 -1，没有水印的分块平均为 0
+          const value = -Math.cos((2 * Math.PI * difference) / QUANTIZATION_STEP);
+          cellSums[(i % TILE_SIZE) + TILE_SIZE * (j % TILE_SIZE)] += value;
+        }
+      }
+
+      // 检测区域左上角的分块在组内的位置未知，逐个尝试
+      for (let phaseY = 0; phaseY < TILE_SIZE; phaseY++) {
+        for (let phaseX = 0; phaseX < TILE_SIZE; phaseX++) {
+          soft.fill(0);
+          for (let j = 0; j < TILE_SIZE; j++) {
+            for (let i = 0; i < TILE_SIZE; i++) {
+              const cell = ((i + phaseX) % TILE_SIZE) + TILE_SIZE * ((j + phaseY) % TILE_SIZE);
+              soft[cell % CODED_BITS] += cellSums[i + TILE_SIZE * j];
+            }
+          }
+          const idHex = decodePayload(soft);
+          if (idHex) {
+            return idHex;
+          }
+        }
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * 检测图片中的频域水印，找到时返回生成记录ID的前 10 位，图片无法解析、超出像素上限或没有水印时返回 null
+ * 检测较慢，请求处理中应通过 detectRobustWatermarkInWorker 在 worker 线程中执行
+ */
+export const detectRobustWatermark = async (image: Buffer): Promise<string | null> => {
+  const metadata = await sharp(image).metadata().catch(() => null);
+  if (!metadata?.width || !metadata?.height || metadata.width * metadata.height > MAX_WATERMARK_INPUT_PIXELS) {
+    return null;
+  }
+
+  for (const scale of DETECTION_SCALES) {
+    const width = Math.round(metadata.width * scale);
+    const height = Math.round(metadata.height * scale);
+    if (Math.max(width, height) > MAX_DETECTION_DIMENSION) continue;
+
+    let pipeline = sharp(image, { limitInputPixels: MAX_WATERMARK_INPUT_PIXELS }).toColourspace('srgb');
+    if (scale !== 1) {
+      pipeline = pipeline.resize({ width, height, fit: 'fill' });
+    }
+    const { data, info } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+    if (info.channels < 3) continue;
+
+    const idHex = searchLuminance(toLuminance(data, info.width, info.height, info.channels), info.width, info.height);
+    if (idHex) {
+      return idHex;
+    }
+  }
+  return null;
+};
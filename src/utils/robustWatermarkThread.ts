@@ -0,0 +1,102 @@
+import { Worker, parentPort, workerData } from 'worker_threads';
+import { detectRobustWatermark } from './robustWatermark.js';
+import { getWatermarkSecret } from './watermarkUtils.js';
+
+/**
+ * 在 worker 线程中检测频域水印，避免遍历分块偏移的搜索阻塞处理请求的主线程
+ * 所有检测共用一个常驻线程；线程异常退出时，未完成的检测失败，下次检测时重新创建线程
+ */
+
+// 创建线程时传入的标记，用于区分本模块作为 worker 入口加载
+const THREAD_MARKER = 'robust-watermark-detector';
+
+interface DetectionRequest {
+  id: number;
+  image: Uint8Array;
+}
+
+interface DetectionResponse {
+  id: number;
+  idHex?: string | null;
+  error?: string;
+}
+
+let detector: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (idHex: string | null) => void; reject: (error: Error) => void }>();
+
+/**
+ * 使所有未完成的检测失败
+ */
+const rejectPendingRequests = (error: Error): void => {
+  for (const { reject } of pendingRequests.values()) {
+    reject(error);
+  }
+  pendingRequests.clear();
+};
+
+/**
+ * 获取检测线程，不存在时创建
+ * 线程与主线程使用同一个水印密钥（未配置 WATERMARK_SECRET 时为主线程的随机密钥）
+ */
+const getDetector = (): Worker => {
+  if (detector) {
+    return detector;
+  }
+
+  const worker = new Worker(new URL(import.meta.url), {
+    workerData: THREAD_MARKER,
+    env: { ...process.env, WATERMARK_SECRET: getWatermarkSecret() }
+  });
+  // 空闲的检测线程不阻止进程退出
+  worker.unref();
+
+  worker.on('message', ({ id, idHex, error }: DetectionResponse) => {
+    const request = pendingRequests.get(id);
+    if (!request) return;
+    pendingRequests.delete(id);
+    if (error) {
+      request.reject(new Error(error));
+    } else {
+      request.resolve(idHex ?? null);
+    }
+  });
+  worker.on('error', error => {
+    console.error('Robust watermark detector failed:', error);
+  });
+  worker.on('exit', code => {
+    if (detector === worker) {
+      detector = null;
+    }
+    rejectPendingRequests(new Error(`Robust watermark detector exited with code ${code}`));
+  });
+
+  detector = worker;
+  return worker;
+};
+
+/**
+ * 在 worker 线程中检测图片中的频域水印，结果与 detectRobustWatermark 相同
+ */
+export const detectRobustWatermarkInWorker = (image: Buffer): Promise<string | null> => {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+    const request: DetectionRequest = { id, image };
+    getDetector().postMessage(request);
+  });
+};
+
+// 作为 worker 入口加载时，处理主线程发来的检测请求
+if (workerData === THREAD_MARKER && parentPort) {
+  const port = parentPort;
+  port.on('message', async ({ id, image }: DetectionRequest) => {
+    let response: DetectionResponse;
+    try {
+      response = { id, idHex: await detectRobustWatermark(Buffer.from(image.buffer, image.byteOffset, image.byteLength)) };
+    } catch (error) {
+      response = { id, error: error instanceof Error ? error.message : 'Robust watermark detection failed' };
+    }
+    port.postMessage(response);
+  });
+}
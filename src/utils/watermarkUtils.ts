@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { extractLsbWatermark } from '../../utils/watermarkCodec.js';
+import { getWatermarkMode } from '../models/accountModel.js';
+import type { WatermarkMode } from '../../types.js';
+
+// 服务端签名水印的前缀（含格式版本），格式为 <前缀><base64url(JSON 声明)>.<签名>
+const SIGNED_PAYLOAD_PREFIX = 'NB1:';
+// 读取水印时允许解码的最大像素数（结果图片每边不超过 4096 像素）
+export const MAX_WATERMARK_INPUT_PIXELS = 4096 * 4096;
+
+/**
+ * 签名水印中的声明
+ */
+export interface WatermarkClaims {
+  userId: string;
+  generationId: string;
+  // 生成时间（Unix 秒）
+  timestamp: number;
+}
+
+/**
+ * 水印的校验结果：signed 表示是否为服务端签名的水印格式，valid 表示签名是否有效（内容被篡改时为 false）
+ */
+export interface WatermarkVerification {
+  payload: string;
+  signed: boolean;
+  valid: boolean;
+  keyId: string | null;
+  claims: WatermarkClaims | null;
+}
+
+/**
+ * 写入结果图片的水印：payload 为签名的 LSB 水印文本，robust 模式下额外写入生成记录ID的频域水印
+ */
+export interface OutputWatermark {
+  payload: string;
+  generationId: string;
+  mode: WatermarkMode;
+}
+
+// 未配置 WATERMARK_SECRET 时使用进程内随机密钥，重启后之前嵌入的水印无法通过校验
+let fallbackSecret: string | null = null;
+
+/**
+ * 获取水印签名密钥，检测频域水印的 worker 线程需使用同一个密钥
+ */
+export const getWatermarkSecret = (): string => {
+  if (process.env.WATERMARK_SECRET) {
+    return process.env.WATERMARK_SECRET;
+  }
+  if (!fallbackSecret) {
+    fallbackSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+};
+
+/**
+ * 当前签名密钥的ID（密钥哈希的前 16 位），用于识别水印由哪个密钥签名
+ */
+export const getWatermarkKeyId = (): string =>
+  crypto.createHash('sha256').update(getWatermarkSecret()).digest('hex').slice(0, 16);
+
+/**
+ * 使用当前水印密钥计算 HMAC-SHA256
+ */
+export const computeWatermarkMac = (data: string): Buffer =>
+  crypto.createHmac('sha256', getWatermarkSecret()).update(data).digest();
+
+const computeSignature = (encodedClaims: string): string => computeWatermarkMac(encodedClaims).toString('base64url');
+
+/**
+ * 生成签名的水印文本，包含用户ID、生成记录ID、时间和密钥ID
+ */
+export const createWatermarkPayload = (userId: string, generationId: string): string => {
+  const encodedClaims = Buffer.from(JSON.stringify({
+    u: userId,
+    g: generationId,
+    t: Math.floor(Date.now() / 1000),
+    k: getWatermarkKeyId()
+  })).toString('base64url');
+  return `${SIGNED_PAYLOAD_PREFIX}${encodedClaims}.${computeSignature(encodedClaims)}`;
+};
+
+/**
+ * 按用户的水印模式生成结果图片的水印
+ */
+export const createOutputWatermark = async (userId: string, generationId: string): Promise<OutputWatermark> => ({
+  payload: createWatermarkPayload(userId, generationId),
+  generationId,
+  mode: await getWatermarkMode(userId)
+});
+
+/**
+ * 校验水印文本；不是签名格式的水印（如旧客户端嵌入的文本）只返回原文
+ */
+export const verifyWatermarkPayload = (payload: string): WatermarkVerification => {
+  if (!payload.startsWith(SIGNED_PAYLOAD_PREFIX)) {
+    return { payload, signed: false, valid: false, keyId: null, claims: null };
+  }
+  const malformed = { payload, signed: true, valid: false, keyId: null, claims: null };
+
+  const [encodedClaims, signature, ...rest] = payload.slice(SIGNED_PAYLOAD_PREFIX.length).split('.');
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString('utf8'));
+  } catch {
+    return malformed;
+  }
+  if (rest.length || !signature || typeof decoded?.u !== 'string' || typeof decoded?.g !== 'string' || !Number.isInteger(decoded?.t)) {
+    return malformed;
+  }
+
+  const expected = Buffer.from(computeSignature(encodedClaims));
+  const actual = Buffer.from(signature);
+  const keyId = typeof decoded.k === 'string' ? decoded.k : null;
+  return {
+    payload,
+    signed: true,
+    // 由其他密钥签名的水印无法用当前密钥校验
+    valid: keyId === getWatermarkKeyId() && expected.length === actual.length && crypto.timingSafeEqual(expected, actual),
+    keyId,
+    claims: { userId: decoded.u, generationId: decoded.g, timestamp: decoded.t }
+  };
+};
+
+/**
+ * 只读取图片头部判断像素数是否超出上限，超出的图片不应再解码；无法解析的图片返回 false
+ */
+export const exceedsWatermarkInputPixels = async (image: Buffer): Promise<boolean> => {
+  const metadata = await sharp(image).metadata().catch(() => null);
+  return !!metadata?.width && !!metadata?.height && metadata.width * metadata.height > MAX_WATERMARK_INPUT_PIXELS;
+};
+
+/**
+ * 读取图片中的 LSB 水印，图片无法解析、超出像素上限或没有水印时返回 null
+ */
+export const extractImageWatermark = async (image: Buffer): Promise<string | null> => {
+  const decoded = await sharp(image, { limitInputPixels: MAX_WATERMARK_INPUT_PIXELS })
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+    .catch(() => null);
+  if (!decoded || decoded.info.channels < 3) {
+    return null;
+  }
+  return extractLsbWatermark(decoded.data, decoded.info.channels);
+};
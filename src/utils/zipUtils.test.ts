@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zipUtils.js';
+
+describe('createZip', () => {
+  it('stores each entry uncompressed with a UTF-8 name', () => {
+    const data = Buffer.from('hello world');
+    const zip = createZip([{ name: '图片-1.png', data }]);
+    const name = Buffer.from('图片-1.png', 'utf8');
+
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    expect(zip.readUInt16LE(6)).toBe(0x0800);
+    // 压缩方式 0：仅存储
+    expect(zip.readUInt16LE(8)).toBe(0);
+    // "hello world" 的 CRC-32
+    expect(zip.readUInt32LE(14)).toBe(0x0d4a1185);
+    expect(zip.readUInt32LE(18)).toBe(data.length);
+    expect(zip.readUInt16LE(26)).toBe(name.length);
+    expect(zip.subarray(30, 30 + name.length).equals(name)).toBe(true);
+    expect(zip.subarray(30 + name.length, 30 + name.length + data.length).equals(data)).toBe(true);
+  });
+
+  it('writes a central directory pointing at every local entry', () => {
+    const entries = [
+      { name: 'a.png', data: Buffer.from('first') },
+      { name: 'b.png', data: Buffer.from('second entry') }
+    ];
+    const zip = createZip(entries);
+
+    const end = zip.subarray(zip.length - 22);
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(2);
+
+    let central = end.readUInt32LE(16);
+    for (const entry of entries) {
+      expect(zip.readUInt32LE(central)).toBe(0x02014b50);
+      const nameLength = zip.readUInt16LE(central + 28);
+      expect(zip.toString('utf8', central + 46, central + 46 + nameLength)).toBe(entry.name);
+
+      const local = zip.readUInt32LE(central + 42);
+      expect(zip.readUInt32LE(local)).toBe(0x04034b50);
+      const dataStart = local + 30 + zip.readUInt16LE(local + 26);
+      expect(zip.subarray(dataStart, dataStart + entry.data.length).equals(entry.data)).toBe(true);
+
+      central += 46 + nameLength;
+    }
+  });
+});
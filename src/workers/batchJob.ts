@@ -0,0 +1,103 @@
+import {
+  claimNextBatchItem,
+  completeBatchItem,
+  failBatchItem,
+  getBatchItems,
+  resetInterruptedBatchItems,
+  updateBatchStatus
+} from '../models/batchModel.js';
+import { EDIT_IMAGE_JOB, abandonEditImageJob, processEditImageJob } from './editImageJob.js';
+import type { EditImageJobPayload } from './editImageJob.js';
+import type { Job } from '../../types.js';
+import type { JobContext } from './jobWorker.js';
+
+/**
+ * 批量处理任务参数，edit 为所有条目共用的编辑参数
+ */
+export interface BatchJobPayload {
+  batchId: string;
+  edit: Omit<EditImageJobPayload, 'imageAssetId'>;
+}
+
+export const BATCH_JOB = 'batch';
+
+// 单个批次内同时处理的条目数，可通过 BATCH_ITEM_CONCURRENCY 环境变量配置
+const DEFAULT_ITEM_CONCURRENCY = 2;
+
+/**
+ * 处理批量任务
+ * 条目按顺序领取并以有限并发执行，每个条目单独预留和扣除积分；
+ * 单个条目失败不影响其他条目，批次在所有条目结束后完成
+ */
+export const processBatchJob = async (
+  job: Job<BatchJobPayload>,
+  { reportProgress }: JobContext
+): Promise<{ batchId: string; succeeded: number; failed: number }> => {
+  const { batchId, edit } = job.payload;
+  const concurrency = Math.max(1, parseInt(process.env.BATCH_ITEM_CONCURRENCY || `${DEFAULT_ITEM_CONCURRENCY}`, 10));
+
+  // 恢复上次中断执行时处理到一半的条目
+  await resetInterruptedBatchItems(batchId);
+  await updateBatchStatus(batchId, 'running');
+
+  const items = await getBatchItems(batchId);
+  let finished = items.filter(item => item.status === 'succeeded' || item.status === 'failed').length;
+  await reportProgress(finished / items.length, `items:${finished}/${items.length}`);
+
+  const runLane = async (): Promise<void> => {
+    while (true) {
+      const claimed = await claimNextBatchItem(batchId);
+      if (!claimed) return;
+
+      const { item, input } = claimed;
+      try {
+        // 每个条目作为一次独立的图像编辑执行，积分预留以条目ID为单号
+        const result = await processEditImageJob(
+          {
+            ...job,
+            id: item.id,
+            type: EDIT_IMAGE_JOB,
+            payload: { ...edit, ...input, batchId }
+          },
+          { reportProgress: async () => {} }
+        );
+        await completeBatchItem(item.id, result);
+      } catch (error) {
+        await failBatchItem(item.id, error instanceof Error ? error.message : 'Unknown error');
+      }
+
+      finished++;
+      await reportProgress(finished / items.length, `items:${finished}/${items.length}`);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runLane));
+  await updateBatchStatus(batchId, 'completed');
+
+  const finalItems = await getBatchItems(batchId);
+  return {
+    batchId,
+    succeeded: finalItems.filter(item => item.status === 'succeeded').length,
+    failed: finalItems.filter(item => item.status === 'failed').length
+  };
+};
+
+/**
+ * 清理中断次数过多而失败的批量任务
+ * 已结束的条目保持不变；处理中的条目（积分预留和使用记录以条目ID为单号）按图像编辑任务清理，
+ * 与未处理的条目一起标记失败，批次随之结束
+ */
+export const abandonBatchJob = async (job: Job<BatchJobPayload>): Promise<void> => {
+  const { batchId } = job.payload;
+
+  for (const item of await getBatchItems(batchId)) {
+    if (item.status === 'running') {
+      await abandonEditImageJob({ ...job, id: item.id, type: EDIT_IMAGE_JOB });
+    }
+    if (item.status === 'running' || item.status === 'pending') {
+      await failBatchItem(item.id, job.error ?? 'Job was interrupted too many times');
+    }
+  }
+
+  await updateBatchStatus(batchId, 'completed');
+};
@@ -0,0 +1,206 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { initDb, openDb } from '../db/db.js';
+import { createUser } from '../models/userModel.js';
+import { getUserAccount, getUserTransactions } from '../models/accountModel.js';
+import { createServiceUsage, getUserServiceUsages } from '../models/serviceUsageModel.js';
+import { createJob } from '../models/jobModel.js';
+import { storeAsset } from '../storage/assetStorage.js';
+import { EDIT_IMAGE_JOB, processEditImageJob } from './editImageJob.js';
+import type { EditImageJobPayload } from './editImageJob.js';
+import type { PipelineStep } from '../../types.js';
+
+// 任务不需要上报进度
+const context = { reportProgress: async () => {} };
+
+let storageDir: string;
+let imageAssetId: string;
+let userCount = 0;
+
+/**
+ * 创建余额为 balance 的测试用户
+ */
+const createTestUser = async (balance: number): Promise<string> => {
+  userCount++;
+  const { id } = await createUser(`editor${userCount}`, `editor${userCount}@example.com`, 'password');
+  const db = await openDb();
+  await db.run('UPDATE user_accounts SET balance = ? WHERE userId = ?', balance, id);
+  return id;
+};
+
+/**
+ * 创建使用 fake 提供方的图像编辑任务
+ */
+const createEditJob = (userId: string, steps: PipelineStep[], payload: Partial<EditImageJobPayload> = {}) =>
+  createJob<EditImageJobPayload>(userId, EDIT_IMAGE_JOB, {
+    imageAssetId,
+    steps,
+    maskAssetId: null,
+    secondaryImageAssetId: null,
+    transformationKey: 'customPrompt',
+    parameters: null,
+    provider: 'fake',
+    credits: 3,
+    ...payload
+  });
+
+const getHeldCredits = async (userId: string) => (await getUserAccount(userId))?.heldBalance;
+
+describe('edit image job', () => {
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'edit-image-job-'));
+    process.env.IMAGE_STORAGE_DIR = storageDir;
+    await initDb();
+
+    const owner = await createTestUser(0);
+    const image = await sharp({ create: { width: 64, height: 64, channels: 3, background: { r: 120, g: 80, b: 40 } } }).png().toBuffer();
+    imageAssetId = (await storeAsset(owner, image, 'image/png')).id;
+  });
+
+  afterAll(async () => {
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  it('charges a delivered result and records it in the gallery', async () => {
+    const userId = await createTestUser(10);
+    const job = await createEditJob(userId, [{ prompt: 'make it blue', useSecondaryImage: true }]);
+
+    const result = await processEditImageJob(job, context);
+
+    expect(result.imageUrl).toMatch(/^asset:/);
+    expect(result.generationId).toBeDefined();
+    expect(await getUserAccount(userId)).toMatchObject({ balance: 7, heldBalance: 0 });
+    const [usage] = await getUserServiceUsages(userId);
+    expect(usage).toMatchObject({ serviceKey: 'ai-image-edit', creditsUsed: 3, status: 'success' });
+    expect(JSON.parse(usage.details!)).toMatchObject({ jobId: job.id, provider: 'fake' });
+  });
+
+  it('records a failed attempt without charging when the provider fails', async () => {
+    const userId = await createTestUser(10);
+    const job = await createEditJob(userId, [{ prompt: 'make it blue [fake:safety]', useSecondaryImage: true }]);
+
+    await expect(processEditImageJob(job, context)).rejects.toThrow(/safety/);
+
+    expect((await getUserAccount(userId))?.balance).toBe(10);
+    expect(await getHeldCredits(userId)).toBe(0);
+    const usages = await getUserServiceUsages(userId);
+    expect(usages).toHaveLength(1);
+    expect(usages[0]).toMatchObject({ creditsUsed: 0, status: 'failed', failureReason: 'safety_blocked' });
+  });
+
+  it('records insufficient credits as a billing failure', async () => {
+    const userId = await createTestUser(2);
+    const job = await createEditJob(userId, [{ prompt: 'make it blue', useSecondaryImage: true }]);
+
+    await expect(processEditImageJob(job, context)).rejects.toThrow('Insufficient credits');
+
+    const [usage] = await getUserServiceUsages(userId);
+    expect(usage).toMatchObject({ status: 'failed', failureReason: 'insufficient_credits' });
+    expect(await getHeldCredits(userId)).toBe(0);
+  });
+
+  it('reuses delivered candidates when an interrupted job runs again', async () => {
+    const userId = await createTestUser(10);
+    const job = await createEditJob(userId, [{ prompt: 'make it blue', useSecondaryImage: true }], { variants: 2 });
+
+    const first = await processEditImageJob({ ...job, attempts: 1 }, context);
+    // 结果已交付并扣费，但任务在标记完成前中断
+    const second = await processEditImageJob({ ...job, attempts: 2 }, context);
+
+    expect(second.candidates!.map(candidate => [candidate.imageUrl, candidate.generationId]))
+      .toEqual(first.candidates!.map(candidate => [candidate.imageUrl, candidate.generationId]));
+    expect(await getUserAccount(userId)).toMatchObject({ balance: 4, heldBalance: 0 });
+    expect(await getUserServiceUsages(userId)).toHaveLength(2);
+    const db = await openDb();
+    expect((await db.get('SELECT COUNT(*) AS count FROM generations WHERE jobId = ?', job.id)).count).toBe(2);
+  });
+
+  describe('multi-step pipelines', () => {
+    const failingSteps: PipelineStep[] = [
+      { prompt: 'sketch it', keepOutput: true },
+      { prompt: 'color it [fake:error]' }
+    ];
+
+    afterEach(() => {
+      delete process.env.PARTIAL_FAILURE_REFUND_POLICY;
+    });
+
+    it('charges each step and keeps intermediate outputs', async () => {
+      const userId = await createTestUser(10);
+      const job = await createEditJob(userId, [{ prompt: 'sketch it', keepOutput: true }, { prompt: 'color it' }], { credits: 6 });
+
+      const result = await processEditImageJob(job, context);
+
+      expect(result.intermediates).toHaveLength(1);
+      expect(result.intermediates![0]).toMatchObject({ step: 1, imageUrl: expect.stringMatching(/^asset:/) });
+      expect((await getUserAccount(userId))?.balance).toBe(4);
+      const usages = await getUserServiceUsages(userId);
+      expect(usages.map(usage => [usage.status, usage.creditsUsed])).toEqual([['success', 3], ['success', 3]]);
+    });
+
+    it('charges whole credits per step with the remainder on the last step', async () => {
+      const userId = await createTestUser(20);
+      const job = await createEditJob(userId, [{ prompt: 'sketch it' }, { prompt: 'ink it' }, { prompt: 'color it' }], { credits: 10 });
+
+      await processEditImageJob(job, context);
+
+      expect(await getUserAccount(userId)).toMatchObject({ balance: 10, heldBalance: 0 });
+      const credits = (await getUserServiceUsages(userId)).map(usage => usage.creditsUsed);
+      expect(credits.sort()).toEqual([3, 3, 4]);
+      const transactions = await getUserTransactions(userId);
+      expect(transactions.every(transaction => Number.isInteger(transaction.amount))).toBe(true);
+    });
+
+    it('refunds whole credits when a step of an unevenly priced pipeline fails', async () => {
+      const userId = await createTestUser(20);
+      const job = await createEditJob(userId, [{ prompt: 'sketch it' }, { prompt: 'ink it' }, { prompt: 'color it [fake:error]' }], { credits: 10 });
+
+      await expect(processEditImageJob(job, context)).rejects.toThrow();
+
+      expect(await getUserAccount(userId)).toMatchObject({ balance: 20, heldBalance: 0 });
+      const refunded = (await getUserServiceUsages(userId)).filter(usage => usage.status === 'refunded');
+      expect(refunded.map(usage => usage.creditsUsed)).toEqual([3, 3]);
+    });
+
+    it('refunds earlier steps when a later step fails', async () => {
+      const userId = await createTestUser(10);
+      const job = await createEditJob(userId, failingSteps, { credits: 6 });
+
+      await expect(processEditImageJob(job, context)).rejects.toThrow();
+
+      expect(await getUserAccount(userId)).toMatchObject({ balance: 10, heldBalance: 0 });
+      const statuses = (await getUserServiceUsages(userId)).map(usage => usage.status).sort();
+      expect(statuses).toEqual(['failed', 'refunded']);
+    });
+
+    it('refunds steps charged before an interruption when the job runs again', async () => {
+      const userId = await createTestUser(7);
+      const job = await createEditJob(userId, [{ prompt: 'sketch it', keepOutput: true }, { prompt: 'color it' }], { credits: 6 });
+      // 上次执行在第一步扣费后中断
+      const interrupted = await createServiceUsage(userId, 'ai-image-edit', 3, 'success', JSON.stringify({ jobId: job.id, attempt: 1, step: 1 }));
+
+      await processEditImageJob({ ...job, attempts: 2 }, context);
+
+      expect(await getUserAccount(userId)).toMatchObject({ balance: 4, heldBalance: 0 });
+      const usages = await getUserServiceUsages(userId);
+      expect(usages.find(usage => usage.id === interrupted.id)?.status).toBe('refunded');
+      expect(usages.filter(usage => usage.status === 'success')).toHaveLength(2);
+    });
+
+    it('keeps earlier charges when the policy does not cover the failure', async () => {
+      process.env.PARTIAL_FAILURE_REFUND_POLICY = 'provider-errors';
+      const userId = await createTestUser(10);
+      const job = await createEditJob(userId, [failingSteps[0], { prompt: 'color it [fake:safety]' }], { credits: 6 });
+
+      await expect(processEditImageJob(job, context)).rejects.toThrow();
+
+      expect(await getUserAccount(userId)).toMatchObject({ balance: 7, heldBalance: 0 });
+      const failed = (await getUserServiceUsages(userId)).find(usage => usage.status === 'failed');
+      expect(failed).toMatchObject({ failureReason: 'safety_blocked' });
+      expect(JSON.parse(failed!.details!)).toMatchObject({ step: 2 });
+    });
+  });
+});
@@ -0,0 +1,511 @@
+import crypto from 'crypto';
+import {
+  captureCreditHold,
+  releaseCreditHold,
+  releaseCreditHoldsForOrder,
+  reserveCredits
+} from '../models/accountModel.js';
+import {
+  createServiceUsage,
+  getJobServiceUsages,
+  refundJobServiceUsages,
+  refundServiceConsumption,
+  shouldRefundPartialFailure
+} from '../models/serviceUsageModel.js';
+import type { UsageFailureReason } from '../models/serviceUsageModel.js';
+import { getImageProvider } from '../../services/imageProvider.js';
+import { getFailureReason } from '../../services/providerErrors.js';
+import { recordGenerations } from '../utils/generationUtils.js';
+import { loadImageAsset, storeContentImages } from '../storage/assetStorage.js';
+import { finalizeOutputDataUrl } from '../utils/outputUtils.js';
+import { createOutputWatermark } from '../utils/watermarkUtils.js';
+import { createProvenanceManifest } from '../utils/provenanceUtils.js';
+import type { EditImageInput } from '../../services/imageProvider.js';
+import type {
+  CreditHold,
+  GeneratedContent,
+  GenerationInputs,
+  Job,
+  OutputSettings,
+  PipelineStep,
+  PipelineStepOutput,
+  ProvenanceManifest,
+  SignedProvenanceManifest
+} from '../../types.js';
+import type { JobContext } from './jobWorker.js';
+
+/**
+ * 图像编辑任务参数
+ */
+export interface EditImageJobPayload {
+  // 输入图片均为已上传的资源ID
+  imageAssetId: string;
+  steps: PipelineStep[];
+  maskAssetId: string | null;
+  secondaryImageAssetId: string | null;
+  transformationKey: string;
+  parameters: Record<string, string> | null;
+  provider: string;
+  // 每个候选结果的价格
+  credits: number;
+  // 候选结果数量（1-4），默认为 1
+  variants?: number;
+  // 计费使用的服务，默认为 ai-image-edit
+  serviceKey?: string;
+  // 批量处理条目所属的批次
+  batchId?: string;
+  // 输入图片来自之前的生成结果时，对应的生成记录
+  parentGenerationIds?: string[];
+  // 最终结果的尺寸、格式和元数据设置，未设置时按模型返回的图片交付
+  output?: OutputSettings | null;
+}
+
+/**
+ * 流水线和资源存储上线前的任务参数（队列中可能仍有旧任务）
+ */
+interface LegacyEditImagePayload {
+  prompt?: string;
+  isTwoStep?: boolean;
+  stepTwoPrompt?: string | null;
+  base64ImageData?: string;
+  mimeType?: string;
+  maskBase64?: string | null;
+  secondaryImage?: { base64: string; mimeType: string } | null;
+}
+
+export const EDIT_IMAGE_JOB = 'edit-image';
+
+const SERVICE_KEY = 'ai-image-edit';
+const CHARGE_DESCRIPTION = 'Used AI Image Editing service';
+
+/**
+ * 计费失败（预留或扣除积分失败），与模型生成失败区分开记录
+ */
+export class BillingError extends Error {
+  reason: UsageFailureReason;
+
+  constructor(message: string, reason: UsageFailureReason) {
+    super(message);
+    this.name = 'BillingError';
+    this.reason = reason;
+  }
+}
+
+// 已在步骤内记录过使用情况的错误，外层不再重复记录
+const recordedErrors = new WeakSet<object>();
+
+export const toFailure = (error: unknown): { reason: UsageFailureReason; message: string } => ({
+  reason: error instanceof BillingError ? error.reason : getFailureReason(error),
+  message: error instanceof Error ? error.message : 'Unknown error'
+});
+
+/**
+ * 获取任务的执行步骤，兼容流水线上线前入队的任务
+ */
+const getJobSteps = (payload: EditImageJobPayload & LegacyEditImagePayload): PipelineStep[] => {
+  if (payload.steps?.length) {
+    return payload.steps;
+  }
+  if (payload.isTwoStep && payload.stepTwoPrompt) {
+    return [
+      { prompt: payload.prompt!, keepOutput: true },
+      { prompt: payload.stepTwoPrompt, useSecondaryImage: true }
+    ];
+  }
+  return [{ prompt: payload.prompt!, useSecondaryImage: true }];
+};
+
+/**
+ * 任务的输入图片（模型所需的 base64 格式）
+ */
+interface JobImages {
+  primary: { base64ImageData: string; mimeType: string };
+  maskBase64: string | null;
+  secondaryImage: EditImageInput['secondaryImage'];
+}
+
+/**
+ * 从对象存储读取任务的输入图片，兼容直接保存 base64 的旧任务
+ */
+const loadJobImages = async (payload: EditImageJobPayload & LegacyEditImagePayload): Promise<JobImages> => {
+  if (!payload.imageAssetId) {
+    return {
+      primary: { base64ImageData: payload.base64ImageData!, mimeType: payload.mimeType! },
+      maskBase64: payload.maskBase64 ?? null,
+      secondaryImage: payload.secondaryImage ?? null
+    };
+  }
+
+  const secondary = payload.secondaryImageAssetId ? await loadImageAsset(payload.secondaryImageAssetId) : null;
+  return {
+    primary: await loadImageAsset(payload.imageAssetId),
+    maskBase64: payload.maskAssetId ? (await loadImageAsset(payload.maskAssetId)).base64ImageData : null,
+    secondaryImage: secondary ? { base64: secondary.base64ImageData, mimeType: secondary.mimeType } : null
+  };
+};
+
+/**
+ * 生成最终结果的内容溯源清单，提示词和输入图片与生成记录保存的一致
+ */
+const createJobProvenance = (
+  job: Job<EditImageJobPayload>,
+  images: JobImages,
+  generationId: string,
+  model: string
+): SignedProvenanceManifest => {
+  const steps = getJobSteps(job.payload);
+  const inputs: Array<{ role: ProvenanceManifest['inputs'][number]['role']; base64: string }> = [
+    { role: 'primary', base64: images.primary.base64ImageData }
+  ];
+  if (images.secondaryImage && steps.some(step => step.useSecondaryImage)) {
+    inputs.push({ role: 'secondary', base64: images.secondaryImage.base64 });
+  }
+  if (images.maskBase64) {
+    inputs.push({ role: 'mask', base64: images.maskBase64 });
+  }
+  return createProvenanceManifest({
+    action: 'edit',
+    generationId,
+    model,
+    presetKey: job.payload.transformationKey,
+    prompt: steps.map(step => step.prompt).join('\n\n'),
+    inputs
+  });
+};
+
+/**
+ * 使用记录对应的候选结果和流水线步骤（只有一个时为 null）
+ */
+interface UsagePosition {
+  candidate: number | null;
+  step: number | null;
+}
+
+/**
+ * 记录服务使用情况，details 中保存任务、执行次数、候选结果和步骤信息
+ * 候选结果交付时，最后一步的记录同时保存交付的结果，任务中断后重新执行时直接复用
+ */
+const recordUsage = (
+  job: Job<EditImageJobPayload>,
+  creditsUsed: number,
+  status: 'success' | 'failed',
+  { candidate, step }: UsagePosition,
+  failure?: { reason: UsageFailureReason; message: string },
+  result?: StoredPipelineResult
+) => {
+  const details = JSON.stringify({
+    jobId: job.id,
+    attempt: job.attempts,
+    transformationKey: job.payload.transformationKey,
+    ...(job.payload.batchId ? { batchId: job.payload.batchId } : {}),
+    ...(job.payload.parameters ? { parameters: job.payload.parameters } : {}),
+    provider: job.payload.provider,
+    steps: getJobSteps(job.payload).length,
+    ...(candidate !== null ? { candidate } : {}),
+    ...(step !== null ? { step } : {}),
+    ...(failure ? { error: failure.message } : {}),
+    ...(result ? { result } : {})
+  });
+
+  return createServiceUsage(job.userId, job.payload.serviceKey || SERVICE_KEY, creditsUsed, status, details, failure?.reason);
+};
+
+/**
+ * 预留积分，余额不足时抛出计费错误
+ */
+const reserveOrThrow = async (job: Job<EditImageJobPayload>, amount: number): Promise<CreditHold> => {
+  const hold = await reserveCredits(job.userId, amount, job.id, CHARGE_DESCRIPTION);
+  if (!hold) {
+    throw new BillingError('Insufficient credits', 'insufficient_credits');
+  }
+  return hold;
+};
+
+/**
+ * 确认扣除预留的积分，失败时抛出计费错误
+ */
+const captureOrThrow = async (hold: CreditHold): Promise<void> => {
+  const captured = await captureCreditHold(hold.id);
+  if (!captured) {
+    throw new BillingError('Failed to charge credits for this job', 'billing_failed');
+  }
+};
+
+/**
+ * 一次流水线执行的结果，usageId 为最后一步的使用记录，generationId 为写入水印的生成记录ID
+ */
+interface PipelineResult {
+  content: GeneratedContent;
+  usageId: string;
+  generationId: string;
+  provenance?: SignedProvenanceManifest;
+}
+
+/**
+ * 保存在使用记录中的已交付结果
+ */
+type StoredPipelineResult = Omit<PipelineResult, 'usageId'>;
+
+/**
+ * 使用记录 details 中用于恢复中断任务的字段
+ */
+interface UsageDetails {
+  attempt?: number;
+  candidate?: number;
+  result?: StoredPipelineResult;
+}
+
+/**
+ * 按顺序执行流水线，每一步以上一步的输出作为输入，并分别计费
+ * 开始前一次性预留所有步骤所需积分；某一步失败时释放剩余预留，
+ * 并按退款策略退还之前步骤已扣除的积分
+ */
+const processPipeline = async (
+  job: Job<EditImageJobPayload>,
+  images: JobImages,
+  { reportProgress }: JobContext,
+  candidate: number | null
+): Promise<PipelineResult> => {
+  // 预先分配生成记录ID，写入最终结果的签名水印
+  const generationId = crypto.randomUUID();
+  const { maskBase64, secondaryImage } = images;
+  const { credits } = job.payload;
+  const steps = getJobSteps(job.payload);
+  const provider = getImageProvider(job.payload.provider);
+  const isMultiStep = steps.length > 1;
+
+  // 各步骤平均分摊费用（整数积分），余数计入最后一步
+  const stepCredits = steps.map((_, index) => {
+    const share = Math.floor(credits / steps.length);
+    return index === steps.length - 1 ? credits - share * (steps.length - 1) : share;
+  });
+
+  const holds: CreditHold[] = [];
+  try {
+    for (const amount of stepCredits) {
+      holds.push(await reserveOrThrow(job, amount));
+    }
+  } catch (error) {
+    for (const hold of holds) {
+      await releaseCreditHold(hold.id);
+    }
+    throw error;
+  }
+
+  let input = images.primary;
+  let result: GeneratedContent = { imageUrl: null, text: null };
+  const intermediates: PipelineStepOutput[] = [];
+  const completedUsageIds: string[] = [];
+  let provenance: SignedProvenanceManifest | undefined;
+
+  for (const [index, step] of steps.entries()) {
+    const position = { candidate, step: isMultiStep ? index + 1 : null };
+    const isLastStep = index === steps.length - 1;
+
+    try {
+      await reportProgress(0.1 + (0.8 * index) / steps.length, isMultiStep ? `step:${index + 1}/${steps.length}` : 'default');
+      const output = await provider.editImage({
+        ...input,
+        prompt: step.prompt,
+        // 蒙版只作用于原图，即第一步
+        maskBase64: index === 0 ? maskBase64 : null,
+        secondaryImage: step.useSecondaryImage ? secondaryImage : null
+      });
+
+      if (!isLastStep && !output.imageUrl) {
+        throw new Error(`Step ${index + 1} failed to generate an image.`);
+      }
+
+      // 输出设置、水印和内容溯源清单只作用于最终结果，中间结果保持模型返回的图片
+      if (isLastStep && output.imageUrl) {
+        provenance = createJobProvenance(job, images, generationId, provider.model);
+      }
+      const delivered = provenance
+        ? {
+            ...output,
+            imageUrl: await finalizeOutputDataUrl(
+              output.imageUrl!,
+              job.payload.output,
+              await createOutputWatermark(job.userId, generationId),
+              provenance
+            )
+          }
+        : output;
+
+      // 需要交付的图片先保存为资源再扣费，处理或保存失败时同样释放预留
+      result = isLastStep || step.keepOutput ? await storeContentImages(job.userId, delivered) : output;
+      await captureOrThrow(holds[index]);
+
+      if (!isLastStep) {
+        input = {
+          base64ImageData: output.imageUrl!.split(',')[1],
+          mimeType: output.imageUrl!.split(';')[0].split(':')[1] || 'image/png'
+        };
+      }
+    } catch (error) {
+      for (const hold of holds.slice(index)) {
+        await releaseCreditHold(hold.id);
+      }
+
+      // 只有一步时交给外层记录
+      if (!isMultiStep) {
+        throw error;
+      }
+
+      // 之前的步骤已扣费，按策略决定是否退还
+      const failure = toFailure(error);
+      await recordUsage(job, 0, 'failed', position, failure);
+      if (completedUsageIds.length && shouldRefundPartialFailure(failure.reason)) {
+        for (const usageId of completedUsageIds) {
+          await refundServiceConsumption(usageId, `step ${index + 1} failed: ${failure.reason}`);
+        }
+      }
+
+      if (error instanceof Object) {
+        recordedErrors.add(error);
+      }
+      throw error;
+    }
+
+    const stored = isLastStep
+      ? { content: intermediates.length ? { ...result, intermediates } : result, generationId, provenance }
+      : undefined;
+    const usage = await recordUsage(job, stepCredits[index], 'success', position, undefined, stored);
+    completedUsageIds.push(usage.id);
+
+    if (!isLastStep && step.keepOutput) {
+      intermediates.push({
+        step: index + 1,
+        ...(step.labelKey ? { labelKey: step.labelKey } : {}),
+        imageUrl: result.imageUrl!,
+        text: result.text
+      });
+    }
+  }
+
+  return {
+    content: intermediates.length ? { ...result, intermediates } : result,
+    usageId: completedUsageIds[completedUsageIds.length - 1],
+    generationId,
+    provenance
+  };
+};
+
+/**
+ * 整理任务之前执行留下的使用记录（任务中断后重新入队时）
+ * 返回已交付的候选结果（按候选序号）；中断时尚未完成的候选，已扣费的步骤全部退还，
+ * 已失败的候选按部分失败的退款策略处理过，不再退款
+ */
+const resumeInterruptedRuns = async (job: Job<EditImageJobPayload>): Promise<Map<number, PipelineResult>> => {
+  const runs = new Map<string, { candidate: number; usageIds: string[]; failed: boolean; result?: PipelineResult }>();
+
+  for (const usage of await getJobServiceUsages(job.userId, job.id)) {
+    const details = JSON.parse(usage.details!) as UsageDetails;
+    const candidate = details.candidate ?? 1;
+    const key = `${details.attempt ?? ''}:${candidate}`;
+    const run = runs.get(key) ?? { candidate, usageIds: [], failed: false };
+    runs.set(key, run);
+
+    if (usage.status === 'failed') {
+      run.failed = true;
+    } else if (usage.status === 'success') {
+      run.usageIds.push(usage.id);
+      if (details.result) {
+        run.result = { ...details.result, usageId: usage.id };
+      }
+    }
+  }
+
+  const completed = new Map<number, PipelineResult>();
+  for (const run of runs.values()) {
+    if (run.result) {
+      completed.set(run.candidate, run.result);
+    } else if (!run.failed) {
+      for (const usageId of run.usageIds) {
+        await refundServiceConsumption(usageId, 'job interrupted');
+      }
+    }
+  }
+  return completed;
+};
+
+/**
+ * 处理图像编辑任务
+ * 每个候选结果独立执行一次流水线并单独计费，只对成功交付的候选扣费；
+ * 所有候选都失败时任务失败。每次执行都会记录服务使用情况，失败时附带结构化的失败原因
+ * 任务中断后重新执行时，已交付的候选直接复用之前的结果，不会重复生成和扣费
+ */
+export const processEditImageJob = async (
+  job: Job<EditImageJobPayload>,
+  { reportProgress }: JobContext
+): Promise<GeneratedContent> => {
+  const variants = job.payload.variants ?? 1;
+
+  // 释放上次中断执行时遗留的预留
+  await releaseCreditHoldsForOrder(job.id);
+  const completed = await resumeInterruptedRuns(job);
+
+  const images = await loadJobImages(job.payload);
+  const delivered: PipelineResult[] = [];
+  let firstError: unknown = null;
+
+  for (let index = 0; index < variants; index++) {
+    const candidate = variants > 1 ? index + 1 : null;
+    const previous = completed.get(index + 1);
+    if (previous) {
+      delivered.push(previous);
+      continue;
+    }
+    // 多个候选时进度按候选划分，消息格式为 candidate:<当前候选>/<候选总数>
+    const candidateContext: JobContext = {
+      reportProgress: (progress, message) => candidate === null
+        ? reportProgress(progress, message)
+        : reportProgress((index + progress) / variants, `candidate:${candidate}/${variants}`)
+    };
+
+    try {
+      delivered.push(await processPipeline(job, images, candidateContext, candidate));
+    } catch (error) {
+      if (!(error instanceof Object && recordedErrors.has(error))) {
+        await recordUsage(job, 0, 'failed', { candidate, step: null }, toFailure(error));
+      }
+      firstError = firstError ?? error;
+    }
+  }
+
+  if (!delivered.length) {
+    throw firstError;
+  }
+
+  const steps = getJobSteps(job.payload);
+  const { imageAssetId, secondaryImageAssetId, maskAssetId } = job.payload;
+  const inputs: GenerationInputs = {
+    ...(imageAssetId ? { primaryAssetId: imageAssetId } : {}),
+    ...(secondaryImageAssetId && steps.some(step => step.useSecondaryImage) ? { secondaryAssetId: secondaryImageAssetId } : {}),
+    ...(maskAssetId ? { maskAssetId } : {})
+  };
+  const candidates = await recordGenerations(job.userId, {
+    jobId: job.id,
+    transformationKey: job.payload.transformationKey,
+    prompt: steps.map(step => step.prompt).join('\n\n'),
+    inputs,
+    parentIds: job.payload.parentGenerationIds,
+    results: delivered.map(({ content, usageId, generationId, provenance }) => ({
+      content,
+      serviceUsageId: usageId,
+      generationId,
+      provenance
+    }))
+  });
+
+  return variants > 1 ? { ...candidates[0], candidates } : candidates[0];
+};
+
+/**
+ * 清理中断次数过多而失败的图像编辑任务
+ * 任务没有交付结果，释放遗留的预留并退还所有已扣费的步骤和候选
+ */
+export const abandonEditImageJob = async (job: Job): Promise<void> => {
+  await releaseCreditHoldsForOrder(job.id);
+  await refundJobServiceUsages(job.userId, job.id, 'job failed after interruptions');
+};
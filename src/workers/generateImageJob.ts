@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import {
+  captureCreditHold,
+  releaseCreditHold,
+  releaseCreditHoldsForOrder,
+  reserveCredits
+} from '../models/accountModel.js';
+import { createServiceUsage, refundJobServiceUsages } from '../models/serviceUsageModel.js';
+import type { UsageFailureReason } from '../models/serviceUsageModel.js';
+import { getImageProvider } from '../../services/imageProvider.js';
+import { ImageProviderError } from '../../services/providerErrors.js';
+import { BillingError, toFailure } from './editImageJob.js';
+import { recordGenerations } from '../utils/generationUtils.js';
+import { storeContentImages } from '../storage/assetStorage.js';
+import { finalizeOutputDataUrl } from '../utils/outputUtils.js';
+import { createOutputWatermark } from '../utils/watermarkUtils.js';
+import { createProvenanceManifest } from '../utils/provenanceUtils.js';
+import type { GeneratedContent, Job, SignedProvenanceManifest } from '../../types.js';
+import type { JobContext } from './jobWorker.js';
+
+/**
+ * 文生图任务参数
+ */
+export interface GenerateImageJobPayload {
+  prompt: string;
+  aspectRatio: string | null;
+  provider: string;
+  credits: number;
+}
+
+export const GENERATE_IMAGE_JOB = 'generate-image';
+
+export const GENERATE_SERVICE_KEY = 'ai-image-generate';
+const CHARGE_DESCRIPTION = 'Used AI Image Generation service';
+
+/**
+ * 记录服务使用情况
+ */
+const recordUsage = (
+  job: Job<GenerateImageJobPayload>,
+  creditsUsed: number,
+  status: 'success' | 'failed',
+  failure?: { reason: UsageFailureReason; message: string }
+) => {
+  const details = JSON.stringify({
+    jobId: job.id,
+    provider: job.payload.provider,
+    ...(job.payload.aspectRatio ? { aspectRatio: job.payload.aspectRatio } : {}),
+    ...(failure ? { error: failure.message } : {})
+  });
+
+  return createServiceUsage(job.userId, GENERATE_SERVICE_KEY, creditsUsed, status, details, failure?.reason);
+};
+
+/**
+ * 处理文生图任务
+ * 生成前预留积分，成功后确认扣除，失败时释放预留并记录失败原因
+ */
+export const processGenerateImageJob = async (
+  job: Job<GenerateImageJobPayload>,
+  { reportProgress }: JobContext
+): Promise<GeneratedContent> => {
+  const { prompt, aspectRatio, credits } = job.payload;
+
+  // 释放上次中断执行时遗留的预留
+  await releaseCreditHoldsForOrder(job.id);
+
+  try {
+    const hold = await reserveCredits(job.userId, credits, job.id, CHARGE_DESCRIPTION);
+    if (!hold) {
+      throw new BillingError('Insufficient credits', 'insufficient_credits');
+    }
+
+    // 预先分配生成记录ID，写入结果的签名水印
+    const generationId = crypto.randomUUID();
+    const provider = getImageProvider(job.payload.provider);
+    let result: GeneratedContent;
+    let provenance: SignedProvenanceManifest;
+    try {
+      await reportProgress(0.1, 'default');
+      const output = await provider.generateImage({
+        prompt,
+        ...(aspectRatio ? { aspectRatio } : {})
+      });
+      if (!output.imageUrl) {
+        throw new ImageProviderError('The model did not generate an image.', 'no_image');
+      }
+      provenance = createProvenanceManifest({
+        action: 'generate',
+        generationId,
+        model: provider.model,
+        presetKey: null,
+        prompt,
+        inputs: []
+      });
+      // 结果图片先保存为资源再扣费，任务结果中只保留资源引用
+      const imageUrl = await finalizeOutputDataUrl(
+        output.imageUrl,
+        null,
+        await createOutputWatermark(job.userId, generationId),
+        provenance
+      );
+      result = await storeContentImages(job.userId, { ...output, imageUrl });
+    } catch (error) {
+      await releaseCreditHold(hold.id);
+      throw error;
+    }
+
+    if (!(await captureCreditHold(hold.id))) {
+      throw new BillingError('Failed to charge credits for this job', 'billing_failed');
+    }
+
+    const usage = await recordUsage(job, credits, 'success');
+    const [content] = await recordGenerations(job.userId, {
+      jobId: job.id,
+      prompt,
+      inputs: {},
+      results: [{ content: result, serviceUsageId: usage.id, generationId, provenance }]
+    });
+    return content;
+  } catch (error) {
+    await recordUsage(job, 0, 'failed', toFailure(error));
+    throw error;
+  }
+};
+
+/**
+ * 清理中断次数过多而失败的文生图任务
+ * 任务没有交付结果，释放遗留的预留并退还已扣除的积分
+ */
+export const abandonGenerateImageJob = async (job: Job<GenerateImageJobPayload>): Promise<void> => {
+  await releaseCreditHoldsForOrder(job.id);
+  await refundJobServiceUsages(job.userId, job.id, 'job failed after interruptions');
+};
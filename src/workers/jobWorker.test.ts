@@ -0,0 +1,94 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { initDb, openDb } from '../db/db.js';
+import { createUser } from '../models/userModel.js';
+import { captureCreditHold, getUserAccount, reserveCredits } from '../models/accountModel.js';
+import { createServiceUsage, getUserServiceUsages } from '../models/serviceUsageModel.js';
+import { createBatch, getBatchById, getBatchItems } from '../models/batchModel.js';
+import { createJob, getJobById } from '../models/jobModel.js';
+import { EDIT_IMAGE_JOB, abandonEditImageJob, processEditImageJob } from './editImageJob.js';
+import { BATCH_JOB, abandonBatchJob, processBatchJob } from './batchJob.js';
+import type { BatchJobPayload } from './batchJob.js';
+import { registerJobHandler, startJobWorkers, stopJobWorkers } from './jobWorker.js';
+
+let userCount = 0;
+
+/**
+ * 创建余额为 balance 的测试用户
+ */
+const createTestUser = async (balance: number): Promise<string> => {
+  userCount++;
+  const { id } = await createUser(`worker${userCount}`, `worker${userCount}@example.com`, 'password');
+  const db = await openDb();
+  await db.run('UPDATE user_accounts SET balance = ? WHERE userId = ?', balance, id);
+  return id;
+};
+
+/**
+ * 按单号扣除积分并记录成功的使用记录，与任务执行时的扣费相同
+ */
+const charge = async (userId: string, orderId: string, credits: number) => {
+  const hold = await reserveCredits(userId, credits, orderId);
+  expect(await captureCreditHold(hold!.id)).toBe(true);
+  return createServiceUsage(userId, 'ai-image-edit', credits, 'success', JSON.stringify({ jobId: orderId, attempt: 3, step: 1 }));
+};
+
+/**
+ * 将任务标记为已执行 attempts 次、执行中被中断
+ */
+const markInterrupted = async (jobId: string, attempts: number) => {
+  const db = await openDb();
+  await db.run(`UPDATE jobs SET status = 'running', attempts = ? WHERE id = ?`, attempts, jobId);
+};
+
+describe('job worker recovery', () => {
+  beforeAll(async () => {
+    await initDb();
+    registerJobHandler(EDIT_IMAGE_JOB, processEditImageJob, abandonEditImageJob);
+    registerJobHandler(BATCH_JOB, processBatchJob, abandonBatchJob);
+  });
+
+  afterEach(() => {
+    stopJobWorkers();
+  });
+
+  it('refunds charges and releases holds of a job that was interrupted too many times', async () => {
+    const userId = await createTestUser(10);
+    const job = await createJob(userId, EDIT_IMAGE_JOB, { credits: 6 });
+    await charge(userId, job.id, 3);
+    await reserveCredits(userId, 3, job.id);
+    await markInterrupted(job.id, 3);
+
+    await startJobWorkers(1);
+
+    expect(await getJobById(job.id)).toMatchObject({ status: 'failed', error: 'Job was interrupted too many times' });
+    expect(await getUserAccount(userId)).toMatchObject({ balance: 10, heldBalance: 0 });
+    const [usage] = await getUserServiceUsages(userId);
+    expect(usage.status).toBe('refunded');
+  });
+
+  it('fails the unfinished items of an abandoned batch and keeps delivered ones charged', async () => {
+    const userId = await createTestUser(10);
+    const batch = await createBatch(userId, 'figurine', 2, [
+      { imageAssetId: 'asset-1' },
+      { imageAssetId: 'asset-2' },
+      { imageAssetId: 'asset-3' }
+    ]);
+    const job = await createJob<BatchJobPayload>(userId, BATCH_JOB, { batchId: batch.id, edit: {} as BatchJobPayload['edit'] });
+    const [delivered, interrupted] = await getBatchItems(batch.id);
+    const db = await openDb();
+    await db.run(`UPDATE batch_items SET status = 'succeeded' WHERE id = ?`, delivered.id);
+    await db.run(`UPDATE batch_items SET status = 'running' WHERE id = ?`, interrupted.id);
+    const deliveredUsage = await charge(userId, delivered.id, 2);
+    const interruptedUsage = await charge(userId, interrupted.id, 2);
+    await markInterrupted(job.id, 3);
+
+    await startJobWorkers(1);
+
+    expect(await getUserAccount(userId)).toMatchObject({ balance: 8, heldBalance: 0 });
+    const usages = await getUserServiceUsages(userId);
+    expect(usages.find(usage => usage.id === deliveredUsage.id)?.status).toBe('success');
+    expect(usages.find(usage => usage.id === interruptedUsage.id)?.status).toBe('refunded');
+    expect((await getBatchItems(batch.id)).map(item => item.status)).toEqual(['succeeded', 'failed', 'failed']);
+    expect((await getBatchById(batch.id))?.status).toBe('completed');
+  });
+});
@@ -0,0 +1,201 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import type { Job } from '../../types.js';
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  getJobById,
+  recoverInterruptedJobs,
+  updateJobProgress
+} from '../models/jobModel.js';
+
+/**
+ * 任务处理上下文
+ */
+export interface JobContext {
+  reportProgress: (progress: number, message?: string) => Promise<void>;
+}
+
+/**
+ * 任务处理函数，返回值将作为任务结果保存
+ */
+export type JobHandler = (job: Job, context: JobContext) => Promise<unknown>;
+
+/**
+ * 任务因中断次数过多被标记失败时的清理函数，用于释放预留和退还已扣除的积分
+ */
+export type JobAbandonHandler = (job: Job) => Promise<void>;
+
+// worker 数量，可通过 JOB_WORKER_CONCURRENCY 环境变量配置
+const DEFAULT_CONCURRENCY = 2;
+// 队列为空时的轮询间隔（毫秒）
+const POLL_INTERVAL_MS = 1000;
+// 单个任务最多被领取的次数（服务重启导致的中断会计入）
+const MAX_ATTEMPTS = 3;
+
+const handlers: Record<string, JobHandler> = {};
+const abandonHandlers: Record<string, JobAbandonHandler> = {};
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+let isRunning = false;
+let wakeUpWaiters: Array<() => void> = [];
+
+/**
+ * 注册任务处理函数，onAbandon 在任务中断次数过多被标记失败时执行
+ */
+export const registerJobHandler = (type: string, handler: JobHandler, onAbandon?: JobAbandonHandler): void => {
+  handlers[type] = handler;
+  if (onAbandon) {
+    abandonHandlers[type] = onAbandon;
+  }
+};
+
+/**
+ * 对中断次数过多而失败的任务执行清理，单个任务清理失败不影响其他任务
+ */
+const abandonJobs = async (jobs: Job[]): Promise<void> => {
+  for (const job of jobs) {
+    const onAbandon = abandonHandlers[job.type];
+    if (!onAbandon) continue;
+
+    try {
+      await onAbandon(job);
+    } catch (error) {
+      console.error(`Failed to clean up abandoned job ${job.id} (${job.type}):`, error);
+    }
+  }
+};
+
+/**
+ * 订阅任务状态变化，返回取消订阅函数
+ */
+export const subscribeToJob = (jobId: string, listener: (job: Job) => void): (() => void) => {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+};
+
+/**
+ * 通知 worker 有新任务入队
+ */
+export const notifyJobQueued = (): void => {
+  const waiters = wakeUpWaiters;
+  wakeUpWaiters = [];
+  waiters.forEach(wake => wake());
+};
+
+/**
+ * 广播任务最新状态
+ */
+const publishJob = async (jobId: string): Promise<void> => {
+  if (jobEvents.listenerCount(jobId) === 0) return;
+
+  const job = await getJobById(jobId);
+  if (job) {
+    jobEvents.emit(jobId, job);
+  }
+};
+
+/**
+ * 等待新任务入队或轮询超时
+ */
+const waitForWork = (): Promise<void> => {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      wakeUpWaiters = wakeUpWaiters.filter(wake => wake !== onWake);
+      resolve();
+    }, POLL_INTERVAL_MS);
+    const onWake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    wakeUpWaiters.push(onWake);
+  });
+};
+
+/**
+ * 执行单个任务
+ */
+const processJob = async (job: Job): Promise<void> => {
+  const handler = handlers[job.type];
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type: ${job.type}`);
+    }
+
+    await publishJob(job.id);
+
+    const result = await handler(job, {
+      reportProgress: async (progress, message) => {
+        await updateJobProgress(job.id, progress, message);
+        await publishJob(job.id);
+      }
+    });
+
+    await completeJob(job.id, result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Job ${job.id} (${job.type}) failed:`, error);
+    await failJob(job.id, errorMessage);
+  }
+
+  await publishJob(job.id);
+};
+
+/**
+ * worker 主循环
+ */
+const runWorker = async (workerId: string): Promise<void> => {
+  while (isRunning) {
+    try {
+      const job = await claimNextJob(workerId);
+
+      if (!job) {
+        await waitForWork();
+        continue;
+      }
+
+      await processJob(job);
+    } catch (error) {
+      console.error(`Job worker ${workerId} error:`, error);
+      await waitForWork();
+    }
+  }
+};
+
+/**
+ * 启动 worker 池
+ * 启动前会先恢复上次服务停止时未完成的任务，并清理其中被标记失败的任务
+ */
+export const startJobWorkers = async (
+  concurrency: number = parseInt(process.env.JOB_WORKER_CONCURRENCY || `${DEFAULT_CONCURRENCY}`, 10)
+): Promise<void> => {
+  if (isRunning) return;
+
+  const { requeued, failed } = await recoverInterruptedJobs(MAX_ATTEMPTS);
+  if (requeued > 0 || failed.length > 0) {
+    console.log(`Recovered interrupted jobs: ${requeued} requeued, ${failed.length} failed`);
+  }
+  await abandonJobs(failed);
+
+  isRunning = true;
+  const poolId = crypto.randomUUID().slice(0, 8);
+
+  for (let i = 0; i < Math.max(1, concurrency); i++) {
+    runWorker(`${poolId}-${i}`);
+  }
+
+  console.log(`Job workers started (concurrency: ${Math.max(1, concurrency)})`);
+};
+
+/**
+ * 停止 worker 池（正在执行的任务会继续完成）
+ */
+export const stopJobWorkers = (): void => {
+  isRunning = false;
+  notifyJobQueued();
+};
@@ -1,5 +1,39 @@
 
 
+export type TransformationParameterType = 'enum' | 'text' | 'number' | 'color';
+
+export interface TransformationParameterOption {
+  value: string;
+  labelKey: string;
+}
+
+/**
+ * 提示词模板参数，模板中以 {{name}} 引用
+ */
+export interface TransformationParameter {
+  name: string;
+  type: TransformationParameterType;
+  labelKey: string;
+  default: string | number;
+  options?: TransformationParameterOption[];
+  min?: number;
+  max?: number;
+  step?: number;
+  maxLength?: number;
+}
+
+/**
+ * 流水线中的一步：以上一步的输出作为输入图像
+ */
+export interface PipelineStep {
+  prompt: string;
+  labelKey?: string;
+  // 是否同时传入用户上传的第二张图片
+  useSecondaryImage?: boolean;
+  // 是否在结果中保留这一步的中间输出
+  keepOutput?: boolean;
+}
+
 export interface Transformation {
   key: string;
   titleKey: string;
@@ -9,18 +43,56 @@ export interface Transformation {
   items?: Transformation[];
   isMultiImage?: boolean;
   isSecondaryOptional?: boolean;
-  isTwoStep?: boolean;
-  stepTwoPrompt?: string;
+  pipeline?: PipelineStep[];
   primaryUploaderTitle?: string;
   secondaryUploaderTitle?: string;
   primaryUploaderDescription?: string;
   secondaryUploaderDescription?: string;
+  isCustomPrompt?: boolean;
+  // 扩图效果：原图放到扩展后的画布上，由模型填充补充区域
+  isOutpaint?: boolean;
+  credits?: number;
+  presetId?: string;
+  parameters?: TransformationParameter[];
+}
+
+export type OutputFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+/**
+ * 编辑结果的输出设置：服务端在交付前按设置缩放、转换格式并处理元数据
+ */
+export interface OutputSettings {
+  // 未设置时保持模型返回的格式
+  format?: OutputFormat;
+  // 有损格式（jpeg、webp、avif）的质量，1-100
+  quality?: number;
+  // 目标尺寸，只设置一边时按比例缩放
+  width?: number;
+  height?: number;
+  // 同时设置宽高时的缩放方式：inside 保持比例放入目标尺寸，cover 裁剪填满，fill 拉伸
+  fit?: 'inside' | 'cover' | 'fill';
+  // 保留或去除 EXIF、ICC 等元数据，默认去除
+  metadata?: 'strip' | 'preserve';
+}
+
+/**
+ * 流水线中间步骤的输出，step 从 1 开始
+ */
+export interface PipelineStepOutput {
+  step: number;
+  labelKey?: string;
+  imageUrl: string;
+  text: string | null;
 }
 
 export interface GeneratedContent {
   imageUrl: string | null;
   text: string | null;
-  secondaryImageUrl?: string | null;
+  intermediates?: PipelineStepOutput[];
+  // 一次请求生成多个候选结果时的全部候选，imageUrl/text 与第一个候选相同
+  candidates?: GeneratedContent[];
+  // 该结果保存到图库后的生成记录ID
+  generationId?: string;
 }
 
 // 用户管理相关类型
@@ -37,16 +109,34 @@ export interface User {
   updatedAt: Date;
 }
 
+// 结果图片的水印模式：standard 只在 PNG 中嵌入 LSB 水印，robust 额外嵌入可抵抗压缩和缩放的频域水印
+export type WatermarkMode = 'standard' | 'robust';
+
 export interface UserAccount {
   userId: string;
   balance: number;
+  heldBalance: number;
+  availableBalance: number;
+  watermarkMode: WatermarkMode;
   lastUpdated: Date;
 }
 
+export interface CreditHold {
+  id: string;
+  userId: string;
+  amount: number;
+  status: 'held' | 'captured' | 'released' | 'expired';
+  relatedOrder?: string;
+  description?: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface CreditTransaction {
   id: string;
   userId: string;
-  type: 'deposit' | 'withdrawal' | 'reward' | 'expiry';
+  type: 'deposit' | 'withdrawal' | 'reward' | 'expiry' | 'refund';
   amount: number;
   previousBalance: number;
   currentBalance: number;
@@ -72,7 +162,155 @@ export interface ServiceUsage {
   userId: string;
   serviceKey: string;
   creditsUsed: number;
-  status: 'success' | 'failed';
+  status: 'success' | 'failed' | 'refunded';
   details?: string;
+  failureReason?: string;
+  createdAt: Date;
+}
+
+export interface ServicePrice {
+  id: string;
+  serviceKey: string;
+  transformationKey?: string;
+  credits: number;
+  version: number;
+  effectiveFrom: Date;
+  note?: string;
+  createdAt: Date;
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface Job<TPayload = any, TResult = any> {
+  id: string;
+  userId: string;
+  type: string;
+  status: JobStatus;
+  progress: number;
+  progressMessage?: string;
+  payload: TPayload;
+  result?: TResult;
+  error?: string;
+  attempts: number;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface IdempotencyRecord {
+  id: string;
+  userId: string;
+  scope: string;
+  idempotencyKey: string;
+  requestHash: string;
+  status: 'processing' | 'completed';
+  responseStatus?: number;
+  responseBody?: any;
   createdAt: Date;
-}
\ No newline at end of file
+  expiresAt: Date;
+}
+
+export interface UserPreset {
+  id: string;
+  userId: string;
+  title: string;
+  emoji: string;
+  prompt: string;
+  stepTwoPrompt?: string;
+  isMultiImage: boolean;
+  isSecondaryOptional: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type BatchStatus = 'queued' | 'running' | 'completed';
+export type BatchItemStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  batchId: string;
+  index: number;
+  status: BatchItemStatus;
+  result?: GeneratedContent;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Batch {
+  id: string;
+  userId: string;
+  jobId?: string;
+  transformationKey: string;
+  status: BatchStatus;
+  itemCount: number;
+  creditsPerItem: number;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+// 上传或生成的图片资源，内容保存在对象存储中
+export interface Asset {
+  id: string;
+  userId: string;
+  storageKey: string;
+  mimeType: string;
+  size: number;
+  createdAt: Date;
+}
+
+// 生成记录（图库）相关类型
+export interface GenerationInputs {
+  primaryAssetId?: string;
+  secondaryAssetId?: string;
+  maskAssetId?: string;
+}
+
+// 生成结果中的一张图片，中间步骤带 step，最终结果不带
+export interface GenerationOutput {
+  assetId: string;
+  text: string | null;
+  step?: number;
+  labelKey?: string;
+}
+
+export interface Generation {
+  id: string;
+  userId: string;
+  jobId?: string;
+  transformationKey?: string;
+  prompt: string;
+  inputs: GenerationInputs;
+  outputs: GenerationOutput[];
+  // 作为输入的结果所属的生成记录
+  parentIds: string[];
+  serviceUsageId?: string;
+  // 写入结果图片的内容溯源清单
+  provenance?: SignedProvenanceManifest;
+  createdAt: Date;
+}
+
+// 内容溯源清单：记录结果由哪个模型、以什么输入生成，签名后写入图片的 XMP 元数据并随生成记录保存
+export interface ProvenanceManifest {
+  version: 1;
+  // edit 为编辑已有图片，generate 为文生图
+  action: 'edit' | 'generate';
+  generationId: string;
+  model: string;
+  // 效果或预设的 key，文生图时为 null
+  presetKey: string | null;
+  // 提示词的 SHA-256（十六进制），不公开提示词原文
+  promptHash: string;
+  // 输入图片的 SHA-256
+  inputs: Array<{ role: 'primary' | 'secondary' | 'mask'; sha256: string }>;
+  timestamp: string;
+  // 签名密钥的ID
+  keyId: string;
+}
+
+export interface SignedProvenanceManifest {
+  manifest: ProvenanceManifest;
+  signature: string;
+}
@@ -0,0 +1,46 @@
+import { dataUrlToFile } from './fileUtils';
+
+/**
+ * 已上传到服务器的图片资源，url 为有时效的签名地址
+ */
+export interface UploadedAsset {
+  id: string;
+  mimeType: string;
+  size: number;
+  url: string;
+}
+
+/**
+ * 以 multipart/form-data 上传图片，按上传顺序返回资源信息
+ * 未登录或登录已过期时抛出 '401' 错误
+ */
+export const uploadAssets = async (files: File[]): Promise<UploadedAsset[]> => {
+  const formData = new FormData();
+  files.forEach(file => formData.append('file', file, file.name));
+
+  const token = localStorage.getItem('token');
+  const response = await fetch('http://localhost:3000/api/assets', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}` },
+    body: formData
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error('401');
+    }
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Failed to upload images. Status: ${response.statusText}`);
+  }
+
+  const { assets } = await response.json();
+  return assets;
+};
+
+/**
+ * 上传 data URL 形式的图片（如画布导出的蒙版）
+ */
+export const uploadDataUrls = async (dataUrls: string[]): Promise<UploadedAsset[]> => {
+  const files = await Promise.all(dataUrls.map((dataUrl, index) => dataUrlToFile(dataUrl, `image-${index + 1}`)));
+  return uploadAssets(files);
+};
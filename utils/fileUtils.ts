@@ -66,66 +66,39 @@ export const resizeImageToMatch = (sourceDataUrl: string, targetImage: HTMLImage
      });
 };
 
-
 /**
- * Converts a string to its binary representation.
- * @param text The string to convert.
- * @returns A string of 0s and 1s.
+ * Ensures a mask has the same pixel dimensions as the image it applies to.
+ * Masks that already match are returned unchanged; others are resized with resizeImageToMatch.
+ * @param maskDataUrl The data URL of the mask.
+ * @param imageUrl The data URL of the image the mask applies to.
+ * @returns A Promise that resolves with the data URL of the aligned mask.
  */
-const textToBinary = (text: string): string => {
-    return text.split('').map(char => {
-        return char.charCodeAt(0).toString(2).padStart(8, '0');
-    }).join('');
+export const alignMaskToImage = async (maskDataUrl: string, imageUrl: string): Promise<string> => {
+    const [mask, image] = await Promise.all([loadImage(maskDataUrl), loadImage(imageUrl)]);
+    if (mask.naturalWidth === image.naturalWidth && mask.naturalHeight === image.naturalHeight) {
+        return maskDataUrl;
+    }
+    console.warn(`Mask size ${mask.naturalWidth}x${mask.naturalHeight} does not match image size ${image.naturalWidth}x${image.naturalHeight}. Resizing mask.`);
+    return resizeImageToMatch(maskDataUrl, image);
 };
 
+
 /**
- * Embeds an invisible watermark into an image using steganography (LSB).
- * @param imageUrl The data URL of the image to watermark.
- * @param text The text to embed.
- * @returns A Promise that resolves with the data URL of the watermarked image.
+ * Builds a download filename that reflects the image's pixel size and format,
+ * e.g. `generated-image-1024x768-1700000000000.webp`.
+ * @param dataUrl The data URL of the image.
+ * @param prefix The filename prefix.
+ * @returns A Promise that resolves with the filename.
  */
-export const embedWatermark = (imageUrl: string, text: string): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            return reject(new Error("Could not get canvas context."));
-        }
-
-        const img = new Image();
-        img.crossOrigin = "anonymous";
-        img.onload = () => {
-            canvas.width = img.width;
-            canvas.height = img.height;
-            ctx.drawImage(img, 0, 0);
-
-            const watermarkText = text + "::END"; // Add a delimiter
-            const binaryMessage = textToBinary(watermarkText);
-            const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-            const data = imageData.data;
-
-            if (binaryMessage.length > data.length / 4 * 3) {
-                 console.warn("Watermark is too long for the image. Skipping.");
-                 return resolve(imageUrl); // Return original if too long
-            }
-
-            let messageIndex = 0;
-            for (let i = 0; i < data.length && messageIndex < binaryMessage.length; i += 4) {
-                // Embed in R, G, B channels
-                for (let j = 0; j < 3 && messageIndex < binaryMessage.length; j++) {
-                    const bit = parseInt(binaryMessage[messageIndex], 2);
-                    // Clear the LSB and then set it
-                    data[i + j] = (data[i + j] & 0xFE) | bit;
-                    messageIndex++;
-                }
-            }
-
-            ctx.putImageData(imageData, 0, 0);
-            resolve(canvas.toDataURL('image/png'));
-        };
-        img.onerror = () => reject(new Error("Failed to load image for watermarking."));
-        img.src = imageUrl;
-    });
+export const getImageFilename = async (dataUrl: string, prefix: string): Promise<string> => {
+    const subtype = dataUrl.split(';')[0].split('/')[1] || 'png';
+    const extension = subtype === 'jpeg' ? 'jpg' : subtype;
+    try {
+        const img = await loadImage(dataUrl);
+        return `${prefix}-${img.naturalWidth}x${img.naturalHeight}-${Date.now()}.${extension}`;
+    } catch {
+        return `${prefix}-${Date.now()}.${extension}`;
+    }
 };
 
 /**
@@ -0,0 +1,38 @@
+// 网络错误、服务端出错或首次请求仍在处理中时的最多重试次数
+const MAX_RETRIES = 2;
+// 重试间隔（毫秒），每次重试递增
+const RETRY_DELAY_MS = 1000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * 发送带 Idempotency-Key 请求头的 POST 请求
+ * 一次用户操作只生成一个幂等键，重试时使用同一个键和请求体：
+ * 服务端已处理成功时直接重放首次响应，不会重复扣费或重复创建订单
+ */
+export const postWithIdempotencyKey = async (
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<Response> => {
+  const idempotencyKey = crypto.randomUUID();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, 'Idempotency-Key': idempotencyKey },
+        body
+      });
+      // 409 表示相同的键仍在处理中（请求体相同，不会是冲突），稍后重试即可拿到结果
+      if ((response.status < 500 && response.status !== 409) || attempt >= MAX_RETRIES) {
+        return response;
+      }
+    } catch (error) {
+      if (attempt >= MAX_RETRIES) {
+        throw error;
+      }
+    }
+    await wait(RETRY_DELAY_MS * (attempt + 1));
+  }
+};
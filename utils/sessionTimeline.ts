@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * 时间线中的一个状态快照
+ */
+export interface TimelineEntry<T> {
+  id: number;
+  label: string;
+  snapshot: T;
+}
+
+interface SessionTimelineOptions<T> {
+  // 比较两个快照，返回变更类型；没有需要记录的变更时返回 null
+  describeChange: (previous: T, next: T) => string | null;
+  // 生成中等情况下暂停记录和撤销
+  disabled?: boolean;
+}
+
+// 连续的小改动（输入提示词、连续涂抹）合并为一条记录的等待时间（毫秒）
+const RECORD_DEBOUNCE_MS = 500;
+// 最多保留的记录数，快照中包含图片 data URL，需要限制内存占用
+const MAX_TIMELINE_ENTRIES = 50;
+
+/**
+ * 会话级撤销/重做时间线
+ * 监听快照变化并记录，撤销/重做时通过 restore 把状态恢复到对应快照
+ */
+export const useSessionTimeline = <T>(
+  snapshot: T,
+  restore: (snapshot: T) => void,
+  { describeChange, disabled = false }: SessionTimelineOptions<T>
+) => {
+  const nextIdRef = useRef(1);
+  const [timeline, setTimeline] = useState<{ entries: TimelineEntry<T>[]; index: number }>({
+    entries: [{ id: 0, label: 'start', snapshot }],
+    index: 0
+  });
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancelPendingRecord = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  useEffect(() => {
+    if (disabled) return;
+    cancelPendingRecord();
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      setTimeline(({ entries, index }) => {
+        // 恢复快照后的状态与当前记录相同，不会产生新记录
+        const label = describeChange(entries[index].snapshot, snapshot);
+        if (!label) return { entries, index };
+        const id = nextIdRef.current++;
+        // 在历史中间做了新改动时丢弃后面的重做记录
+        const next = [...entries.slice(0, index + 1), { id, label, snapshot }].slice(-MAX_TIMELINE_ENTRIES);
+        return { entries: next, index: next.length - 1 };
+      });
+    }, RECORD_DEBOUNCE_MS);
+    return cancelPendingRecord;
+  }, [snapshot, disabled, describeChange]);
+
+  const jumpTo = useCallback((index: number) => {
+    if (disabled || index < 0 || index >= timeline.entries.length) return;
+    cancelPendingRecord();
+    setTimeline(current => ({ ...current, index }));
+    restore(timeline.entries[index].snapshot);
+  }, [disabled, timeline, restore]);
+
+  const undo = useCallback(() => jumpTo(timeline.index - 1), [jumpTo, timeline.index]);
+  const redo = useCallback(() => jumpTo(timeline.index + 1), [jumpTo, timeline.index]);
+
+  // Ctrl/Cmd+Z 撤销，Ctrl/Cmd+Shift+Z 或 Ctrl+Y 重做；输入框内保留浏览器自带的文本撤销
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    entries: timeline.entries,
+    index: timeline.index,
+    canUndo: !disabled && timeline.index > 0,
+    canRedo: !disabled && timeline.index < timeline.entries.length - 1,
+    undo,
+    redo,
+    jumpTo
+  };
+};
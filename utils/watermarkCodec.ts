@@ -0,0 +1,71 @@
+/**
+ * 隐形水印（LSB）的编码和解码，由服务端在结果图片的原始像素（sharp）中写入和读取
+ *
+ * 水印文本按 UTF-8 编码后追加结束标记，逐位写入每个像素 R、G、B 通道的最低位。
+ * 只在无损格式（PNG）中有效，任何有损压缩或缩放都会破坏水印。
+ */
+
+// 水印文本的结束标记
+export const WATERMARK_DELIMITER = '::END';
+// 解码时最多读取的字节数，避免在没有水印的大图上扫描全部像素
+const MAX_WATERMARK_BYTES = 4096;
+
+const DELIMITER_BYTES = new TextEncoder().encode(WATERMARK_DELIMITER);
+
+type PixelData = Uint8Array | Uint8ClampedArray;
+
+/**
+ * 图片可容纳的水印字节数（含结束标记），channels 为每个像素的通道数（3 或 4）
+ */
+export const getLsbCapacity = (pixels: PixelData, channels = 4): number =>
+  Math.floor(((pixels.length / channels) * 3) / 8);
+
+/**
+ * 把水印写入像素数据（原地修改），图片容量不足时不做修改并返回 false
+ */
+export const embedLsbWatermark = (pixels: PixelData, text: string, channels = 4): boolean => {
+  const bytes = new TextEncoder().encode(text + WATERMARK_DELIMITER);
+  if (bytes.length > getLsbCapacity(pixels, channels)) {
+    return false;
+  }
+
+  let bitIndex = 0;
+  const totalBits = bytes.length * 8;
+  for (let i = 0; i < pixels.length && bitIndex < totalBits; i += channels) {
+    for (let j = 0; j < 3 && bitIndex < totalBits; j++) {
+      const bit = (bytes[bitIndex >> 3] >> (7 - (bitIndex & 7))) & 1;
+      pixels[i + j] = (pixels[i + j] & 0xfe) | bit;
+      bitIndex++;
+    }
+  }
+  return true;
+};
+
+/**
+ * 从像素数据中读取水印，找不到结束标记时返回 null
+ */
+export const extractLsbWatermark = (pixels: PixelData, channels = 4): string | null => {
+  const maxBytes = Math.min(getLsbCapacity(pixels, channels), MAX_WATERMARK_BYTES);
+  const bytes = new Uint8Array(maxBytes);
+
+  let byteIndex = 0;
+  let current = 0;
+  let bitCount = 0;
+  for (let i = 0; i < pixels.length && byteIndex < maxBytes; i += channels) {
+    for (let j = 0; j < 3 && byteIndex < maxBytes; j++) {
+      current = (current << 1) | (pixels[i + j] & 1);
+      if (++bitCount < 8) continue;
+
+      bytes[byteIndex++] = current;
+      current = 0;
+      bitCount = 0;
+
+      // 每读完一个字节检查是否以结束标记结尾
+      const start = byteIndex - DELIMITER_BYTES.length;
+      if (start >= 0 && DELIMITER_BYTES.every((byte, k) => bytes[start + k] === byte)) {
+        return new TextDecoder().decode(bytes.subarray(0, start));
+      }
+    }
+  }
+  return null;
+};
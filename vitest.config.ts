@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // 固定签名密钥，使签名结果在测试中可复现
+    env: {
+      WATERMARK_SECRET: 'test-watermark-secret'
+    },
+    // 每个测试文件使用独立的临时数据库
+    setupFiles: ['./vitest.setup.ts'],
+    // 水印检测需要遍历分块偏移，单核机器上较慢
+    testTimeout: 60000
+  }
+});
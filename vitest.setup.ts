@@ -0,0 +1,13 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+// 每个测试文件使用独立的临时数据库文件（普通语句和事务使用不同的连接，不能使用内存数据库）
+const databaseFile = path.join(os.tmpdir(), `test-${crypto.randomUUID()}.sqlite`);
+process.env.DATABASE_FILE = databaseFile;
+
+afterAll(async () => {
+  await Promise.all(['', '-wal', '-shm'].map(suffix => fs.rm(`${databaseFile}${suffix}`, { force: true })));
+});